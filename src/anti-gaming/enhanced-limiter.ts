@@ -5,6 +5,8 @@
 
 import { RateLimiter, RateLimitEntry } from '../core/rate-limiter';
 import { loadState, saveState } from '../persistence/storage';
+import { StorageAdapter, getDefaultStorageAdapter, readSetting, writeSetting } from '../persistence/adapter';
+import { scopedStorageKey, onProfileSessionChange } from '../core/profile-session';
 
 export interface EnhancedRateLimitEntry extends RateLimitEntry {
   gracePeriodUsed: boolean;
@@ -25,12 +27,19 @@ export class EnhancedRateLimiter extends RateLimiter {
   private readonly GRACE_PERIOD_MS = this.GRACE_PERIOD_DAYS * 24 * 60 * 60 * 1000;
   private readonly MAX_VIOLATIONS = 3;
   private autoSaveInterval: NodeJS.Timeout | null = null;
+  private unsubscribeSession: (() => void) | null = null;
+  private loadGeneration = 0;
+  private adapter: StorageAdapter;
+  // Resolves once the active profile's saved limits have been loaded
+  ready: Promise<void>;
 
-  constructor() {
+  constructor(adapter: StorageAdapter = getDefaultStorageAdapter()) {
     super();
+    this.adapter = adapter;
     this.enhancedLimits = new Map();
-    this.loadLimits();
+    this.ready = this.loadLimits();
     this.startAutoSave();
+    this.unsubscribeSession = onProfileSessionChange((_next, previous) => this.switchProfile(previous));
   }
 
   /**
@@ -191,24 +200,20 @@ export class EnhancedRateLimiter extends RateLimiter {
   }
 
   /**
-   * Save limits to persistence
+   * Save limits to persistence, under the active profile unless a namespace is given.
+   * The limits are captured when called, so a profile switch right after cannot change them.
    */
-  saveLimits(): void {
+  async saveLimits(namespace?: string | null): Promise<void> {
+    const key = scopedStorageKey('rateLimits', namespace);
+    // Convert Map to array for serialization
+    const serializable = {
+      entries: Array.from(this.enhancedLimits.entries()),
+      globalViolations: this.globalViolations,
+      lastSaved: Date.now()
+    };
+
     try {
-      const state: RateLimitState = {
-        entries: this.enhancedLimits,
-        globalViolations: this.globalViolations,
-        lastSaved: Date.now()
-      };
-
-      // Convert Map to array for serialization
-      const serializable = {
-        entries: Array.from(state.entries.entries()),
-        globalViolations: state.globalViolations,
-        lastSaved: state.lastSaved
-      };
-
-      localStorage.setItem('rateLimits', JSON.stringify(serializable));
+      await writeSetting(this.adapter, key, serializable);
       console.debug('Rate limits saved');
     } catch (error) {
       console.error('Failed to save rate limits:', error);
@@ -216,35 +221,46 @@ export class EnhancedRateLimiter extends RateLimiter {
   }
 
   /**
-   * Load limits from persistence
+   * Load the active profile's limits from persistence. Entries recorded while
+   * loading are kept, and a load overtaken by a profile switch is dropped.
    */
-  loadLimits(): void {
+  async loadLimits(): Promise<void> {
+    const key = scopedStorageKey('rateLimits');
+    const generation = ++this.loadGeneration;
+
     try {
-      const saved = localStorage.getItem('rateLimits');
-      
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        
-        // Convert array back to Map
-        this.enhancedLimits = new Map(parsed.entries);
-        this.globalViolations = parsed.globalViolations || 0;
-        
+      const saved = await readSetting<{
+        entries: Array<[string, EnhancedRateLimitEntry]>;
+        globalViolations?: number;
+      }>(this.adapter, key);
+
+      if (saved && generation === this.loadGeneration) {
         // Clean up old entries (older than 60 days)
         const sixtyDaysAgo = Date.now() - (60 * 24 * 60 * 60 * 1000);
-        for (const [key, entry] of this.enhancedLimits) {
-          if (entry.lastAttestation < sixtyDaysAgo) {
-            this.enhancedLimits.delete(key);
+        for (const [entryKey, entry] of saved.entries) {
+          if (entry.lastAttestation >= sixtyDaysAgo && !this.enhancedLimits.has(entryKey)) {
+            this.enhancedLimits.set(entryKey, entry);
           }
         }
-        
+        this.globalViolations += saved.globalViolations || 0;
+
         console.debug(`Loaded ${this.enhancedLimits.size} rate limit entries`);
       }
     } catch (error) {
       console.error('Failed to load rate limits:', error);
-      this.enhancedLimits = new Map();
     }
   }
 
+  /**
+   * Flush the previous profile's limits and load the new active profile's
+   */
+  private switchProfile(previous: string | null): void {
+    this.saveLimits(previous);
+    this.enhancedLimits = new Map();
+    this.globalViolations = 0;
+    this.ready = this.loadLimits();
+  }
+
   /**
    * Start auto-save interval
    */
@@ -318,6 +334,10 @@ export class EnhancedRateLimiter extends RateLimiter {
    * Clean up and destroy
    */
   destroy(): void {
+    if (this.unsubscribeSession) {
+      this.unsubscribeSession();
+      this.unsubscribeSession = null;
+    }
     this.stopAutoSave();
     this.saveLimits();
   }
@@ -4,6 +4,7 @@
  */
 
 import { Transaction, AttestationData } from '../core/types';
+import { ChainIndex } from '../core/chain-index';
 import { QuestionAttestation } from '../questions/types';
 
 export interface CollusionReport {
@@ -42,6 +43,14 @@ export class PatternDetector {
   private readonly COLLUSION_THRESHOLD = 0.8; // 80% similarity
   private readonly SYBIL_THRESHOLD = 0.9;     // 90% similarity
   private readonly TIME_WINDOW_MS = 60000;    // 1 minute for time clustering
+  private index?: ChainIndex;
+
+  /**
+   * @param index Chain index to read attestations from when no history is passed
+   */
+  constructor(index?: ChainIndex) {
+    this.index = index;
+  }
 
   /**
    * Detect collusion between users
@@ -107,18 +116,14 @@ export class PatternDetector {
 
   /**
    * Detect Sybil attacks
+   * Without transactions, reads each user's attestations from the chain index
    */
-  detectSybilPatterns(transactions: Transaction[]): SybilReport {
+  detectSybilPatterns(transactions?: Transaction[]): SybilReport {
     const patterns: string[] = [];
     const suspectedSybils: string[] = [];
     
     // Group transactions by user
-    const userTransactions = new Map<string, Transaction[]>();
-    for (const tx of transactions) {
-      const txs = userTransactions.get(tx.attesterPubkey) || [];
-      txs.push(tx);
-      userTransactions.set(tx.attesterPubkey, txs);
-    }
+    const userTransactions = this.groupTransactionsByUser(transactions);
 
     // Look for similar transaction patterns
     const users = Array.from(userTransactions.keys());
@@ -175,10 +180,13 @@ export class PatternDetector {
 
   /**
    * Detect gaming strategies for a specific user
+   * Without history, reads the user's attestations from the chain index
    */
-  detectGamingStrategies(userId: string, history: Transaction[]): StrategyReport {
+  detectGamingStrategies(userId: string, history?: Transaction[]): StrategyReport {
     const strategies: GamingStrategy[] = [];
-    const userTxs = history.filter(tx => tx.attesterPubkey === userId);
+    const userTxs = history
+      ? history.filter(tx => tx.attesterPubkey === userId)
+      : this.index?.getAttestationsByUser(userId) ?? [];
     
     if (userTxs.length < 3) {
       return {
@@ -664,6 +672,28 @@ export class PatternDetector {
     return recommendations;
   }
 
+  /**
+   * Group transactions by signing key, from the given list or the chain index
+   */
+  private groupTransactionsByUser(transactions?: Transaction[]): Map<string, Transaction[]> {
+    const grouped = new Map<string, Transaction[]>();
+    
+    if (!transactions) {
+      for (const user of this.index?.getAttesters() ?? []) {
+        grouped.set(user, this.index!.getAttestationsByUser(user));
+      }
+      return grouped;
+    }
+    
+    for (const tx of transactions) {
+      const txs = grouped.get(tx.attesterPubkey) || [];
+      txs.push(tx);
+      grouped.set(tx.attesterPubkey, txs);
+    }
+    
+    return grouped;
+  }
+
   /**
    * Group attestations by user
    */
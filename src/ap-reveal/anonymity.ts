@@ -4,6 +4,7 @@
  */
 
 import { sha256 } from '../core/crypto';
+import { canonicalStringify } from '../core/canonical';
 
 export class AnonymityProvider {
   private usedSignatures: Set<string> = new Set();
@@ -58,7 +59,7 @@ export class AnonymityProvider {
     // Check if signature has been used
     if (this.usedSignatures.has(signature)) {
       // Allow if it's for the same data (idempotency)
-      const dataHash = sha256(JSON.stringify(data));
+      const dataHash = sha256(canonicalStringify(data));
       const existingDataHash = this.getDataHashForSignature(signature);
       
       if (dataHash === existingDataHash) {
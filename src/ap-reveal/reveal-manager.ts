@@ -10,6 +10,7 @@ import {
   RevealImpact 
 } from './types';
 import { AnonymityProvider } from './anonymity';
+import { canonicalStringify } from '../core/canonical';
 import { QuestionDistribution } from '../core/consensus';
 import { EnhancedBlockchain } from '../core/enhanced-blockchain';
 import { errorHandler } from '../error/error-handler';
@@ -270,7 +271,7 @@ export class APRevealManager {
    */
   private generateTransactionHash(reveal: APRevealData): string {
     // Simple hash generation - in production would use proper crypto
-    const data = JSON.stringify(reveal);
+    const data = canonicalStringify(reveal);
     return Array.from(data)
       .reduce((hash, char) => ((hash << 5) - hash) + char.charCodeAt(0), 0)
       .toString(16);
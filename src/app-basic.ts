@@ -26,6 +26,7 @@ async function startApp() {
       <div id="profile-section" style="background: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
         <h2>Create Profile</h2>
         <input type="text" id="username" placeholder="Enter username" style="padding: 8px; width: 200px;">
+        <input type="password" id="passphrase" placeholder="Passphrase (8+ characters)" style="padding: 8px; width: 200px; margin-left: 10px;">
         <button id="create-profile" style="padding: 8px 16px; margin-left: 10px;">Create Profile</button>
         <div id="profile-info" style="margin-top: 10px;"></div>
       </div>
@@ -56,16 +57,21 @@ async function startApp() {
 function setupEventHandlers() {
   const createButton = document.getElementById('create-profile');
   const usernameInput = document.getElementById('username') as HTMLInputElement;
+  const passphraseInput = document.getElementById('passphrase') as HTMLInputElement;
   
   createButton?.addEventListener('click', async () => {
     const username = usernameInput?.value.trim();
+    const passphrase = passphraseInput?.value || '';
     if (!username) {
       alert('Please enter a username');
       return;
     }
     
     try {
-      const profile = await API.createUser(username);
+      const profile = await API.createUser(username, passphrase);
+      if (passphraseInput) {
+        passphraseInput.value = '';
+      }
       
       if (profile) {
         const profileInfo = document.getElementById('profile-info');
@@ -84,7 +90,7 @@ function setupEventHandlers() {
         }
         updateBlockchainInfo();
       } else {
-        alert('Failed to create profile. Username may already exist.');
+        alert('Failed to create profile. Username may already exist, or the passphrase is too short.');
       }
     } catch (error) {
       console.error('Error creating profile:', error);
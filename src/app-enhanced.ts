@@ -10,6 +10,7 @@ import { initializeChart } from './utils/chartHelpers';
 import { observeChart } from './ui/charts';
 import { queueMathRendering, renderChoiceMath } from './renderer/mathRenderer';
 import { EnhancedBlockchain } from './core/enhanced-blockchain';
+import { serializeProfile } from './core/profile';
 import QRCode from 'qrcode';
 import { Html5Qrcode } from 'html5-qrcode';
 
@@ -1151,9 +1152,18 @@ function updateProfileSection() {
     profileContent.innerHTML = `
       <div>
         <input type="text" id="username" placeholder="Enter username" style="padding: 8px; width: 200px; margin-right: 10px;">
+        <input type="password" id="passphrase" placeholder="Passphrase (8+ characters)" style="padding: 8px; width: 200px; margin-right: 10px;">
         <button onclick="window.createProfile()" style="padding: 8px 16px; background: #4CAF50; color: white; border: none; border-radius: 6px; cursor: pointer;">
           Create Profile
         </button>
+        <details style="margin-top: 15px;">
+          <summary style="cursor: pointer;">Recover existing profile</summary>
+          <textarea id="seedphrase" rows="2" placeholder="Enter your seed phrase" style="padding: 8px; width: 100%; margin-top: 10px; box-sizing: border-box;"></textarea>
+          <button onclick="window.recoverProfile()" style="padding: 8px 16px; margin-top: 10px; background: #2196F3; color: white; border: none; border-radius: 6px; cursor: pointer;">
+            Recover Profile
+          </button>
+          <div id="seedphrase-feedback" style="margin-top: 10px; color: #c62828;"></div>
+        </details>
       </div>
     `;
   }
@@ -1161,6 +1171,7 @@ function updateProfileSection() {
   // Profile functions
   (window as any).createProfile = async () => {
     const usernameInput = document.getElementById('username') as HTMLInputElement;
+    const passphraseInput = document.getElementById('passphrase') as HTMLInputElement;
     const username = usernameInput?.value.trim();
     
     if (!username) {
@@ -1169,14 +1180,15 @@ function updateProfileSection() {
     }
     
     try {
-      const profile = await API.createUser(username);
+      const profile = await API.createUser(username, passphraseInput?.value || '');
       if (profile) {
-        localStorage.setItem('userProfile', JSON.stringify(profile));
+        // Only the public part is kept in localStorage; keys are stored encrypted
+        localStorage.setItem('userProfile', serializeProfile(profile));
         updateProfileSection();
         updateBlockchainInfo();
         alert(`Profile created! Save your seed phrase:\n\n${profile.seedphrase}`);
       } else {
-        alert('Failed to create profile. Username may already exist.');
+        alert('Failed to create profile. Username may already exist, or the passphrase is too short.');
       }
     } catch (error) {
       console.error('Error creating profile:', error);
@@ -1184,6 +1196,47 @@ function updateProfileSection() {
     }
   };
   
+  (window as any).recoverProfile = async () => {
+    const usernameInput = document.getElementById('username') as HTMLInputElement;
+    const passphraseInput = document.getElementById('passphrase') as HTMLInputElement;
+    const seedInput = document.getElementById('seedphrase') as HTMLTextAreaElement;
+    const feedback = document.getElementById('seedphrase-feedback');
+    const username = usernameInput?.value.trim();
+    const seedphrase = seedInput?.value || '';
+    
+    if (!username) {
+      alert('Please enter a username');
+      return;
+    }
+    
+    // Reject mistyped phrases before deriving keys, with closest-word hints
+    const validation = await API.validateSeedphrase(seedphrase);
+    if (!validation.valid) {
+      if (feedback) {
+        const hints = validation.invalidWords.map(w =>
+          `<li>Word ${w.index + 1} "${w.word}"${w.suggestions.length > 0 ? ` - did you mean <strong>${w.suggestions.join('</strong>, <strong>')}</strong>?` : ''}</li>`
+        ).join('');
+        feedback.innerHTML = `<p>${validation.error}</p>${hints ? `<ul>${hints}</ul>` : ''}`;
+      }
+      return;
+    }
+    
+    try {
+      const profile = await API.recoverUser(username, seedphrase, passphraseInput?.value || '');
+      if (profile) {
+        localStorage.setItem('userProfile', serializeProfile(profile));
+        updateProfileSection();
+        updateBlockchainInfo();
+        alert(`Profile recovered for ${profile.username}.`);
+      } else {
+        alert('Failed to recover profile. Check console for details.');
+      }
+    } catch (error) {
+      console.error('Error recovering profile:', error);
+      alert('Error recovering profile. Check console for details.');
+    }
+  };
+  
   (window as any).createNewProfile = () => {
     if (confirm('This will create a new profile. Your current profile will be lost unless you saved the seed phrase. Continue?')) {
       localStorage.removeItem('userProfile');
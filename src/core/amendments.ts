@@ -0,0 +1,103 @@
+// Attestation Amendments
+// A student who misclicks can take an attestation back within a short grace
+// window instead of waiting out the 30-day rate limit. AmendAttestation
+// replaces the answer and keeps the rate limit; RetractAttestation withdraws
+// it and frees the rate limit. Both name the original Attestation by hash and
+// must be signed by the same identity. The window is measured between signed
+// timestamps, so replaying the chain reaches the same verdicts.
+import { Transaction, AttestationData, AmendAttestationData, RetractAttestationData } from './types.js';
+
+export const ATTESTATION_GRACE_PERIOD_MS = 15 * 60 * 1000;
+
+// What revisions of one original attestation are checked against
+export interface RevisionTarget {
+  attestationHash: string;
+  identityId: string;       // Identity that signed the original
+  questionId: string;
+  timestamp: number;        // Of the original; the grace window starts here
+  kind: AnswerKind;
+  retracted: boolean;
+}
+
+export type AnswerKind = 'mcq' | 'frq' | 'multi-select' | 'numeric' | 'short-answer';
+
+// Payload field carrying each kind of answer
+const ANSWER_FIELDS: Array<[AnswerKind, keyof AttestationData & keyof AmendAttestationData]> = [
+  ['mcq', 'answerHash'],
+  ['frq', 'answerText'],
+  ['multi-select', 'selectionHash'],
+  ['numeric', 'answerValue'],
+  ['short-answer', 'shortAnswer']
+];
+
+// Kinds of answer a payload carries
+const answerKinds = (data: AttestationData | AmendAttestationData): AnswerKind[] => {
+  return ANSWER_FIELDS.filter(([, field]) => data[field] !== undefined).map(([kind]) => kind);
+};
+
+export const isRevisionTransaction = (tx: Transaction): boolean => {
+  return tx.txType === 'AmendAttestation' || tx.txType === 'RetractAttestation';
+};
+
+// Check the payload shape of amendments and retractions; needs no chain state
+export const validateRevisionData = (tx: Transaction): string | null => {
+  if (!isRevisionTransaction(tx)) {
+    return null;
+  }
+  
+  const data = tx.data as AmendAttestationData | RetractAttestationData;
+  if (typeof data.attestationHash !== 'string' || data.attestationHash.length === 0) {
+    return `${tx.txType} must name the attestation it revises`;
+  }
+  if (tx.txType === 'AmendAttestation') {
+    if (answerKinds(tx.data as AmendAttestationData).length !== 1) {
+      return 'AmendAttestation must carry exactly one answer';
+    }
+  }
+  
+  return null;
+};
+
+// Target record for an original Attestation signed by identityId
+export const revisionTargetFor = (tx: Transaction, identityId: string): RevisionTarget => {
+  const data = tx.data as AttestationData;
+  return {
+    attestationHash: tx.hash,
+    identityId,
+    questionId: data.questionId,
+    timestamp: tx.timestamp,
+    kind: answerKinds(data)[0] ?? 'frq',
+    retracted: false
+  };
+};
+
+// Reason a revision may not be applied to its target, or null if it may
+export const checkRevision = (
+  tx: Transaction,
+  target: RevisionTarget | undefined,
+  identityId: string
+): string | null => {
+  if (!target) {
+    return 'Revised attestation not found';
+  }
+  if (target.identityId !== identityId) {
+    return 'Only the original attester can revise an attestation';
+  }
+  if (target.retracted) {
+    return 'Attestation has already been retracted';
+  }
+  
+  const elapsed = tx.timestamp - target.timestamp;
+  if (elapsed < 0 || elapsed > ATTESTATION_GRACE_PERIOD_MS) {
+    return `Attestations can only be revised within ${ATTESTATION_GRACE_PERIOD_MS / 60000} minutes`;
+  }
+  
+  if (tx.txType === 'AmendAttestation') {
+    const kind = answerKinds(tx.data as AmendAttestationData)[0];
+    if (kind !== target.kind) {
+      return 'An amendment must answer the same kind of question';
+    }
+  }
+  
+  return null;
+};
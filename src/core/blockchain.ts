@@ -1,6 +1,53 @@
 // Blockchain Function Atoms - Phase 1
-import { Block, Transaction, TransactionData, MiningResult } from './types.js';
+import { Block, Transaction, TransactionData, TransactionType, MiningResult, ReorgEvent, ReorgListener } from './types.js';
 import { sha256Hash, signData, validateSignature, getCurrentTimestamp } from './crypto.js';
+import {
+  computeMerkleRoot,
+  buildMerklePath,
+  getMerklePathLength,
+  verifyInclusionProof,
+  InclusionProof
+} from './merkle.js';
+import { canonicalStringify } from './canonical.js';
+import { Mempool, MempoolChange, MempoolListener, MempoolPolicy } from './mempool.js';
+import { IdentityRegistry, IdentityRecord, validateKeyChangeData } from './identity.js';
+import { ChainIndex } from './chain-index.js';
+import { DisplayProfile, DisplayProfileRegistry, validateProfileUpdateData } from './display-names.js';
+import { ClassRecord, validateClassData } from './classes.js';
+import { validateRevisionData } from './amendments.js';
+import { keySession } from './keystore.js';
+import {
+  CHECKPOINT_VERSION,
+  ChainCheckpoint,
+  CheckpointState,
+  checkpointMatchesChain,
+  signCheckpoint,
+  verifyCheckpointSignature
+} from './checkpoint.js';
+import { calculateHeaderHash, findNonce, isMiningAborted, MiningOptions } from './miner.js';
+import {
+  DEFAULT_DIFFICULTY,
+  DifficultyPolicy,
+  calculateBlockWork,
+  calculateRequiredDifficulty,
+  getBlockDifficulty,
+  getChainDifficultyPolicy,
+  meetsDifficulty,
+  validateDifficultyPolicyData
+} from './difficulty.js';
+
+export { calculateHeaderHash } from './miner.js';
+export type { MiningOptions, MiningProgress } from './miner.js';
+export { DEFAULT_DIFFICULTY, getBlockDifficulty } from './difficulty.js';
+export type { DifficultyPolicy } from './difficulty.js';
+export type { MempoolChange, MempoolListener, MempoolPolicy } from './mempool.js';
+export { IdentityRegistry } from './identity.js';
+export { ChainIndex } from './chain-index.js';
+export type { IdentityRecord } from './identity.js';
+export type { DisplayProfile } from './display-names.js';
+export type { ClassRecord } from './classes.js';
+export { DEFAULT_CHECKPOINT_INTERVAL } from './checkpoint.js';
+export type { ChainCheckpoint, CheckpointState } from './checkpoint.js';
 
 // Genesis block constant
 const GENESIS_BLOCK: Block = {
@@ -11,10 +58,18 @@ const GENESIS_BLOCK: Block = {
   transactions: []
 };
 
-// Proof of Work difficulty - hash must start with '00'
-const POW_PREFIX = '00';
+// Block header versions
+// v1: hash covers the serialized transactions (legacy chains)
+// v2: hash covers a Merkle root over transaction hashes
+// v3: v2 plus the difficulty the block was mined at
+// v4: v3 with leaves and inner nodes of the Merkle tree hashed under distinct prefixes
+export const LEGACY_BLOCK_VERSION = 1;
+export const MERKLE_BLOCK_VERSION = 2;
+export const DIFFICULTY_BLOCK_VERSION = 3;
+export const BLOCK_VERSION = 4;
 
-// Calculate block hash
+// Calculate block hash (v1 legacy format)
+// Frozen on JSON.stringify so existing v1 block hashes keep verifying
 export const calculateBlockHash = async (
   prevHash: string,
   timestamp: number,
@@ -25,39 +80,58 @@ export const calculateBlockHash = async (
   return await sha256Hash(data);
 };
 
+// Header version of a block; blocks without one predate Merkle roots
+export const getBlockVersion = (block: Block): number => {
+  return block.version ?? LEGACY_BLOCK_VERSION;
+};
+
+// Whether a block's Merkle tree uses domain-separated hashing: v2/v3 roots predate it,
+// and trees over legacy blocks, which commit to no root, are always built with it
+const isDomainSeparated = (block: Block): boolean => {
+  const version = getBlockVersion(block);
+  return version !== MERKLE_BLOCK_VERSION && version !== DIFFICULTY_BLOCK_VERSION;
+};
+
 // Mine a new block with Proof of Work
+// The nonce search runs in a Web Worker when available; pass a signal to cancel
 export const mineBlock = async (
   prevHash: string,
-  transactions: Transaction[]
+  transactions: Transaction[],
+  options: MiningOptions = {},
+  difficulty: number = DEFAULT_DIFFICULTY,
+  timestamp: number = getCurrentTimestamp()
 ): Promise<MiningResult> => {
-  const timestamp = getCurrentTimestamp();
-  let nonce = 0;
-  let hash = '';
+  const merkleRoot = await computeMerkleRoot(transactions);
   
-  // Mine until we find a hash with the required prefix
-  while (!hash.startsWith(POW_PREFIX)) {
-    hash = await calculateBlockHash(prevHash, timestamp, transactions, nonce);
-    nonce++;
-  }
+  // Mine until we find a hash with enough leading zero bits
+  const outcome = await findNonce(
+    { version: BLOCK_VERSION, prevHash, timestamp, merkleRoot, difficulty },
+    options
+  );
   
   const block: Block = {
-    hash,
+    hash: outcome.hash,
     prevHash,
     timestamp,
-    nonce: nonce - 1,
-    transactions
+    nonce: outcome.nonce,
+    transactions,
+    version: BLOCK_VERSION,
+    merkleRoot,
+    difficulty
   };
   
-  return { block, nonce: nonce - 1 };
+  return { block, nonce: outcome.nonce, hashes: outcome.hashes, hashrate: outcome.hashrate };
 };
 
 // Create a transaction
+// Signs with the attester's key from the unlocked session unless a key is passed explicitly
 export const createTransaction = async (
-  txType: 'CreateUser' | 'Attestation',
+  txType: TransactionType,
   data: TransactionData,
   attesterPubkey: string,
-  privkey: string
+  privkey?: string
 ): Promise<Transaction> => {
+  const signingKey = privkey ?? keySession.requireKey(attesterPubkey);
   const timestamp = getCurrentTimestamp();
   const txData = {
     txType,
@@ -66,9 +140,10 @@ export const createTransaction = async (
     data
   };
   
-  const dataString = JSON.stringify(txData);
+  // Canonical form survives key reordering during sync round trips
+  const dataString = canonicalStringify(txData);
   const hash = await sha256Hash(dataString);
-  const signature = await signData(dataString, privkey);
+  const signature = await signData(dataString, signingKey);
   
   return {
     hash,
@@ -81,9 +156,23 @@ export const createTransaction = async (
 };
 
 // Validate a transaction
-export const validateTransaction = async (tx: Transaction): Promise<boolean> => {
+// With identities, also reject keys that were rotated away or revoked and
+// key changes that clash with existing identities
+export const validateTransaction = async (
+  tx: Transaction,
+  identities?: IdentityRegistry
+): Promise<boolean> => {
   try {
-    // Verify signature
+    const dataError = validateKeyChangeData(tx) ??
+      validateProfileUpdateData(tx) ??
+      validateClassData(tx) ??
+      validateDifficultyPolicyData(tx) ??
+      validateRevisionData(tx);
+    if (dataError) {
+      console.error(`${dataError}:`, tx.hash);
+      return false;
+    }
+    
     const txData = {
       txType: tx.txType,
       timestamp: tx.timestamp,
@@ -91,7 +180,17 @@ export const validateTransaction = async (tx: Transaction): Promise<boolean> =>
       data: tx.data
     };
     
-    const dataString = JSON.stringify(txData);
+    // Verify hash; transactions signed before canonical serialization
+    // used insertion-ordered JSON and are still accepted in that form
+    let dataString = canonicalStringify(txData);
+    if (await sha256Hash(dataString) !== tx.hash) {
+      dataString = JSON.stringify(txData);
+      if (await sha256Hash(dataString) !== tx.hash) {
+        console.error('Hash mismatch for transaction:', tx.hash);
+        return false;
+      }
+    }
+    
     const isSignatureValid = await validateSignature(
       tx.signature,
       tx.attesterPubkey,
@@ -103,10 +202,9 @@ export const validateTransaction = async (tx: Transaction): Promise<boolean> =>
       return false;
     }
     
-    // Verify hash
-    const calculatedHash = await sha256Hash(dataString);
-    if (calculatedHash !== tx.hash) {
-      console.error('Hash mismatch for transaction:', tx.hash);
+    const conflict = identities?.check(tx);
+    if (conflict) {
+      console.error(`${conflict}:`, tx.hash);
       return false;
     }
     
@@ -118,9 +216,13 @@ export const validateTransaction = async (tx: Transaction): Promise<boolean> =>
 };
 
 // Validate a block
+// requiredDifficulty comes from the chain's difficulty policy; mining harder is allowed.
+// identities, if given, is the identity state before this block and is not modified.
 export const validateBlock = async (
   block: Block,
-  prevBlock: Block | null
+  prevBlock: Block | null,
+  requiredDifficulty: number = DEFAULT_DIFFICULTY,
+  identities?: IdentityRegistry
 ): Promise<boolean> => {
   // Check genesis block
   if (!prevBlock && block.hash === GENESIS_BLOCK.hash) {
@@ -133,46 +235,113 @@ export const validateBlock = async (
     return false;
   }
   
-  // Verify block hash
-  const calculatedHash = await calculateBlockHash(
-    block.prevHash,
-    block.timestamp,
-    block.transactions,
-    block.nonce
-  );
+  // Verify block hash according to the header version
+  const version = getBlockVersion(block);
+  if (prevBlock && version < getBlockVersion(prevBlock)) {
+    console.error('Block version may not decrease along the chain');
+    return false;
+  }
+  
+  let calculatedHash: string;
+  
+  if (version === LEGACY_BLOCK_VERSION) {
+    calculatedHash = await calculateBlockHash(
+      block.prevHash,
+      block.timestamp,
+      block.transactions,
+      block.nonce
+    );
+  } else if (version >= MERKLE_BLOCK_VERSION && version <= BLOCK_VERSION) {
+    // Verify the Merkle root commits to exactly these transactions
+    const merkleRoot = await computeMerkleRoot(block.transactions, isDomainSeparated(block));
+    if (merkleRoot !== block.merkleRoot) {
+      console.error('Merkle root mismatch');
+      return false;
+    }
+    
+    if (version >= DIFFICULTY_BLOCK_VERSION && !Number.isInteger(block.difficulty)) {
+      console.error('Block header is missing its difficulty');
+      return false;
+    }
+    
+    calculatedHash = await calculateHeaderHash(
+      version,
+      block.prevHash,
+      block.timestamp,
+      merkleRoot,
+      block.nonce,
+      block.difficulty
+    );
+  } else {
+    console.error(`Unsupported block version: ${version}`);
+    return false;
+  }
   
   if (calculatedHash !== block.hash) {
     console.error('Block hash mismatch');
     return false;
   }
   
-  // Verify Proof of Work
-  if (!block.hash.startsWith(POW_PREFIX)) {
+  // Verify Proof of Work against the difficulty the header claims
+  const difficulty = getBlockDifficulty(block);
+  if (!meetsDifficulty(block.hash, difficulty)) {
     console.error('Invalid Proof of Work');
     return false;
   }
   
+  if (difficulty < requiredDifficulty) {
+    console.error(`Block difficulty ${difficulty} is below the required ${requiredDifficulty}`);
+    return false;
+  }
+  
   // Verify timestamp ordering
   if (prevBlock && block.timestamp <= prevBlock.timestamp) {
     console.error('Invalid timestamp ordering');
     return false;
   }
   
-  // Validate all transactions
+  // Validate all transactions; key changes take effect for later transactions in the block
+  const context = identities?.clone();
   for (const tx of block.transactions) {
-    const isValid = await validateTransaction(tx);
+    const isValid = await validateTransaction(tx, context);
     if (!isValid) {
       return false;
     }
+    context?.apply(tx);
   }
   
   return true;
 };
 
+// Cumulative proof-of-work of a chain: expected hashes summed over its blocks
+export const calculateChainWork = (blocks: Block[]): number => {
+  return blocks.reduce((work, block) => work + calculateBlockWork(block), 0);
+};
+
 // Blockchain class
 export class Blockchain {
-  private chain: Block[] = [GENESIS_BLOCK];
-  private pendingTransactions: Transaction[] = [];
+  protected chain: Block[] = [GENESIS_BLOCK];
+  protected mempool: Mempool;
+  // Identities across the active chain and the pending pool
+  protected identities: IdentityRegistry = new IdentityRegistry();
+  // Identities from mined blocks only; the state the next block is validated against
+  private chainIdentities: IdentityRegistry = new IdentityRegistry();
+  // Lookup tables over the active chain, updated block by block
+  protected index: ChainIndex = new ChainIndex();
+  // Every validated block seen, including side branches, keyed by hash
+  private knownBlocks: Map<string, Block> = new Map([[GENESIS_BLOCK.hash, GENESIS_BLOCK]]);
+  private reorgListeners: ReorgListener[] = [];
+  private miningController: AbortController | null = null;
+  private mempoolListeners: MempoolListener[] = [];
+  // Trusted snapshot on the active chain; blocks up to it were not re-verified on load
+  protected checkpoint: ChainCheckpoint | null = null;
+  // Display profiles resolved from the active chain, rebuilt when the tip changes
+  private displayProfiles: { tipHash: string; registry: DisplayProfileRegistry } | null = null;
+  
+  constructor(mempoolPolicy: Partial<MempoolPolicy> = {}) {
+    this.mempool = new Mempool(mempoolPolicy);
+    this.index.addBlock(GENESIS_BLOCK);
+  }
   
   // Get the entire chain
   getChain(): Block[] {
@@ -186,86 +355,575 @@ export class Blockchain {
   
   // Add a transaction to pending pool
   async addTransaction(transaction: Transaction): Promise<boolean> {
-    const isValid = await validateTransaction(transaction);
+    const isValid = await validateTransaction(transaction, this.identities);
     if (!isValid) {
       return false;
     }
     
-    // Check for duplicate transactions
-    const exists = this.pendingTransactions.some(tx => tx.hash === transaction.hash);
-    if (exists) {
+    // Check for duplicate transactions, pending or already mined
+    if (this.mempool.has(transaction.hash) || this.isTransactionOnChain(transaction.hash)) {
       console.error('Duplicate transaction');
       return false;
     }
     
-    this.pendingTransactions.push(transaction);
+    const change = this.mempool.add(transaction);
+    if (!this.mempool.has(transaction.hash)) {
+      console.error('Transaction expired or pending pool is full');
+      return false;
+    }
+    this.identities.apply(transaction);
+    await this.notifyMempoolChange(change);
+    
+    // Restart any in-progress mining so the new transaction is included
+    this.miningController?.abort();
     return true;
   }
   
   // Mine pending transactions into a new block
-  async minePendingTransactions(): Promise<Block | null> {
-    if (this.pendingTransactions.length === 0) {
-      console.log('No pending transactions to mine');
-      return null;
+  // Mining restarts with the fresh pool when transactions arrive mid-search;
+  // aborting options.signal cancels it and resolves to null
+  async minePendingTransactions(options: MiningOptions = {}): Promise<Block | null> {
+    while (true) {
+      if (options.signal?.aborted) {
+        console.log('Mining cancelled');
+        return null;
+      }
+      
+      await this.pruneExpiredTransactions();
+      if (this.mempool.size === 0) {
+        console.log('No pending transactions to mine');
+        return null;
+      }
+      
+      const latestBlock = this.getLatestBlock();
+      const transactions = this.mempool.getTransactions();
+      const timestamp = getCurrentTimestamp();
+      const difficulty = calculateRequiredDifficulty(this.chain);
+      const controller = new AbortController();
+      const forwardAbort = () => controller.abort();
+      options.signal?.addEventListener('abort', forwardAbort);
+      this.miningController = controller;
+      
+      let block: Block;
+      try {
+        ({ block } = await mineBlock(
+          latestBlock.hash,
+          transactions,
+          { ...options, signal: controller.signal },
+          difficulty,
+          timestamp
+        ));
+      } catch (error) {
+        if (!isMiningAborted(error)) {
+          throw error;
+        }
+        if (options.signal?.aborted) {
+          console.log('Mining cancelled');
+          return null;
+        }
+        console.log('New transactions arrived; restarting mining');
+        continue;
+      } finally {
+        options.signal?.removeEventListener('abort', forwardAbort);
+        this.miningController = null;
+      }
+      
+      // A peer block or reorg moved the tip while mining; mine again on top of it
+      if (this.getLatestBlock().hash !== latestBlock.hash) {
+        continue;
+      }
+      
+      // Validate the new block
+      const isValid = await validateBlock(block, latestBlock, difficulty, this.chainIdentities);
+      if (!isValid) {
+        console.error('Mined block validation failed');
+        return null;
+      }
+      
+      this.chain.push(block);
+      this.index.addBlock(block);
+      block.transactions.forEach(tx => this.chainIdentities.apply(tx));
+      this.knownBlocks.set(block.hash, block);
+      
+      await this.notifyMempoolChange(this.mempool.remove(transactions.map(tx => tx.hash)));
+      
+      return block;
+    }
+  }
+  
+  // Subscribe to chain reorganizations; returns an unsubscribe function
+  onReorg(listener: ReorgListener): () => void {
+    this.reorgListeners.push(listener);
+    return () => {
+      this.reorgListeners = this.reorgListeners.filter(l => l !== listener);
+    };
+  }
+  
+  // Subscribe to pending pool changes (e.g. to persist it); returns an unsubscribe function
+  onMempoolChange(listener: MempoolListener): () => void {
+    this.mempoolListeners.push(listener);
+    return () => {
+      this.mempoolListeners = this.mempoolListeners.filter(l => l !== listener);
+    };
+  }
+  
+  // Get pending transactions not yet mined, in mining priority order
+  getPendingTransactions(): Transaction[] {
+    return this.mempool.getTransactions();
+  }
+  
+  // Drop pending transactions past the mempool expiry window
+  async pruneExpiredTransactions(now: number = Date.now()): Promise<Transaction[]> {
+    const change = this.mempool.pruneExpired(now);
+    if (change.removed.length > 0) {
+      console.log(`Expired ${change.removed.length} pending transactions`);
+    }
+    await this.notifyMempoolChange(change);
+    return change.removed;
+  }
+  
+  // Rehydrate the pending pool from storage on startup
+  // Each transaction is re-validated; expired, invalid and already-mined ones are dropped
+  async restorePendingTransactions(transactions: Transaction[]): Promise<number> {
+    let restored = 0;
+    for (const tx of transactions) {
+      if (await this.addTransaction(tx)) {
+        restored++;
+      }
+    }
+    return restored;
+  }
+  
+  private async notifyMempoolChange(change: MempoolChange): Promise<void> {
+    if (change.added.length === 0 && change.removed.length === 0) {
+      return;
+    }
+    
+    // A dropped CreateUser or key change may undo an identity
+    if (change.removed.some(tx => tx.txType !== 'Attestation')) {
+      const conflicting = this.rebuildIdentities();
+      change = { added: change.added, removed: [...change.removed, ...this.mempool.remove(conflicting).removed] };
+    }
+    
+    for (const listener of this.mempoolListeners) {
+      await listener(change);
+    }
+  }
+  
+  // Identity state after the given blocks
+  private identitiesFor(blocks: Block[]): IdentityRegistry {
+    return IdentityRegistry.fromTransactions(blocks.flatMap(block => block.transactions));
+  }
+  
+  // Replay identities from the active chain and pending pool
+  // Returns hashes of pending transactions that no longer apply (e.g. signed by a key retired on-chain)
+  private rebuildIdentities(): string[] {
+    this.identities = this.chainIdentities.clone();
+    const conflicting: string[] = [];
+    for (const tx of this.mempool.getTransactions()) {
+      if (!this.identities.apply(tx)) {
+        conflicting.push(tx.hash);
+      }
+    }
+    return conflicting;
+  }
+  
+  // Whether a transaction is recorded on the active chain
+  isTransactionOnChain(txHash: string): boolean {
+    return this.index.hasTransaction(txHash);
+  }
+  
+  // Get total proof-of-work on the active chain
+  getChainWork(): number {
+    return calculateChainWork(this.chain);
+  }
+  
+  // Difficulty policy recorded on the active chain; it governs the next block
+  getDifficultyPolicy(): DifficultyPolicy {
+    return { ...getChainDifficultyPolicy(this.chain).policy };
+  }
+  
+  // Difficulty the next block on the active chain must meet
+  getNextDifficulty(): number {
+    return calculateRequiredDifficulty(this.chain);
+  }
+  
+  // Find the height of the last block shared with another chain (-1 if none)
+  findForkPoint(blocks: Block[]): number {
+    const limit = Math.min(this.chain.length, blocks.length);
+    let forkHeight = -1;
+    
+    for (let i = 0; i < limit; i++) {
+      if (this.chain[i].hash !== blocks[i].hash) {
+        break;
+      }
+      forkHeight = i;
+    }
+    
+    return forkHeight;
+  }
+  
+  // Add a single block received from a peer, following the heaviest valid branch
+  async addBlock(block: Block): Promise<boolean> {
+    if (this.knownBlocks.has(block.hash)) {
+      return false;
+    }
+    
+    const parent = this.knownBlocks.get(block.prevHash);
+    if (!parent) {
+      console.error('Unknown parent block; sync the full chain instead');
+      return false;
     }
     
-    const latestBlock = this.getLatestBlock();
-    const { block } = await mineBlock(latestBlock.hash, this.pendingTransactions);
+    // Walk back from the parent to genesis; the branch decides the required difficulty
+    const parentBranch: Block[] = [];
+    let cursor: Block | undefined = parent;
+    while (cursor && cursor.hash !== GENESIS_BLOCK.hash) {
+      parentBranch.unshift(cursor);
+      cursor = this.knownBlocks.get(cursor.prevHash);
+    }
+    if (!cursor) {
+      console.error('Parent block is not connected to genesis');
+      return false;
+    }
+    parentBranch.unshift(GENESIS_BLOCK);
     
-    // Validate the new block
-    const isValid = await validateBlock(block, latestBlock);
+    const requiredDifficulty = calculateRequiredDifficulty(parentBranch);
+    // Extending the tip is the common case; side branches replay their own identities
+    const identities = parent.hash === this.getLatestBlock().hash
+      ? this.chainIdentities
+      : this.identitiesFor(parentBranch);
+    const isValid = await validateBlock(block, parent, requiredDifficulty, identities);
     if (!isValid) {
-      console.error('Mined block validation failed');
-      return null;
+      console.error('Received block failed validation');
+      return false;
     }
     
-    this.chain.push(block);
-    this.pendingTransactions = [];
+    this.knownBlocks.set(block.hash, block);
+    
+    const branch = [...parentBranch, block];
+    if (calculateChainWork(branch) > this.getChainWork()) {
+      await this.reorganize(branch);
+    }
     
-    return block;
+    return true;
+  }
+  
+  // Switch the active chain to a heavier branch, returning orphaned transactions to the pool
+  private async reorganize(newChain: Block[]): Promise<void> {
+    const forkHeight = this.findForkPoint(newChain);
+    const removedBlocks = this.chain.slice(forkHeight + 1);
+    const addedBlocks = newChain.slice(forkHeight + 1);
+    
+    const newChainTxHashes = new Set(
+      newChain.flatMap(block => block.transactions.map(tx => tx.hash))
+    );
+    
+    // Orphaned transactions go back to the pending pool unless the new branch already has them
+    const returnedTransactions = removedBlocks
+      .flatMap(block => block.transactions)
+      .filter(tx => !newChainTxHashes.has(tx.hash));
+    
+    const pending = [...returnedTransactions, ...this.mempool.getTransactions()]
+      .filter(tx => !newChainTxHashes.has(tx.hash));
+    
+    this.chain = [...newChain];
+    if (this.checkpoint && !checkpointMatchesChain(this.checkpoint, this.chain)) {
+      console.log(`Reorg below checkpoint at height ${this.checkpoint.height}; dropping it`);
+      this.checkpoint = null;
+    }
+    this.index.sync(this.chain);
+    this.chainIdentities = this.identitiesFor(this.chain);
+    let mempoolChange = this.mempool.replace(pending);
+    const conflicting = this.mempool.remove(this.rebuildIdentities());
+    mempoolChange = {
+      added: mempoolChange.added.filter(tx => this.mempool.has(tx.hash)),
+      removed: [...mempoolChange.removed, ...conflicting.removed]
+    };
+    for (const block of newChain) {
+      this.knownBlocks.set(block.hash, block);
+    }
+    
+    if (removedBlocks.length > 0) {
+      console.log(`Chain reorganized at height ${forkHeight}: -${removedBlocks.length} +${addedBlocks.length} blocks`);
+    }
+    
+    const event: ReorgEvent = {
+      forkHeight,
+      commonAncestorHash: newChain[forkHeight].hash,
+      removedBlocks,
+      addedBlocks,
+      returnedTransactions
+    };
+    
+    await this.notifyMempoolChange(mempoolChange);
+    for (const listener of this.reorgListeners) {
+      await listener(event);
+    }
   }
   
   // Validate the entire chain
   async validateChain(): Promise<boolean> {
+    const identities = new IdentityRegistry();
     for (let i = 1; i < this.chain.length; i++) {
       const currentBlock = this.chain[i];
       const previousBlock = this.chain[i - 1];
+      const requiredDifficulty = calculateRequiredDifficulty(this.chain.slice(0, i));
       
-      const isValid = await validateBlock(currentBlock, previousBlock);
+      const isValid = await validateBlock(currentBlock, previousBlock, requiredDifficulty, identities);
       if (!isValid) {
         return false;
       }
+      currentBlock.transactions.forEach(tx => identities.apply(tx));
     }
     
     return true;
   }
   
-  // Load chain from storage
-  async loadChain(blocks: Block[]): Promise<boolean> {
-    // Validate the loaded chain
-    for (let i = 1; i < blocks.length; i++) {
-      const isValid = await validateBlock(blocks[i], blocks[i - 1]);
+  // Load chain from storage or a peer
+  // The candidate is adopted only if it is valid and carries more work than the active chain.
+  // With a checkpoint signed by one of trustedSigners, only blocks above it are re-verified
+  async loadChain(
+    blocks: Block[],
+    checkpoint: ChainCheckpoint | null = null,
+    trustedSigners: string[] = []
+  ): Promise<boolean> {
+    if (blocks.length === 0 || blocks[0].hash !== GENESIS_BLOCK.hash) {
+      console.error('Loaded chain does not start at genesis');
+      return false;
+    }
+    
+    if (checkpoint && !(await this.isTrustedCheckpoint(checkpoint, blocks, trustedSigners))) {
+      console.warn('Ignoring untrusted checkpoint; verifying the full chain');
+      checkpoint = null;
+    }
+    
+    // Validate the loaded chain above the checkpoint
+    const verifiedFrom = checkpoint ? checkpoint.height + 1 : 1;
+    const identities = this.identitiesFor(blocks.slice(0, verifiedFrom));
+    for (let i = verifiedFrom; i < blocks.length; i++) {
+      const requiredDifficulty = calculateRequiredDifficulty(blocks.slice(0, i));
+      const isValid = await validateBlock(blocks[i], blocks[i - 1], requiredDifficulty, identities);
       if (!isValid) {
         console.error('Invalid chain loaded from storage');
         return false;
       }
+      blocks[i].transactions.forEach(tx => identities.apply(tx));
+    }
+    
+    // Remember every block so later single-block syncs can attach to either branch
+    for (const block of blocks) {
+      this.knownBlocks.set(block.hash, block);
+    }
+    
+    if (calculateChainWork(blocks) > this.getChainWork()) {
+      if (checkpoint) {
+        this.checkpoint = checkpoint;
+      }
+      await this.reorganize(blocks);
+    } else if (this.findForkPoint(blocks) < blocks.length - 1) {
+      console.log('Loaded chain has less work than the active chain; keeping it as a side branch');
     }
     
-    this.chain = blocks;
     return true;
   }
   
-  // Check for unique pubkeys in CreateUser transactions
+  // Whether a checkpoint can stand in for verifying the blocks below it
+  private async isTrustedCheckpoint(
+    checkpoint: ChainCheckpoint,
+    blocks: Block[],
+    trustedSigners: string[]
+  ): Promise<boolean> {
+    return trustedSigners.includes(checkpoint.signerPubkey) &&
+      checkpointMatchesChain(checkpoint, blocks) &&
+      calculateChainWork(blocks.slice(0, checkpoint.height + 1)) === checkpoint.chainWork &&
+      await verifyCheckpointSignature(checkpoint);
+  }
+  
+  // Snapshot the active chain tip and the state derived from it, signed by a device profile
+  // (from the unlocked session unless a key is passed).
+  // The snapshot becomes the trusted base for later reorgs on this device
+  async createCheckpoint(signerPubkey: string, privkey?: string): Promise<ChainCheckpoint> {
+    const tip = this.getLatestBlock();
+    const checkpoint = await signCheckpoint({
+      version: CHECKPOINT_VERSION,
+      height: this.chain.length - 1,
+      tipHash: tip.hash,
+      chainWork: this.getChainWork(),
+      createdAt: getCurrentTimestamp(),
+      state: await this.captureCheckpointState()
+    }, signerPubkey, privkey ?? keySession.requireKey(signerPubkey));
+    
+    this.checkpoint = checkpoint;
+    return checkpoint;
+  }
+  
+  // Trusted checkpoint on the active chain, if any
+  getCheckpoint(): ChainCheckpoint | null {
+    return this.checkpoint;
+  }
+  
+  // Re-verify every block from genesis, hashes and signatures included,
+  // then stop trusting the checkpoint and rebuild derived state from scratch
+  async verifyFullChain(): Promise<boolean> {
+    const isValid = await this.validateChain();
+    if (!isValid) {
+      console.error('Full chain re-verification failed');
+      return false;
+    }
+    
+    if (this.checkpoint) {
+      this.checkpoint = null;
+      await this.rebuildDerivedState();
+    }
+    return true;
+  }
+  
+  // State derived from mined blocks that a checkpoint should carry; none at this layer
+  protected async captureCheckpointState(): Promise<CheckpointState> {
+    return {};
+  }
+  
+  // Recompute derived state from the active chain; none at this layer
+  protected async rebuildDerivedState(): Promise<void> {
+  }
+  
+  // Build a compact proof that a transaction is recorded on the active chain
+  async getInclusionProof(txHash: string): Promise<InclusionProof | null> {
+    const location = this.index.getTransactionLocation(txHash);
+    if (!location) {
+      return null;
+    }
+    
+    const block = this.chain[location.height];
+    const path = await buildMerklePath(block.transactions, txHash, isDomainSeparated(block));
+    if (!path) {
+      return null;
+    }
+    
+    return {
+      txHash,
+      blockHash: block.hash,
+      blockHeight: location.height,
+      // Legacy blocks do not commit to a root; it is recomputed from their transactions
+      merkleRoot: block.merkleRoot ?? await computeMerkleRoot(block.transactions),
+      path
+    };
+  }
+  
+  // Verify a proof against this chain: the transaction must be in that block and
+  // the path, of the length its position implies, must hash to the block's root
+  async verifyInclusionProof(proof: InclusionProof): Promise<boolean> {
+    const block = this.chain[proof.blockHeight];
+    if (!block || block.hash !== proof.blockHash) {
+      return false;
+    }
+    
+    const index = block.transactions.findIndex(tx => tx.hash === proof.txHash);
+    if (index === -1 || proof.path.length !== getMerklePathLength(block.transactions.length, index)) {
+      return false;
+    }
+    
+    const expectedRoot = block.merkleRoot ?? await computeMerkleRoot(block.transactions);
+    if (expectedRoot !== proof.merkleRoot) {
+      return false;
+    }
+    
+    return await verifyInclusionProof(proof, isDomainSeparated(block));
+  }
+  
+  // Check whether a pubkey belongs to any identity, including keys since rotated away
   hasUserWithPubkey(pubkey: string): boolean {
-    for (const block of this.chain) {
-      for (const tx of block.transactions) {
-        if (tx.txType === 'CreateUser' && 'pubkey' in tx.data) {
-          if (tx.data.pubkey === pubkey) {
-            return true;
-          }
-        }
-      }
+    return this.identities.isKnown(pubkey);
+  }
+  
+  // Stable identity id for a pubkey: the key the identity was created with
+  // Unregistered keys resolve to themselves
+  resolveIdentity(pubkey: string): string {
+    return this.identities.resolve(pubkey) ?? pubkey;
+  }
+  
+  // Full identity record (all keys, current key) for any key it has used
+  getIdentity(pubkey: string): IdentityRecord | null {
+    return this.identities.getIdentity(pubkey);
+  }
+  
+  // Class registered under an id, including ones still pending
+  getClass(classId: string): ClassRecord | null {
+    return this.identities.getClass(classId);
+  }
+  
+  getClasses(): ClassRecord[] {
+    return this.identities.getClasses();
+  }
+  
+  // Class the key's identity joined at CreateUser, or null
+  getClassOf(pubkey: string): string | null {
+    return this.identities.getClassOf(pubkey);
+  }
+  
+  // Mined attestations signed by any key of the user's identity, oldest first
+  getAttestationsByUser(pubkey: string): Transaction[] {
+    const keys = this.identities.getIdentity(pubkey)?.keys ?? [pubkey];
+    return keys
+      .flatMap(key => this.index.getAttestationsByUser(key))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+  
+  // Mined attestations for a question
+  getAttestationsByQuestion(questionId: string): Transaction[] {
+    return this.index.getAttestationsByQuestion(questionId);
+  }
+  
+  // Mined transactions stamped after the given time, oldest first
+  getTransactionsSince(timestamp: number): Transaction[] {
+    return this.index.getTransactionsSince(timestamp);
+  }
+  
+  // Identity registered under a username (first registration wins), case-insensitive
+  getUserByUsername(username: string): IdentityRecord | null {
+    const user = this.index.getUserByUsername(username);
+    if (!user) {
+      return null;
     }
-    return false;
+    return this.identities.getIdentity(user.pubkey) ?? {
+      id: user.pubkey,
+      username: user.username,
+      keys: [user.pubkey],
+      currentPubkey: user.pubkey
+    };
+  }
+  
+  // Latest display name, avatar and tags for any key of an identity, from mined blocks;
+  // keys are resolved by mined identity state, so pending key changes do not show yet
+  getDisplayProfile(pubkey: string): DisplayProfile | null {
+    return this.getDisplayProfiles().get(this.chainIdentities.resolve(pubkey) ?? pubkey);
+  }
+  
+  // Name to show for a key: the resolved display name, else a pubkey prefix
+  getDisplayName(pubkey: string): string {
+    return this.getDisplayProfile(pubkey)?.displayName ?? `${pubkey.substring(0, 8)}...`;
+  }
+  
+  private getDisplayProfiles(): DisplayProfileRegistry {
+    const tipHash = this.getLatestBlock().hash;
+    if (this.displayProfiles?.tipHash !== tipHash) {
+      const transactions = this.chain.flatMap(block => block.transactions);
+      this.displayProfiles = {
+        tipHash,
+        registry: DisplayProfileRegistry.fromTransactions(transactions, this.chainIdentities)
+      };
+    }
+    return this.displayProfiles.registry;
+  }
+  
+  // Block on the active chain with this hash
+  getBlockByHash(hash: string): Block | null {
+    return this.index.getBlockByHash(hash);
+  }
+  
+  // Live index over the active chain, for consumers that query it repeatedly
+  getChainIndex(): ChainIndex {
+    return this.index;
   }
 }
\ No newline at end of file
@@ -0,0 +1,64 @@
+// Canonical JSON Function Atom
+// Deterministic serialization for everything that is hashed or signed.
+// JSON.stringify depends on property insertion order, so two copies of the
+// same transaction rebuilt in a different order (e.g. after a QR round trip)
+// would produce different hashes and break their signatures.
+
+// Serialize a value with sorted keys, normalized numbers and undefined stripped
+export const canonicalStringify = (value: unknown): string => {
+  const serialized = serialize(value);
+  if (serialized === undefined) {
+    throw new Error('Cannot canonicalize an undefined value');
+  }
+  return serialized;
+};
+
+const serialize = (value: unknown): string | undefined => {
+  if (value === null) {
+    return 'null';
+  }
+  
+  // Honour toJSON (e.g. Date) the same way JSON.stringify does
+  if (typeof value === 'object' && typeof (value as any).toJSON === 'function') {
+    return serialize((value as any).toJSON());
+  }
+  
+  switch (typeof value) {
+    case 'undefined':
+    case 'function':
+    case 'symbol':
+      return undefined;
+    
+    case 'boolean':
+    case 'string':
+      return JSON.stringify(value);
+    
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new Error(`Cannot canonicalize non-finite number: ${value}`);
+      }
+      // -0 and 0 must hash identically; finite numbers otherwise use the
+      // shortest round-trip form, so 3.0 and 3 both become "3"
+      return Object.is(value, -0) ? '0' : JSON.stringify(value);
+    
+    case 'bigint':
+      throw new Error('Cannot canonicalize a bigint');
+  }
+  
+  if (Array.isArray(value)) {
+    // Array slots keep their position; unrepresentable items become null
+    return `[${value.map(item => serialize(item) ?? 'null').join(',')}]`;
+  }
+  
+  const record = value as Record<string, unknown>;
+  const members: string[] = [];
+  
+  for (const key of Object.keys(record).sort()) {
+    const member = serialize(record[key]);
+    if (member !== undefined) {
+      members.push(`${JSON.stringify(key)}:${member}`);
+    }
+  }
+  
+  return `{${members.join(',')}}`;
+};
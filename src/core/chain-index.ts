@@ -0,0 +1,233 @@
+// Chain Index
+// Lookup tables over the active chain, maintained block by block so queries
+// never rescan the chain. Blocks are added at the tip and removed from the
+// tip (reorganizations), which keeps every update proportional to one block.
+import { Block, Transaction, AttestationData, CreateUserData } from './types.js';
+
+export interface TransactionLocation {
+  blockHash: string;
+  height: number;
+}
+
+// Order by timestamp, then hash, so ties have one fixed position
+const compareTimeline = (a: Transaction, b: Transaction): number => {
+  if (a.timestamp !== b.timestamp) {
+    return a.timestamp - b.timestamp;
+  }
+  return a.hash < b.hash ? -1 : a.hash > b.hash ? 1 : 0;
+};
+
+export class ChainIndex {
+  private blocks: Block[] = [];
+  private heightsByHash: Map<string, number> = new Map();
+  private txLocations: Map<string, TransactionLocation> = new Map();
+  private attestationsByUser: Map<string, Transaction[]> = new Map();
+  private attestationsByQuestion: Map<string, Transaction[]> = new Map();
+  private usersByUsername: Map<string, CreateUserData> = new Map();
+  private timeline: Transaction[] = [];
+  
+  /**
+   * Index a block appended at the tip
+   */
+  addBlock(block: Block): void {
+    const height = this.blocks.length;
+    this.blocks.push(block);
+    this.heightsByHash.set(block.hash, height);
+    
+    for (const tx of block.transactions) {
+      this.txLocations.set(tx.hash, { blockHash: block.hash, height });
+      this.insertIntoTimeline(tx);
+      
+      if (tx.txType === 'Attestation') {
+        const questionId = (tx.data as AttestationData).questionId;
+        this.appendTo(this.attestationsByUser, tx.attesterPubkey, tx);
+        this.appendTo(this.attestationsByQuestion, questionId, tx);
+      } else if (tx.txType === 'CreateUser') {
+        // First registration of a username wins
+        const data = tx.data as CreateUserData;
+        const key = data.username.toLowerCase();
+        if (!this.usersByUsername.has(key)) {
+          this.usersByUsername.set(key, { username: data.username, pubkey: data.pubkey });
+        }
+      }
+    }
+  }
+  
+  /**
+   * Remove the tip block (undoing addBlock)
+   */
+  removeTip(): Block | null {
+    const block = this.blocks.pop();
+    if (!block) {
+      return null;
+    }
+    this.heightsByHash.delete(block.hash);
+    
+    for (const tx of block.transactions) {
+      this.txLocations.delete(tx.hash);
+      this.removeFromTimeline(tx);
+      
+      if (tx.txType === 'Attestation') {
+        const questionId = (tx.data as AttestationData).questionId;
+        this.removeFrom(this.attestationsByUser, tx.attesterPubkey, tx.hash);
+        this.removeFrom(this.attestationsByQuestion, questionId, tx.hash);
+      } else if (tx.txType === 'CreateUser') {
+        const data = tx.data as CreateUserData;
+        const key = data.username.toLowerCase();
+        if (this.usersByUsername.get(key)?.pubkey === data.pubkey) {
+          this.usersByUsername.delete(key);
+          this.reindexUsername(key);
+        }
+      }
+    }
+    
+    return block;
+  }
+  
+  /**
+   * Bring the index in line with a new active chain, touching only blocks above the fork
+   */
+  sync(chain: Block[]): void {
+    let common = 0;
+    while (common < this.blocks.length && common < chain.length &&
+           this.blocks[common].hash === chain[common].hash) {
+      common++;
+    }
+    
+    while (this.blocks.length > common) {
+      this.removeTip();
+    }
+    for (let height = common; height < chain.length; height++) {
+      this.addBlock(chain[height]);
+    }
+  }
+  
+  get height(): number {
+    return this.blocks.length - 1;
+  }
+  
+  getBlockByHash(hash: string): Block | null {
+    const height = this.heightsByHash.get(hash);
+    return height === undefined ? null : this.blocks[height];
+  }
+  
+  getBlockHeight(hash: string): number | null {
+    return this.heightsByHash.get(hash) ?? null;
+  }
+  
+  getTransactionLocation(txHash: string): TransactionLocation | null {
+    return this.txLocations.get(txHash) ?? null;
+  }
+  
+  hasTransaction(txHash: string): boolean {
+    return this.txLocations.has(txHash);
+  }
+  
+  getAttestationsByUser(pubkey: string): Transaction[] {
+    return [...(this.attestationsByUser.get(pubkey) || [])];
+  }
+  
+  getAttestationsByQuestion(questionId: string): Transaction[] {
+    return [...(this.attestationsByQuestion.get(questionId) || [])];
+  }
+  
+  /**
+   * Pubkeys that have attested at least once
+   */
+  getAttesters(): string[] {
+    return Array.from(this.attestationsByUser.keys());
+  }
+  
+  /**
+   * Mined transactions with timestamp strictly after `timestamp`, oldest first
+   */
+  getTransactionsSince(timestamp: number): Transaction[] {
+    // Binary search for the first entry past the timestamp
+    let low = 0;
+    let high = this.timeline.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.timeline[mid].timestamp <= timestamp) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return this.timeline.slice(low);
+  }
+  
+  /**
+   * Most recent mined transactions, newest first
+   */
+  getRecentTransactions(limit: number): Transaction[] {
+    return this.timeline.slice(-limit).reverse();
+  }
+  
+  getUserByUsername(username: string): CreateUserData | null {
+    return this.usersByUsername.get(username.toLowerCase()) ?? null;
+  }
+  
+  private appendTo(map: Map<string, Transaction[]>, key: string, tx: Transaction): void {
+    const list = map.get(key);
+    if (list) {
+      list.push(tx);
+    } else {
+      map.set(key, [tx]);
+    }
+  }
+  
+  private removeFrom(map: Map<string, Transaction[]>, key: string, txHash: string): void {
+    const list = map.get(key);
+    if (!list) return;
+    
+    // Tip removals hit the end of the list, so search backwards
+    for (let i = list.length - 1; i >= 0; i--) {
+      if (list[i].hash === txHash) {
+        list.splice(i, 1);
+        break;
+      }
+    }
+    if (list.length === 0) {
+      map.delete(key);
+    }
+  }
+  
+  // Position of tx in the timeline, or where it would be inserted
+  private timelinePosition(tx: Transaction): number {
+    let low = 0;
+    let high = this.timeline.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (compareTimeline(this.timeline[mid], tx) < 0) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+  
+  private insertIntoTimeline(tx: Transaction): void {
+    this.timeline.splice(this.timelinePosition(tx), 0, tx);
+  }
+  
+  private removeFromTimeline(tx: Transaction): void {
+    const position = this.timelinePosition(tx);
+    if (this.timeline[position]?.hash === tx.hash) {
+      this.timeline.splice(position, 1);
+    }
+  }
+  
+  // A username's first registration was removed; fall back to the next one still on chain
+  private reindexUsername(key: string): void {
+    for (const block of this.blocks) {
+      for (const tx of block.transactions) {
+        if (tx.txType === 'CreateUser' && (tx.data as CreateUserData).username.toLowerCase() === key) {
+          const data = tx.data as CreateUserData;
+          this.usersByUsername.set(key, { username: data.username, pubkey: data.pubkey });
+          return;
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,83 @@
+// Chain Checkpoints
+// A checkpoint is a signed snapshot of the active chain at some height: the
+// tip hash plus whatever state the device derived from the blocks up to it.
+// On startup a trusted checkpoint lets the device skip re-hashing and
+// re-verifying every signature below that height and replay only the
+// blocks after it.
+import { Block } from './types.js';
+import { signData, validateSignature } from './crypto.js';
+import { canonicalStringify } from './canonical.js';
+
+export const CHECKPOINT_VERSION = 1;
+
+// Blocks mined between automatic checkpoints
+export const DEFAULT_CHECKPOINT_INTERVAL = 50;
+
+// State derived from the blocks up to the checkpoint; each chain layer adds its own fields
+export type CheckpointState = Record<string, unknown>;
+
+export interface ChainCheckpoint {
+  version: number;
+  height: number;         // Height of the tip block the snapshot was taken at
+  tipHash: string;
+  chainWork: number;
+  createdAt: number;
+  state: CheckpointState;
+  signerPubkey: string;   // Device profile that vouched for the snapshot
+  signature: string;
+}
+
+export type UnsignedCheckpoint = Omit<ChainCheckpoint, 'signerPubkey' | 'signature'>;
+
+// Everything except the signature, in canonical form
+const checkpointPayload = (checkpoint: Omit<ChainCheckpoint, 'signature'>): string => {
+  return canonicalStringify({
+    version: checkpoint.version,
+    height: checkpoint.height,
+    tipHash: checkpoint.tipHash,
+    chainWork: checkpoint.chainWork,
+    createdAt: checkpoint.createdAt,
+    state: checkpoint.state,
+    signerPubkey: checkpoint.signerPubkey
+  });
+};
+
+export const signCheckpoint = async (
+  checkpoint: UnsignedCheckpoint,
+  signerPubkey: string,
+  privkey: string
+): Promise<ChainCheckpoint> => {
+  const signed = { ...checkpoint, signerPubkey };
+  const signature = await signData(checkpointPayload(signed), privkey);
+  return { ...signed, signature };
+};
+
+export const verifyCheckpointSignature = async (checkpoint: ChainCheckpoint): Promise<boolean> => {
+  if (checkpoint.version !== CHECKPOINT_VERSION) {
+    return false;
+  }
+  try {
+    return await validateSignature(checkpoint.signature, checkpoint.signerPubkey, checkpointPayload(checkpoint));
+  } catch (error) {
+    console.error('Checkpoint signature check failed:', error);
+    return false;
+  }
+};
+
+// Check the checkpoint describes a prefix of `blocks`: the tip matches and the
+// blocks below it link by prevHash. Hashes are not recomputed; that is the
+// work the checkpoint exists to skip
+export const checkpointMatchesChain = (checkpoint: ChainCheckpoint, blocks: Block[]): boolean => {
+  const tip = blocks[checkpoint.height];
+  if (!tip || tip.hash !== checkpoint.tipHash) {
+    return false;
+  }
+  
+  for (let i = 1; i <= checkpoint.height; i++) {
+    if (blocks[i].prevHash !== blocks[i - 1].hash) {
+      return false;
+    }
+  }
+  
+  return true;
+};
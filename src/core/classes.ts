@@ -0,0 +1,47 @@
+// Class Namespaces
+// Several AP Stats sections can share one chain (e.g. through the same
+// teacher laptop) without mixing their consensus. A signed CreateClass
+// transaction registers a class id; CreateUser and Attestation data may name
+// it, and consensus and sync can then be scoped to one class. Which ids exist
+// and who belongs to them is chain state kept by the IdentityRegistry.
+import { Transaction, CreateClassData, CreateUserData, AttestationData } from './types.js';
+
+export const MAX_CLASS_NAME_LENGTH = 48;
+
+// Lowercase so ids compare exactly; short enough to type from the board
+const CLASS_ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,31}$/;
+
+export interface ClassRecord {
+  classId: string;
+  name: string;
+  creatorPubkey: string;
+  createdAt: number;
+}
+
+export const isValidClassId = (classId: unknown): classId is string => {
+  return typeof classId === 'string' && CLASS_ID_PATTERN.test(classId);
+};
+
+// Check class ids in CreateClass, CreateUser and Attestation payloads; needs no chain state
+export const validateClassData = (tx: Transaction): string | null => {
+  if (tx.txType === 'CreateClass') {
+    const data = tx.data as CreateClassData;
+    if (!isValidClassId(data.classId)) {
+      return 'Class id must be 2-32 lowercase letters, digits or hyphens';
+    }
+    if (typeof data.name !== 'string' || data.name.trim().length === 0 ||
+        data.name.length > MAX_CLASS_NAME_LENGTH) {
+      return `Class name must be 1-${MAX_CLASS_NAME_LENGTH} characters`;
+    }
+    return null;
+  }
+  
+  if (tx.txType === 'CreateUser' || tx.txType === 'Attestation') {
+    const classId = (tx.data as CreateUserData | AttestationData).classId;
+    if (classId !== undefined && !isValidClassId(classId)) {
+      return `Invalid class id in ${tx.txType}`;
+    }
+  }
+  
+  return null;
+};
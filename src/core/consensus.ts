@@ -1,23 +1,49 @@
 // Phase 2: Consensus Calculations
 // ADR-012 Social Consensus + ADR-028 Emergent Attestation
 
-import { MCQAttestation, FRQAttestation, QuestionAttestation } from '../questions/types.js';
-import { calculateMeanScore, calculateStandardDeviation } from '../questions/scoring.js';
-import { getChoiceFromHash } from '../questions/hashing.js';
+import {
+  MCQAttestation,
+  FRQAttestation,
+  MultiSelectAttestation,
+  NumericAttestation,
+  ShortAnswerAttestation,
+  QuestionAttestation,
+  QuestionType,
+  RubricPartScore,
+  RubricPartScores,
+  isMultiSelectAttestation,
+  isNumericAttestation,
+  isShortAnswerAttestation,
+  getAttestationType
+} from '../questions/types.js';
+import {
+  calculateMeanScore,
+  calculateStandardDeviation,
+  confidenceToWeight,
+  calculateCompositeScore,
+  RUBRIC_PART_SCORES
+} from '../questions/scoring.js';
+import { getChoiceFromHash, getSelectionFromHash } from '../questions/hashing.js';
 
 // --- Distribution Types ---
 
+// Weighted fields are only present on distributions built in reputation-weighted mode
 export interface QuestionDistribution {
   questionId: string;
-  type: 'multiple-choice' | 'free-response';
+  type: QuestionType;
   totalAttestations: number;
-  convergence: number; // 0-1 scale
+  convergence: number; // 0-1 scale, every attestation counted once
+  weightedConvergence?: number; // 0-1 scale, attestations counted by weight
+  attestationWeights?: Record<string, number>; // Weight each counted attestation added, by signature
   lastUpdated: number;
 }
 
 export interface MCQDistribution extends QuestionDistribution {
   type: 'multiple-choice';
   choices: Record<string, number>; // { 'A': 12, 'B': 3, 'C': 5, ... }
+  weightedChoices?: Record<string, number>;
+  totalWeight?: number;
+  leadingChoiceInterval?: ConfidenceInterval; // Wilson interval for the share choosing the most common choice
 }
 
 export interface FRQDistribution extends QuestionDistribution {
@@ -25,6 +51,177 @@ export interface FRQDistribution extends QuestionDistribution {
   scores: number[]; // All scores (1-5)
   mean: number;
   stdDev: number;
+  scoreWeights?: number[]; // Parallel to scores
+  weightedMean?: number;
+  weightedStdDev?: number;
+  meanInterval?: ConfidenceInterval; // t-interval for the mean score; needs two scores
+  parts?: Record<string, RubricPartDistribution>; // By rubric part label; only rubric-scored attestations count
+  compositeScore?: number; // AP 0-4 composite of each part's consensus score
+}
+
+// Reputation weighting covers MCQ and FRQ only; the types below count every attestation once
+export interface MultiSelectDistribution extends QuestionDistribution {
+  type: 'multi-select';
+  selections: Record<string, number>; // By normalized set, e.g. { 'A,C': 7, 'A': 2 }
+  choiceCounts: Record<string, number>; // How many attestations selected each choice
+}
+
+export interface NumericDistribution extends QuestionDistribution {
+  type: 'numeric';
+  values: number[];
+  tolerance: number; // Set by the first attestation, so later ones cannot move the bins
+  bins: Record<string, number>; // Count by bin index; see numericBin
+}
+
+export interface ShortAnswerDistribution extends QuestionDistribution {
+  type: 'short-answer';
+  answers: Record<string, number>; // By normalized answer
+}
+
+// E/P/I scores peers gave one rubric part
+export interface RubricPartDistribution {
+  counts: Record<RubricPartScore, number>;
+  total: number;
+  convergence: number; // Share on the most common score
+  consensus: RubricPartScore; // Most common score; ties go to the lower credit
+}
+
+// Range a statistic plausibly lies in, given how few attestations there may be
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+  level: number; // Always 0.95 for now
+}
+
+const Z_95 = 1.96;
+
+// Two-sided 95% critical values of Student's t for 1-30 degrees of freedom
+const T_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+  2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042
+];
+
+// Beyond the table the normal value is close enough
+const tCritical95 = (degreesOfFreedom: number): number => {
+  return degreesOfFreedom <= T_95.length ? T_95[degreesOfFreedom - 1] : Z_95;
+};
+
+// Wilson score interval for a proportion; unlike the normal approximation it
+// stays inside 0-1 and is sensible at the 3-5 attestations a quorum needs
+export function wilsonInterval(successes: number, total: number): ConfidenceInterval | undefined {
+  if (total <= 0) return undefined;
+  
+  const p = successes / total;
+  const z2 = Z_95 * Z_95;
+  const center = (p + z2 / (2 * total)) / (1 + z2 / total);
+  const margin = (Z_95 / (1 + z2 / total)) * Math.sqrt(p * (1 - p) / total + z2 / (4 * total * total));
+  return {
+    lower: Math.max(0, center - margin),
+    upper: Math.min(1, center + margin),
+    level: 0.95
+  };
+}
+
+// t-interval for the mean of FRQ scores, clipped to the 1-5 scale
+export function meanScoreInterval(scores: number[]): ConfidenceInterval | undefined {
+  const n = scores.length;
+  if (n < 2) return undefined;
+  
+  const mean = calculateMeanScore(scores);
+  const sampleVariance = scores.reduce((sum, score) => sum + Math.pow(score - mean, 2), 0) / (n - 1);
+  const margin = tCritical95(n - 1) * Math.sqrt(sampleVariance / n);
+  return {
+    lower: Math.max(1, mean - margin),
+    upper: Math.min(5, mean + margin),
+    level: 0.95
+  };
+}
+
+// Reputation of an attester, for reputation-weighted consensus
+export type ReputationLookup = (attesterPubkey: string) => number;
+
+// Weight of one attestation in weighted mode: one plus the attester's reputation,
+// so new accounts still count, scaled by confidence (0.2-1.0) where there is one
+export function attestationWeight(reputation: number, confidence?: number): number {
+  const weight = 1 + Math.max(0, reputation);
+  return confidence === undefined ? weight : weight * confidenceToWeight(confidence);
+}
+
+// Weighted mean and standard deviation of FRQ scores
+export function weightedScoreStats(scores: number[], weights: number[]): { mean: number; stdDev: number } {
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (totalWeight <= 0) return { mean: 0, stdDev: 0 };
+  
+  const mean = scores.reduce((sum, score, i) => sum + score * weights[i], 0) / totalWeight;
+  const variance = scores.reduce((sum, score, i) => sum + weights[i] * Math.pow(score - mean, 2), 0) / totalWeight;
+  return { mean, stdDev: Math.sqrt(variance) };
+}
+
+// Consensus score and convergence of one rubric part; ties go to the lower
+// credit, so a split between E and P settles on P
+export function rubricPartConsensus(counts: Record<RubricPartScore, number>): { consensus: RubricPartScore; convergence: number } {
+  const total = RUBRIC_PART_SCORES.reduce((sum, score) => sum + counts[score], 0);
+  let consensus: RubricPartScore = 'I';
+  for (const score of ['P', 'E'] as RubricPartScore[]) {
+    if (counts[score] > counts[consensus]) consensus = score;
+  }
+  return { consensus, convergence: total === 0 ? 0 : counts[consensus] / total };
+}
+
+// Numeric answers are binned into ranges 2 * tolerance wide, centered on
+// multiples of that width so a round answer key sits mid-bin
+export function numericBin(value: number, tolerance: number): number {
+  return Math.round(value / (2 * tolerance)) || 0;
+}
+
+// Range of answers that fall into a bin
+export function numericBinRange(bin: number, tolerance: number): { lower: number; upper: number } {
+  const center = bin * 2 * tolerance;
+  return { lower: center - tolerance, upper: center + tolerance };
+}
+
+// Share of the choices in either of two selections that both selected
+export function jaccardSimilarity(a: string[], b: string[]): number {
+  const union = new Set([...a, ...b]);
+  if (union.size === 0) return 1;
+  return a.filter(choice => b.includes(choice)).length / union.size;
+}
+
+// Most common key of a count table; ties go to the key that sorts first
+const modalKey = (counts: Record<string, number>): string | null => {
+  let mode: string | null = null;
+  for (const key of Object.keys(counts).sort()) {
+    if (counts[key] > 0 && (mode === null || counts[key] > counts[mode])) mode = key;
+  }
+  return mode;
+};
+
+// Add (delta 1) or take back (delta -1) one entry of a count table, dropping emptied keys
+const adjustCount = (counts: Record<string, number>, key: string, delta: 1 | -1): void => {
+  counts[key] = (counts[key] || 0) + delta;
+  if (counts[key] <= 0) delete counts[key];
+};
+
+// Most common answer so far, whether or not consensus is reached
+export function leadingSelection(distribution: MultiSelectDistribution): string | null {
+  return modalKey(distribution.selections);
+}
+
+export function leadingShortAnswer(distribution: ShortAnswerDistribution): string | null {
+  return modalKey(distribution.answers);
+}
+
+// Median of the answers in the largest bin
+export function leadingNumericAnswer(distribution: NumericDistribution): number | null {
+  const mode = modalKey(distribution.bins);
+  if (mode === null) return null;
+  
+  const inBin = distribution.values
+    .filter(value => String(numericBin(value, distribution.tolerance)) === mode)
+    .sort((a, b) => a - b);
+  const middle = Math.floor(inBin.length / 2);
+  return inBin.length % 2 === 1 ? inBin[middle] : (inBin[middle - 1] + inBin[middle]) / 2;
 }
 
 // Type guards
@@ -36,9 +233,42 @@ export function isFRQDistribution(dist: QuestionDistribution): dist is FRQDistri
   return dist.type === 'free-response';
 }
 
+export function isMultiSelectDistribution(dist: QuestionDistribution): dist is MultiSelectDistribution {
+  return dist.type === 'multi-select';
+}
+
+export function isNumericDistribution(dist: QuestionDistribution): dist is NumericDistribution {
+  return dist.type === 'numeric';
+}
+
+export function isShortAnswerDistribution(dist: QuestionDistribution): dist is ShortAnswerDistribution {
+  return dist.type === 'short-answer';
+}
+
 // --- Consensus Calculator Class ---
 
 export class ConsensusCalculator {
+  private reputationOf: ReputationLookup | null = null;
+  
+  /**
+   * Opt in to reputation-weighted consensus, or pass null to count every
+   * attestation once. Only attestations added afterwards carry weights.
+   */
+  setReputationWeighting(reputationOf: ReputationLookup | null): void {
+    this.reputationOf = reputationOf;
+  }
+  
+  isReputationWeighted(): boolean {
+    return this.reputationOf !== null;
+  }
+  
+  /**
+   * Convergence consensus is judged by: weighted where the distribution has it, raw otherwise
+   */
+  getConvergence(distribution: QuestionDistribution): number {
+    return distribution.weightedConvergence ?? distribution.convergence;
+  }
+  
   /**
    * Calculate convergence for MCQ distribution
    * ADR-028: convergence = max_count / total_attestations
@@ -53,6 +283,17 @@ export class ConsensusCalculator {
     return maxCount / distribution.totalAttestations;
   }
   
+  /**
+   * Calculate weighted convergence for MCQ distribution
+   * convergence = max_weight / total_weight
+   */
+  calculateWeightedMCQConvergence(distribution: MCQDistribution): number {
+    if (!distribution.weightedChoices || !distribution.totalWeight) return 0;
+    
+    const maxWeight = Math.max(...Object.values(distribution.weightedChoices));
+    return Math.min(1, maxWeight / distribution.totalWeight);
+  }
+  
   /**
    * Calculate convergence for FRQ distribution
    * ADR-028: convergence = max(0, 1 - (stdDev/mean))
@@ -68,9 +309,84 @@ export class ConsensusCalculator {
     return Math.max(0, convergence);
   }
   
+  /**
+   * Calculate weighted convergence for FRQ distribution
+   * convergence = max(0, 1 - (weightedStdDev/weightedMean))
+   */
+  calculateWeightedFRQConvergence(distribution: FRQDistribution): number {
+    if (!distribution.scoreWeights || distribution.scores.length === 0 || !distribution.weightedMean) return 0;
+    if (!distribution.weightedStdDev) return 1;
+    
+    return Math.max(0, 1 - (distribution.weightedStdDev / distribution.weightedMean));
+  }
+  
+  /**
+   * Calculate convergence for multi-select distribution
+   * convergence = mean Jaccard similarity over all pairs of attestations, so
+   * selections that differ by one choice still partly agree
+   */
+  calculateMultiSelectConvergence(distribution: MultiSelectDistribution): number {
+    const total = distribution.totalAttestations;
+    if (total === 0) return 0;
+    if (total === 1) return 1;
+    
+    // Pairs are counted between distinct selections, and within each one
+    const selections = Object.entries(distribution.selections).map(([key, count]) => ({ choices: key.split(','), count }));
+    let similarity = 0;
+    selections.forEach((a, i) => {
+      similarity += (a.count * (a.count - 1)) / 2;
+      for (const b of selections.slice(i + 1)) {
+        similarity += a.count * b.count * jaccardSimilarity(a.choices, b.choices);
+      }
+    });
+    return similarity / ((total * (total - 1)) / 2);
+  }
+  
+  /**
+   * Calculate convergence for numeric distribution
+   * convergence = largest_bin_count / total_attestations
+   */
+  calculateNumericConvergence(distribution: NumericDistribution): number {
+    if (distribution.totalAttestations === 0) return 0;
+    
+    const mode = modalKey(distribution.bins);
+    return mode === null ? 0 : distribution.bins[mode] / distribution.totalAttestations;
+  }
+  
+  /**
+   * Calculate convergence for short-answer distribution
+   * convergence = most_common_answer_count / total_attestations
+   */
+  calculateShortAnswerConvergence(distribution: ShortAnswerDistribution): number {
+    if (distribution.totalAttestations === 0) return 0;
+    
+    const mode = modalKey(distribution.answers);
+    return mode === null ? 0 : distribution.answers[mode] / distribution.totalAttestations;
+  }
+  
+  /**
+   * Calculate the 95% interval for the share of attestations on the most common choice
+   * @returns Wilson score interval, or undefined with no attestations
+   */
+  calculateMCQInterval(distribution: MCQDistribution): ConfidenceInterval | undefined {
+    const counts = Object.values(distribution.choices);
+    if (counts.length === 0) return undefined;
+    
+    return wilsonInterval(Math.max(...counts), distribution.totalAttestations);
+  }
+  
+  /**
+   * Calculate the 95% interval for the mean FRQ score
+   * @returns t-interval, or undefined with fewer than two scores
+   */
+  calculateFRQInterval(distribution: FRQDistribution): ConfidenceInterval | undefined {
+    return meanScoreInterval(distribution.scores);
+  }
+  
   /**
    * Get progressive quorum based on convergence
    * ADR-028: Dynamic quorum based on consensus strength
+   * Pass getConvergence(distribution) to use the weighted convergence in weighted mode
    * @returns Required number of attestations for consensus
    */
   getProgressiveQuorum(convergence: number): number {
@@ -82,21 +398,63 @@ export class ConsensusCalculator {
   /**
    * Update distributions with new attestations
    * This is the core function that aggregates consensus data
+   * Retracted attestations (withdrawn, or replaced by an amendment) have
+   * their earlier contribution reversed before the new ones are added
    */
   updateDistributions(
     attestations: QuestionAttestation[],
-    distributions: Map<string, QuestionDistribution>
+    distributions: Map<string, QuestionDistribution>,
+    retracted: QuestionAttestation[] = []
   ): void {
+    for (const attestation of retracted) {
+      const distribution = distributions.get(attestation.questionId);
+      if (!distribution) continue;
+      
+      if ('answerHash' in attestation && isMCQDistribution(distribution)) {
+        this.reverseMCQContribution(attestation as MCQAttestation, distribution);
+      } else if ('score' in attestation && isFRQDistribution(distribution)) {
+        this.reverseFRQContribution(attestation as FRQAttestation, distribution);
+      } else if (isMultiSelectAttestation(attestation) && isMultiSelectDistribution(distribution)) {
+        this.reverseMultiSelectContribution(attestation, distribution);
+      } else if (isNumericAttestation(attestation) && isNumericDistribution(distribution)) {
+        this.reverseNumericContribution(attestation, distribution);
+      } else if (isShortAnswerAttestation(attestation) && isShortAnswerDistribution(distribution)) {
+        this.reverseShortAnswerContribution(attestation, distribution);
+      }
+    }
+    
     for (const attestation of attestations) {
       const questionId = attestation.questionId;
       let distribution = distributions.get(questionId);
       
+      // An answer of another kind cannot be pooled with the question's
+      const type = getAttestationType(attestation);
+      if (distribution && distribution.type !== type) {
+        console.error(`Skipping ${type} attestation for ${distribution.type} question ${questionId}`);
+        continue;
+      }
+      
       if ('answerHash' in attestation) {
         // MCQ Attestation
         distribution = this.updateMCQDistribution(
           attestation as MCQAttestation,
           distribution as MCQDistribution | undefined
         );
+      } else if (isMultiSelectAttestation(attestation)) {
+        distribution = this.updateMultiSelectDistribution(
+          attestation,
+          distribution as MultiSelectDistribution | undefined
+        );
+      } else if (isNumericAttestation(attestation)) {
+        distribution = this.updateNumericDistribution(
+          attestation,
+          distribution as NumericDistribution | undefined
+        );
+      } else if (isShortAnswerAttestation(attestation)) {
+        distribution = this.updateShortAnswerDistribution(
+          attestation,
+          distribution as ShortAnswerDistribution | undefined
+        );
       } else {
         // FRQ Attestation
         distribution = this.updateFRQDistribution(
@@ -109,6 +467,33 @@ export class ConsensusCalculator {
     }
   }
   
+  /**
+   * Update per-class distributions (class id -> question id -> distribution)
+   * Attestations without a class only count toward the whole-chain view
+   */
+  updateClassDistributions(
+    attestations: QuestionAttestation[],
+    classDistributions: Map<string, Map<string, QuestionDistribution>>,
+    retracted: QuestionAttestation[] = []
+  ): void {
+    for (const attestation of retracted) {
+      const distributions = attestation.classId !== undefined
+        ? classDistributions.get(attestation.classId)
+        : undefined;
+      if (distributions) {
+        this.updateDistributions([], distributions, [attestation]);
+      }
+    }
+    
+    for (const attestation of attestations) {
+      if (attestation.classId === undefined) continue;
+      
+      const distributions = classDistributions.get(attestation.classId) || new Map();
+      this.updateDistributions([attestation], distributions);
+      classDistributions.set(attestation.classId, distributions);
+    }
+  }
+  
   private updateMCQDistribution(
     attestation: MCQAttestation,
     existing?: MCQDistribution
@@ -134,6 +519,21 @@ export class ConsensusCalculator {
     
     // Recalculate convergence
     distribution.convergence = this.calculateMCQConvergence(distribution);
+    distribution.leadingChoiceInterval = this.calculateMCQInterval(distribution);
+    
+    if (this.reputationOf) {
+      const weight = attestationWeight(this.reputationOf(attestation.attesterPubkey));
+      // Choices counted before weighting was enabled keep a weight of one
+      if (!distribution.weightedChoices) {
+        distribution.weightedChoices = { ...distribution.choices, [choice]: distribution.choices[choice] - 1 };
+        distribution.totalWeight = distribution.totalAttestations - 1;
+      }
+      distribution.weightedChoices[choice] = (distribution.weightedChoices[choice] || 0) + weight;
+      distribution.totalWeight = (distribution.totalWeight || 0) + weight;
+      distribution.attestationWeights = distribution.attestationWeights || {};
+      distribution.attestationWeights[attestation.signature] = weight;
+      distribution.weightedConvergence = this.calculateWeightedMCQConvergence(distribution);
+    }
     
     return distribution;
   }
@@ -162,22 +562,232 @@ export class ConsensusCalculator {
     distribution.mean = calculateMeanScore(distribution.scores);
     distribution.stdDev = calculateStandardDeviation(distribution.scores);
     distribution.convergence = this.calculateFRQConvergence(distribution);
+    distribution.meanInterval = this.calculateFRQInterval(distribution);
+    
+    if (attestation.partScores) {
+      this.updatePartScores(distribution, attestation.partScores, 1);
+    }
+    
+    if (this.reputationOf) {
+      const weight = attestationWeight(this.reputationOf(attestation.attesterPubkey), attestation.confidence);
+      // Scores counted before weighting was enabled keep a weight of one
+      distribution.scoreWeights = distribution.scoreWeights || distribution.scores.slice(0, -1).map(() => 1);
+      distribution.scoreWeights.push(weight);
+      distribution.attestationWeights = distribution.attestationWeights || {};
+      distribution.attestationWeights[attestation.signature] = weight;
+      this.updateWeightedFRQStats(distribution);
+    }
+    
+    return distribution;
+  }
+  
+  private updateMultiSelectDistribution(
+    attestation: MultiSelectAttestation,
+    existing?: MultiSelectDistribution
+  ): MultiSelectDistribution {
+    const selection = getSelectionFromHash(attestation.selectionHash);
+    if (!selection) {
+      throw new Error(`Invalid selection hash: ${attestation.selectionHash}`);
+    }
+    
+    const distribution: MultiSelectDistribution = existing || {
+      questionId: attestation.questionId,
+      type: 'multi-select',
+      totalAttestations: 0,
+      convergence: 0,
+      lastUpdated: Date.now(),
+      selections: {},
+      choiceCounts: {}
+    };
+    
+    adjustCount(distribution.selections, selection, 1);
+    for (const choice of selection.split(',')) {
+      adjustCount(distribution.choiceCounts, choice, 1);
+    }
+    distribution.totalAttestations++;
+    distribution.lastUpdated = Date.now();
+    distribution.convergence = this.calculateMultiSelectConvergence(distribution);
+    
+    return distribution;
+  }
+  
+  private updateNumericDistribution(
+    attestation: NumericAttestation,
+    existing?: NumericDistribution
+  ): NumericDistribution {
+    const distribution: NumericDistribution = existing || {
+      questionId: attestation.questionId,
+      type: 'numeric',
+      totalAttestations: 0,
+      convergence: 0,
+      lastUpdated: Date.now(),
+      values: [],
+      tolerance: attestation.tolerance,
+      bins: {}
+    };
+    
+    distribution.values.push(attestation.answerValue);
+    adjustCount(distribution.bins, String(numericBin(attestation.answerValue, distribution.tolerance)), 1);
+    distribution.totalAttestations++;
+    distribution.lastUpdated = Date.now();
+    distribution.convergence = this.calculateNumericConvergence(distribution);
     
     return distribution;
   }
   
+  private updateShortAnswerDistribution(
+    attestation: ShortAnswerAttestation,
+    existing?: ShortAnswerDistribution
+  ): ShortAnswerDistribution {
+    const distribution: ShortAnswerDistribution = existing || {
+      questionId: attestation.questionId,
+      type: 'short-answer',
+      totalAttestations: 0,
+      convergence: 0,
+      lastUpdated: Date.now(),
+      answers: {}
+    };
+    
+    adjustCount(distribution.answers, attestation.shortAnswer, 1);
+    distribution.totalAttestations++;
+    distribution.lastUpdated = Date.now();
+    distribution.convergence = this.calculateShortAnswerConvergence(distribution);
+    
+    return distribution;
+  }
+  
+  // Add (delta 1) or take back (delta -1) one attestation's part scores
+  private updatePartScores(distribution: FRQDistribution, partScores: RubricPartScores, delta: 1 | -1): void {
+    const parts = distribution.parts || {};
+    for (const [label, score] of Object.entries(partScores)) {
+      const part = parts[label] || { counts: { E: 0, P: 0, I: 0 }, total: 0, convergence: 0, consensus: 'I' };
+      if (delta < 0 && part.counts[score] === 0) continue;
+      
+      part.counts[score] += delta;
+      part.total += delta;
+      if (part.total === 0) {
+        delete parts[label];
+        continue;
+      }
+      Object.assign(part, rubricPartConsensus(part.counts));
+      parts[label] = part;
+    }
+    
+    if (Object.keys(parts).length === 0) {
+      delete distribution.parts;
+      delete distribution.compositeScore;
+      return;
+    }
+    distribution.parts = parts;
+    distribution.compositeScore = calculateCompositeScore(Object.values(parts).map(part => part.consensus));
+  }
+  
+  private updateWeightedFRQStats(distribution: FRQDistribution): void {
+    const stats = weightedScoreStats(distribution.scores, distribution.scoreWeights!);
+    distribution.weightedMean = stats.mean;
+    distribution.weightedStdDev = stats.stdDev;
+    distribution.weightedConvergence = this.calculateWeightedFRQConvergence(distribution);
+  }
+  
+  // Weight an attestation added, forgetting it; undefined if it was counted unweighted
+  private takeAttestationWeight(attestation: QuestionAttestation, distribution: QuestionDistribution): number | undefined {
+    const weight = distribution.attestationWeights?.[attestation.signature];
+    if (weight !== undefined) {
+      delete distribution.attestationWeights![attestation.signature];
+    }
+    return weight;
+  }
+  
+  private reverseMCQContribution(attestation: MCQAttestation, distribution: MCQDistribution): void {
+    const choice = getChoiceFromHash(attestation.answerHash);
+    if (!choice || !distribution.choices[choice]) return;
+    
+    distribution.choices[choice]--;
+    distribution.totalAttestations--;
+    distribution.lastUpdated = Date.now();
+    distribution.convergence = this.calculateMCQConvergence(distribution);
+    distribution.leadingChoiceInterval = this.calculateMCQInterval(distribution);
+    
+    const weight = this.takeAttestationWeight(attestation, distribution);
+    if (weight !== undefined && distribution.weightedChoices) {
+      distribution.weightedChoices[choice] = Math.max(0, distribution.weightedChoices[choice] - weight);
+      distribution.totalWeight = Math.max(0, (distribution.totalWeight || 0) - weight);
+      distribution.weightedConvergence = this.calculateWeightedMCQConvergence(distribution);
+    }
+  }
+  
+  private reverseFRQContribution(attestation: FRQAttestation, distribution: FRQDistribution): void {
+    const weight = this.takeAttestationWeight(attestation, distribution);
+    // In weighted mode, remove the entry with this attestation's score and weight
+    let index = weight !== undefined && distribution.scoreWeights
+      ? distribution.scores.findIndex((score, i) => score === attestation.score && distribution.scoreWeights![i] === weight)
+      : -1;
+    if (index === -1) index = distribution.scores.indexOf(attestation.score);
+    if (index === -1) return;
+    
+    distribution.scores.splice(index, 1);
+    distribution.totalAttestations--;
+    distribution.lastUpdated = Date.now();
+    distribution.mean = calculateMeanScore(distribution.scores);
+    distribution.stdDev = calculateStandardDeviation(distribution.scores);
+    distribution.convergence = this.calculateFRQConvergence(distribution);
+    distribution.meanInterval = this.calculateFRQInterval(distribution);
+    
+    if (attestation.partScores) {
+      this.updatePartScores(distribution, attestation.partScores, -1);
+    }
+    
+    if (distribution.scoreWeights) {
+      distribution.scoreWeights.splice(index, 1);
+      this.updateWeightedFRQStats(distribution);
+    }
+  }
+  
+  private reverseMultiSelectContribution(attestation: MultiSelectAttestation, distribution: MultiSelectDistribution): void {
+    const selection = getSelectionFromHash(attestation.selectionHash);
+    if (!selection || !distribution.selections[selection]) return;
+    
+    adjustCount(distribution.selections, selection, -1);
+    for (const choice of selection.split(',')) {
+      adjustCount(distribution.choiceCounts, choice, -1);
+    }
+    distribution.totalAttestations--;
+    distribution.lastUpdated = Date.now();
+    distribution.convergence = this.calculateMultiSelectConvergence(distribution);
+  }
+  
+  private reverseNumericContribution(attestation: NumericAttestation, distribution: NumericDistribution): void {
+    const index = distribution.values.indexOf(attestation.answerValue);
+    if (index === -1) return;
+    
+    distribution.values.splice(index, 1);
+    adjustCount(distribution.bins, String(numericBin(attestation.answerValue, distribution.tolerance)), -1);
+    distribution.totalAttestations--;
+    distribution.lastUpdated = Date.now();
+    distribution.convergence = this.calculateNumericConvergence(distribution);
+  }
+  
+  private reverseShortAnswerContribution(attestation: ShortAnswerAttestation, distribution: ShortAnswerDistribution): void {
+    if (!distribution.answers[attestation.shortAnswer]) return;
+    
+    adjustCount(distribution.answers, attestation.shortAnswer, -1);
+    distribution.totalAttestations--;
+    distribution.lastUpdated = Date.now();
+    distribution.convergence = this.calculateShortAnswerConvergence(distribution);
+  }
+  
   /**
    * Check if a question has reached consensus
    * @returns True if attestation count >= progressive quorum
    */
   hasReachedConsensus(distribution: QuestionDistribution): boolean {
-    const quorum = this.getProgressiveQuorum(distribution.convergence);
+    const quorum = this.getProgressiveQuorum(this.getConvergence(distribution));
     return distribution.totalAttestations >= quorum;
   }
   
   /**
    * Get the consensus answer for an MCQ
-   * @returns The most popular choice or null if no consensus
+   * @returns The most popular choice (by weight in weighted mode) or null if no consensus
    */
   getMCQConsensusAnswer(distribution: MCQDistribution): string | null {
     if (!this.hasReachedConsensus(distribution)) return null;
@@ -185,7 +795,7 @@ export class ConsensusCalculator {
     let maxChoice = '';
     let maxCount = 0;
     
-    for (const [choice, count] of Object.entries(distribution.choices)) {
+    for (const [choice, count] of Object.entries(distribution.weightedChoices ?? distribution.choices)) {
       if (count > maxCount) {
         maxCount = count;
         maxChoice = choice;
@@ -197,11 +807,38 @@ export class ConsensusCalculator {
   
   /**
    * Get the consensus score for an FRQ
-   * @returns The mean score or null if no consensus
+   * @returns The (weighted) mean score or null if no consensus
    */
   getFRQConsensusScore(distribution: FRQDistribution): number | null {
     if (!this.hasReachedConsensus(distribution)) return null;
-    return distribution.mean;
+    return distribution.weightedMean ?? distribution.mean;
+  }
+  
+  /**
+   * Get the consensus answer for a multi-select question
+   * @returns The most common selection, e.g. 'A,C', or null if no consensus
+   */
+  getMultiSelectConsensusAnswer(distribution: MultiSelectDistribution): string | null {
+    if (!this.hasReachedConsensus(distribution)) return null;
+    return leadingSelection(distribution);
+  }
+  
+  /**
+   * Get the consensus answer for a numeric question
+   * @returns The median of the answers in the largest bin, or null if no consensus
+   */
+  getNumericConsensusAnswer(distribution: NumericDistribution): number | null {
+    if (!this.hasReachedConsensus(distribution)) return null;
+    return leadingNumericAnswer(distribution);
+  }
+  
+  /**
+   * Get the consensus answer for a short-answer question
+   * @returns The most common normalized answer or null if no consensus
+   */
+  getShortAnswerConsensusAnswer(distribution: ShortAnswerDistribution): string | null {
+    if (!this.hasReachedConsensus(distribution)) return null;
+    return leadingShortAnswer(distribution);
   }
   
   /**
@@ -231,6 +868,21 @@ export class ConsensusCalculator {
       return deviation > distribution.stdDev;
     }
     
+    // For the other types, minority if the answer is not the most common one
+    if (isMultiSelectDistribution(distribution) && isMultiSelectAttestation(attestation)) {
+      const selection = getSelectionFromHash(attestation.selectionHash);
+      return selection !== null && selection !== modalKey(distribution.selections);
+    }
+    
+    if (isNumericDistribution(distribution) && isNumericAttestation(attestation)) {
+      const bin = String(numericBin(attestation.answerValue, distribution.tolerance));
+      return bin !== modalKey(distribution.bins);
+    }
+    
+    if (isShortAnswerDistribution(distribution) && isShortAnswerAttestation(attestation)) {
+      return attestation.shortAnswer !== modalKey(distribution.answers);
+    }
+    
     return false;
   }
 }
\ No newline at end of file
@@ -1,5 +1,5 @@
 // Cryptographic Function Atoms - Phase 1
-import { Sha256Hash, ValidateSignature } from './types.js';
+import { Sha256Hash, ValidateSignature, DeriveKeysFromSeed } from './types.js';
 
 // SHA-256 Hash Function Atom
 export const sha256Hash: Sha256Hash = async (input: string): Promise<string> => {
@@ -32,22 +32,52 @@ export const generateKeyPair = async (): Promise<[string, string]> => {
   return [pubKeyBase64, privKeyBase64];
 };
 
+// P-256 group order; a valid private scalar d must satisfy 1 <= d < n
+const P256_ORDER_HEX = 'ffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551';
+
+// PKCS#8 PrivateKeyInfo header for a P-256 ECPrivateKey without the optional
+// public key field; the 32-byte scalar is appended directly after it
+const P256_PKCS8_PREFIX = new Uint8Array([
+  0x30, 0x41, 0x02, 0x01, 0x00, 0x30, 0x13, 0x06, 0x07, 0x2a, 0x86, 0x48,
+  0xce, 0x3d, 0x02, 0x01, 0x06, 0x08, 0x2a, 0x86, 0x48, 0xce, 0x3d, 0x03,
+  0x01, 0x07, 0x04, 0x27, 0x30, 0x25, 0x02, 0x01, 0x01, 0x04, 0x20
+]);
+
+const bytesToHex = (bytes: Uint8Array): string =>
+  Array.from(bytes)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+
+const hexToBytes = (hex: string): Uint8Array => {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+};
+
+// Equal-length lowercase hex strings compare lexicographically like integers
+const isValidP256Scalar = (hex: string): boolean => {
+  return !/^0+$/.test(hex) && hex < P256_ORDER_HEX;
+};
+
 // Derive keys from seed using PBKDF2
-export const deriveKeysFromSeed = async (seed: string): Promise<[string, string]> => {
+// The same seed always yields the same P-256 key pair, so a profile can be
+// recovered from its seed phrase and keep verifying its old signatures.
+export const deriveKeysFromSeed: DeriveKeysFromSeed = async (seed: string): Promise<[string, string]> => {
   const encoder = new TextEncoder();
   const seedData = encoder.encode(seed);
   
-  // Use PBKDF2 to derive a key from the seed
+  // Use PBKDF2 to stretch the seed into 256 bits of key material
   const baseKey = await crypto.subtle.importKey(
     'raw',
     seedData,
     { name: 'PBKDF2' },
     false,
-    ['deriveKey']
+    ['deriveBits']
   );
 
-  // Derive a key for ECDSA
-  const derivedKey = await crypto.subtle.deriveKey(
+  const derivedBits = await crypto.subtle.deriveBits(
     {
       name: 'PBKDF2',
       salt: encoder.encode('ap-stats-consensus'), // Fixed salt for deterministic keys
@@ -55,30 +85,53 @@ export const deriveKeysFromSeed = async (seed: string): Promise<[string, string]
       hash: 'SHA-256'
     },
     baseKey,
+    256
+  );
+
+  // Re-hash in the (astronomically rare) case the bits fall outside [1, n-1]
+  let scalarHex = bytesToHex(new Uint8Array(derivedBits));
+  let counter = 0;
+  while (!isValidP256Scalar(scalarHex)) {
+    counter++;
+    scalarHex = await sha256Hash(`${scalarHex}:${counter}`);
+  }
+
+  // Import the scalar as a PKCS#8 private key; WebCrypto computes the public point
+  const pkcs8 = new Uint8Array(P256_PKCS8_PREFIX.length + 32);
+  pkcs8.set(P256_PKCS8_PREFIX);
+  pkcs8.set(hexToBytes(scalarHex), P256_PKCS8_PREFIX.length);
+
+  const privateKey = await crypto.subtle.importKey(
+    'pkcs8',
+    pkcs8,
     {
       name: 'ECDSA',
       namedCurve: 'P-256'
     },
-    true,
+    true, // extractable
     ['sign']
   );
 
-  // Generate the corresponding public key
-  const keyPair = await crypto.subtle.generateKey(
+  // Rebuild the public key from the JWK coordinates
+  const jwk = await crypto.subtle.exportKey('jwk', privateKey);
+  const publicKey = await crypto.subtle.importKey(
+    'jwk',
+    { kty: 'EC', crv: 'P-256', x: jwk.x, y: jwk.y, ext: true },
     {
       name: 'ECDSA',
       namedCurve: 'P-256'
     },
     true,
-    ['sign', 'verify']
+    ['verify']
   );
 
-  // For deterministic generation, we'll use the seed hash as entropy
-  // This is a simplified approach - in production, use proper key derivation
-  const seedHash = await sha256Hash(seed);
-  
-  // Generate keys deterministically from seed hash
-  return await generateKeyPair();
+  const pubKeyBuffer = await crypto.subtle.exportKey('spki', publicKey);
+  const privKeyBuffer = await crypto.subtle.exportKey('pkcs8', privateKey);
+
+  const pubKeyBase64 = btoa(String.fromCharCode(...new Uint8Array(pubKeyBuffer)));
+  const privKeyBase64 = btoa(String.fromCharCode(...new Uint8Array(privKeyBuffer)));
+
+  return [pubKeyBase64, privKeyBase64];
 };
 
 // Sign data with private key
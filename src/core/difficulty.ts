@@ -0,0 +1,151 @@
+// Proof-of-Work Difficulty
+// Difficulty is the number of leading zero bits a block header hash must have.
+// v3 headers commit to their difficulty; older blocks all used the fixed '00'
+// hex prefix, i.e. 8 bits. The policy deciding the required difficulty is
+// chain data: a class's creator records it in a SetDifficultyPolicy
+// transaction, so every device derives the same requirement for a block.
+import { Block, Transaction, SetDifficultyPolicyData } from './types.js';
+
+export const DEFAULT_DIFFICULTY = 8;
+export const MAX_DIFFICULTY = 64;
+// Ceiling for on-chain policies; past it no device could mine the block that relaxes the policy
+export const MAX_POLICY_DIFFICULTY = 24;
+
+export interface DifficultyPolicy {
+  mode: 'fixed' | 'adaptive';
+  difficulty: number;         // Fixed difficulty, or the starting point when adaptive
+  minDifficulty: number;
+  maxDifficulty: number;
+  targetBlockTimeMs: number;  // Adaptive: desired spacing between blocks
+  retargetWindow: number;     // Adaptive: number of recent blocks averaged
+}
+
+export const DEFAULT_DIFFICULTY_POLICY: DifficultyPolicy = {
+  mode: 'fixed',
+  difficulty: DEFAULT_DIFFICULTY,
+  minDifficulty: DEFAULT_DIFFICULTY,
+  maxDifficulty: 20,
+  targetBlockTimeMs: 30000,
+  retargetWindow: 10
+};
+
+const isDifficulty = (value: number): boolean => {
+  return Number.isInteger(value) && value >= 0 && value <= MAX_DIFFICULTY;
+};
+
+// Merge a partial policy over the defaults, rejecting values that would stall or break mining
+export const createDifficultyPolicy = (policy: Partial<DifficultyPolicy> = {}): DifficultyPolicy => {
+  const merged: DifficultyPolicy = { ...DEFAULT_DIFFICULTY_POLICY, ...policy };
+  
+  if (merged.mode !== 'fixed' && merged.mode !== 'adaptive') {
+    throw new Error(`Unknown difficulty mode: ${merged.mode}`);
+  }
+  if (!isDifficulty(merged.difficulty) || !isDifficulty(merged.minDifficulty) || !isDifficulty(merged.maxDifficulty)) {
+    throw new Error(`Difficulty must be an integer between 0 and ${MAX_DIFFICULTY} bits`);
+  }
+  if (merged.minDifficulty > merged.maxDifficulty ||
+      merged.difficulty < merged.minDifficulty ||
+      merged.difficulty > merged.maxDifficulty) {
+    throw new Error('Difficulty must lie within [minDifficulty, maxDifficulty]');
+  }
+  if (!Number.isFinite(merged.targetBlockTimeMs) || merged.targetBlockTimeMs <= 0 ||
+      !Number.isInteger(merged.retargetWindow) || merged.retargetWindow < 2) {
+    throw new Error('Adaptive difficulty needs a positive target time and a window of at least 2 blocks');
+  }
+  
+  return merged;
+};
+
+// Check a SetDifficultyPolicy payload; needs no chain state
+export const validateDifficultyPolicyData = (tx: Transaction): string | null => {
+  if (tx.txType !== 'SetDifficultyPolicy') {
+    return null;
+  }
+  
+  const data = tx.data as SetDifficultyPolicyData;
+  if (typeof data.policy !== 'object' || data.policy === null) {
+    return 'SetDifficultyPolicy must carry a policy';
+  }
+  try {
+    if (createDifficultyPolicy(data.policy).maxDifficulty > MAX_POLICY_DIFFICULTY) {
+      return `Class policies may not exceed ${MAX_POLICY_DIFFICULTY} bits`;
+    }
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  
+  return null;
+};
+
+// Policy in force after `history` (genesis first) and the height of the first block it governs
+// The latest SetDifficultyPolicy on the chain wins; before any, the default applies
+export const getChainDifficultyPolicy = (history: Block[]): { policy: DifficultyPolicy; activeFrom: number } => {
+  for (let height = history.length - 1; height > 0; height--) {
+    const transactions = history[height].transactions;
+    for (let i = transactions.length - 1; i >= 0; i--) {
+      if (transactions[i].txType === 'SetDifficultyPolicy') {
+        const data = transactions[i].data as SetDifficultyPolicyData;
+        return { policy: createDifficultyPolicy(data.policy), activeFrom: height + 1 };
+      }
+    }
+  }
+  
+  return { policy: DEFAULT_DIFFICULTY_POLICY, activeFrom: 1 };
+};
+
+// Difficulty a block was mined at; headers before v3 do not commit to one
+export const getBlockDifficulty = (block: Block): number => {
+  return (block.version ?? 1) >= 3 && block.difficulty !== undefined ? block.difficulty : DEFAULT_DIFFICULTY;
+};
+
+// Check that a hex hash starts with at least `difficulty` zero bits
+export const meetsDifficulty = (hash: string, difficulty: number): boolean => {
+  const fullNibbles = Math.floor(difficulty / 4);
+  for (let i = 0; i < fullNibbles; i++) {
+    if (hash[i] !== '0') {
+      return false;
+    }
+  }
+  
+  const remainingBits = difficulty % 4;
+  if (remainingBits === 0) {
+    return true;
+  }
+  
+  const nibble = parseInt(hash[fullNibbles], 16);
+  return !isNaN(nibble) && nibble < (1 << (4 - remainingBits));
+};
+
+// Expected number of hashes needed to mine a block; genesis carries no work
+export const calculateBlockWork = (block: Block): number => {
+  return block.prevHash === '0' ? 0 : Math.pow(2, getBlockDifficulty(block));
+};
+
+// Difficulty required of the block extending `history` (genesis first)
+// Adaptive mode nudges the previous difficulty by one bit when the average
+// spacing over the window drifts beyond half or double the target; only
+// blocks mined under the current policy count toward the window
+export const calculateRequiredDifficulty = (history: Block[]): number => {
+  const { policy, activeFrom } = getChainDifficultyPolicy(history);
+  if (policy.mode === 'fixed') {
+    return policy.difficulty;
+  }
+  
+  const window = history.slice(activeFrom).slice(-policy.retargetWindow);
+  if (window.length < 2) {
+    return policy.difficulty;
+  }
+  
+  const first = window[0];
+  const last = window[window.length - 1];
+  const averageSpacing = (last.timestamp - first.timestamp) / (window.length - 1);
+  
+  let next = getBlockDifficulty(last);
+  if (averageSpacing < policy.targetBlockTimeMs / 2) {
+    next++;
+  } else if (averageSpacing > policy.targetBlockTimeMs * 2) {
+    next--;
+  }
+  
+  return Math.min(policy.maxDifficulty, Math.max(policy.minDifficulty, next));
+};
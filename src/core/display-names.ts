@@ -0,0 +1,198 @@
+// Display Profiles
+// CreateUser fixes an identity's username for good. ProfileUpdate
+// transactions, signed by the identity's current key, change what classmates
+// see instead: display name, avatar emoji and class/section tags. Profiles are
+// replayed from mined blocks in chain order, so every synced device resolves
+// the same names. When two identities claim the same name, the earlier claim
+// keeps it and later claimants are shown with a short suffix from their id.
+import { Transaction, CreateUserData, ProfileUpdateData } from './types.js';
+import { IdentityRegistry } from './identity.js';
+
+export const MAX_DISPLAY_NAME_LENGTH = 32;
+export const MAX_PROFILE_TAGS = 8;
+export const MAX_TAG_LENGTH = 24;
+export const MAX_AVATAR_CODE_POINTS = 8;
+
+export interface DisplayProfile {
+  identityId: string;
+  username: string;      // From CreateUser; never changes
+  claimedName: string;   // Latest name the student chose
+  displayName: string;   // claimedName, suffixed when an earlier claim holds it
+  avatar?: string;
+  tags: string[];
+}
+
+// Built with the RegExp constructor: \p{...} escapes are runtime-only under the ES6 target
+const EMOJI_ONLY = new RegExp('^[\\p{Extended_Pictographic}\\p{Emoji_Component}]+$', 'u');
+const HAS_PICTOGRAPH = new RegExp('[\\p{Extended_Pictographic}\\p{Regional_Indicator}]', 'u');
+const CONTROL_CHARS = /[\u0000-\u001f\u007f]/;
+const TAG_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 _.-]*$/;
+
+// Collapse whitespace so "Sam  Lee" and " Sam Lee" are the same claim
+export const normalizeDisplayName = (name: string): string => {
+  return name.trim().replace(/\s+/g, ' ');
+};
+
+const nameKey = (name: string): string => normalizeDisplayName(name).toLowerCase();
+
+// Check the payload shape of a ProfileUpdate; needs no chain state
+export const validateProfileUpdateData = (tx: Transaction): string | null => {
+  if (tx.txType !== 'ProfileUpdate') {
+    return null;
+  }
+  
+  const data = tx.data as ProfileUpdateData;
+  if (data.displayName === undefined && data.avatar === undefined && data.tags === undefined) {
+    return 'ProfileUpdate must change at least one field';
+  }
+  
+  if (data.displayName !== undefined) {
+    if (typeof data.displayName !== 'string') {
+      return 'Display name must be a string';
+    }
+    const name = normalizeDisplayName(data.displayName);
+    if (name.length === 0 || name.length > MAX_DISPLAY_NAME_LENGTH) {
+      return `Display name must be 1-${MAX_DISPLAY_NAME_LENGTH} characters`;
+    }
+    // '#' is reserved for the suffix that tells clashing names apart
+    if (CONTROL_CHARS.test(name) || name.includes('#')) {
+      return 'Display name contains characters that are not allowed';
+    }
+  }
+  
+  if (data.avatar !== undefined) {
+    if (typeof data.avatar !== 'string' || Array.from(data.avatar).length > MAX_AVATAR_CODE_POINTS ||
+        !EMOJI_ONLY.test(data.avatar) || !HAS_PICTOGRAPH.test(data.avatar)) {
+      return 'Avatar must be a single emoji';
+    }
+  }
+  
+  if (data.tags !== undefined) {
+    if (!Array.isArray(data.tags) || data.tags.length > MAX_PROFILE_TAGS) {
+      return `At most ${MAX_PROFILE_TAGS} tags are allowed`;
+    }
+    for (const tag of data.tags) {
+      if (typeof tag !== 'string' || tag.length > MAX_TAG_LENGTH || !TAG_PATTERN.test(tag)) {
+        return `Tags must be 1-${MAX_TAG_LENGTH} letters, digits, spaces, '.', '_' or '-'`;
+      }
+    }
+  }
+  
+  return null;
+};
+
+// Short, stable suffix for an identity (FNV-1a over its id)
+export const identitySuffix = (identityId: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < identityId.length; i++) {
+    hash ^= identityId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0').substring(0, 4);
+};
+
+interface ProfileRecord {
+  identityId: string;
+  username: string;
+  claimedName: string;
+  claimOrder: number;    // Position in chain order of the claim on the current name
+  avatar?: string;
+  tags: string[];
+}
+
+// Display profiles replayed from mined transactions in chain order
+export class DisplayProfileRegistry {
+  private records: Map<string, ProfileRecord> = new Map();
+  private nextOrder = 0;
+  private resolved: Map<string, DisplayProfile> | null = null;
+  
+  /**
+   * Build a registry from transactions in chain order; identities map every key to its identity
+   */
+  static fromTransactions(transactions: Transaction[], identities: IdentityRegistry): DisplayProfileRegistry {
+    const registry = new DisplayProfileRegistry();
+    for (const tx of transactions) {
+      registry.apply(tx, identities);
+    }
+    return registry;
+  }
+  
+  /**
+   * Apply one transaction; anything but CreateUser and valid ProfileUpdates is ignored
+   */
+  apply(tx: Transaction, identities: IdentityRegistry): void {
+    const order = this.nextOrder++;
+    
+    if (tx.txType === 'CreateUser') {
+      const data = tx.data as CreateUserData;
+      const identityId = identities.resolve(data.pubkey) ?? data.pubkey;
+      if (this.records.has(identityId)) return;
+      
+      this.records.set(identityId, {
+        identityId,
+        username: data.username,
+        claimedName: normalizeDisplayName(data.username),
+        claimOrder: order,
+        tags: []
+      });
+    } else if (tx.txType === 'ProfileUpdate') {
+      const record = this.records.get(identities.resolve(tx.attesterPubkey) ?? tx.attesterPubkey);
+      if (!record || validateProfileUpdateData(tx) !== null) return;
+      
+      const data = tx.data as ProfileUpdateData;
+      if (data.displayName !== undefined && nameKey(data.displayName) !== nameKey(record.claimedName)) {
+        record.claimOrder = order;
+      }
+      if (data.displayName !== undefined) record.claimedName = normalizeDisplayName(data.displayName);
+      if (data.avatar !== undefined) record.avatar = data.avatar;
+      if (data.tags !== undefined) record.tags = data.tags.map(normalizeDisplayName);
+    } else {
+      return;
+    }
+    
+    this.resolved = null;
+  }
+  
+  /**
+   * Resolved profile for an identity id, or null if it never registered
+   */
+  get(identityId: string): DisplayProfile | null {
+    return this.resolve().get(identityId) ?? null;
+  }
+  
+  getAll(): DisplayProfile[] {
+    return Array.from(this.resolve().values());
+  }
+  
+  // The earliest claim on a name keeps it; ties cannot happen since claims are totally ordered
+  private resolve(): Map<string, DisplayProfile> {
+    if (this.resolved) {
+      return this.resolved;
+    }
+    
+    const holders = new Map<string, ProfileRecord>();
+    for (const record of this.records.values()) {
+      const key = nameKey(record.claimedName);
+      const holder = holders.get(key);
+      if (!holder || record.claimOrder < holder.claimOrder) {
+        holders.set(key, record);
+      }
+    }
+    
+    this.resolved = new Map();
+    for (const record of this.records.values()) {
+      const holdsName = holders.get(nameKey(record.claimedName)) === record;
+      this.resolved.set(record.identityId, {
+        identityId: record.identityId,
+        username: record.username,
+        claimedName: record.claimedName,
+        displayName: holdsName
+          ? record.claimedName
+          : `${record.claimedName} #${identitySuffix(record.identityId)}`,
+        avatar: record.avatar,
+        tags: [...record.tags]
+      });
+    }
+    return this.resolved;
+  }
+}
@@ -1,5 +1,7 @@
 // Phase 2: Distribution Tracking System
 // Manages and persists question consensus distributions
+// Distributions are kept for the whole chain and, for attestations that name
+// a class, per class; methods taking an optional classId read that class's view
 
 import { 
   QuestionDistribution, 
@@ -9,21 +11,26 @@ import {
   isFRQDistribution
 } from './consensus.js';
 import { QuestionAttestation } from '../questions/types.js';
+import { ReviewableResponse } from './peer-review.js';
 
 export class DistributionTracker {
   private distributions: Map<string, QuestionDistribution>;
+  private classDistributions: Map<string, Map<string, QuestionDistribution>>;
   private attestationHistory: Map<string, QuestionAttestation[]>;
+  private reviewableResponses: Map<string, ReviewableResponse>;
   
   constructor() {
     this.distributions = new Map();
+    this.classDistributions = new Map();
     this.attestationHistory = new Map();
+    this.reviewableResponses = new Map();
   }
   
   /**
-   * Get distribution for a specific question
+   * Get distribution for a specific question, optionally within one class
    */
-  getDistribution(questionId: string): QuestionDistribution | undefined {
-    return this.distributions.get(questionId);
+  getDistribution(questionId: string, classId?: string): QuestionDistribution | undefined {
+    return this.distributionsFor(classId).get(questionId);
   }
   
   /**
@@ -34,10 +41,37 @@ export class DistributionTracker {
   }
   
   /**
-   * Get all distributions
+   * Set or update a distribution within one class
    */
-  getAllDistributions(): Map<string, QuestionDistribution> {
-    return new Map(this.distributions);
+  setClassDistribution(classId: string, questionId: string, distribution: QuestionDistribution): void {
+    const classMap = this.classDistributions.get(classId) || new Map();
+    classMap.set(questionId, distribution);
+    this.classDistributions.set(classId, classMap);
+  }
+  
+  /**
+   * Get all distributions, optionally only one class's
+   */
+  getAllDistributions(classId?: string): Map<string, QuestionDistribution> {
+    return new Map(this.distributionsFor(classId));
+  }
+  
+  /**
+   * Get per-class distributions keyed by class id, then question id
+   */
+  getAllClassDistributions(): Map<string, Map<string, QuestionDistribution>> {
+    const copy = new Map<string, Map<string, QuestionDistribution>>();
+    for (const [classId, classMap] of this.classDistributions) {
+      copy.set(classId, new Map(classMap));
+    }
+    return copy;
+  }
+  
+  /**
+   * Get ids of classes that have attestations
+   */
+  getClassIds(): string[] {
+    return Array.from(this.classDistributions.keys());
   }
   
   /**
@@ -51,19 +85,76 @@ export class DistributionTracker {
   }
   
   /**
-   * Get attestation history for a question
+   * Remove an attestation from history once it is retracted or amended
+   * Signatures are unique per transaction, so they identify the entry
+   */
+  removeAttestationFromHistory(attestation: QuestionAttestation): void {
+    const history = this.attestationHistory.get(attestation.questionId) || [];
+    this.attestationHistory.set(
+      attestation.questionId,
+      history.filter(entry => entry.signature !== attestation.signature)
+    );
+  }
+  
+  /**
+   * Get attestation history for a question, optionally only one class's
    */
-  getAttestationHistory(questionId: string): QuestionAttestation[] {
-    return this.attestationHistory.get(questionId) || [];
+  getAttestationHistory(questionId: string, classId?: string): QuestionAttestation[] {
+    const history = this.attestationHistory.get(questionId) || [];
+    return classId === undefined ? history : history.filter(a => a.classId === classId);
+  }
+  
+  /**
+   * Open an FRQ response to peer review
+   */
+  addReviewableResponse(response: ReviewableResponse): void {
+    this.reviewableResponses.set(response.responseId, response);
+  }
+  
+  /**
+   * Get a response open to peer review by its attestation hash
+   */
+  getReviewableResponse(responseId: string): ReviewableResponse | undefined {
+    return this.reviewableResponses.get(responseId);
+  }
+  
+  /**
+   * Get responses to a question open to peer review, optionally only one class's
+   */
+  getReviewableResponses(questionId: string, classId?: string): ReviewableResponse[] {
+    return Array.from(this.reviewableResponses.values()).filter(response =>
+      response.questionId === questionId && (classId === undefined || response.classId === classId)
+    );
+  }
+  
+  /**
+   * Mark a response as scored by a reviewer
+   */
+  recordReview(responseId: string, reviewerId: string): void {
+    this.reviewableResponses.get(responseId)?.reviewerIds.push(reviewerId);
+  }
+  
+  /**
+   * Follow an amended response's new text, or close a retracted one (null) to review
+   */
+  reviseResponse(responseId: string, answerText: string | null): void {
+    const response = this.reviewableResponses.get(responseId);
+    if (!response) return;
+    
+    if (answerText === null) {
+      this.reviewableResponses.delete(responseId);
+    } else {
+      response.answerText = answerText;
+    }
   }
   
   /**
    * Get questions that have reached consensus
    */
-  getConsensusQuestions(minConvergence: number = 0.5): string[] {
+  getConsensusQuestions(minConvergence: number = 0.5, classId?: string): string[] {
     const consensusQuestions: string[] = [];
     
-    for (const [questionId, distribution] of this.distributions) {
+    for (const [questionId, distribution] of this.distributionsFor(classId)) {
       if (distribution.convergence >= minConvergence) {
         consensusQuestions.push(questionId);
       }
@@ -75,7 +166,7 @@ export class DistributionTracker {
   /**
    * Get distribution statistics
    */
-  getStatistics(): {
+  getStatistics(classId?: string): {
     totalQuestions: number;
     mcqQuestions: number;
     frqQuestions: number;
@@ -87,7 +178,8 @@ export class DistributionTracker {
     let totalConvergence = 0;
     let totalAttestations = 0;
     
-    for (const distribution of this.distributions.values()) {
+    const distributions = this.distributionsFor(classId);
+    for (const distribution of distributions.values()) {
       if (isMCQDistribution(distribution)) {
         mcqCount++;
       } else if (isFRQDistribution(distribution)) {
@@ -98,7 +190,7 @@ export class DistributionTracker {
       totalAttestations += distribution.totalAttestations;
     }
     
-    const totalQuestions = this.distributions.size;
+    const totalQuestions = distributions.size;
     const averageConvergence = totalQuestions > 0 
       ? totalConvergence / totalQuestions 
       : 0;
@@ -117,7 +209,9 @@ export class DistributionTracker {
    */
   clear(): void {
     this.distributions.clear();
+    this.classDistributions.clear();
     this.attestationHistory.clear();
+    this.reviewableResponses.clear();
   }
   
   /**
@@ -125,30 +219,45 @@ export class DistributionTracker {
    */
   export(): {
     distributions: Array<[string, QuestionDistribution]>;
+    classDistributions: Array<[string, Array<[string, QuestionDistribution]>]>;
     attestationHistory: Array<[string, QuestionAttestation[]]>;
+    reviewableResponses?: ReviewableResponse[];
   } {
     return {
       distributions: Array.from(this.distributions.entries()),
-      attestationHistory: Array.from(this.attestationHistory.entries())
+      classDistributions: Array.from(this.classDistributions.entries())
+        .map(([classId, classMap]) => [classId, Array.from(classMap.entries())]),
+      attestationHistory: Array.from(this.attestationHistory.entries()),
+      reviewableResponses: Array.from(this.reviewableResponses.values())
     };
   }
   
   /**
    * Import distributions from persistence
+   * Exports from before class namespaces have no classDistributions, and
+   * those from before peer review no reviewableResponses
    */
   import(data: {
     distributions: Array<[string, QuestionDistribution]>;
+    classDistributions?: Array<[string, Array<[string, QuestionDistribution]>]>;
     attestationHistory: Array<[string, QuestionAttestation[]]>;
+    reviewableResponses?: ReviewableResponse[];
   }): void {
     this.distributions = new Map(data.distributions);
+    this.classDistributions = new Map(
+      (data.classDistributions || []).map(([classId, entries]) => [classId, new Map(entries)])
+    );
     this.attestationHistory = new Map(data.attestationHistory);
+    this.reviewableResponses = new Map(
+      (data.reviewableResponses || []).map(response => [response.responseId, response])
+    );
   }
   
   /**
    * Get top questions by convergence
    */
-  getTopQuestionsByConvergence(limit: number = 10): QuestionDistribution[] {
-    const sorted = Array.from(this.distributions.values())
+  getTopQuestionsByConvergence(limit: number = 10, classId?: string): QuestionDistribution[] {
+    const sorted = Array.from(this.distributionsFor(classId).values())
       .sort((a, b) => b.convergence - a.convergence);
     
     return sorted.slice(0, limit);
@@ -156,17 +265,27 @@ export class DistributionTracker {
   
   /**
    * Get questions needing more attestations
+   * Includes questions with FRQ responses that fewer than quorumThreshold peers
+   * have reviewed; those with the most such responses come first
    */
-  getQuestionsNeedingAttestations(quorumThreshold: number = 3): string[] {
-    const needingAttestations: string[] = [];
+  getQuestionsNeedingAttestations(quorumThreshold: number = 3, classId?: string): string[] {
+    const underReviewed = new Map<string, number>();
+    for (const response of this.reviewableResponses.values()) {
+      if ((classId === undefined || response.classId === classId) && response.reviewerIds.length < quorumThreshold) {
+        underReviewed.set(response.questionId, (underReviewed.get(response.questionId) || 0) + 1);
+      }
+    }
     
-    for (const [questionId, distribution] of this.distributions) {
+    const needingAttestations = new Set(underReviewed.keys());
+    for (const [questionId, distribution] of this.distributionsFor(classId)) {
       if (distribution.totalAttestations < quorumThreshold) {
-        needingAttestations.push(questionId);
+        needingAttestations.add(questionId);
       }
     }
     
-    return needingAttestations;
+    // Stable sort: questions without under-reviewed responses keep their order
+    return Array.from(needingAttestations)
+      .sort((a, b) => (underReviewed.get(b) || 0) - (underReviewed.get(a) || 0));
   }
   
   /**
@@ -179,4 +298,12 @@ export class DistributionTracker {
     const now = Date.now();
     return now - distribution.lastUpdated;
   }
+  
+  // The whole-chain map, or one class's (empty if it has no attestations yet)
+  private distributionsFor(classId?: string): Map<string, QuestionDistribution> {
+    if (classId === undefined) {
+      return this.distributions;
+    }
+    return this.classDistributions.get(classId) || new Map();
+  }
 }
\ No newline at end of file
@@ -1,21 +1,63 @@
 // Phase 2: Enhanced Blockchain with Consensus Integration
 // Extends Phase 1 blockchain with ADR-028 features
 
-import { Blockchain as Phase1Blockchain, createTransaction } from './blockchain';
-import { Transaction, AttestationData } from './types';
+import { Blockchain as Phase1Blockchain, createTransaction, MempoolPolicy, CheckpointState } from './blockchain';
+import { Transaction, AttestationData, AmendAttestationData, RetractAttestationData, ReorgEvent } from './types';
 import { ConsensusCalculator, QuestionDistribution } from './consensus';
 import { DistributionTracker } from './distributions';
 import { ReputationCalculator } from '../reputation/calculator';
 import { OutlierDetector } from './outliers';
-import { RateLimiter } from './rate-limiter';
-import { MCQAttestation, FRQAttestation, QuestionAttestation } from '../questions/types';
-import { hashMCQAnswer } from '../questions/hashing';
+import { RateLimiter, RateLimitEntry } from './rate-limiter';
+import {
+  MCQAttestation,
+  FRQAttestation,
+  QuestionAttestation,
+  Question,
+  Curriculum,
+  RubricPart,
+  RubricPartScores,
+  getAttestationType
+} from '../questions/types';
+import { hashMCQAnswer, hashMultiSelectAnswer, getChoiceFromHash, getSelectionFromHash } from '../questions/hashing';
+import {
+  DEFAULT_NUMERIC_TOLERANCE,
+  MAX_SHORT_ANSWER_LENGTH,
+  normalizeNumericAnswer,
+  isValidTolerance,
+  normalizeShortAnswer
+} from '../questions/normalization';
+import { calculateCompositeScore, compositeToFRQScore, isValidRubricPartScores } from '../questions/scoring';
+import {
+  ATTESTATION_GRACE_PERIOD_MS,
+  RevisionTarget,
+  checkRevision,
+  isRevisionTransaction,
+  revisionTargetFor
+} from './amendments';
+import {
+  DEFAULT_REVIEWS_PER_STUDENT,
+  ReviewAssignment,
+  assignPeerReviews,
+  blindResponseId,
+  checkReview
+} from './peer-review';
 import type { ConsensusData } from '../types/consensus';
+import { invariantMonitor } from '../invariants/monitor';
+import { InvariantType } from '../invariants/types';
 
 // Extended attestation data for Phase 2
 export interface Phase2AttestationData extends AttestationData {
   score?: number; // FRQ score (1-5)
+  partScores?: RubricPartScores; // FRQ E/P/I per rubric part; score must be their composite + 1
   confidence?: number; // Confidence level (1-5)
+  reviewOf?: string; // Peer review: blinded id of the FRQ response scored; carries no answerText
+}
+
+// Amendments carry the same Phase 2 fields as the attestation they replace
+export interface Phase2AmendmentData extends AmendAttestationData {
+  score?: number;
+  partScores?: RubricPartScores;
+  confidence?: number;
 }
 
 // Extended transaction for Phase 2
@@ -23,6 +65,21 @@ export interface Phase2Transaction extends Transaction {
   data: Phase2AttestationData | any;
 }
 
+// An accepted attestation and the version of it that consensus currently counts
+export interface TrackedAttestation {
+  target: RevisionTarget;
+  current: QuestionAttestation | null; // null once retracted
+}
+
+// Consensus state derived from attestations, as carried by checkpoints
+// (trackedAttestations is absent from checkpoints made before amendments)
+export type ConsensusState = {
+  distributions: ReturnType<DistributionTracker['export']>;
+  reputations: Array<[string, number]>;
+  rateLimits: Array<[string, RateLimitEntry]>;
+  trackedAttestations?: Array<[string, TrackedAttestation]>;
+};
+
 export class EnhancedBlockchain extends Phase1Blockchain {
   private consensusCalculator: ConsensusCalculator;
   private distributionTracker: DistributionTracker;
@@ -30,86 +87,453 @@ export class EnhancedBlockchain extends Phase1Blockchain {
   private outlierDetector: OutlierDetector;
   private rateLimiter: RateLimiter;
   private userReputations: Map<string, number>;
+  private trackedAttestations: Map<string, TrackedAttestation>;
+  private collusionGroups: string[][] = [];
+  private questions: Map<string, Question> = new Map();
   
-  constructor() {
-    super();
+  constructor(mempoolPolicy: Partial<MempoolPolicy> = {}) {
+    super(mempoolPolicy);
     this.consensusCalculator = new ConsensusCalculator();
     this.distributionTracker = new DistributionTracker();
     this.reputationCalculator = new ReputationCalculator();
     this.outlierDetector = new OutlierDetector();
     this.rateLimiter = new RateLimiter();
     this.userReputations = new Map();
+    this.trackedAttestations = new Map();
+    
+    // Derived state must follow the active chain across reorganizations
+    this.onReorg(event => this.handleReorg(event));
   }
   
   /**
    * Override addTransaction to include Phase 2 features
    */
   async addTransaction(transaction: Transaction): Promise<boolean> {
+    // Attestations and revisions are checked against derived state before entering the pool
+    let attestation: QuestionAttestation | null = null;
+    if (transaction.txType === 'Attestation') {
+      attestation = this.checkAttestation(transaction as Phase2Transaction);
+      if (!attestation) return false;
+    }
+    if (isRevisionTransaction(transaction)) {
+      const conflict = this.checkRevisionOf(transaction as Phase2Transaction);
+      if (conflict) {
+        console.error(`${conflict}:`, transaction.hash);
+        return false;
+      }
+    }
+    
     // Phase 1 validation
     const baseValid = await super.addTransaction(transaction);
     if (!baseValid) return false;
     
     // Phase 2: Process attestation transactions
-    if (transaction.txType === 'Attestation') {
-      return await this.processAttestation(transaction as Phase2Transaction);
+    if (attestation) {
+      await this.recordAttestation(transaction as Phase2Transaction, attestation);
+    }
+    if (isRevisionTransaction(transaction)) {
+      await this.applyRevision(transaction as Phase2Transaction);
     }
     
     return true;
   }
   
   /**
-   * Process attestation with consensus and reputation
+   * Check an attestation's rate limit, format and review target
+   * @returns The attestation to count, or null if it must be rejected
    */
-  private async processAttestation(transaction: Phase2Transaction): Promise<boolean> {
+  private checkAttestation(transaction: Phase2Transaction): QuestionAttestation | null {
     const attestationData = transaction.data as Phase2AttestationData;
-    const userId = transaction.attesterPubkey;
+    // Rate limits follow the identity, so rotating keys cannot reset them
+    const userId = this.resolveIdentity(transaction.attesterPubkey);
     const questionId = attestationData.questionId;
     
-    // Check rate limiting (30 days per ADR-028)
-    if (!this.rateLimiter.canAttest(userId, questionId)) {
+    // Check rate limiting (30 days per ADR-028); reviews are limited to one per response instead
+    if (attestationData.reviewOf === undefined && !this.rateLimiter.canAttest(userId, questionId)) {
       console.error(`Rate limit exceeded for user ${userId} on question ${questionId}`);
-      return false;
+      return null;
     }
     
     // Convert to QuestionAttestation format
     const attestation = this.transactionToAttestation(transaction);
     if (!attestation) {
       console.error('Invalid attestation format');
-      return false;
+      return null;
+    }
+    
+    const conflict = this.checkQuestionTypeOf(attestation) ?? this.checkReviewOf(transaction, attestation);
+    if (conflict) {
+      console.error(`${conflict}:`, transaction.hash);
+      return null;
+    }
+    
+    return attestation;
+  }
+  
+  /**
+   * Count an accepted attestation. FRQ answers are opened to peer review;
+   * reviews mark their response reviewed and can be neither amended nor
+   * retracted, and do not use up the reviewer's own answer to the question
+   */
+  private async recordAttestation(transaction: Phase2Transaction, attestation: QuestionAttestation): Promise<void> {
+    const data = transaction.data as Phase2AttestationData;
+    const identityId = this.resolveIdentity(transaction.attesterPubkey);
+    
+    if (data.reviewOf !== undefined) {
+      await this.applyAttestation(attestation, false);
+      this.distributionTracker.recordReview(data.reviewOf, identityId);
+      return;
+    }
+    
+    await this.applyAttestation(attestation);
+    this.trackAttestation(transaction, attestation);
+    if ('answerText' in attestation) {
+      this.distributionTracker.addReviewableResponse({
+        responseId: await blindResponseId(transaction.hash),
+        questionId: attestation.questionId,
+        authorId: identityId,
+        answerText: attestation.answerText,
+        ...(attestation.classId !== undefined ? { classId: attestation.classId } : {}),
+        reviewerIds: []
+      });
+    }
+  }
+  
+  /**
+   * Reason an attestation does not answer its kind of question, or null if it does.
+   * The curriculum decides the kind; without one, the question's first counted answer does
+   */
+  private checkQuestionTypeOf(attestation: QuestionAttestation): string | null {
+    const type = getAttestationType(attestation);
+    const expected = this.questions.get(attestation.questionId)?.type ??
+      this.distributionTracker.getDistribution(attestation.questionId)?.type;
+    if (expected === undefined || expected === type) {
+      return null;
+    }
+    return `A ${type} answer does not fit ${expected} question ${attestation.questionId}`;
+  }
+  
+  /**
+   * Reason a peer review may not be counted, or null if it may (or is no review)
+   */
+  private checkReviewOf(transaction: Phase2Transaction, attestation: QuestionAttestation): string | null {
+    const data = transaction.data as Phase2AttestationData;
+    if (data.reviewOf === undefined) {
+      return null;
+    }
+    if (!('score' in attestation)) {
+      return 'Only FRQ responses can be reviewed';
     }
+    return checkReview(
+      this.distributionTracker.getReviewableResponse(data.reviewOf),
+      this.resolveIdentity(transaction.attesterPubkey),
+      attestation.questionId
+    );
+  }
+  
+  /**
+   * Apply a validated attestation to distributions, reputation and rate limits
+   */
+  private async applyAttestation(attestation: QuestionAttestation, rateLimited: boolean = true): Promise<void> {
+    const userId = this.resolveIdentity(attestation.attesterPubkey);
+    const questionId = attestation.questionId;
+    const classId = attestation.classId;
     
     // Check for outliers
-    const existingAttestations = this.distributionTracker.getAttestationHistory(questionId);
+    const existingAttestations = this.distributionTracker.getAttestationHistory(questionId, classId);
     const outliers = this.outlierDetector.detectOutliers([...existingAttestations, attestation]);
-    if (outliers.includes(userId)) {
+    if (outliers.includes(attestation.attesterPubkey)) {
       console.warn(`Potential outlier detected for user ${userId}`);
       // Don't reject, but flag for review
     }
     
-    // Update distributions
+    // Update the whole-chain distributions and, if the attestation names one, its class's
     const distributions = this.distributionTracker.getAllDistributions();
     this.consensusCalculator.updateDistributions([attestation], distributions);
+    const classDistributions = this.distributionTracker.getAllClassDistributions();
+    this.consensusCalculator.updateClassDistributions([attestation], classDistributions);
     
     // Get updated distribution
     const distribution = distributions.get(questionId);
     if (!distribution) {
       console.error('Failed to update distribution');
-      return false;
+      return;
     }
+    const classDistribution = classId !== undefined
+      ? classDistributions.get(classId)?.get(questionId)
+      : undefined;
     
     // Save updated distribution
     this.distributionTracker.setDistribution(questionId, distribution);
+    if (classId !== undefined && classDistribution) {
+      this.distributionTracker.setClassDistribution(classId, questionId, classDistribution);
+    }
     this.distributionTracker.addAttestationToHistory(attestation);
     
-    // Check if consensus reached
-    if (this.consensusCalculator.hasReachedConsensus(distribution)) {
-      await this.processConsensusReached(questionId, distribution);
+    // Check if consensus reached; class attestations are judged within their class
+    const scoped = classDistribution ?? distribution;
+    if (this.consensusCalculator.hasReachedConsensus(scoped)) {
+      await this.processConsensusReached(questionId, scoped, classId);
     }
     
     // Update rate limiter
-    this.rateLimiter.recordAttestation(userId, questionId);
+    if (rateLimited) {
+      this.rateLimiter.recordAttestation(userId, questionId, attestation.timestamp);
+    }
+  }
+  
+  /**
+   * Remember an accepted attestation so it can be amended or retracted
+   */
+  private trackAttestation(transaction: Transaction, attestation: QuestionAttestation): void {
+    const identityId = this.resolveIdentity(transaction.attesterPubkey);
+    this.trackedAttestations.set(transaction.hash, {
+      target: revisionTargetFor(transaction, identityId),
+      current: attestation
+    });
+  }
+  
+  /**
+   * Reason an amendment or retraction may not be applied, or null if it may
+   */
+  private checkRevisionOf(transaction: Phase2Transaction): string | null {
+    const data = transaction.data as Phase2AmendmentData | RetractAttestationData;
+    const tracked = this.trackedAttestations.get(data.attestationHash);
+    const conflict = checkRevision(transaction, tracked?.target, this.resolveIdentity(transaction.attesterPubkey));
+    if (conflict || transaction.txType !== 'AmendAttestation') {
+      return conflict;
+    }
     
-    return true;
+    return this.amendmentToAttestation(transaction, tracked!.current!) ? null : 'Invalid amendment format';
+  }
+  
+  /**
+   * Reverse the revised attestation's contribution and, for an amendment,
+   * count the replacement in its place
+   */
+  private async applyRevision(transaction: Phase2Transaction): Promise<void> {
+    const data = transaction.data as Phase2AmendmentData | RetractAttestationData;
+    const tracked = this.trackedAttestations.get(data.attestationHash)!;
+    const previous = tracked.current!;
+    const replacement = transaction.txType === 'AmendAttestation'
+      ? this.amendmentToAttestation(transaction, previous)
+      : null;
+    
+    // Distributions are updated in place, so the tracker sees the reversal
+    this.consensusCalculator.updateDistributions([], this.distributionTracker.getAllDistributions(), [previous]);
+    this.consensusCalculator.updateClassDistributions([], this.distributionTracker.getAllClassDistributions(), [previous]);
+    this.distributionTracker.removeAttestationFromHistory(previous);
+    
+    // Reviewers see an amended answer's new text; a retracted one is no longer handed out
+    this.distributionTracker.reviseResponse(
+      await blindResponseId(data.attestationHash),
+      replacement && 'answerText' in replacement ? replacement.answerText : null
+    );
+    
+    if (replacement) {
+      await this.applyAttestation(replacement);
+    } else {
+      // A retracted answer no longer counts against the rate limit
+      this.rateLimiter.removeAttestation(tracked.target.identityId, previous.questionId);
+    }
+    
+    tracked.current = replacement;
+    tracked.target.retracted = replacement === null;
+  }
+  
+  /**
+   * Build the attestation an amendment replaces the previous version with
+   */
+  private amendmentToAttestation(
+    transaction: Phase2Transaction,
+    previous: QuestionAttestation
+  ): QuestionAttestation | null {
+    const data = transaction.data as Phase2AmendmentData;
+    const base = {
+      questionId: previous.questionId,
+      timestamp: transaction.timestamp,
+      attesterPubkey: transaction.attesterPubkey,
+      signature: transaction.signature,
+      ...(previous.classId !== undefined ? { classId: previous.classId } : {})
+    };
+    
+    if (data.answerHash) {
+      return { ...base, answerHash: data.answerHash };
+    }
+    const answer = this.structuredAnswer(data, this.numericTolerance(previous.questionId));
+    if (answer) {
+      return { ...base, ...answer };
+    }
+    if (data.answerText && data.score !== undefined && this.hasConsistentPartScores(data)) {
+      return {
+        ...base,
+        answerText: data.answerText,
+        score: data.score,
+        ...(data.partScores ? { partScores: data.partScores } : {}),
+        confidence: data.confidence || 3
+      };
+    }
+    return null;
+  }
+  
+  /**
+   * Multi-select, numeric or short answer carried by attestation data, if it
+   * is well formed. Answers must arrive normalized, so every device counts them alike
+   */
+  private structuredAnswer(
+    data: Phase2AttestationData | Phase2AmendmentData,
+    tolerance: number
+  ): { selectionHash: string } | { answerValue: number; tolerance: number } | { shortAnswer: string } | null {
+    if (data.selectionHash !== undefined) {
+      return getSelectionFromHash(data.selectionHash) ? { selectionHash: data.selectionHash } : null;
+    }
+    if (data.answerValue !== undefined) {
+      return typeof data.answerValue === 'number' && normalizeNumericAnswer(data.answerValue) === data.answerValue
+        ? { answerValue: data.answerValue, tolerance }
+        : null;
+    }
+    if (data.shortAnswer !== undefined) {
+      return typeof data.shortAnswer === 'string' && normalizeShortAnswer(data.shortAnswer) === data.shortAnswer
+        ? { shortAnswer: data.shortAnswer }
+        : null;
+    }
+    return null;
+  }
+  
+  /**
+   * A numeric question's tolerance, from the curriculum; never from the attestation,
+   * so an attester cannot choose how their answer is binned
+   */
+  private numericTolerance(questionId: string): number {
+    const tolerance = this.questions.get(questionId)?.tolerance;
+    return isValidTolerance(tolerance) ? tolerance : DEFAULT_NUMERIC_TOLERANCE;
+  }
+  
+  /**
+   * Rubric-scored FRQ data must carry valid part scores and the 1-5 score they imply;
+   * data without part scores passes
+   */
+  private hasConsistentPartScores(data: Phase2AttestationData | Phase2AmendmentData): boolean {
+    if (data.partScores === undefined) {
+      return true;
+    }
+    return isValidRubricPartScores(data.partScores) &&
+      data.score === compositeToFRQScore(calculateCompositeScore(Object.values(data.partScores)));
+  }
+  
+  /**
+   * Time until which an attestation can still be amended or retracted,
+   * or null if it is unknown or already retracted
+   */
+  getRevisionDeadline(attestationHash: string): number | null {
+    const tracked = this.trackedAttestations.get(attestationHash);
+    if (!tracked || tracked.target.retracted) {
+      return null;
+    }
+    return tracked.target.timestamp + ATTESTATION_GRACE_PERIOD_MS;
+  }
+  
+  /**
+   * Roll back derived state and re-apply it from the new active chain
+   */
+  private async handleReorg(event: ReorgEvent): Promise<void> {
+    if (event.removedBlocks.length > 0) {
+      console.log(`Rebuilding consensus state after reorg at height ${event.forkHeight}`);
+    }
+    
+    await this.rebuildDerivedState();
+  }
+  
+  /**
+   * Rebuild consensus state from the active chain and the pending pool
+   */
+  protected async rebuildDerivedState(): Promise<void> {
+    await this.replayAttestations(true);
+  }
+  
+  /**
+   * Snapshot consensus state as of the chain tip, for a checkpoint
+   */
+  protected async captureCheckpointState(): Promise<CheckpointState> {
+    // Live state includes pending attestations, which a snapshot of mined blocks must leave out
+    const live = this.exportConsensusState();
+    await this.replayAttestations(false);
+    const mined = this.exportConsensusState();
+    this.importConsensusState(live);
+    return mined;
+  }
+  
+  /**
+   * Reset consensus state and replay attestations, starting from the
+   * trusted checkpoint when there is one
+   */
+  private async replayAttestations(includePending: boolean): Promise<void> {
+    const base = this.checkpoint;
+    if (base) {
+      this.importConsensusState(base.state as ConsensusState);
+    } else {
+      this.distributionTracker.clear();
+      this.rateLimiter.clear();
+      this.userReputations = new Map();
+      this.trackedAttestations = new Map();
+    }
+    
+    // Replay mined attestations first, then whatever is still pending (incl. returned orphans)
+    const transactions = [
+      ...this.chain.slice(base ? base.height + 1 : 0).flatMap(block => block.transactions),
+      ...(includePending ? this.mempool.getTransactions() : [])
+    ];
+    
+    for (const transaction of transactions) {
+      // One transaction that cannot be replayed must not keep the rest of the chain from loading
+      try {
+        await this.replayTransaction(transaction as Phase2Transaction);
+      } catch (error) {
+        console.error('Skipping transaction that failed to replay:', transaction.hash, error);
+        invariantMonitor.reportViolations([{
+          type: InvariantType.PERSISTENCE_INTEGRITY,
+          message: `${transaction.txType} could not be replayed from the chain`,
+          severity: 'high',
+          timestamp: Date.now(),
+          context: { transaction: transaction.hash, error: String(error) },
+          location: `Transaction ${transaction.hash}`,
+          suggestion: 'The transaction is left out of consensus state'
+        }]);
+      }
+    }
+  }
+  
+  /**
+   * Re-apply one attestation or revision, skipping it if it would be rejected today
+   */
+  private async replayTransaction(transaction: Phase2Transaction): Promise<void> {
+    if (transaction.txType === 'Attestation') {
+      const attestation = this.transactionToAttestation(transaction);
+      if (attestation && this.checkQuestionTypeOf(attestation) === null &&
+          this.checkReviewOf(transaction, attestation) === null) {
+        await this.recordAttestation(transaction, attestation);
+      }
+    } else if (isRevisionTransaction(transaction) && this.checkRevisionOf(transaction) === null) {
+      await this.applyRevision(transaction);
+    }
+  }
+  
+  // Deep copies both ways: distributions are updated in place and must not alias a checkpoint
+  private exportConsensusState(): ConsensusState {
+    return JSON.parse(JSON.stringify({
+      distributions: this.distributionTracker.export(),
+      reputations: Array.from(this.userReputations.entries()),
+      rateLimits: this.rateLimiter.export(),
+      trackedAttestations: Array.from(this.trackedAttestations.entries())
+    }));
+  }
+  
+  private importConsensusState(state: ConsensusState): void {
+    const copy: ConsensusState = JSON.parse(JSON.stringify(state));
+    this.distributionTracker.import(copy.distributions);
+    this.userReputations = new Map(copy.reputations);
+    this.rateLimiter.import(copy.rateLimits);
+    this.trackedAttestations = new Map(copy.trackedAttestations || []);
   }
   
   /**
@@ -117,27 +541,51 @@ export class EnhancedBlockchain extends Phase1Blockchain {
    */
   private transactionToAttestation(transaction: Phase2Transaction): QuestionAttestation | null {
     const data = transaction.data as Phase2AttestationData;
+    // Attestations without a class id count toward the class their author joined
+    const classId = data.classId ?? this.getClassOf(transaction.attesterPubkey) ?? undefined;
+    const scope = classId !== undefined ? { classId } : {};
+    // Reviews score the response they name instead of carrying an answer
+    const answerText = data.reviewOf !== undefined
+      ? this.distributionTracker.getReviewableResponse(data.reviewOf)?.answerText
+      : data.answerText;
+    const answer = data.reviewOf === undefined ? this.structuredAnswer(data, this.numericTolerance(data.questionId)) : null;
     
     if (data.answerHash) {
+      if (!getChoiceFromHash(data.answerHash)) {
+        return null;
+      }
       // MCQ Attestation
       const mcqAttestation: MCQAttestation = {
         questionId: data.questionId,
         answerHash: data.answerHash,
         timestamp: transaction.timestamp,
         attesterPubkey: transaction.attesterPubkey,
-        signature: transaction.signature
+        signature: transaction.signature,
+        ...scope
       };
       return mcqAttestation;
-    } else if (data.answerText && data.score !== undefined) {
+    } else if (answer) {
+      // Multi-select, numeric or short-answer Attestation
+      return {
+        questionId: data.questionId,
+        ...answer,
+        timestamp: transaction.timestamp,
+        attesterPubkey: transaction.attesterPubkey,
+        signature: transaction.signature,
+        ...scope
+      };
+    } else if (answerText && data.score !== undefined && this.hasConsistentPartScores(data)) {
       // FRQ Attestation
       const frqAttestation: FRQAttestation = {
         questionId: data.questionId,
-        answerText: data.answerText,
+        answerText,
         score: data.score,
+        ...(data.partScores ? { partScores: data.partScores } : {}),
         confidence: data.confidence || 3,
         timestamp: transaction.timestamp,
         attesterPubkey: transaction.attesterPubkey,
-        signature: transaction.signature
+        signature: transaction.signature,
+        ...scope
       };
       return frqAttestation;
     }
@@ -150,15 +598,18 @@ export class EnhancedBlockchain extends Phase1Blockchain {
    */
   private async processConsensusReached(
     questionId: string,
-    distribution: QuestionDistribution
+    distribution: QuestionDistribution,
+    classId?: string
   ): Promise<void> {
-    console.log(`Consensus reached for question ${questionId} with convergence ${distribution.convergence}`);
+    const scope = classId !== undefined ? ` in class ${classId}` : '';
+    console.log(`Consensus reached for question ${questionId}${scope} with convergence ${distribution.convergence}`);
     
-    // Calculate rewards for all participants
-    const attestations = this.distributionTracker.getAttestationHistory(questionId);
+    // Calculate rewards for all participants (of the class, for a class distribution)
+    const attestations = this.distributionTracker.getAttestationHistory(questionId, classId);
     
     for (const attestation of attestations) {
-      const userId = attestation.attesterPubkey;
+      // Credit the identity, not the key, so history survives key rotation
+      const userId = this.resolveIdentity(attestation.attesterPubkey);
       const reward = this.reputationCalculator.calculateReward(attestation, distribution);
       
       // Update user reputation
@@ -169,24 +620,81 @@ export class EnhancedBlockchain extends Phase1Blockchain {
     }
   }
   
+  /**
+   * Set the questions attestations answer. Each attestation must match its
+   * question's type, and numeric answers are binned by the question's tolerance.
+   * Distributions are rebuilt from the chain against the new questions.
+   */
+  async setCurriculum(curriculum: Curriculum): Promise<void> {
+    this.questions = new Map(curriculum.map(question => [question.id, question]));
+    await this.rebuildDerivedState();
+  }
+  
+  /**
+   * Opt in to (or out of) reputation-weighted consensus, in which attestations
+   * count in proportion to the attester's reputation and confidence.
+   * Distributions are rebuilt from the chain under the new mode.
+   */
+  async setReputationWeighting(enabled: boolean): Promise<void> {
+    if (enabled === this.consensusCalculator.isReputationWeighted()) return;
+    
+    this.consensusCalculator.setReputationWeighting(
+      enabled ? pubkey => this.userReputations.get(this.resolveIdentity(pubkey)) || 0 : null
+    );
+    await this.rebuildDerivedState();
+  }
+  
+  isReputationWeighted(): boolean {
+    return this.consensusCalculator.isReputationWeighted();
+  }
+  
+  /**
+   * Flag groups of identities or keys (e.g. PatternDetector's CollusionReport.groups)
+   * whose members are never assigned each other's responses to review
+   */
+  setCollusionGroups(groups: string[][]): void {
+    this.collusionGroups = groups.map(group => group.map(member => this.resolveIdentity(member)));
+  }
+  
+  /**
+   * FRQ responses to one question a student is asked to score, completed ones
+   * included; within the student's class if they joined one
+   */
+  getPeerReviewAssignments(
+    pubkey: string,
+    questionId: string,
+    reviewsPerStudent: number = DEFAULT_REVIEWS_PER_STUDENT
+  ): ReviewAssignment[] {
+    const responses = this.distributionTracker.getReviewableResponses(questionId, this.getClassOf(pubkey) ?? undefined);
+    const assignments = assignPeerReviews(responses, reviewsPerStudent, this.collusionGroups);
+    return assignments.get(this.resolveIdentity(pubkey)) || [];
+  }
+  
+  /**
+   * Get questions needing more attestations, those with under-reviewed FRQ responses first
+   */
+  getQuestionsNeedingAttestations(quorumThreshold: number = 3, classId?: string): string[] {
+    return this.distributionTracker.getQuestionsNeedingAttestations(quorumThreshold, classId);
+  }
+  
   /**
    * Get user reputation
    */
   getUserReputation(userId: string): number {
-    return this.userReputations.get(userId) || 0;
+    return this.userReputations.get(this.resolveIdentity(userId)) || 0;
   }
   
   /**
-   * Get consensus statistics
+   * Get consensus statistics, for the whole chain or one class
    */
-  getConsensusStats(): {
+  getConsensusStats(classId?: string): {
     totalQuestions: number;
     consensusReached: number;
     averageConvergence: number;
     totalAttestations: number;
   } {
-    const stats = this.distributionTracker.getStatistics();
-    const consensusQuestions = this.distributionTracker.getConsensusQuestions();
+    const stats = this.distributionTracker.getStatistics(classId);
+    const consensusQuestions = this.distributionTracker.getConsensusQuestions(0.5, classId);
     
     return {
       totalQuestions: stats.totalQuestions,
@@ -200,28 +708,23 @@ export class EnhancedBlockchain extends Phase1Blockchain {
    * Get attestations for a specific question
    */
   getAttestationsForQuestion(questionId: string): Transaction[] {
-    return this.chain
-      .flatMap(block => block.transactions)
-      .filter(tx => 
-        tx.txType === 'Attestation' && 
-        (tx.data as AttestationData).questionId === questionId
-      );
+    return this.getAttestationsByQuestion(questionId);
   }
-
+  
   /**
    * Get consensus data for a question
    */
   getConsensusForQuestion(questionId: string): ConsensusData | null {
     const distribution = this.distributionTracker.getDistribution(questionId);
     if (!distribution) return null;
-
+    
     // Format as ConsensusData
     const consensusData: ConsensusData = {
       type: distribution.mcqDistribution ? 'mcq' : 'frq',
       convergence: distribution.convergence || 0,
       totalAttestations: distribution.attestationCount || 0
     };
-
+    
     if (distribution.mcqDistribution) {
       consensusData.mcq = {
         distribution: distribution.mcqDistribution,
@@ -229,7 +732,7 @@ export class EnhancedBlockchain extends Phase1Blockchain {
           .sort(([,a], [,b]) => b - a)[0]?.[0] || ''
       };
     }
-
+    
     if (distribution.frqScores && distribution.frqScores.length > 0) {
       const scores = distribution.frqScores;
       const mean = scores.reduce((a, b) => a + b, 0) / scores.length;
@@ -242,52 +745,43 @@ export class EnhancedBlockchain extends Phase1Blockchain {
         peerAnswers: [] // TODO: Add peer answer storage
       };
     }
-
+    
     return consensusData;
   }
-
+  
   /**
-   * Get attestation count for a user
+   * Get attestation count for a user (across all keys of their identity)
    */
   getAttestationCount(pubkey: string): number {
-    return this.chain
-      .flatMap(block => block.transactions)
-      .filter(tx => 
-        tx.txType === 'Attestation' && 
-        tx.attesterPubkey === pubkey
-      ).length;
+    return this.getAttestationsByUser(pubkey).length;
   }
-
+  
   /**
    * Get recent transactions
    */
   getRecentTransactions(limit: number = 10): Transaction[] {
-    const allTxs = this.chain
-      .flatMap(block => block.transactions)
-      .sort((a, b) => b.timestamp - a.timestamp);
-    
-    return allTxs.slice(0, limit);
+    return this.index.getRecentTransactions(limit);
   }
-
+  
   /**
    * Get user reputation (async version)
    */
   async getUserReputation(pubkey: string): Promise<number> {
-    return this.userReputations.get(pubkey) || 0;
+    return this.userReputations.get(this.resolveIdentity(pubkey)) || 0;
   }
-
+  
   /**
-   * Get distribution for a specific question
+   * Get distribution for a specific question, optionally within one class
    */
-  getQuestionDistribution(questionId: string): QuestionDistribution | undefined {
-    return this.distributionTracker.getDistribution(questionId);
+  getQuestionDistribution(questionId: string, classId?: string): QuestionDistribution | undefined {
+    return this.distributionTracker.getDistribution(questionId, classId);
   }
   
   /**
-   * Get all distributions
+   * Get all distributions, optionally only one class's
    */
-  getAllDistributions(): Map<string, QuestionDistribution> {
-    return this.distributionTracker.getAllDistributions();
+  getAllDistributions(classId?: string): Map<string, QuestionDistribution> {
+    return this.distributionTracker.getAllDistributions(classId);
   }
   
   /**
@@ -343,7 +837,7 @@ export class EnhancedBlockchain extends Phase1Blockchain {
     questionId: string,
     choice: string,
     attesterPubkey: string,
-    privkey: string
+    privkey?: string
   ): Promise<Transaction | null> {
     try {
       const answerHash = hashMCQAnswer(choice);
@@ -359,6 +853,83 @@ export class EnhancedBlockchain extends Phase1Blockchain {
     }
   }
   
+  /**
+   * Create multi-select attestation transaction
+   */
+  async createMultiSelectAttestation(
+    questionId: string,
+    choices: string[],
+    attesterPubkey: string,
+    privkey?: string
+  ): Promise<Transaction | null> {
+    try {
+      const attestationData: Phase2AttestationData = {
+        questionId,
+        selectionHash: hashMultiSelectAnswer(choices)
+      };
+      
+      return await createTransaction('Attestation', attestationData, attesterPubkey, privkey);
+    } catch (error) {
+      console.error('Failed to create multi-select attestation:', error);
+      return null;
+    }
+  }
+  
+  /**
+   * Create numeric attestation transaction
+   * Answers are binned by the question's tolerance, set with setCurriculum
+   */
+  async createNumericAttestation(
+    questionId: string,
+    answer: string | number,
+    attesterPubkey: string,
+    privkey?: string
+  ): Promise<Transaction | null> {
+    try {
+      const answerValue = normalizeNumericAnswer(answer);
+      if (answerValue === null) {
+        throw new Error(`Not a number: ${answer}`);
+      }
+      
+      const attestationData: Phase2AttestationData = {
+        questionId,
+        answerValue
+      };
+      
+      return await createTransaction('Attestation', attestationData, attesterPubkey, privkey);
+    } catch (error) {
+      console.error('Failed to create numeric attestation:', error);
+      return null;
+    }
+  }
+  
+  /**
+   * Create short-answer attestation transaction
+   */
+  async createShortAnswerAttestation(
+    questionId: string,
+    answer: string,
+    attesterPubkey: string,
+    privkey?: string
+  ): Promise<Transaction | null> {
+    try {
+      const shortAnswer = normalizeShortAnswer(answer);
+      if (shortAnswer === null) {
+        throw new Error(`Short answers must be 1-${MAX_SHORT_ANSWER_LENGTH} characters`);
+      }
+      
+      const attestationData: Phase2AttestationData = {
+        questionId,
+        shortAnswer
+      };
+      
+      return await createTransaction('Attestation', attestationData, attesterPubkey, privkey);
+    } catch (error) {
+      console.error('Failed to create short-answer attestation:', error);
+      return null;
+    }
+  }
+  
   /**
    * Create FRQ attestation transaction
    */
@@ -368,7 +939,7 @@ export class EnhancedBlockchain extends Phase1Blockchain {
     score: number,
     confidence: number,
     attesterPubkey: string,
-    privkey: string
+    privkey?: string
   ): Promise<Transaction | null> {
     try {
       // Validate score and confidence
@@ -392,4 +963,81 @@ export class EnhancedBlockchain extends Phase1Blockchain {
       return null;
     }
   }
+  
+  /**
+   * Create FRQ attestation scored part by part (E/P/I per rubric part)
+   * The 1-5 score is derived from the parts' AP 4-point composite
+   */
+  async createRubricFRQAttestation(
+    questionId: string,
+    answerText: string,
+    partScores: RubricPartScores,
+    confidence: number,
+    attesterPubkey: string,
+    privkey?: string,
+    rubric?: RubricPart[]
+  ): Promise<Transaction | null> {
+    try {
+      if (!isValidRubricPartScores(partScores, rubric)) {
+        throw new Error('Each rubric part must be scored E, P or I');
+      }
+      if (confidence < 1 || confidence > 5) {
+        throw new Error('Confidence must be between 1 and 5');
+      }
+      
+      const attestationData: Phase2AttestationData = {
+        questionId,
+        answerText,
+        score: compositeToFRQScore(calculateCompositeScore(Object.values(partScores))),
+        partScores,
+        confidence
+      };
+      
+      return await createTransaction('Attestation', attestationData, attesterPubkey, privkey);
+    } catch (error) {
+      console.error('Failed to create rubric FRQ attestation:', error);
+      return null;
+    }
+  }
+  
+  /**
+   * Create a peer review of an assigned FRQ response: a 1-5 score, or E/P/I
+   * scores per rubric part from which the score is derived
+   */
+  async createPeerReview(
+    assignment: ReviewAssignment,
+    scores: number | RubricPartScores,
+    confidence: number,
+    attesterPubkey: string,
+    privkey?: string
+  ): Promise<Transaction | null> {
+    try {
+      const partScores = typeof scores === 'number' ? undefined : scores;
+      if (partScores !== undefined && !isValidRubricPartScores(partScores)) {
+        throw new Error('Each rubric part must be scored E, P or I');
+      }
+      const score = partScores !== undefined
+        ? compositeToFRQScore(calculateCompositeScore(Object.values(partScores)))
+        : scores as number;
+      if (score < 1 || score > 5) {
+        throw new Error('Score must be between 1 and 5');
+      }
+      if (confidence < 1 || confidence > 5) {
+        throw new Error('Confidence must be between 1 and 5');
+      }
+      
+      const attestationData: Phase2AttestationData = {
+        questionId: assignment.questionId,
+        reviewOf: assignment.responseId,
+        score,
+        ...(partScores !== undefined ? { partScores } : {}),
+        confidence
+      };
+      
+      return await createTransaction('Attestation', attestationData, attesterPubkey, privkey);
+    } catch (error) {
+      console.error('Failed to create peer review:', error);
+      return null;
+    }
+  }
 }
\ No newline at end of file
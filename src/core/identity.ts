@@ -0,0 +1,227 @@
+// Identity Continuity
+// A student's identity starts with a CreateUser key. RotateKey and
+// RevokeIdentity, signed by the current key, retire it and hand the identity
+// to a new pubkey, so every key an identity has used resolves to one id: the
+// pubkey it was created with. The registry also keeps the class namespaces
+// registered by CreateClass and which class each identity joined.
+import {
+  Transaction,
+  CreateUserData,
+  RotateKeyData,
+  RevokeIdentityData,
+  CreateClassData,
+  SetDifficultyPolicyData,
+  AttestationData
+} from './types.js';
+import { ClassRecord, validateClassData } from './classes.js';
+
+export interface IdentityRecord {
+  id: string;                   // Pubkey the identity was created with
+  username: string;
+  keys: string[];               // Every key used, oldest first
+  currentPubkey: string | null; // null once revoked without a successor
+  classId?: string;             // Class joined at CreateUser
+}
+
+// Check the payload shape of key-change transactions; needs no chain state
+export const validateKeyChangeData = (tx: Transaction): string | null => {
+  if (tx.txType !== 'RotateKey' && tx.txType !== 'RevokeIdentity') {
+    return null;
+  }
+  
+  const data = tx.data as RotateKeyData | RevokeIdentityData;
+  if (tx.txType === 'RotateKey' && typeof data.newPubkey !== 'string') {
+    return 'RotateKey must name the new pubkey';
+  }
+  if (data.newPubkey !== undefined && (typeof data.newPubkey !== 'string' || data.newPubkey.length === 0)) {
+    return 'New pubkey must be a non-empty string';
+  }
+  if (data.newPubkey === tx.attesterPubkey) {
+    return 'New pubkey must differ from the signing key';
+  }
+  
+  return null;
+};
+
+// Identities replayed from transactions in chain order
+export class IdentityRegistry {
+  private records: Map<string, IdentityRecord> = new Map();
+  private keyToIdentity: Map<string, string> = new Map();
+  private retiredKeys: Set<string> = new Set();
+  private classes: Map<string, ClassRecord> = new Map();
+  
+  /**
+   * Build a registry by applying transactions in order
+   */
+  static fromTransactions(transactions: Transaction[]): IdentityRegistry {
+    const registry = new IdentityRegistry();
+    for (const tx of transactions) {
+      registry.apply(tx);
+    }
+    return registry;
+  }
+  
+  clone(): IdentityRegistry {
+    const copy = new IdentityRegistry();
+    for (const [id, record] of this.records) {
+      copy.records.set(id, { ...record, keys: [...record.keys] });
+    }
+    copy.keyToIdentity = new Map(this.keyToIdentity);
+    copy.retiredKeys = new Set(this.retiredKeys);
+    copy.classes = new Map(this.classes);
+    return copy;
+  }
+  
+  /**
+   * Identity id for any key the identity has used, or null if unknown
+   */
+  resolve(pubkey: string): string | null {
+    return this.keyToIdentity.get(pubkey) ?? null;
+  }
+  
+  /**
+   * Whether the key belongs to any identity, current or retired
+   */
+  isKnown(pubkey: string): boolean {
+    return this.keyToIdentity.has(pubkey);
+  }
+  
+  isRetired(pubkey: string): boolean {
+    return this.retiredKeys.has(pubkey);
+  }
+  
+  getIdentity(pubkey: string): IdentityRecord | null {
+    const id = this.resolve(pubkey);
+    const record = id ? this.records.get(id) : undefined;
+    return record ? { ...record, keys: [...record.keys] } : null;
+  }
+  
+  getIdentities(): IdentityRecord[] {
+    return Array.from(this.records.values()).map(record => ({ ...record, keys: [...record.keys] }));
+  }
+  
+  getClass(classId: string): ClassRecord | null {
+    const record = this.classes.get(classId);
+    return record ? { ...record } : null;
+  }
+  
+  getClasses(): ClassRecord[] {
+    return Array.from(this.classes.values()).map(record => ({ ...record }));
+  }
+  
+  /**
+   * Class the key's identity joined, or null for unregistered or unassigned keys
+   */
+  getClassOf(pubkey: string): string | null {
+    return this.getIdentity(pubkey)?.classId ?? null;
+  }
+  
+  /**
+   * Reason the transaction conflicts with current identities, or null if it may be applied
+   */
+  check(tx: Transaction): string | null {
+    if (this.retiredKeys.has(tx.attesterPubkey)) {
+      return `Key ${tx.attesterPubkey.substring(0, 20)}... has been retired`;
+    }
+    
+    switch (tx.txType) {
+      case 'CreateUser': {
+        const data = tx.data as CreateUserData;
+        if (this.isKnown(data.pubkey)) {
+          return 'Pubkey already belongs to an identity';
+        }
+        return data.classId !== undefined && !this.classes.has(data.classId)
+          ? `Unknown class ${data.classId}`
+          : null;
+      }
+      case 'RotateKey':
+      case 'RevokeIdentity': {
+        if (!this.isKnown(tx.attesterPubkey)) {
+          return `${tx.txType} signed by an unregistered key`;
+        }
+        const newPubkey = (tx.data as RotateKeyData | RevokeIdentityData).newPubkey;
+        if (newPubkey !== undefined && this.isKnown(newPubkey)) {
+          return 'New pubkey already belongs to an identity';
+        }
+        return null;
+      }
+      case 'ProfileUpdate':
+        return this.isKnown(tx.attesterPubkey) ? null : 'ProfileUpdate signed by an unregistered key';
+      case 'CreateClass': {
+        const classId = (tx.data as CreateClassData).classId;
+        return this.classes.has(classId) ? `Class ${classId} already exists` : null;
+      }
+      case 'SetDifficultyPolicy': {
+        // Only the teacher who registered the class sets its mining policy
+        const classId = (tx.data as SetDifficultyPolicyData).classId;
+        const record = this.classes.get(classId);
+        if (!record) {
+          return `Unknown class ${classId}`;
+        }
+        // Compare identities so the teacher keeps the right across key rotations
+        const creator = this.resolve(record.creatorPubkey) ?? record.creatorPubkey;
+        return (this.resolve(tx.attesterPubkey) ?? tx.attesterPubkey) === creator
+          ? null
+          : `Only the creator of class ${classId} may set its difficulty policy`;
+      }
+      case 'Attestation': {
+        // Students attest within the class they joined
+        const classId = (tx.data as AttestationData).classId;
+        if (classId === undefined) {
+          return null;
+        }
+        if (!this.classes.has(classId)) {
+          return `Unknown class ${classId}`;
+        }
+        const memberOf = this.getClassOf(tx.attesterPubkey);
+        return memberOf !== null && memberOf !== classId
+          ? `Attester belongs to class ${memberOf}, not ${classId}`
+          : null;
+      }
+      default:
+        return null;
+    }
+  }
+  
+  /**
+   * Apply a transaction; ones that fail check() leave the registry unchanged
+   */
+  apply(tx: Transaction): boolean {
+    if (this.check(tx) !== null || validateKeyChangeData(tx) !== null || validateClassData(tx) !== null) {
+      return false;
+    }
+    
+    if (tx.txType === 'CreateUser') {
+      const data = tx.data as CreateUserData;
+      this.records.set(data.pubkey, {
+        id: data.pubkey,
+        username: data.username,
+        keys: [data.pubkey],
+        currentPubkey: data.pubkey,
+        ...(data.classId !== undefined ? { classId: data.classId } : {})
+      });
+      this.keyToIdentity.set(data.pubkey, data.pubkey);
+    } else if (tx.txType === 'RotateKey' || tx.txType === 'RevokeIdentity') {
+      const id = this.keyToIdentity.get(tx.attesterPubkey)!;
+      const record = this.records.get(id)!;
+      const newPubkey = (tx.data as RotateKeyData | RevokeIdentityData).newPubkey;
+      
+      this.retiredKeys.add(tx.attesterPubkey);
+      record.currentPubkey = newPubkey ?? null;
+      if (newPubkey) {
+        record.keys.push(newPubkey);
+        this.keyToIdentity.set(newPubkey, id);
+      }
+    } else if (tx.txType === 'CreateClass') {
+      const data = tx.data as CreateClassData;
+      this.classes.set(data.classId, {
+        classId: data.classId,
+        name: data.name.trim(),
+        creatorPubkey: tx.attesterPubkey,
+        createdAt: tx.timestamp
+      });
+    }
+    
+    return true;
+  }
+}
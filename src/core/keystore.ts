@@ -0,0 +1,227 @@
+// Keystore
+// A profile's private key and seed phrase are stored only encrypted under the
+// student's passphrase (PBKDF2 -> AES-GCM). Unlocking decrypts the private key
+// into an in-memory session that locks itself after a period of inactivity;
+// signing code asks the session for the key instead of reading it off a Profile.
+import { canonicalStringify } from './canonical.js';
+
+export const KEYSTORE_VERSION = 1;
+export const DEFAULT_PBKDF2_ITERATIONS = 310000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const DEFAULT_IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+
+export interface ProfileSecrets {
+  privkey: string;
+  seedphrase: string;
+}
+
+export interface EncryptedSecrets {
+  version: number;
+  iterations: number;  // PBKDF2-SHA256 rounds
+  salt: string;        // Base64
+  iv: string;          // Base64 AES-GCM nonce
+  ciphertext: string;  // Base64; authenticated together with the profile pubkey
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  return btoa(String.fromCharCode(...bytes));
+};
+
+const fromBase64 = (value: string) => {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+};
+
+// Derive the AES key that wraps a profile's secrets
+const deriveWrappingKey = async (passphrase: string, salt: BufferSource, iterations: number): Promise<CryptoKey> => {
+  const encoder = new TextEncoder();
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  
+  return await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// Encrypt a string under a passphrase, binding associatedData so the blob cannot be moved elsewhere
+// No length policy here; callers decide what secret is strong enough
+export const encryptPayload = async (
+  plaintext: string,
+  passphrase: string,
+  associatedData: string,
+  iterations: number = DEFAULT_PBKDF2_ITERATIONS
+): Promise<EncryptedSecrets> => {
+  const encoder = new TextEncoder();
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveWrappingKey(passphrase, salt, iterations);
+  
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(associatedData) },
+    key,
+    encoder.encode(plaintext)
+  );
+  
+  return {
+    version: KEYSTORE_VERSION,
+    iterations,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext))
+  };
+};
+
+// Decrypt a payload from encryptPayload; a wrong passphrase, associated data or tampered blob throws
+export const decryptPayload = async (
+  encrypted: EncryptedSecrets,
+  passphrase: string,
+  associatedData: string
+): Promise<string> => {
+  if (encrypted.version !== KEYSTORE_VERSION) {
+    throw new Error(`Unsupported keystore version: ${encrypted.version}`);
+  }
+  
+  const encoder = new TextEncoder();
+  const key = await deriveWrappingKey(passphrase, fromBase64(encrypted.salt), encrypted.iterations);
+  
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(encrypted.iv), additionalData: encoder.encode(associatedData) },
+      key,
+      fromBase64(encrypted.ciphertext)
+    );
+  } catch {
+    throw new Error('Wrong passphrase');
+  }
+  
+  return new TextDecoder().decode(plaintext);
+};
+
+// Encrypt a profile's secrets under a passphrase
+// The pubkey is bound as associated data, so a blob cannot be moved onto another profile
+export const encryptSecrets = async (
+  secrets: ProfileSecrets,
+  passphrase: string,
+  pubkey: string,
+  iterations: number = DEFAULT_PBKDF2_ITERATIONS
+): Promise<EncryptedSecrets> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  
+  const plaintext = canonicalStringify({ privkey: secrets.privkey, seedphrase: secrets.seedphrase });
+  return await encryptPayload(plaintext, passphrase, pubkey, iterations);
+};
+
+// Decrypt a profile's secrets; a wrong passphrase or tampered blob throws
+export const decryptSecrets = async (
+  encrypted: EncryptedSecrets,
+  passphrase: string,
+  pubkey: string
+): Promise<ProfileSecrets> => {
+  const secrets = JSON.parse(await decryptPayload(encrypted, passphrase, pubkey));
+  return { privkey: secrets.privkey, seedphrase: secrets.seedphrase };
+};
+
+// Unlocked signing keys, held in memory only
+// Any use of a key counts as activity; after idleTimeoutMs without activity every key is dropped
+export class KeySession {
+  private keys: Map<string, string> = new Map();
+  private idleTimeoutMs: number;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private lockListeners: Array<(pubkeys: string[]) => void> = [];
+  
+  constructor(idleTimeoutMs: number = DEFAULT_IDLE_TIMEOUT_MS) {
+    this.idleTimeoutMs = idleTimeoutMs;
+  }
+  
+  /**
+   * Change the idle timeout; applies from the next activity
+   */
+  setIdleTimeout(idleTimeoutMs: number): void {
+    if (!(idleTimeoutMs > 0)) {
+      throw new Error('Idle timeout must be positive');
+    }
+    this.idleTimeoutMs = idleTimeoutMs;
+    if (this.keys.size > 0) {
+      this.touch();
+    }
+  }
+  
+  /**
+   * Hold a decrypted private key for signing
+   */
+  unlock(pubkey: string, privkey: string): void {
+    this.keys.set(pubkey, privkey);
+    this.touch();
+  }
+  
+  isUnlocked(pubkey: string): boolean {
+    return this.keys.has(pubkey);
+  }
+  
+  /**
+   * Private key for an unlocked profile; throws if it is locked
+   */
+  requireKey(pubkey: string): string {
+    const privkey = this.keys.get(pubkey);
+    if (!privkey) {
+      throw new Error(`Profile ${pubkey.substring(0, 20)}... is locked; unlock it with its passphrase`);
+    }
+    this.touch();
+    return privkey;
+  }
+  
+  /**
+   * Restart the idle countdown
+   */
+  touch(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+    }
+    this.idleTimer = setTimeout(() => this.lock(), this.idleTimeoutMs);
+  }
+  
+  /**
+   * Drop one profile's key, or every key when no pubkey is given
+   */
+  lock(pubkey?: string): void {
+    const locked = pubkey === undefined
+      ? Array.from(this.keys.keys())
+      : this.keys.has(pubkey) ? [pubkey] : [];
+    locked.forEach(key => this.keys.delete(key));
+    
+    if (this.keys.size === 0 && this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    
+    if (locked.length > 0) {
+      for (const listener of this.lockListeners) {
+        listener(locked);
+      }
+    }
+  }
+  
+  /**
+   * Register a lock listener (e.g. to show the unlock prompt); returns an unsubscribe function
+   */
+  onLock(listener: (pubkeys: string[]) => void): () => void {
+    this.lockListeners.push(listener);
+    return () => {
+      this.lockListeners = this.lockListeners.filter(l => l !== listener);
+    };
+  }
+}
+
+// Session shared by all signing code on this device
+export const keySession = new KeySession();
@@ -0,0 +1,156 @@
+// Pending Transaction Pool (mempool)
+// Holds signed transactions that are not yet mined, deduplicated by hash.
+// Transactions expire a fixed time after they were signed, and the pool is
+// mined in priority order: classes before the students who join them,
+// identities before the attestations that need them, then oldest first.
+import { Transaction } from './types.js';
+
+export interface MempoolPolicy {
+  maxAgeMs: number;  // Drop transactions signed longer ago than this
+  maxSize: number;   // Evict the lowest-priority transactions beyond this
+}
+
+export const DEFAULT_MEMPOOL_POLICY: MempoolPolicy = {
+  maxAgeMs: 7 * 24 * 60 * 60 * 1000,
+  maxSize: 500
+};
+
+// What changed in the pool; listeners use it to persist the new state
+export interface MempoolChange {
+  added: Transaction[];
+  removed: Transaction[];
+}
+
+export type MempoolListener = (change: MempoolChange) => void | Promise<void>;
+
+// Lower ranks are mined first
+const TX_TYPE_RANK: Record<string, number> = {
+  CreateClass: 0,
+  CreateUser: 1
+};
+const DEFAULT_TX_RANK = 2;
+
+// Order transactions for mining; ties break on hash so every device agrees
+export const compareTransactionPriority = (a: Transaction, b: Transaction): number => {
+  const rankA = TX_TYPE_RANK[a.txType] ?? DEFAULT_TX_RANK;
+  const rankB = TX_TYPE_RANK[b.txType] ?? DEFAULT_TX_RANK;
+  if (rankA !== rankB) {
+    return rankA - rankB;
+  }
+  if (a.timestamp !== b.timestamp) {
+    return a.timestamp - b.timestamp;
+  }
+  return a.hash < b.hash ? -1 : a.hash > b.hash ? 1 : 0;
+};
+
+export const isTransactionExpired = (
+  tx: Transaction,
+  policy: MempoolPolicy,
+  now: number = Date.now()
+): boolean => {
+  return now - tx.timestamp > policy.maxAgeMs;
+};
+
+const emptyChange = (): MempoolChange => ({ added: [], removed: [] });
+
+export class Mempool {
+  private transactions: Map<string, Transaction> = new Map();
+  private policy: MempoolPolicy;
+  
+  constructor(policy: Partial<MempoolPolicy> = {}) {
+    this.policy = { ...DEFAULT_MEMPOOL_POLICY, ...policy };
+  }
+  
+  /**
+   * Whether a transaction with this hash is pending
+   */
+  has(hash: string): boolean {
+    return this.transactions.has(hash);
+  }
+  
+  /**
+   * Number of pending transactions
+   */
+  get size(): number {
+    return this.transactions.size;
+  }
+  
+  getPolicy(): MempoolPolicy {
+    return { ...this.policy };
+  }
+  
+  /**
+   * Pending transactions in mining priority order
+   */
+  getTransactions(): Transaction[] {
+    return Array.from(this.transactions.values()).sort(compareTransactionPriority);
+  }
+  
+  /**
+   * Add a transaction; duplicates and expired transactions are ignored.
+   * When the pool is full the lowest-priority transaction is evicted,
+   * which may be the new one.
+   */
+  add(tx: Transaction, now: number = Date.now()): MempoolChange {
+    const change = emptyChange();
+    if (this.transactions.has(tx.hash) || isTransactionExpired(tx, this.policy, now)) {
+      return change;
+    }
+    
+    this.transactions.set(tx.hash, tx);
+    change.added.push(tx);
+    
+    if (this.transactions.size > this.policy.maxSize) {
+      const evicted = this.getTransactions()[this.transactions.size - 1];
+      this.transactions.delete(evicted.hash);
+      if (evicted.hash === tx.hash) {
+        return emptyChange();
+      }
+      change.removed.push(evicted);
+    }
+    
+    return change;
+  }
+  
+  /**
+   * Remove transactions by hash (e.g. once mined)
+   */
+  remove(hashes: Iterable<string>): MempoolChange {
+    const change = emptyChange();
+    for (const hash of hashes) {
+      const tx = this.transactions.get(hash);
+      if (tx) {
+        this.transactions.delete(hash);
+        change.removed.push(tx);
+      }
+    }
+    return change;
+  }
+  
+  /**
+   * Drop every transaction past the expiry window
+   */
+  pruneExpired(now: number = Date.now()): MempoolChange {
+    const expired = Array.from(this.transactions.values())
+      .filter(tx => isTransactionExpired(tx, this.policy, now))
+      .map(tx => tx.hash);
+    return this.remove(expired);
+  }
+  
+  /**
+   * Replace the whole pool (used after a chain reorganization)
+   */
+  replace(transactions: Transaction[], now: number = Date.now()): MempoolChange {
+    const previous = this.transactions;
+    this.transactions = new Map();
+    
+    const added: Transaction[] = [];
+    for (const tx of transactions) {
+      const change = this.add(tx, now);
+      added.push(...change.added.filter(t => !previous.has(t.hash)));
+    }
+    
+    const removed = Array.from(previous.values()).filter(tx => !this.transactions.has(tx.hash));
+    return { added: added.filter(tx => this.transactions.has(tx.hash)), removed };
+  }
+}
@@ -0,0 +1,135 @@
+// Merkle Tree Function Atoms
+// Commits a block to its transactions so single attestations can be proven compactly
+import { Transaction } from './types.js';
+import { sha256Hash } from './crypto.js';
+
+// Root of a block with no transactions
+export const EMPTY_MERKLE_ROOT = '0'.repeat(64);
+
+export interface MerkleProofStep {
+  hash: string;                 // Sibling hash at this level
+  position: 'left' | 'right';   // Side of the sibling relative to the running hash
+}
+
+export interface InclusionProof {
+  txHash: string;
+  blockHash: string;
+  blockHeight: number;
+  merkleRoot: string;
+  path: MerkleProofStep[];
+}
+
+// Leaves and inner nodes are hashed under distinct prefixes, so an inner node can
+// never pass for a transaction; v2/v3 block roots predate the prefixes
+const LEAF_PREFIX = '\x00';
+const NODE_PREFIX = '\x01';
+
+// Hash a transaction hash into its leaf
+const hashLeaf = async (txHash: string, domainSeparated: boolean): Promise<string> => {
+  return domainSeparated ? await sha256Hash(`${LEAF_PREFIX}${txHash}`) : txHash;
+};
+
+// Hash two sibling nodes into their parent
+const hashPair = async (left: string, right: string, domainSeparated: boolean): Promise<string> => {
+  return await sha256Hash(`${domainSeparated ? NODE_PREFIX : ''}${left}${right}`);
+};
+
+// Build every level of the tree, leaves first; an odd node is promoted unchanged
+const buildLevels = async (transactions: Transaction[], domainSeparated: boolean): Promise<string[][]> => {
+  const leaves: string[] = [];
+  for (const tx of transactions) {
+    leaves.push(await hashLeaf(tx.hash, domainSeparated));
+  }
+  const levels: string[][] = [leaves];
+  
+  while (levels[levels.length - 1].length > 1) {
+    const current = levels[levels.length - 1];
+    const next: string[] = [];
+    
+    for (let i = 0; i < current.length; i += 2) {
+      if (i + 1 < current.length) {
+        next.push(await hashPair(current[i], current[i + 1], domainSeparated));
+      } else {
+        next.push(current[i]);
+      }
+    }
+    
+    levels.push(next);
+  }
+  
+  return levels;
+};
+
+// Compute the Merkle root over transaction hashes, in block order
+export const computeMerkleRoot = async (
+  transactions: Transaction[],
+  domainSeparated: boolean = true
+): Promise<string> => {
+  if (transactions.length === 0) {
+    return EMPTY_MERKLE_ROOT;
+  }
+  
+  const levels = await buildLevels(transactions, domainSeparated);
+  return levels[levels.length - 1][0];
+};
+
+// Build the sibling path from a transaction up to the root
+export const buildMerklePath = async (
+  transactions: Transaction[],
+  txHash: string,
+  domainSeparated: boolean = true
+): Promise<MerkleProofStep[] | null> => {
+  let index = transactions.findIndex(tx => tx.hash === txHash);
+  if (index === -1) {
+    return null;
+  }
+  
+  const levels = await buildLevels(transactions, domainSeparated);
+  const path: MerkleProofStep[] = [];
+  
+  for (let level = 0; level < levels.length - 1; level++) {
+    const nodes = levels[level];
+    const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+    
+    // Promoted odd nodes have no sibling at this level
+    if (siblingIndex < nodes.length) {
+      path.push({
+        hash: nodes[siblingIndex],
+        position: index % 2 === 0 ? 'right' : 'left'
+      });
+    }
+    
+    index = Math.floor(index / 2);
+  }
+  
+  return path;
+};
+
+// Number of steps in the path of the transaction at index among leafCount
+// (promoted odd nodes add none)
+export const getMerklePathLength = (leafCount: number, index: number): number => {
+  let length = 0;
+  for (let count = leafCount; count > 1; count = Math.ceil(count / 2)) {
+    if ((index % 2 === 0 ? index + 1 : index - 1) < count) {
+      length++;
+    }
+    index = Math.floor(index / 2);
+  }
+  return length;
+};
+
+// Verify that a proof's path hashes the transaction up to its Merkle root
+export const verifyInclusionProof = async (
+  proof: InclusionProof,
+  domainSeparated: boolean = true
+): Promise<boolean> => {
+  let running = await hashLeaf(proof.txHash, domainSeparated);
+  
+  for (const step of proof.path) {
+    running = step.position === 'left'
+      ? await hashPair(step.hash, running, domainSeparated)
+      : await hashPair(running, step.hash, domainSeparated);
+  }
+  
+  return running === proof.merkleRoot;
+};
@@ -0,0 +1,201 @@
+// Proof-of-Work Miner
+// Runs the nonce search in a dedicated Web Worker so the quiz UI stays
+// responsive; falls back to an in-thread loop where workers are unavailable
+// (Node test runs).
+import { sha256Hash } from './crypto.js';
+import { meetsDifficulty } from './difficulty.js';
+
+export interface MiningJob {
+  version: number;
+  prevHash: string;
+  timestamp: number;
+  merkleRoot: string;
+  difficulty: number;  // Required leading zero bits
+}
+
+export interface MiningProgress {
+  hashes: number;     // Nonces tried so far
+  elapsedMs: number;
+  hashrate: number;   // Hashes per second
+}
+
+export interface MiningOptions {
+  signal?: AbortSignal;                          // Abort to cancel mining
+  onProgress?: (progress: MiningProgress) => void;
+  forceInThread?: boolean;                       // Skip the worker even if available
+}
+
+export interface MiningOutcome {
+  nonce: number;
+  hash: string;
+  hashes: number;
+  elapsedMs: number;
+  hashrate: number;
+}
+
+// Serialize the hashed header fields; v3+ headers also commit to their difficulty
+const headerPreimage = (
+  version: number,
+  prevHash: string,
+  timestamp: number,
+  merkleRoot: string,
+  nonce: number,
+  difficulty?: number
+): string => {
+  return version >= 3
+    ? `${version}${prevHash}${timestamp}${merkleRoot}${difficulty}${nonce}`
+    : `${version}${prevHash}${timestamp}${merkleRoot}${nonce}`;
+};
+
+// Calculate block header hash (v2+ formats)
+export const calculateHeaderHash = async (
+  version: number,
+  prevHash: string,
+  timestamp: number,
+  merkleRoot: string,
+  nonce: number,
+  difficulty?: number
+): Promise<string> => {
+  return await sha256Hash(headerPreimage(version, prevHash, timestamp, merkleRoot, nonce, difficulty));
+};
+
+// Report progress roughly this often (in hashes)
+const PROGRESS_INTERVAL = 256;
+
+// Worker body as plain JS so it needs no bundler support; must hash and
+// compare exactly like calculateHeaderHash and meetsDifficulty
+const MINING_WORKER_SOURCE = `
+const meetsDifficulty = (hash, difficulty) => {
+  const fullNibbles = Math.floor(difficulty / 4);
+  for (let i = 0; i < fullNibbles; i++) {
+    if (hash[i] !== '0') return false;
+  }
+  const remainingBits = difficulty % 4;
+  return remainingBits === 0 || parseInt(hash[fullNibbles], 16) < (1 << (4 - remainingBits));
+};
+
+self.onmessage = async (event) => {
+  const { version, prevHash, timestamp, merkleRoot, difficulty, progressInterval } = event.data;
+  const encoder = new TextEncoder();
+  const start = Date.now();
+  let nonce = 0;
+
+  while (true) {
+    const header = version >= 3
+      ? String(version) + prevHash + timestamp + merkleRoot + difficulty + nonce
+      : String(version) + prevHash + timestamp + merkleRoot + nonce;
+    const data = encoder.encode(header);
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+    let hash = '';
+    for (let i = 0; i < digest.length; i++) {
+      hash += digest[i].toString(16).padStart(2, '0');
+    }
+
+    const hashes = nonce + 1;
+    if (meetsDifficulty(hash, difficulty)) {
+      self.postMessage({ type: 'found', nonce, hash, hashes, elapsedMs: Date.now() - start });
+      return;
+    }
+    if (hashes % progressInterval === 0) {
+      self.postMessage({ type: 'progress', hashes, elapsedMs: Date.now() - start });
+    }
+    nonce++;
+  }
+};
+`;
+
+const toProgress = (hashes: number, elapsedMs: number): MiningProgress => ({
+  hashes,
+  elapsedMs,
+  hashrate: elapsedMs > 0 ? (hashes / elapsedMs) * 1000 : 0
+});
+
+const abortError = (): Error => {
+  const error = new Error('Mining aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+// Whether this is a mining cancellation rather than a real failure
+export const isMiningAborted = (error: unknown): boolean => {
+  return error instanceof Error && error.name === 'AbortError';
+};
+
+export const canUseMiningWorker = (): boolean => {
+  return typeof Worker !== 'undefined' && typeof Blob !== 'undefined' && typeof URL !== 'undefined';
+};
+
+// Search for a nonce in a Web Worker; terminating the worker is the cancellation
+const mineInWorker = (job: MiningJob, options: MiningOptions): Promise<MiningOutcome> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([MINING_WORKER_SOURCE], { type: 'application/javascript' }));
+    const worker = new Worker(url);
+    
+    const cleanup = () => {
+      worker.terminate();
+      URL.revokeObjectURL(url);
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+    
+    const onAbort = () => {
+      cleanup();
+      reject(abortError());
+    };
+    
+    worker.onmessage = (event: MessageEvent) => {
+      const message = event.data;
+      const progress = toProgress(message.hashes, message.elapsedMs);
+      
+      if (message.type === 'progress') {
+        options.onProgress?.(progress);
+      } else if (message.type === 'found') {
+        cleanup();
+        resolve({ nonce: message.nonce, hash: message.hash, ...progress });
+      }
+    };
+    
+    worker.onerror = (event: ErrorEvent) => {
+      cleanup();
+      reject(new Error(`Mining worker failed: ${event.message}`));
+    };
+    
+    options.signal?.addEventListener('abort', onAbort);
+    worker.postMessage({ ...job, progressInterval: PROGRESS_INTERVAL });
+  });
+};
+
+// Synchronous-style fallback: same search on the current thread
+const mineInThread = async (job: MiningJob, options: MiningOptions): Promise<MiningOutcome> => {
+  const start = Date.now();
+  let nonce = 0;
+  
+  while (true) {
+    if (options.signal?.aborted) {
+      throw abortError();
+    }
+    
+    const hash = await calculateHeaderHash(job.version, job.prevHash, job.timestamp, job.merkleRoot, nonce, job.difficulty);
+    const hashes = nonce + 1;
+    
+    if (meetsDifficulty(hash, job.difficulty)) {
+      return { nonce, hash, ...toProgress(hashes, Date.now() - start) };
+    }
+    if (hashes % PROGRESS_INTERVAL === 0) {
+      options.onProgress?.(toProgress(hashes, Date.now() - start));
+    }
+    nonce++;
+  }
+};
+
+// Find a nonce whose header hash meets the required difficulty
+export const findNonce = async (job: MiningJob, options: MiningOptions = {}): Promise<MiningOutcome> => {
+  if (options.signal?.aborted) {
+    throw abortError();
+  }
+  
+  if (!options.forceInThread && canUseMiningWorker()) {
+    return await mineInWorker(job, options);
+  }
+  
+  return await mineInThread(job, options);
+};
@@ -0,0 +1,215 @@
+// Mnemonic Function Atoms - BIP39 seed phrase generation and validation
+import { BIP39_WORDLIST } from './wordlist.js';
+
+// Entropy sizes (bits) allowed by BIP39, keyed by resulting word count
+const WORD_COUNT_TO_STRENGTH: Record<number, number> = {
+  12: 128,
+  15: 160,
+  18: 192,
+  21: 224,
+  24: 256
+};
+
+// Map of word -> 11-bit index for O(1) lookups
+const WORD_INDEX = new Map<string, number>(
+  BIP39_WORDLIST.map((word, index) => [word, index] as [string, number])
+);
+
+export interface WordSuggestion {
+  index: number;        // Position of the word in the phrase (0-based)
+  word: string;         // Word as typed
+  suggestions: string[]; // Closest valid wordlist entries
+}
+
+export interface SeedphraseValidation {
+  valid: boolean;
+  wordCount: number;
+  checksumValid: boolean;
+  invalidWords: WordSuggestion[];
+  error?: string;
+}
+
+// Normalize a typed seed phrase (case, stray whitespace) before validation or derivation
+export const normalizeSeedphrase = (seedphrase: string): string => {
+  return seedphrase.trim().toLowerCase().split(/\s+/).join(' ');
+};
+
+const bytesToBits = (bytes: Uint8Array): string =>
+  Array.from(bytes)
+    .map(b => b.toString(2).padStart(8, '0'))
+    .join('');
+
+// First ENT/32 bits of SHA-256(entropy)
+const checksumBits = async (entropy: Uint8Array): Promise<string> => {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new Uint8Array(entropy));
+  const bits = bytesToBits(new Uint8Array(hashBuffer));
+  return bits.slice(0, (entropy.length * 8) / 32);
+};
+
+// Encode raw entropy as a checksummed mnemonic
+export const entropyToMnemonic = async (entropy: Uint8Array): Promise<string> => {
+  const strength = entropy.length * 8;
+  if (strength < 128 || strength > 256 || strength % 32 !== 0) {
+    throw new Error(`Invalid entropy length: ${strength} bits`);
+  }
+  
+  const bits = bytesToBits(entropy) + await checksumBits(entropy);
+  const words: string[] = [];
+  
+  for (let i = 0; i < bits.length; i += 11) {
+    words.push(BIP39_WORDLIST[parseInt(bits.slice(i, i + 11), 2)]);
+  }
+  
+  return words.join(' ');
+};
+
+// Decode a mnemonic back to its entropy, verifying the checksum
+export const mnemonicToEntropy = async (mnemonic: string): Promise<Uint8Array> => {
+  const words = normalizeSeedphrase(mnemonic).split(' ');
+  if (!WORD_COUNT_TO_STRENGTH[words.length]) {
+    throw new Error(`Invalid word count: ${words.length}`);
+  }
+  
+  const bits = words
+    .map(word => {
+      const index = WORD_INDEX.get(word);
+      if (index === undefined) {
+        throw new Error(`Unknown word: ${word}`);
+      }
+      return index.toString(2).padStart(11, '0');
+    })
+    .join('');
+  
+  const strength = WORD_COUNT_TO_STRENGTH[words.length];
+  const entropy = new Uint8Array(strength / 8);
+  for (let i = 0; i < entropy.length; i++) {
+    entropy[i] = parseInt(bits.slice(i * 8, i * 8 + 8), 2);
+  }
+  
+  if (bits.slice(strength) !== await checksumBits(entropy)) {
+    throw new Error('Invalid mnemonic checksum');
+  }
+  
+  return entropy;
+};
+
+// Generate a new mnemonic from cryptographically secure entropy
+export const generateMnemonic = async (strength: number = 128): Promise<string> => {
+  const entropy = new Uint8Array(strength / 8);
+  crypto.getRandomValues(entropy);
+  return await entropyToMnemonic(entropy);
+};
+
+// Levenshtein edit distance between two words
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost));
+    }
+    previous = current;
+  }
+  
+  return previous[b.length];
+};
+
+// Suggest the closest wordlist entries for a mistyped word
+export const suggestWords = (word: string, limit: number = 3): string[] => {
+  const typed = word.toLowerCase();
+  
+  // BIP39 words are unique by their first four letters
+  if (typed.length >= 4) {
+    const prefixMatch = BIP39_WORDLIST.find(w => w.startsWith(typed.slice(0, 4)));
+    if (prefixMatch && prefixMatch !== typed && editDistance(prefixMatch, typed) <= 2) {
+      return [prefixMatch];
+    }
+  }
+  
+  return BIP39_WORDLIST
+    .map(candidate => ({ candidate, distance: editDistance(typed, candidate) }))
+    .filter(({ distance }) => distance > 0 && distance <= 2)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+};
+
+const hasValidChecksum = async (words: string[]): Promise<boolean> => {
+  try {
+    await mnemonicToEntropy(words.join(' '));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Validate a typed seed phrase, reporting unknown words and checksum failures
+export const validateSeedphrase = async (seedphrase: string): Promise<SeedphraseValidation> => {
+  const normalized = normalizeSeedphrase(seedphrase);
+  const words = normalized ? normalized.split(' ') : [];
+  
+  if (!WORD_COUNT_TO_STRENGTH[words.length]) {
+    return {
+      valid: false,
+      wordCount: words.length,
+      checksumValid: false,
+      invalidWords: [],
+      error: `Seed phrase must have 12, 15, 18, 21 or 24 words (found ${words.length})`
+    };
+  }
+  
+  // Unknown words: suggest the nearest entries from the wordlist
+  const invalidWords: WordSuggestion[] = words
+    .map((word, index) => ({ index, word }))
+    .filter(({ word }) => !WORD_INDEX.has(word))
+    .map(({ index, word }) => ({ index, word, suggestions: suggestWords(word) }));
+  
+  if (invalidWords.length > 0) {
+    return {
+      valid: false,
+      wordCount: words.length,
+      checksumValid: false,
+      invalidWords,
+      error: `Unknown word${invalidWords.length > 1 ? 's' : ''}: ${invalidWords.map(w => w.word).join(', ')}`
+    };
+  }
+  
+  if (await hasValidChecksum(words)) {
+    return {
+      valid: true,
+      wordCount: words.length,
+      checksumValid: true,
+      invalidWords: []
+    };
+  }
+  
+  // Every word is real but the checksum fails: a typo produced another valid word.
+  // Suggest near neighbours that would make the phrase check out.
+  const checksumSuggestions: WordSuggestion[] = [];
+  for (let index = 0; index < words.length; index++) {
+    const candidates = suggestWords(words[index], 10);
+    const fixes: string[] = [];
+    
+    for (const candidate of candidates) {
+      const attempt = [...words];
+      attempt[index] = candidate;
+      if (await hasValidChecksum(attempt)) {
+        fixes.push(candidate);
+      }
+    }
+    
+    if (fixes.length > 0) {
+      checksumSuggestions.push({ index, word: words[index], suggestions: fixes.slice(0, 3) });
+    }
+  }
+  
+  return {
+    valid: false,
+    wordCount: words.length,
+    checksumValid: false,
+    invalidWords: checksumSuggestions,
+    error: 'Seed phrase checksum does not match; one of the words is probably mistyped'
+  };
+};
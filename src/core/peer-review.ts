@@ -0,0 +1,144 @@
+// Peer Review Assignment
+// Every student who answered an FRQ scores k classmates' answers to it, assigned from chain state alone
+import { sha256Hash } from './crypto.js';
+
+export const DEFAULT_REVIEWS_PER_STUDENT = 3;
+
+// An FRQ answer open to peer review
+export interface ReviewableResponse {
+  responseId: string;      // Blinded hash of the FRQ Attestation, see blindResponseId
+  questionId: string;
+  authorId: string;        // Identity of the author; never shown to reviewers
+  answerText: string;
+  classId?: string;
+  reviewerIds: string[];   // Identities that have scored it, in chain order
+}
+
+// One response a reviewer is asked to score, without its author
+export interface ReviewAssignment {
+  responseId: string;      // What the review's reviewOf names
+  questionId: string;
+  anonymousLabel: string;  // Differs between reviewers, so labels cannot be compared to find the author
+  answerText: string;
+  completed: boolean;
+}
+
+// 32-bit FNV-1a, for orderings every device agrees on
+const fnv1a = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+// Id a response is reviewed under, so assignments do not carry the attestation
+// hash a reviewer could look the author up by; the blockchain keys responses by it
+export const blindResponseId = async (attestationHash: string): Promise<string> => {
+  return await sha256Hash(`peer-review:${attestationHash}`);
+};
+
+// What a reviewer sees in place of the author
+export const anonymousLabel = (reviewerId: string, responseId: string): string => {
+  const code = fnv1a(`${reviewerId}:${responseId}`).toString(16).padStart(8, '0');
+  return `Response ${code.substring(0, 6).toUpperCase()}`;
+};
+
+// Groups are sets of identities flagged together, e.g. CollusionReport.groups
+const colluding = (a: string, b: string, collusionGroups: string[][]): boolean => {
+  return collusionGroups.some(group => group.includes(a) && group.includes(b));
+};
+
+// Reason a review may not be counted, or null if it may
+export const checkReview = (
+  response: ReviewableResponse | undefined,
+  reviewerId: string,
+  questionId: string
+): string | null => {
+  if (!response) {
+    return 'Reviewed response not found';
+  }
+  if (response.questionId !== questionId) {
+    return 'A review must score a response to the same question';
+  }
+  if (response.authorId === reviewerId) {
+    return 'Students cannot review their own response';
+  }
+  if (response.reviewerIds.includes(reviewerId)) {
+    return 'Response has already been reviewed by this student';
+  }
+  
+  return null;
+};
+
+// Assign every author of a response to one question up to k of the other
+// responses. Completed reviews fill a reviewer's slots first; the rest are
+// handed out one round at a time, each reviewer in hash order taking the
+// eligible response with the fewest reviewers so far, pending ones included
+export const assignPeerReviews = (
+  responses: ReviewableResponse[],
+  reviewsPerStudent: number = DEFAULT_REVIEWS_PER_STUDENT,
+  collusionGroups: string[][] = []
+): Map<string, ReviewAssignment[]> => {
+  const toAssignment = (reviewerId: string, response: ReviewableResponse, completed: boolean): ReviewAssignment => ({
+    responseId: response.responseId,
+    questionId: response.questionId,
+    anonymousLabel: anonymousLabel(reviewerId, response.responseId),
+    answerText: response.answerText,
+    completed
+  });
+  const order = (reviewerId: string, response: ReviewableResponse): number => {
+    return fnv1a(`${reviewerId}:${response.responseId}`);
+  };
+  
+  const load = new Map(responses.map(response => [response.responseId, response.reviewerIds.length]));
+  const reviewers = Array.from(new Set(responses.map(response => response.authorId)))
+    .sort((a, b) => fnv1a(a) - fnv1a(b) || (a < b ? -1 : a > b ? 1 : 0));
+  
+  // Responses few reviewers may score go first among equally loaded ones,
+  // so they are not left to reviewers whose slots are already full
+  const eligible = (reviewerId: string, response: ReviewableResponse): boolean => {
+    return response.authorId !== reviewerId &&
+      !response.reviewerIds.includes(reviewerId) &&
+      !colluding(reviewerId, response.authorId, collusionGroups);
+  };
+  const eligibleCount = new Map(responses.map(response => [
+    response.responseId,
+    reviewers.filter(reviewerId => eligible(reviewerId, response)).length
+  ]));
+  
+  const assignments = new Map<string, ReviewAssignment[]>();
+  for (const reviewerId of reviewers) {
+    assignments.set(reviewerId, responses
+      .filter(response => response.reviewerIds.includes(reviewerId))
+      .slice(0, reviewsPerStudent)
+      .map(response => toAssignment(reviewerId, response, true)));
+  }
+  
+  for (let round = 0; round < reviewsPerStudent; round++) {
+    for (const reviewerId of reviewers) {
+      const assigned = assignments.get(reviewerId)!;
+      if (assigned.length >= reviewsPerStudent) continue;
+      
+      const candidates = responses.filter(response =>
+        eligible(reviewerId, response) &&
+        !assigned.some(assignment => assignment.responseId === response.responseId)
+      );
+      if (candidates.length === 0) continue;
+      
+      const pick = candidates.reduce((best, response) => {
+        const byLoad = load.get(response.responseId)! - load.get(best.responseId)!;
+        const byScarcity = eligibleCount.get(response.responseId)! - eligibleCount.get(best.responseId)!;
+        const byOrder = order(reviewerId, response) - order(reviewerId, best);
+        return (byLoad || byScarcity || byOrder || (response.responseId < best.responseId ? -1 : 1)) < 0
+          ? response
+          : best;
+      });
+      assigned.push(toAssignment(reviewerId, pick, false));
+      load.set(pick.responseId, load.get(pick.responseId)! + 1);
+    }
+  }
+  
+  return assignments;
+};
@@ -0,0 +1,64 @@
+// Active Profile Session
+// Several students can share one device, but only one profile is active at a
+// time. The active profile decides whose signing key is unlocked and which
+// namespace the per-profile local stores (rate limits, quiz progress,
+// consensus cache, sync metadata) read and write. Starting a session tears
+// the previous one down first, so nothing carries over between students.
+import { keySession } from './keystore.js';
+
+// Namespace used while no profile is active, so nothing is written under a real student
+export const GUEST_NAMESPACE = 'guest';
+
+// Called after the active namespace changes; `previous` lets stores flush state held for the old profile
+export type ProfileSessionListener = (next: string | null, previous: string | null) => void;
+
+let activeNamespace: string | null = null;
+let listeners: ProfileSessionListener[] = [];
+
+const setActiveNamespace = (namespace: string | null): void => {
+  const previous = activeNamespace;
+  activeNamespace = namespace;
+  if (previous === namespace) {
+    return;
+  }
+  
+  for (const listener of listeners) {
+    try {
+      listener(namespace, previous);
+    } catch (error) {
+      console.error('Profile session listener failed:', error);
+    }
+  }
+};
+
+// Namespace of the active profile, or null when nobody is signed in
+export const getActiveProfileNamespace = (): string | null => {
+  return activeNamespace;
+};
+
+// Storage key for a per-profile store; defaults to the active profile's namespace
+export const scopedStorageKey = (baseKey: string, namespace: string | null = activeNamespace): string => {
+  return `${baseKey}:${namespace ?? GUEST_NAMESPACE}`;
+};
+
+// Register a session listener; returns an unsubscribe function
+export const onProfileSessionChange = (listener: ProfileSessionListener): (() => void) => {
+  listeners.push(listener);
+  return () => {
+    listeners = listeners.filter(l => l !== listener);
+  };
+};
+
+// Make a profile the active one, ending any previous session
+// The namespace is the identity id, which stays the same across key rotations
+export const beginProfileSession = (pubkey: string, privkey: string, identityId: string = pubkey): void => {
+  keySession.lock();
+  keySession.unlock(pubkey, privkey);
+  setActiveNamespace(identityId);
+};
+
+// End the active session: every key is locked and per-profile stores fall back to the guest namespace
+export const endProfileSession = (): void => {
+  keySession.lock();
+  setActiveNamespace(null);
+};
@@ -0,0 +1,118 @@
+// Profile Transfer
+// Moves a profile to a new device without retyping the seed phrase. The
+// sending device seals the profile's secrets under a short random PIN and a
+// one-time session id; the envelope expires after a few minutes, and the
+// expiry is authenticated with the ciphertext so it cannot be extended.
+// Nothing here persists anything: the caller stores the opened profile.
+import { Profile } from './types.js';
+import { EncryptedSecrets, decryptPayload, encryptPayload } from './keystore.js';
+import { recoverProfile } from './profile.js';
+import { canonicalStringify } from './canonical.js';
+
+export const TRANSFER_VERSION = 1;
+export const TRANSFER_PIN_LENGTH = 6;
+export const DEFAULT_TRANSFER_TTL_MS = 5 * 60 * 1000;
+
+export interface TransferEnvelope {
+  type: 'profile-transfer';
+  version: number;
+  sessionId: string;    // Random per transfer; part of the associated data
+  username: string;
+  pubkey: string;
+  expiresAt: number;
+  encrypted: EncryptedSecrets;
+}
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+// Everything in the envelope except the ciphertext, bound to it as associated data
+const associatedData = (envelope: Omit<TransferEnvelope, 'encrypted'>): string => {
+  return canonicalStringify({
+    version: envelope.version,
+    sessionId: envelope.sessionId,
+    username: envelope.username,
+    pubkey: envelope.pubkey,
+    expiresAt: envelope.expiresAt
+  });
+};
+
+// Random numeric PIN, shown on the sending screen and typed on the receiving one
+export const generateTransferPin = (): string => {
+  const digits = crypto.getRandomValues(new Uint32Array(TRANSFER_PIN_LENGTH));
+  return Array.from(digits, d => (d % 10).toString()).join('');
+};
+
+export const isTransferExpired = (envelope: TransferEnvelope, now: number = Date.now()): boolean => {
+  return now >= envelope.expiresAt;
+};
+
+// Seal a profile (with its secrets) for transfer under a PIN
+export const createTransferEnvelope = async (
+  profile: Profile,
+  pin: string,
+  ttlMs: number = DEFAULT_TRANSFER_TTL_MS,
+  now: number = Date.now()
+): Promise<TransferEnvelope> => {
+  if (!profile.privkey || !profile.seedphrase) {
+    throw new Error('Profile must be unlocked to transfer it');
+  }
+  if (!/^\d+$/.test(pin) || pin.length < TRANSFER_PIN_LENGTH) {
+    throw new Error(`PIN must be at least ${TRANSFER_PIN_LENGTH} digits`);
+  }
+  
+  const header = {
+    type: 'profile-transfer' as const,
+    version: TRANSFER_VERSION,
+    sessionId: toHex(crypto.getRandomValues(new Uint8Array(16))),
+    username: profile.username,
+    pubkey: profile.pubkey,
+    expiresAt: now + ttlMs
+  };
+  const plaintext = canonicalStringify({ privkey: profile.privkey, seedphrase: profile.seedphrase });
+  const encrypted = await encryptPayload(plaintext, pin, associatedData(header));
+  
+  return { ...header, encrypted };
+};
+
+// Open an envelope with its PIN; throws if it expired, the PIN is wrong,
+// or the secrets do not derive the pubkey it claims
+export const openTransferEnvelope = async (
+  envelope: TransferEnvelope,
+  pin: string,
+  now: number = Date.now()
+): Promise<Profile> => {
+  if (envelope.type !== 'profile-transfer' || envelope.version !== TRANSFER_VERSION) {
+    throw new Error('Not a profile transfer');
+  }
+  if (isTransferExpired(envelope, now)) {
+    throw new Error('Transfer session has expired; start a new one on the other device');
+  }
+  
+  let plaintext: string;
+  try {
+    plaintext = await decryptPayload(envelope.encrypted, pin, associatedData(envelope));
+  } catch {
+    throw new Error('Wrong PIN');
+  }
+  
+  const secrets = JSON.parse(plaintext);
+  const profile = await recoverProfile(envelope.username, secrets.seedphrase);
+  if (profile.pubkey !== envelope.pubkey || profile.privkey !== secrets.privkey) {
+    throw new Error('Transferred keys do not match the profile');
+  }
+  return profile;
+};
+
+export const encodeTransferEnvelope = (envelope: TransferEnvelope): string => {
+  return JSON.stringify(envelope);
+};
+
+export const decodeTransferEnvelope = (text: string): TransferEnvelope => {
+  const envelope = JSON.parse(text);
+  if (envelope?.type !== 'profile-transfer' || typeof envelope.pubkey !== 'string' ||
+      typeof envelope.expiresAt !== 'number' || !envelope.encrypted) {
+    throw new Error('Not a profile transfer');
+  }
+  return envelope as TransferEnvelope;
+};
@@ -80,20 +80,28 @@ export class RateLimiter {
   /**
    * Record an attestation
    */
-  recordAttestation(userId: string, questionId: string): void {
+  recordAttestation(userId: string, questionId: string, timestamp: number = Date.now()): void {
     const key = this.getKey(userId, questionId);
     const existing = this.limits.get(key);
     
     const entry: RateLimitEntry = {
       userId,
       questionId,
-      lastAttestation: Date.now(),
+      lastAttestation: timestamp,
       attemptCount: (existing?.attemptCount || 0) + 1
     };
     
     this.limits.set(key, entry);
   }
   
+  /**
+   * Forget a user's attestation on a question, e.g. after it was retracted,
+   * so they can attest again right away
+   */
+  removeAttestation(userId: string, questionId: string): void {
+    this.limits.delete(this.getKey(userId, questionId));
+  }
+  
   /**
    * Get all rate limit entries for a user
    */
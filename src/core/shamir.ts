@@ -0,0 +1,206 @@
+// Seed Phrase Recovery Shares (Shamir secret sharing)
+// A seed phrase's entropy is split into n shares so that any k of them
+// rebuild it and fewer reveal nothing. Students hand the shares to
+// classmates or the teacher; nobody holding fewer than k can act as them.
+// Arithmetic is byte-wise in GF(256), so each share is as long as the seed.
+import { deriveKeysFromSeed, sha256Hash } from './crypto.js';
+import { entropyToMnemonic, mnemonicToEntropy } from './mnemonic.js';
+
+export const SHARE_VERSION = 1;
+export const SHARE_PREFIX = 'apstats-share';
+export const MIN_SHARE_THRESHOLD = 2;
+export const MAX_SHARES = 255;
+
+export interface SeedShare {
+  version: number;
+  setId: string;        // Random id common to the shares of one split
+  threshold: number;    // Shares needed to rebuild the seed
+  total: number;        // Shares handed out
+  index: number;        // Evaluation point, 1..total
+  fingerprint: string;  // Hash of the identity's pubkey; confirms a rebuild without revealing the seed
+  data: string;         // Hex share bytes
+}
+
+// GF(256) log/exp tables over the AES polynomial x^8 + x^4 + x^3 + x + 1, generator 3
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+(() => {
+  let value = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = value;
+    LOG[value] = i;
+    // Multiply by 3 = x + 1
+    value ^= (value << 1) ^ ((value & 0x80) ? 0x11b : 0);
+  }
+  for (let i = 255; i < 510; i++) {
+    EXP[i] = EXP[i - 255];
+  }
+})();
+
+const gfMul = (a: number, b: number): number => {
+  if (a === 0 || b === 0) return 0;
+  return EXP[LOG[a] + LOG[b]];
+};
+
+const gfDiv = (a: number, b: number): number => {
+  if (b === 0) throw new Error('Division by zero in GF(256)');
+  if (a === 0) return 0;
+  return EXP[LOG[a] + 255 - LOG[b]];
+};
+
+// Evaluate a polynomial (constant term first) at x
+const evaluate = (coefficients: Uint8Array, x: number): number => {
+  let result = 0;
+  for (let i = coefficients.length - 1; i >= 0; i--) {
+    result = gfMul(result, x) ^ coefficients[i];
+  }
+  return result;
+};
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string): Uint8Array => {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/.test(hex)) {
+    throw new Error('Share data is not hex');
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+};
+
+// Short public check value for the identity a seed phrase derives
+const identityFingerprint = async (seedphrase: string): Promise<string> => {
+  const [pubkey] = await deriveKeysFromSeed(seedphrase);
+  return (await sha256Hash(pubkey)).substring(0, 16);
+};
+
+// Split a seed phrase into `total` shares, any `threshold` of which rebuild it
+export const splitSeedphrase = async (
+  seedphrase: string,
+  threshold: number,
+  total: number
+): Promise<SeedShare[]> => {
+  if (!Number.isInteger(threshold) || !Number.isInteger(total) ||
+      threshold < MIN_SHARE_THRESHOLD || threshold > total || total > MAX_SHARES) {
+    throw new Error(`Need ${MIN_SHARE_THRESHOLD} <= threshold <= total <= ${MAX_SHARES}`);
+  }
+  
+  const entropy = await mnemonicToEntropy(seedphrase);
+  const fingerprint = await identityFingerprint(await entropyToMnemonic(entropy));
+  const setId = toHex(crypto.getRandomValues(new Uint8Array(4)));
+  
+  // One random polynomial per seed byte, with the byte as its constant term
+  const points = Array.from({ length: total }, () => new Uint8Array(entropy.length));
+  const coefficients = new Uint8Array(threshold);
+  for (let byte = 0; byte < entropy.length; byte++) {
+    coefficients[0] = entropy[byte];
+    crypto.getRandomValues(coefficients.subarray(1));
+    for (let i = 0; i < total; i++) {
+      points[i][byte] = evaluate(coefficients, i + 1);
+    }
+  }
+  coefficients.fill(0);
+  
+  return points.map((data, i) => ({
+    version: SHARE_VERSION,
+    setId,
+    threshold,
+    total,
+    index: i + 1,
+    fingerprint,
+    data: toHex(data)
+  }));
+};
+
+// Rebuild a seed phrase from at least `threshold` shares of one split
+// Throws on mixed sets, duplicates, too few shares, or a share that was altered
+export const combineShares = async (shares: SeedShare[]): Promise<string> => {
+  if (shares.length === 0) {
+    throw new Error('No shares given');
+  }
+  
+  const first = shares[0];
+  for (const share of shares) {
+    if (share.version !== SHARE_VERSION) {
+      throw new Error(`Unsupported share version: ${share.version}`);
+    }
+    if (share.setId !== first.setId || share.threshold !== first.threshold ||
+        share.total !== first.total || share.fingerprint !== first.fingerprint ||
+        share.data.length !== first.data.length) {
+      throw new Error('Shares come from different splits');
+    }
+    if (!Number.isInteger(share.index) || share.index < 1 || share.index > share.total) {
+      throw new Error(`Invalid share index: ${share.index}`);
+    }
+  }
+  
+  const unique = new Map<number, SeedShare>();
+  shares.forEach(share => unique.set(share.index, share));
+  if (unique.size < first.threshold) {
+    throw new Error(`Need ${first.threshold} different shares, got ${unique.size}`);
+  }
+  
+  // Lagrange interpolation at x = 0 over exactly `threshold` points
+  const used = Array.from(unique.values()).slice(0, first.threshold);
+  const ys = used.map(share => fromHex(share.data));
+  const entropy = new Uint8Array(ys[0].length);
+  for (let i = 0; i < used.length; i++) {
+    let basis = 1;
+    for (let j = 0; j < used.length; j++) {
+      if (i !== j) {
+        basis = gfMul(basis, gfDiv(used[j].index, used[j].index ^ used[i].index));
+      }
+    }
+    for (let byte = 0; byte < entropy.length; byte++) {
+      entropy[byte] ^= gfMul(ys[i][byte], basis);
+    }
+  }
+  
+  const seedphrase = await entropyToMnemonic(entropy);
+  if (await identityFingerprint(seedphrase) !== first.fingerprint) {
+    throw new Error('Shares do not rebuild the original seed phrase; one may be damaged');
+  }
+  return seedphrase;
+};
+
+// Compact text form of a share, small enough for one printed QR code
+export const encodeShare = (share: SeedShare): string => {
+  return [
+    SHARE_PREFIX,
+    share.version,
+    share.setId,
+    share.threshold,
+    share.total,
+    share.index,
+    share.fingerprint,
+    share.data
+  ].join(':');
+};
+
+// Parse a scanned or typed share; throws if it is not one
+export const decodeShare = (text: string): SeedShare => {
+  const parts = text.trim().split(':');
+  if (parts.length !== 8 || parts[0] !== SHARE_PREFIX) {
+    throw new Error('Not a recovery share');
+  }
+  
+  const [, version, setId, threshold, total, index, fingerprint, data] = parts;
+  const share: SeedShare = {
+    version: Number(version),
+    setId,
+    threshold: Number(threshold),
+    total: Number(total),
+    index: Number(index),
+    fingerprint,
+    data: data.toLowerCase()
+  };
+  fromHex(share.data); // Throws if the data is not hex
+  
+  if (![share.version, share.threshold, share.total, share.index].every(Number.isInteger)) {
+    throw new Error('Malformed recovery share');
+  }
+  return share;
+};
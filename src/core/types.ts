@@ -1,4 +1,5 @@
 // Phase 1 Core Types - 20 Atoms from FUNDAMENTAL.md
+import type { DifficultyPolicy } from './difficulty.js';
 
 // Profile Subsystem Data Atoms (4 for Phase 1)
 export interface Profile {
@@ -15,6 +16,9 @@ export interface Block {
   timestamp: number;
   nonce: number;
   transactions: Transaction[];
+  version?: number;     // Header format; absent on legacy (v1) blocks
+  merkleRoot?: string;  // Root over transaction hashes (v2+)
+  difficulty?: number;  // Required leading zero bits, committed in the header (v3+)
 }
 
 export interface Transaction {
@@ -26,24 +30,92 @@ export interface Transaction {
   data: TransactionData;
 }
 
-export type TransactionType = 'CreateUser' | 'Attestation';
+export type TransactionType =
+  | 'CreateUser'
+  | 'Attestation'
+  | 'RotateKey'
+  | 'RevokeIdentity'
+  | 'ProfileUpdate'
+  | 'CreateClass'
+  | 'SetDifficultyPolicy'
+  | 'AmendAttestation'
+  | 'RetractAttestation';
 
-export type TransactionData = CreateUserData | AttestationData;
+export type TransactionData =
+  | CreateUserData
+  | AttestationData
+  | RotateKeyData
+  | RevokeIdentityData
+  | ProfileUpdateData
+  | CreateClassData
+  | SetDifficultyPolicyData
+  | AmendAttestationData
+  | RetractAttestationData;
 
 export interface CreateUserData {
   username: string;
   pubkey: string;
+  classId?: string;     // Class the student joins; must already exist on the chain
 }
 
 export interface AttestationData {
   questionId: string;
-  answerHash?: string;  // MCQ - SHA-256 hash
-  answerText?: string;  // FRQ - plain text
+  answerHash?: string;     // MCQ - SHA-256 hash
+  answerText?: string;     // FRQ - plain text
+  selectionHash?: string;  // Multi-select - SHA-256 hash of the normalized set
+  answerValue?: number;    // Numeric - normalized number
+  shortAnswer?: string;    // Short answer - normalized text
+  classId?: string;        // Class whose consensus this counts toward
 }
 
-// Function Type Aliases (5 for Phase 1)
+// Signed by the key being retired; history carries over to newPubkey
+export interface RotateKeyData {
+  newPubkey: string;
+}
+
+// Signed by a compromised key; without a successor the identity ends
+export interface RevokeIdentityData {
+  newPubkey?: string;
+  reason?: string;
+}
+
+// Signed by the identity's current key; omitted fields keep their value
+export interface ProfileUpdateData {
+  displayName?: string;
+  avatar?: string;   // A single emoji
+  tags?: string[];   // Class/section tags; replaces the previous list
+}
+
+// Registers a class namespace; the first CreateClass for an id wins
+export interface CreateClassData {
+  classId: string;
+  name: string;
+}
+
+// Signed by a class's creator; governs mining from the block after the one recording it
+export interface SetDifficultyPolicyData {
+  classId: string;
+  policy: DifficultyPolicy;
+}
+
+// Replaces the answer of the attester's own Attestation within the grace window
+export interface AmendAttestationData {
+  attestationHash: string;  // Hash of the original Attestation
+  answerHash?: string;      // MCQ - SHA-256 hash
+  answerText?: string;      // FRQ - plain text
+  selectionHash?: string;   // Multi-select - SHA-256 hash of the normalized set
+  answerValue?: number;     // Numeric - normalized number; binned by the question's tolerance
+  shortAnswer?: string;     // Short answer - normalized text
+}
+
+// Withdraws the attester's own Attestation within the grace window
+export interface RetractAttestationData {
+  attestationHash: string;
+  reason?: string;
+}
+
+// Function Type Aliases (4 for Phase 1)
 export type DeriveKeysFromSeed = (seed: string) => Promise<[string, string]>; // [pubkey, privkey]
-export type SelectRandomWords = (wordList: string[]) => string;
 export type Sha256Hash = (input: string) => Promise<string>;
 export type ValidateSignature = (signature: string, pubkey: string, data: string) => Promise<boolean>;
 export type GetCurrentTimestamp = () => number;
@@ -52,8 +124,21 @@ export type GetCurrentTimestamp = () => number;
 export interface MiningResult {
   block: Block;
   nonce: number;
+  hashes: number;    // Nonces tried
+  hashrate: number;  // Hashes per second
+}
+
+// Emitted whenever the active chain switches to blocks from another branch
+export interface ReorgEvent {
+  forkHeight: number;                   // Height of the common ancestor
+  commonAncestorHash: string;
+  removedBlocks: Block[];               // Blocks no longer on the active chain
+  addedBlocks: Block[];                 // Blocks newly on the active chain
+  returnedTransactions: Transaction[];  // Orphaned transactions put back in the pending pool
 }
 
+export type ReorgListener = (event: ReorgEvent) => void | Promise<void>;
+
 // Storage Interface
 export interface ChainStorage {
   blocks: Block[];
@@ -181,7 +181,10 @@ export class InputValidator {
     }
 
     // Validate transaction type
-    const validTypes = ['Attestation', 'APReveal', 'CreateUser'];
+    const validTypes = [
+      'Attestation', 'APReveal', 'CreateUser', 'RotateKey', 'RevokeIdentity',
+      'ProfileUpdate', 'CreateClass', 'SetDifficultyPolicy', 'AmendAttestation', 'RetractAttestation'
+    ];
     if (!validTypes.includes(tx.txType)) {
       errors.push({
         field: 'txType',
@@ -1,12 +1,29 @@
 // Main Entry Point - Phase 1
-import { Blockchain, createTransaction } from './core/blockchain.js';
-import { createProfile, validateProfile } from './core/profile.js';
-import { Storage } from './persistence/storage.js';
-import { Profile, CreateUserData, AttestationData } from './core/types.js';
+import { Blockchain, createTransaction, MiningOptions, DifficultyPolicy, IdentityRecord, DisplayProfile, ClassRecord } from './core/blockchain.js';
+import { createProfile, recoverProfile, toPublicProfile, validateSeedphrase } from './core/profile.js';
+import { combineShares, decodeShare, encodeShare, splitSeedphrase } from './core/shamir.js';
+import { keySession, MIN_PASSPHRASE_LENGTH } from './core/keystore.js';
+import { beginProfileSession, endProfileSession } from './core/profile-session.js';
+import { Storage, persistMempool, persistReorgs, loadChainWithCheckpoint, saveCheckpointIfDue } from './persistence/storage.js';
+import {
+  Block,
+  Transaction,
+  Profile,
+  CreateUserData,
+  AttestationData,
+  RotateKeyData,
+  RevokeIdentityData,
+  ProfileUpdateData,
+  CreateClassData,
+  SetDifficultyPolicyData
+} from './core/types.js';
+import { createDifficultyPolicy } from './core/difficulty.js';
+import { InclusionProof } from './core/merkle.js';
 
 // Global instances
 let blockchain: Blockchain;
 let storage: Storage;
+// Public part only; the private key lives in the unlocked key session
 let currentProfile: Profile | null = null;
 
 // Initialize the application
@@ -20,12 +37,14 @@ export async function initialize(): Promise<void> {
   // Initialize blockchain
   blockchain = new Blockchain();
   
-  // Try to load existing chain
+  // Try to load existing chain, re-verifying only the blocks after a trusted checkpoint
   const savedChain = await storage.loadChain();
   if (savedChain.length > 0) {
-    const loaded = await blockchain.loadChain(savedChain);
+    const loaded = await loadChainWithCheckpoint(blockchain, storage, savedChain);
     if (loaded) {
-      console.log(`Loaded blockchain with ${savedChain.length} blocks`);
+      const checkpoint = blockchain.getCheckpoint();
+      console.log(`Loaded blockchain with ${savedChain.length} blocks` +
+        (checkpoint ? ` (checkpoint at height ${checkpoint.height})` : ''));
     } else {
       console.log('Failed to load saved chain, starting fresh');
     }
@@ -33,13 +52,29 @@ export async function initialize(): Promise<void> {
     console.log('Starting with genesis block');
   }
   
+  // Store reorgs as they happen instead of rewriting the whole chain
+  persistReorgs(blockchain, storage);
+  
+  // Restore unmined transactions from the last session
+  const restored = await persistMempool(blockchain, storage);
+  if (restored > 0) {
+    console.log(`Restored ${restored} pending transactions`);
+  }
+  
   // Load profiles
   const profiles = await storage.loadAllProfiles();
   console.log(`Found ${profiles.length} profiles`);
 }
 
-// Create a new user
-export async function createUser(username: string): Promise<Profile | null> {
+// Create a new user; the passphrase encrypts the new keys on this device
+// The returned profile carries the seed phrase the student must write down
+// With a class id, the student joins that class; it must already be on the chain
+export async function createUser(username: string, passphrase: string, classId?: string): Promise<Profile | null> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    console.error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    return null;
+  }
+  
   try {
     // Check if username already exists
     const exists = await storage.profileExistsByUsername(username);
@@ -60,15 +95,12 @@ export async function createUser(username: string): Promise<Profile | null> {
     // Create CreateUser transaction
     const userData: CreateUserData = {
       username: profile.username,
-      pubkey: profile.pubkey
+      pubkey: profile.pubkey,
+      ...(classId !== undefined ? { classId } : {})
     };
     
-    const transaction = await createTransaction(
-      'CreateUser',
-      userData,
-      profile.pubkey,
-      profile.privkey
-    );
+    // Signed with the new key directly; the session only switches once the user exists
+    const transaction = await createTransaction('CreateUser', userData, profile.pubkey, profile.privkey);
     
     // Add transaction to blockchain
     const added = await blockchain.addTransaction(transaction);
@@ -85,11 +117,12 @@ export async function createUser(username: string): Promise<Profile | null> {
     }
     
     // Save profile and updated chain
-    await storage.saveProfile(profile);
+    await storage.saveProfile(profile, passphrase);
     await storage.saveChain(blockchain.getChain());
     
+    beginProfileSession(profile.pubkey, profile.privkey);
     console.log(`User created: ${username} with pubkey ${profile.pubkey.substring(0, 20)}...`);
-    currentProfile = profile;
+    currentProfile = toPublicProfile(profile);
     return profile;
   } catch (error) {
     console.error('Error creating user:', error);
@@ -97,6 +130,127 @@ export async function createUser(username: string): Promise<Profile | null> {
   }
 }
 
+// Recover an existing user from their seed phrase, protecting it on this device with a passphrase
+export async function recoverUser(username: string, seedphrase: string, passphrase: string): Promise<Profile | null> {
+  try {
+    const validation = await validateSeedphrase(seedphrase);
+    if (!validation.valid) {
+      console.error('Invalid seed phrase:', validation.error);
+      return null;
+    }
+    
+    const profile = await recoverProfile(username, seedphrase);
+    
+    if (!blockchain.hasUserWithPubkey(profile.pubkey)) {
+      console.warn('Recovered identity not found on local chain yet; sync to restore history');
+    }
+    
+    await storage.saveProfile(profile, passphrase);
+    beginProfileSession(profile.pubkey, profile.privkey, blockchain.resolveIdentity(profile.pubkey));
+    
+    console.log(`User recovered: ${username} with pubkey ${profile.pubkey.substring(0, 20)}...`);
+    currentProfile = toPublicProfile(profile);
+    return profile;
+  } catch (error) {
+    console.error('Error recovering user:', error);
+    return null;
+  }
+}
+
+// Split the current profile's seed phrase into recovery shares for classmates or the teacher
+// Any `threshold` of the `total` returned QR payloads rebuild the seed; the passphrase is re-checked first
+export async function createRecoveryShares(passphrase: string, threshold: number, total: number): Promise<string[] | null> {
+  if (!currentProfile) {
+    console.error('No current profile set');
+    return null;
+  }
+  
+  try {
+    const profile = await storage.unlockProfile(currentProfile.pubkey, passphrase);
+    const shares = await splitSeedphrase(profile.seedphrase, threshold, total);
+    console.log(`Created ${threshold}-of-${total} recovery shares for ${profile.username}`);
+    return shares.map(encodeShare);
+  } catch (error) {
+    console.error('Error creating recovery shares:', error);
+    return null;
+  }
+}
+
+// Recover a user from scanned recovery shares instead of the written seed phrase
+export async function recoverUserFromShares(
+  username: string,
+  shareCodes: string[],
+  passphrase: string
+): Promise<Profile | null> {
+  let seedphrase: string;
+  try {
+    seedphrase = await combineShares(shareCodes.map(decodeShare));
+  } catch (error) {
+    console.error('Could not rebuild seed phrase from shares:', error);
+    return null;
+  }
+  return await recoverUser(username, seedphrase, passphrase);
+}
+
+// Retire the current key and continue the identity under a freshly generated one
+// The returned profile carries the new seed phrase the student must write down
+// The passphrase is re-checked and then protects the new key
+async function replaceCurrentKey(
+  txType: 'RotateKey' | 'RevokeIdentity',
+  passphrase: string,
+  reason?: string
+): Promise<Profile | null> {
+  if (!currentProfile) {
+    console.error('No current profile set');
+    return null;
+  }
+  
+  try {
+    await storage.unlockProfile(currentProfile.pubkey, passphrase);
+    const successor = await createProfile(currentProfile.username);
+    const data: RotateKeyData | RevokeIdentityData = txType === 'RotateKey'
+      ? { newPubkey: successor.pubkey }
+      : { newPubkey: successor.pubkey, reason };
+    
+    // Signed by the old key: only its holder can hand the identity on
+    const transaction = await createTransaction(txType, data, currentProfile.pubkey);
+    
+    const added = await blockchain.addTransaction(transaction);
+    if (!added) {
+      console.error(`Failed to add ${txType} transaction`);
+      return null;
+    }
+    
+    const block = await blockchain.minePendingTransactions();
+    if (!block) {
+      console.error(`Failed to mine ${txType} transaction`);
+      return null;
+    }
+    
+    await storage.replaceProfile(currentProfile.pubkey, successor, passphrase);
+    await storage.saveChain(blockchain.getChain());
+    // Same identity, so the session keeps its namespace
+    beginProfileSession(successor.pubkey, successor.privkey, blockchain.resolveIdentity(successor.pubkey));
+    
+    console.log(`${txType}: ${currentProfile.username} now uses pubkey ${successor.pubkey.substring(0, 20)}...`);
+    currentProfile = toPublicProfile(successor);
+    return successor;
+  } catch (error) {
+    console.error(`Error during ${txType}:`, error);
+    return null;
+  }
+}
+
+// Rotate the current profile to a new key; history and reputation carry over
+export async function rotateKey(passphrase: string): Promise<Profile | null> {
+  return await replaceCurrentKey('RotateKey', passphrase);
+}
+
+// Revoke a compromised key (e.g. leaked seed phrase) in favour of a new one
+export async function revokeIdentity(passphrase: string, reason?: string): Promise<Profile | null> {
+  return await replaceCurrentKey('RevokeIdentity', passphrase, reason);
+}
+
 // Create an attestation
 export async function createAttestation(
   questionId: string,
@@ -108,8 +262,8 @@ export async function createAttestation(
     return false;
   }
   
-  if (!validateProfile(currentProfile)) {
-    console.error('Invalid current profile');
+  if (!keySession.isUnlocked(currentProfile.pubkey)) {
+    console.error('Current profile is locked; unlock it with its passphrase');
     return false;
   }
   
@@ -120,12 +274,7 @@ export async function createAttestation(
       answerText
     };
     
-    const transaction = await createTransaction(
-      'Attestation',
-      attestationData,
-      currentProfile.pubkey,
-      currentProfile.privkey
-    );
+    const transaction = await createTransaction('Attestation', attestationData, currentProfile.pubkey);
     
     const added = await blockchain.addTransaction(transaction);
     if (!added) {
@@ -141,10 +290,82 @@ export async function createAttestation(
   }
 }
 
+// Change the current user's display name, avatar emoji or class/section tags
+// Takes effect for everyone once the transaction is mined; a name already held by
+// an earlier claim is shown with a short suffix
+export async function updateProfile(update: ProfileUpdateData): Promise<boolean> {
+  if (!currentProfile) {
+    console.error('No current profile set');
+    return false;
+  }
+  
+  if (!keySession.isUnlocked(currentProfile.pubkey)) {
+    console.error('Current profile is locked; unlock it with its passphrase');
+    return false;
+  }
+  
+  try {
+    // addTransaction rejects malformed names, avatars and tags
+    const transaction = await createTransaction('ProfileUpdate', update, currentProfile.pubkey);
+    const added = await blockchain.addTransaction(transaction);
+    if (!added) {
+      console.error('Failed to add ProfileUpdate transaction');
+      return false;
+    }
+    
+    console.log(`Profile update queued for ${currentProfile.username}`);
+    return true;
+  } catch (error) {
+    console.error('Error updating profile:', error);
+    return false;
+  }
+}
+
+// Register a class namespace, signed by the current profile (usually the teacher's)
+// Students then join it with createUser and their attestations count toward it
+export async function createClass(classId: string, name: string): Promise<boolean> {
+  if (!currentProfile) {
+    console.error('No current profile set');
+    return false;
+  }
+  
+  if (!keySession.isUnlocked(currentProfile.pubkey)) {
+    console.error('Current profile is locked; unlock it with its passphrase');
+    return false;
+  }
+  
+  try {
+    const classData: CreateClassData = { classId, name };
+    const transaction = await createTransaction('CreateClass', classData, currentProfile.pubkey);
+    const added = await blockchain.addTransaction(transaction);
+    if (!added) {
+      console.error('Failed to add CreateClass transaction');
+      return false;
+    }
+    
+    console.log(`Class ${classId} created`);
+    return true;
+  } catch (error) {
+    console.error('Error creating class:', error);
+    return false;
+  }
+}
+
+// Classes registered on the chain, including pending ones
+export function getClasses(): ClassRecord[] {
+  return blockchain.getClasses();
+}
+
+// Resolved display profile (latest name, avatar, tags) for any key of an identity
+export function getDisplayProfile(pubkey: string): DisplayProfile | null {
+  return blockchain.getDisplayProfile(pubkey);
+}
+
 // Mine pending transactions
-export async function minePendingTransactions(): Promise<boolean> {
+// Runs in a worker in the browser; options carry progress reporting and cancellation
+export async function minePendingTransactions(options: MiningOptions = {}): Promise<boolean> {
   try {
-    const block = await blockchain.minePendingTransactions();
+    const block = await blockchain.minePendingTransactions(options);
     if (!block) {
       console.log('No blocks mined');
       return false;
@@ -152,6 +373,9 @@ export async function minePendingTransactions(): Promise<boolean> {
     
     // Save updated chain
     await storage.saveChain(blockchain.getChain());
+    if (currentProfile) {
+      await saveCheckpointIfDue(blockchain, storage, currentProfile.pubkey);
+    }
     
     console.log(`Mined block ${block.hash} with ${block.transactions.length} transactions`);
     return true;
@@ -161,19 +385,88 @@ export async function minePendingTransactions(): Promise<boolean> {
   }
 }
 
-// Set current profile
-export async function setCurrentProfile(pubkey: string): Promise<boolean> {
-  const profile = await storage.loadProfile(pubkey);
-  if (!profile) {
-    console.error('Profile not found');
+// Profiles stored on this device, for the profile picker (public fields only)
+export async function listProfiles(): Promise<Profile[]> {
+  return await storage.loadAllProfiles();
+}
+
+// Get the active profile (public fields only), or null when nobody is signed in
+export function getCurrentProfile(): Profile | null {
+  return currentProfile;
+}
+
+// Set current profile, unlocking its key with the passphrase
+// Switching ends the previous student's session first; a wrong passphrase leaves it untouched
+// The key stays unlocked until lockProfile or the idle timeout
+export async function setCurrentProfile(pubkey: string, passphrase: string): Promise<boolean> {
+  try {
+    const profile = await storage.unlockProfile(pubkey, passphrase);
+    beginProfileSession(profile.pubkey, profile.privkey, blockchain.resolveIdentity(profile.pubkey));
+    
+    currentProfile = toPublicProfile(profile);
+    console.log(`Current profile set to ${profile.username}`);
+    return true;
+  } catch (error) {
+    console.error('Failed to unlock profile:', error);
     return false;
   }
+}
+
+// Sign the current student out: keys are locked and no profile's local data stays active
+export function signOut(): void {
+  endProfileSession();
+  currentProfile = null;
+  console.log('Signed out');
+}
+
+// Lock the current profile; signing needs the passphrase again
+export function lockProfile(): void {
+  keySession.lock();
+  console.log('Profile locked');
+}
+
+// Whether the current profile can sign without asking for the passphrase
+export function isProfileUnlocked(): boolean {
+  return !!currentProfile && keySession.isUnlocked(currentProfile.pubkey);
+}
+
+// Set the class proof-of-work policy, signed by the current profile as the class's creator
+// The policy is chain data and governs blocks after the one that records it;
+// returns the submitted policy or null if rejected
+export async function setDifficultyPolicy(
+  classId: string,
+  policy: Partial<DifficultyPolicy>
+): Promise<DifficultyPolicy | null> {
+  if (!currentProfile) {
+    console.error('No current profile set');
+    return null;
+  }
   
-  // Note: privkey needs to be regenerated from seedphrase
-  // For Phase 1, we'll need to handle this separately
-  currentProfile = profile;
-  console.log(`Current profile set to ${profile.username}`);
-  return true;
+  if (!keySession.isUnlocked(currentProfile.pubkey)) {
+    console.error('Current profile is locked; unlock it with its passphrase');
+    return null;
+  }
+  
+  try {
+    const policyData: SetDifficultyPolicyData = { classId, policy: createDifficultyPolicy(policy) };
+    const transaction = await createTransaction('SetDifficultyPolicy', policyData, currentProfile.pubkey);
+    const added = await blockchain.addTransaction(transaction);
+    if (!added) {
+      console.error('Failed to add SetDifficultyPolicy transaction');
+      return null;
+    }
+    
+    console.log(`Difficulty policy submitted: ${policyData.policy.mode}, ${policyData.policy.difficulty} bits`);
+    return policyData.policy;
+  } catch (error) {
+    console.error('Error setting difficulty policy:', error);
+    return null;
+  }
+}
+
+// Get the current class proof-of-work policy
+export function getDifficultyPolicy(): DifficultyPolicy {
+  return blockchain.getDifficultyPolicy();
 }
 
 // Get blockchain info
@@ -181,6 +474,8 @@ export function getBlockchainInfo(): {
   blockCount: number;
   isValid: boolean;
   latestBlockHash: string;
+  chainWork: number;
+  nextDifficulty: number;
 } {
   const chain = blockchain.getChain();
   const latestBlock = blockchain.getLatestBlock();
@@ -188,15 +483,53 @@ export function getBlockchainInfo(): {
   return {
     blockCount: chain.length,
     isValid: true, // Will be validated asynchronously
-    latestBlockHash: latestBlock.hash
+    latestBlockHash: latestBlock.hash,
+    chainWork: blockchain.getChainWork(),
+    nextDifficulty: blockchain.getNextDifficulty()
   };
 }
 
+// Get a compact proof that a transaction was recorded in a block
+export async function getInclusionProof(txHash: string): Promise<InclusionProof | null> {
+  return await blockchain.getInclusionProof(txHash);
+}
+
+// Verify an inclusion proof (e.g. scanned from a student's QR code)
+export async function verifyInclusionProof(proof: InclusionProof): Promise<boolean> {
+  return await blockchain.verifyInclusionProof(proof);
+}
+
+// Get every attestation made by a user, under any of their keys
+export function getAttestationsByUser(pubkey: string): Transaction[] {
+  return blockchain.getAttestationsByUser(pubkey);
+}
+
+// Get every mined attestation for a question
+export function getAttestationsByQuestion(questionId: string): Transaction[] {
+  return blockchain.getAttestationsByQuestion(questionId);
+}
+
+// Get mined transactions newer than a timestamp
+export function getTransactionsSince(timestamp: number): Transaction[] {
+  return blockchain.getTransactionsSince(timestamp);
+}
+
+// Look up a registered user by username
+export function getUserByUsername(username: string): IdentityRecord | null {
+  return blockchain.getUserByUsername(username);
+}
+
+// Get a block on the active chain by its hash
+export function getBlockByHash(hash: string): Block | null {
+  return blockchain.getBlockByHash(hash);
+}
+
 // Validate the entire system
+// Re-verifies every block from genesis, including those below the checkpoint
 export async function validateSystem(): Promise<boolean> {
   console.log('Validating system integrity...');
   
-  const isChainValid = await blockchain.validateChain();
+  const isChainValid = await blockchain.verifyFullChain();
   if (!isChainValid) {
     console.error('Blockchain validation failed');
     return false;
@@ -210,10 +543,34 @@ export async function validateSystem(): Promise<boolean> {
 export const API = {
   initialize,
   createUser,
+  recoverUser,
+  createRecoveryShares,
+  recoverUserFromShares,
+  rotateKey,
+  revokeIdentity,
+  validateSeedphrase,
   createAttestation,
+  updateProfile,
+  getDisplayProfile,
+  createClass,
+  getClasses,
   minePendingTransactions,
+  listProfiles,
+  getCurrentProfile,
   setCurrentProfile,
+  signOut,
+  lockProfile,
+  isProfileUnlocked,
+  setDifficultyPolicy,
+  getDifficultyPolicy,
   getBlockchainInfo,
+  getInclusionProof,
+  verifyInclusionProof,
+  getAttestationsByUser,
+  getAttestationsByQuestion,
+  getTransactionsSince,
+  getUserByUsername,
+  getBlockByHash,
   validateSystem
 };
 
@@ -10,7 +10,9 @@ import {
   InvariantReport 
 } from './types';
 import { EnhancedBlockchain } from '../core/enhanced-blockchain';
-import { Transaction, AttestationData } from '../core/types';
+import { Transaction, AttestationData, CreateUserData, RetractAttestationData } from '../core/types';
+import { IdentityRegistry } from '../core/identity';
+import { RevisionTarget, checkRevision, isRevisionTransaction, revisionTargetFor } from '../core/amendments';
 
 // Define Profile interface locally to avoid import issues
 interface Profile {
@@ -21,8 +23,13 @@ interface Profile {
   reputationScore?: number;
 }
 import { sha256 } from '../core/crypto';
-import { QuestionDistribution } from '../core/consensus';
-import { loadState, saveState } from '../persistence/storage';
+import {
+  QuestionDistribution,
+  isFRQDistribution,
+  isMCQDistribution,
+  weightedScoreStats
+} from '../core/consensus';
+import { loadState, saveState, ChainWriteMarker } from '../persistence/storage';
 
 export class InvariantChecker {
   private static instance: InvariantChecker;
@@ -40,15 +47,18 @@ export class InvariantChecker {
 
   /**
    * Verify all invariants for the blockchain
+   * With the stored chain's write-ahead marker, persistence checks cover it too
    */
-  verifyAllInvariants(blockchain: EnhancedBlockchain): InvariantReport {
+  verifyAllInvariants(blockchain: EnhancedBlockchain, chainMarker?: ChainWriteMarker | null): InvariantReport {
     const startTime = Date.now();
     const checkResults: InvariantCheckResult[] = [];
     
-    // Get blockchain data
-    const transactions = blockchain.getAllTransactions();
-    const profiles = blockchain.getProfiles ? blockchain.getProfiles() : [];
-    const distributions = blockchain.getDistributions ? blockchain.getDistributions() : new Map();
+    // Get blockchain data: mined transactions, the users they register, and live distributions
+    const transactions = blockchain.getChain().flatMap(block => block.transactions);
+    const profiles = transactions
+      .filter(tx => tx.txType === 'CreateUser')
+      .map(tx => tx.data as CreateUserData);
+    const distributions = blockchain.getAllDistributions();
 
     // Run all invariant checks
     checkResults.push(this.checkIdentityInvariant(transactions, profiles));
@@ -58,12 +68,13 @@ export class InvariantChecker {
     checkResults.push(this.checkProgressiveQuorum(distributions));
     checkResults.push(this.checkConvergenceCalculation(distributions));
     checkResults.push(this.checkRateLimiting(transactions));
-    checkResults.push(this.checkPersistenceIntegrity());
+    checkResults.push(this.checkPersistenceIntegrity(chainMarker, blockchain));
     checkResults.push(this.checkConfidenceWeighting(transactions));
     checkResults.push(this.checkOutlierDetection(transactions));
     checkResults.push(this.checkCycleStability(blockchain));
     checkResults.push(this.checkAtomicity());
     checkResults.push(this.checkUISafety());
+    checkResults.push(this.checkWeightedConvergence(distributions));
 
     // Compile report
     return this.compileReport(checkResults, startTime);
@@ -71,14 +82,36 @@ export class InvariantChecker {
 
   /**
    * Invariant 1: Identity
-   * ∀ transaction t: t.attesterPubkey ∈ {p.pubkey | p ∈ profiles}
+   * ∀ transaction t: identity(t.attesterPubkey) ∈ {identity(p.pubkey) | p ∈ profiles}
+   * where identity() follows RotateKey/RevokeIdentity, and no retired key signs again
    */
-  checkIdentityInvariant(transactions: Transaction[], profiles: Profile[]): InvariantCheckResult {
+  checkIdentityInvariant(transactions: Transaction[], profiles: Pick<Profile, 'username' | 'pubkey'>[]): InvariantCheckResult {
     const violations: InvariantViolation[] = [];
-    const validKeys = new Set(profiles.map(p => p.pubkey));
 
+    // Replay identities in chain order; conflicts show up at the transaction that caused them
+    const registry = new IdentityRegistry();
     for (const tx of transactions) {
-      if (tx.attesterPubkey && !validKeys.has(tx.attesterPubkey)) {
+      const conflict = registry.check(tx);
+      if (conflict && tx.txType !== 'CreateUser') {
+        violations.push({
+          type: InvariantType.IDENTITY,
+          message: conflict,
+          severity: 'critical',
+          timestamp: Date.now(),
+          context: { transaction: tx.hash, pubkey: tx.attesterPubkey },
+          location: `Transaction ${tx.hash}`,
+          suggestion: 'Reject transactions signed by retired keys and key changes from unregistered keys'
+        });
+      }
+      registry.apply(tx);
+    }
+
+    // Old and new keys of one identity are equally valid
+    const identityOf = (pubkey: string) => registry.resolve(pubkey) ?? pubkey;
+    const validIdentities = new Set(profiles.map(p => identityOf(p.pubkey)));
+
+    for (const tx of transactions) {
+      if (tx.attesterPubkey && !validIdentities.has(identityOf(tx.attesterPubkey))) {
         // Allow system transactions without profile
         if (tx.txType !== 'CreateUser') {
           violations.push({
@@ -99,7 +132,8 @@ export class InvariantChecker {
       violations,
       metadata: { 
         totalTransactions: transactions.length, 
-        totalProfiles: profiles.length 
+        totalProfiles: profiles.length,
+        totalIdentities: registry.getIdentities().length
       }
     };
   }
@@ -112,7 +146,8 @@ export class InvariantChecker {
     const violations: InvariantViolation[] = [];
 
     for (const [questionId, dist] of distributions) {
-      const requiredQuorum = this.calculateProgressiveQuorum(dist.convergence);
+      // Weighted distributions reach quorum on their weighted convergence
+      const requiredQuorum = this.calculateProgressiveQuorum(dist.weightedConvergence ?? dist.convergence);
       const actualAttestations = dist.totalAttestations;
 
       // Only check if we claim to have consensus
@@ -125,6 +160,7 @@ export class InvariantChecker {
           context: { 
             questionId, 
             convergence: dist.convergence,
+            weightedConvergence: dist.weightedConvergence,
             attestations: actualAttestations,
             required: requiredQuorum
           },
@@ -385,20 +421,45 @@ export class InvariantChecker {
   /**
    * Invariant 8: Rate Limiting
    * ∀ user u, question q: timeSinceLastAttestation(u, q) > 30 days
+   * Amendments replace an answer without counting as a new attestation;
+   * a retraction frees the limit. Both must come from the original attester
+   * within the grace window.
    */
   checkRateLimiting(transactions: Transaction[]): InvariantCheckResult {
     const violations: InvariantViolation[] = [];
     const attestationMap = new Map<string, number>();
+    const revisionTargets = new Map<string, RevisionTarget>();
     const thirtyDaysMs = 30 * 24 * 60 * 60 * 1000;
 
     // Build map of user-question to last attestation time
     const attestations = transactions
-      .filter(tx => tx.txType === 'Attestation')
+      .filter(tx => tx.txType === 'Attestation' || isRevisionTransaction(tx))
       .sort((a, b) => a.timestamp - b.timestamp);
 
     for (const tx of attestations) {
+      if (isRevisionTransaction(tx)) {
+        const target = revisionTargets.get((tx.data as RetractAttestationData).attestationHash);
+        const conflict = checkRevision(tx, target, tx.attesterPubkey);
+        if (conflict) {
+          violations.push({
+            type: InvariantType.RATE_LIMITING,
+            message: `Invalid ${tx.txType}: ${conflict}`,
+            severity: 'high',
+            timestamp: Date.now(),
+            context: { user: tx.attesterPubkey, transaction: tx.hash },
+            location: `Transaction ${tx.hash}`,
+            suggestion: 'Only revise your own attestations, within the grace window'
+          });
+        } else if (tx.txType === 'RetractAttestation') {
+          target!.retracted = true;
+          attestationMap.delete(`${tx.attesterPubkey}:${target!.questionId}`);
+        }
+        continue;
+      }
+
       const data = tx.data as AttestationData;
       const key = `${tx.attesterPubkey}:${data.questionId}`;
+      revisionTargets.set(tx.hash, revisionTargetFor(tx, tx.attesterPubkey));
       
       if (attestationMap.has(key)) {
         const lastTime = attestationMap.get(key)!;
@@ -513,44 +574,75 @@ export class InvariantChecker {
   /**
    * Invariant 11: Persistence Integrity
    * ∀ state s: loadState(saveState(s)) = s
+   * Given the stored chain's write-ahead marker, also checks that no chain write
+   * was left unfinished and that the stored head is a block on the active chain
    */
-  checkPersistenceIntegrity(): InvariantCheckResult {
+  checkPersistenceIntegrity(chainMarker?: ChainWriteMarker | null, blockchain?: EnhancedBlockchain): InvariantCheckResult {
     const violations: InvariantViolation[] = [];
     
-    try {
-      // Create test state
-      const testState = {
-        testId: Math.random().toString(36),
+    if (chainMarker?.pending) {
+      violations.push({
+        type: InvariantType.PERSISTENCE_INTEGRITY,
+        message: `Stored chain has an unfinished ${chainMarker.pending.op}`,
+        severity: 'critical',
         timestamp: Date.now(),
-        data: { foo: 'bar', num: 42 }
-      };
+        context: { pending: chainMarker.pending, head: chainMarker.head },
+        suggestion: 'Reload the chain from storage so the interrupted write is rolled back'
+      });
+    }
+    
+    if (chainMarker?.head && blockchain) {
+      const stored = blockchain.getChain()[chainMarker.head.height];
+      if (!stored || stored.hash !== chainMarker.head.hash) {
+        violations.push({
+          type: InvariantType.PERSISTENCE_INTEGRITY,
+          message: 'Stored chain head is not on the active chain',
+          severity: 'high',
+          timestamp: Date.now(),
+          context: { head: chainMarker.head, chainLength: blockchain.getChain().length },
+          location: `Height ${chainMarker.head.height}`,
+          suggestion: 'Save the chain again so storage matches the active chain'
+        });
+      }
+    }
+    
+    // Round-trip through localStorage where there is one (not under Node)
+    if (typeof localStorage !== 'undefined') {
+      try {
+        // Create test state
+        const testState = {
+          testId: Math.random().toString(36),
+          timestamp: Date.now(),
+          data: { foo: 'bar', num: 42 }
+        };
 
-      // Save and load
-      const key = 'invariant_test_' + Date.now();
-      localStorage.setItem(key, JSON.stringify(testState));
-      const loaded = JSON.parse(localStorage.getItem(key) || '{}');
-      localStorage.removeItem(key);
+        // Save and load
+        const key = 'invariant_test_' + Date.now();
+        localStorage.setItem(key, JSON.stringify(testState));
+        const loaded = JSON.parse(localStorage.getItem(key) || '{}');
+        localStorage.removeItem(key);
 
-      // Compare
-      if (JSON.stringify(testState) !== JSON.stringify(loaded)) {
+        // Compare
+        if (JSON.stringify(testState) !== JSON.stringify(loaded)) {
+          violations.push({
+            type: InvariantType.PERSISTENCE_INTEGRITY,
+            message: 'State persistence integrity check failed',
+            severity: 'critical',
+            timestamp: Date.now(),
+            context: { original: testState, loaded },
+            suggestion: 'Check serialization/deserialization logic'
+          });
+        }
+      } catch (error) {
         violations.push({
           type: InvariantType.PERSISTENCE_INTEGRITY,
-          message: 'State persistence integrity check failed',
-          severity: 'critical',
+          message: 'Persistence test failed',
+          severity: 'high',
           timestamp: Date.now(),
-          context: { original: testState, loaded },
-          suggestion: 'Check serialization/deserialization logic'
+          context: { error: String(error) },
+          suggestion: 'Ensure localStorage is available and working'
         });
       }
-    } catch (error) {
-      violations.push({
-        type: InvariantType.PERSISTENCE_INTEGRITY,
-        message: 'Persistence test failed',
-        severity: 'high',
-        timestamp: Date.now(),
-        context: { error: String(error) },
-        suggestion: 'Ensure localStorage is available and working'
-      });
     }
 
     return {
@@ -617,6 +709,78 @@ export class InvariantChecker {
     };
   }
 
+  /**
+   * Invariant 14: Weighted Convergence
+   * ∀ weighted distribution d: Σ d.weights = d.totalWeight ∧ d.weightedConvergence = f(d.weights)
+   * Only distributions built in reputation-weighted mode are checked
+   */
+  checkWeightedConvergence(distributions: Map<string, QuestionDistribution>): InvariantCheckResult {
+    const violations: InvariantViolation[] = [];
+    const violation = (questionId: string, message: string, context: Record<string, unknown>) => {
+      violations.push({
+        type: InvariantType.CONVERGENCE_CALCULATION,
+        message,
+        severity: 'high',
+        timestamp: Date.now(),
+        context: { questionId, ...context },
+        location: `Question ${questionId}`,
+        suggestion: 'Rebuild distributions from the chain in weighted mode'
+      });
+    };
+    let weighted = 0;
+
+    for (const [questionId, dist] of distributions) {
+      if (dist.weightedConvergence === undefined) continue;
+      weighted++;
+
+      if (dist.weightedConvergence < 0 || dist.weightedConvergence > 1) {
+        violation(questionId, 'Weighted convergence out of range', { weightedConvergence: dist.weightedConvergence });
+        continue;
+      }
+      if (Object.values(dist.attestationWeights || {}).some(weight => !(weight > 0))) {
+        violation(questionId, 'Attestation with a non-positive weight', { weights: dist.attestationWeights });
+      }
+
+      if (isMCQDistribution(dist) && dist.weightedChoices) {
+        const weights = Object.values(dist.weightedChoices);
+        const total = weights.reduce((a, b) => a + b, 0);
+        const expected = total > 0 ? Math.max(...weights) / total : 0;
+        if (Math.abs(total - (dist.totalWeight || 0)) > 0.01 || Math.abs(dist.weightedConvergence - expected) > 0.01) {
+          violation(questionId, 'Weighted MCQ convergence calculation error', {
+            calculated: dist.weightedConvergence,
+            expected,
+            totalWeight: dist.totalWeight,
+            sumOfWeights: total
+          });
+        }
+      }
+
+      if (isFRQDistribution(dist) && dist.scoreWeights) {
+        if (dist.scoreWeights.length !== dist.scores.length) {
+          violation(questionId, 'FRQ scores and weights differ in length', {
+            scores: dist.scores.length,
+            weights: dist.scoreWeights.length
+          });
+          continue;
+        }
+        const { mean, stdDev } = weightedScoreStats(dist.scores, dist.scoreWeights);
+        const expected = mean > 0 ? (stdDev === 0 ? 1 : Math.max(0, 1 - (stdDev / mean))) : 0;
+        if (Math.abs(dist.weightedConvergence - expected) > 0.01) {
+          violation(questionId, 'Weighted FRQ convergence calculation error', {
+            calculated: dist.weightedConvergence,
+            expected
+          });
+        }
+      }
+    }
+
+    return {
+      passed: violations.length === 0,
+      violations,
+      metadata: { weightedQuestions: weighted }
+    };
+  }
+
   /**
    * Compile invariant report
    */
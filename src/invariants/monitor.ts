@@ -4,8 +4,9 @@
  */
 
 import { InvariantChecker } from './checker';
-import { InvariantViolation, InvariantReport } from './types';
+import { InvariantViolation, InvariantReport, InvariantType } from './types';
 import { EnhancedBlockchain } from '../core/enhanced-blockchain';
+import type { ChainWriteMarker, Storage } from '../persistence/storage';
 import { errorHandler } from '../error/error-handler';
 import { BlockchainErrorImpl, ErrorCode, ErrorSeverity } from '../error/types';
 
@@ -26,6 +27,7 @@ export class InvariantMonitor {
   private config: MonitorConfig;
   private recentViolations: InvariantViolation[] = [];
   private blockchain: EnhancedBlockchain | null = null;
+  private storage: Pick<Storage, 'loadChainWriteMarker'> | null = null;
 
   private constructor() {
     this.checker = InvariantChecker.getInstance();
@@ -46,14 +48,20 @@ export class InvariantMonitor {
 
   /**
    * Start monitoring invariants
+   * With the chain's storage, each check also verifies its write-ahead marker
    */
-  startMonitoring(blockchain: EnhancedBlockchain, config?: Partial<MonitorConfig>): void {
+  startMonitoring(
+    blockchain: EnhancedBlockchain,
+    config?: Partial<MonitorConfig>,
+    storage?: Pick<Storage, 'loadChainWriteMarker'>
+  ): void {
     if (this.isMonitoring) {
       console.warn('Invariant monitoring already active');
       return;
     }
 
     this.blockchain = blockchain;
+    this.storage = storage ?? null;
     
     if (config) {
       this.config = { ...this.config, ...config };
@@ -91,14 +99,14 @@ export class InvariantMonitor {
   /**
    * Run invariant check
    */
-  private runCheck(): void {
+  private async runCheck(): Promise<void> {
     if (!this.blockchain) {
       console.error('No blockchain instance for monitoring');
       return;
     }
 
     try {
-      const report = this.checker.verifyAllInvariants(this.blockchain);
+      const report = this.checker.verifyAllInvariants(this.blockchain, await this.loadChainMarker());
       
       // Process violations
       if (report.violations.length > 0) {
@@ -134,6 +142,13 @@ export class InvariantMonitor {
     }
   }
 
+  /**
+   * Read the stored chain's write-ahead marker, if monitoring was given storage
+   */
+  private async loadChainMarker(): Promise<ChainWriteMarker | null> {
+    return this.storage ? await this.storage.loadChainWriteMarker() : null;
+  }
+
   /**
    * Handle detected violations
    */
@@ -282,6 +297,14 @@ export class InvariantMonitor {
     }
   }
 
+  /**
+   * Report violations found outside a scheduled check, e.g. while rebuilding
+   * state from the chain
+   */
+  reportViolations(violations: InvariantViolation[]): void {
+    this.handleViolations(violations);
+  }
+
   /**
    * Register violation callback
    */
@@ -346,13 +369,42 @@ export class InvariantMonitor {
   /**
    * Force immediate check
    */
-  forceCheck(): InvariantReport | null {
+  async forceCheck(): Promise<InvariantReport | null> {
     if (!this.blockchain) {
       console.error('No blockchain instance for monitoring');
       return null;
     }
 
-    return this.checker.verifyAllInvariants(this.blockchain);
+    return this.checker.verifyAllInvariants(this.blockchain, await this.loadChainMarker());
+  }
+
+  /**
+   * Full re-verify: re-hash and re-check signatures of every block from
+   * genesis, including those a startup checkpoint let the device skip
+   */
+  async runFullReverify(): Promise<boolean> {
+    if (!this.blockchain) {
+      console.error('No blockchain instance for monitoring');
+      return false;
+    }
+
+    const checkpoint = this.blockchain.getCheckpoint();
+    const isValid = await this.blockchain.verifyFullChain();
+    if (!isValid) {
+      this.handleViolations([{
+        type: InvariantType.PERSISTENCE_INTEGRITY,
+        message: 'Full re-verification failed: stored blocks do not match their hashes or signatures',
+        severity: 'critical',
+        timestamp: Date.now(),
+        context: {
+          chainLength: this.blockchain.getChain().length,
+          checkpointHeight: checkpoint?.height ?? null
+        },
+        suggestion: 'Discard local data and re-sync the chain from a peer'
+      }]);
+    }
+
+    return isValid;
   }
 }
 
@@ -0,0 +1,251 @@
+// Storage Adapters
+// Everything the app persists is a record in one of a few named stores, keyed
+// by one of its fields. A StorageAdapter reads and writes those records; the
+// browser uses IndexedDB, tests and tools without a DOM use memory or a JSON
+// file (see file-adapter.ts). Storage, the rate limiter and sync metadata all
+// go through the shared default adapter unless handed another one.
+
+// Stores and the field each one is keyed by
+export const STORE_KEYS = {
+  blocks: 'hash',
+  blockHeights: 'height', // { height, hash } records indexing the stored chain
+  profiles: 'pubkey',
+  settings: 'key',        // { key, value } records
+  pending: 'hash',
+  checkpoints: 'height'
+} as const;
+
+export type StoreName = keyof typeof STORE_KEYS;
+export type RecordKey = string | number;
+
+export const STORE_NAMES = Object.keys(STORE_KEYS) as StoreName[];
+
+// One atomic change to a store: clear first if asked, then deletes, then puts
+export interface StoreWrite {
+  clear?: boolean;
+  delete?: RecordKey[];
+  put?: object[];
+}
+
+export interface StorageAdapter {
+  // Idempotent; every other method opens the adapter on demand
+  open(): Promise<void>;
+  get<T>(store: StoreName, key: RecordKey): Promise<T | null>;
+  getAll<T>(store: StoreName): Promise<T[]>;
+  write(store: StoreName, change: StoreWrite): Promise<void>;
+  close(): void;
+}
+
+export const recordKey = (store: StoreName, record: object): RecordKey => {
+  return (record as Record<string, RecordKey>)[STORE_KEYS[store]];
+};
+
+// Read a { key, value } setting
+export async function readSetting<T>(adapter: StorageAdapter, key: string): Promise<T | null> {
+  const record = await adapter.get<{ key: string; value: T }>('settings', key);
+  return record ? record.value : null;
+}
+
+export async function writeSetting<T>(adapter: StorageAdapter, key: string, value: T): Promise<void> {
+  await adapter.write('settings', { put: [{ key, value }] });
+}
+
+// Records are copied in and out, as IndexedDB's structured clone would
+const copyRecord = <T>(record: T): T => JSON.parse(JSON.stringify(record));
+
+// Stores held in memory; lost when the process ends
+export class MemoryStorageAdapter implements StorageAdapter {
+  protected stores: Map<StoreName, Map<RecordKey, object>> = new Map(
+    STORE_NAMES.map(name => [name, new Map<RecordKey, object>()])
+  );
+  
+  async open(): Promise<void> {}
+  
+  async get<T>(store: StoreName, key: RecordKey): Promise<T | null> {
+    const record = this.stores.get(store)!.get(key);
+    return record ? copyRecord(record as T) : null;
+  }
+  
+  async getAll<T>(store: StoreName): Promise<T[]> {
+    return Array.from(this.stores.get(store)!.values(), record => copyRecord(record as T));
+  }
+  
+  async write(store: StoreName, change: StoreWrite): Promise<void> {
+    // Check keys before touching the store so a bad record leaves it unchanged
+    const puts = (change.put ?? []).map(record => {
+      const key = recordKey(store, record);
+      if (key === undefined || key === null) {
+        throw new Error(`Record in ${store} is missing its ${STORE_KEYS[store]} key`);
+      }
+      return [key, copyRecord(record)] as const;
+    });
+    
+    const records = this.stores.get(store)!;
+    if (change.clear) {
+      records.clear();
+    }
+    for (const key of change.delete ?? []) {
+      records.delete(key);
+    }
+    for (const [key, record] of puts) {
+      records.set(key, record);
+    }
+  }
+  
+  close(): void {}
+}
+
+const DB_NAME = 'APStatsConsensus';
+const DB_VERSION = 5;
+
+// The browser's IndexedDB database
+export class IndexedDBAdapter implements StorageAdapter {
+  private db: IDBDatabase | null = null;
+  private opening: Promise<void> | null = null;
+  
+  constructor(private dbName: string = DB_NAME) {}
+  
+  // Concurrent callers share one open request
+  async open(): Promise<void> {
+    if (!this.opening) {
+      this.opening = this.openDatabase().catch(err => {
+        this.opening = null;
+        throw err;
+      });
+    }
+    return this.opening;
+  }
+  
+  private openDatabase(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, DB_VERSION);
+      
+      request.onerror = () => {
+        reject(new Error('Failed to open IndexedDB'));
+      };
+      
+      request.onsuccess = (event) => {
+        this.db = (event.target as IDBOpenDBRequest).result;
+        resolve();
+      };
+      
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+        
+        // Create blocks store
+        if (!db.objectStoreNames.contains('blocks')) {
+          const blocksStore = db.createObjectStore('blocks', { keyPath: STORE_KEYS.blocks });
+          blocksStore.createIndex('timestamp', 'timestamp', { unique: false });
+          blocksStore.createIndex('prevHash', 'prevHash', { unique: false });
+        }
+        
+        // Create block height index (append-only persistence finds blocks by height)
+        if (!db.objectStoreNames.contains('blockHeights')) {
+          db.createObjectStore('blockHeights', { keyPath: STORE_KEYS.blockHeights });
+        }
+        
+        // Create profiles store
+        if (!db.objectStoreNames.contains('profiles')) {
+          const profilesStore = db.createObjectStore('profiles', { keyPath: STORE_KEYS.profiles });
+          profilesStore.createIndex('username', 'username', { unique: true });
+        }
+        
+        // Create settings store (device preferences such as reputation weighting)
+        if (!db.objectStoreNames.contains('settings')) {
+          db.createObjectStore('settings', { keyPath: STORE_KEYS.settings });
+        }
+        
+        // Create pending transactions store (mempool survives closing the tab)
+        if (!db.objectStoreNames.contains('pending')) {
+          const pendingStore = db.createObjectStore('pending', { keyPath: STORE_KEYS.pending });
+          pendingStore.createIndex('timestamp', 'timestamp', { unique: false });
+        }
+        
+        // Create checkpoints store (signed snapshots that let startup skip re-verifying old blocks)
+        if (!db.objectStoreNames.contains('checkpoints')) {
+          db.createObjectStore('checkpoints', { keyPath: STORE_KEYS.checkpoints });
+        }
+      };
+    });
+  }
+  
+  async get<T>(store: StoreName, key: RecordKey): Promise<T | null> {
+    await this.open();
+    
+    return new Promise((resolve, reject) => {
+      const request = this.db!.transaction([store], 'readonly').objectStore(store).get(key);
+      
+      request.onsuccess = () => {
+        resolve((request.result as T | undefined) ?? null);
+      };
+      
+      request.onerror = () => {
+        reject(new Error(`Failed to read from ${store}`));
+      };
+    });
+  }
+  
+  async getAll<T>(store: StoreName): Promise<T[]> {
+    await this.open();
+    
+    return new Promise((resolve, reject) => {
+      const request = this.db!.transaction([store], 'readonly').objectStore(store).getAll();
+      
+      request.onsuccess = () => {
+        resolve(request.result as T[]);
+      };
+      
+      request.onerror = () => {
+        reject(new Error(`Failed to read from ${store}`));
+      };
+    });
+  }
+  
+  async write(store: StoreName, change: StoreWrite): Promise<void> {
+    await this.open();
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([store], 'readwrite');
+      const objectStore = transaction.objectStore(store);
+      
+      // Requests in one transaction run in order, so the clear lands first
+      if (change.clear) {
+        objectStore.clear();
+      }
+      for (const key of change.delete ?? []) {
+        objectStore.delete(key);
+      }
+      for (const record of change.put ?? []) {
+        objectStore.put(record);
+      }
+      
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(new Error(`Failed to write to ${store}`));
+    });
+  }
+  
+  close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+    this.opening = null;
+  }
+}
+
+let defaultAdapter: StorageAdapter | null = null;
+
+// Shared adapter: IndexedDB in the browser, memory where there is none
+export function getDefaultStorageAdapter(): StorageAdapter {
+  if (!defaultAdapter) {
+    defaultAdapter = typeof indexedDB !== 'undefined'
+      ? new IndexedDBAdapter()
+      : new MemoryStorageAdapter();
+  }
+  return defaultAdapter;
+}
+
+// Swap the shared adapter (e.g. a JSON file for a Node tool); set before anything reads it
+export function setDefaultStorageAdapter(adapter: StorageAdapter): void {
+  defaultAdapter = adapter;
+}
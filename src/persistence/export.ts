@@ -8,15 +8,19 @@ import { DiffExtractor } from '../sync/diff';
 import { Compressor } from '../sync/compression';
 import { StateMerger } from '../sync/merger';
 import { SyncDiff, MergeResult } from '../sync/types';
+import { scopedStorageKey } from '../core/profile-session';
+import { StorageAdapter, getDefaultStorageAdapter, readSetting, writeSetting } from './adapter';
 
 export class USBExporter {
   private blockchain: EnhancedBlockchain;
   private diffExtractor: DiffExtractor;
   private compressor: Compressor;
   private merger: StateMerger;
+  private adapter: StorageAdapter;
 
-  constructor(blockchain: EnhancedBlockchain) {
+  constructor(blockchain: EnhancedBlockchain, adapter: StorageAdapter = getDefaultStorageAdapter()) {
     this.blockchain = blockchain;
+    this.adapter = adapter;
     this.diffExtractor = new DiffExtractor(blockchain);
     this.compressor = new Compressor();
     this.merger = new StateMerger(blockchain);
@@ -27,8 +31,8 @@ export class USBExporter {
    */
   async exportToZip(): Promise<void> {
     try {
-      // Get last sync time from localStorage
-      const metadata = this.getMetadata();
+      // Get last sync time from storage
+      const metadata = await this.getMetadata();
       const lastSync = metadata.lastSyncTimestamp || 0;
       
       // Extract diff
@@ -61,7 +65,7 @@ export class USBExporter {
       this.downloadFile(blob, filename);
       
       // Update metadata
-      this.updateMetadata('exported', diff.transactions.length);
+      await this.updateMetadata('exported', diff.transactions.length);
       
       // Show success message
       alert(`Exported ${diff.transactions.length} transactions to ${filename}`);
@@ -99,7 +103,7 @@ export class USBExporter {
       
       // Update metadata
       if (result.success) {
-        this.updateMetadata('imported', result.addedTransactions);
+        await this.updateMetadata('imported', result.addedTransactions);
       }
       
       // Generate report
@@ -270,12 +274,12 @@ export class USBExporter {
   }
 
   /**
-   * Get sync metadata
+   * Get sync metadata for the active profile
    */
-  private getMetadata(): any {
-    const stored = localStorage.getItem('syncMetadata');
+  private async getMetadata(): Promise<any> {
+    const stored = await readSetting<any>(this.adapter, scopedStorageKey('syncMetadata'));
     if (stored) {
-      return JSON.parse(stored);
+      return stored;
     }
     return {
       lastSyncTimestamp: 0,
@@ -287,8 +291,8 @@ export class USBExporter {
   /**
    * Update metadata
    */
-  private updateMetadata(action: string, count: number): void {
-    const metadata = this.getMetadata();
+  private async updateMetadata(action: string, count: number): Promise<void> {
+    const metadata = await this.getMetadata();
     metadata.lastSyncTimestamp = Date.now();
     metadata.syncHistory.push({
       timestamp: Date.now(),
@@ -301,7 +305,7 @@ export class USBExporter {
       metadata.syncHistory = metadata.syncHistory.slice(-10);
     }
     
-    localStorage.setItem('syncMetadata', JSON.stringify(metadata));
+    await writeSetting(this.adapter, scopedStorageKey('syncMetadata'), metadata);
   }
 
   /**
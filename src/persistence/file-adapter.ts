@@ -0,0 +1,86 @@
+// JSON File Storage Adapter
+// Node-only adapter for tests, the bundler and other tools that run without
+// a browser. All stores live in one JSON file that is read on open and
+// rewritten after every write; the rewrite goes to a temp file that is then
+// renamed over the old one, so a crash leaves the previous contents intact.
+// Kept out of adapter.ts so browser bundles never import 'fs'.
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { MemoryStorageAdapter, RecordKey, STORE_NAMES, StoreName, StoreWrite, recordKey } from './adapter.js';
+
+type StoreFile = Partial<Record<StoreName, object[]>>;
+
+export class JsonFileStorageAdapter extends MemoryStorageAdapter {
+  private opening: Promise<void> | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+  
+  constructor(private filePath: string) {
+    super();
+  }
+  
+  async open(): Promise<void> {
+    if (!this.opening) {
+      this.opening = this.readFile();
+    }
+    return this.opening;
+  }
+  
+  async get<T>(store: StoreName, key: RecordKey): Promise<T | null> {
+    await this.open();
+    return super.get<T>(store, key);
+  }
+  
+  async getAll<T>(store: StoreName): Promise<T[]> {
+    await this.open();
+    return super.getAll<T>(store);
+  }
+  
+  async write(store: StoreName, change: StoreWrite): Promise<void> {
+    await this.open();
+    await super.write(store, change);
+    
+    // Writes land on disk in the order they were made
+    const snapshot = this.serialize();
+    this.flushing = this.flushing.catch(() => undefined).then(() => this.writeFile(snapshot));
+    await this.flushing;
+  }
+  
+  // Later calls read the file again
+  close(): void {
+    this.opening = null;
+  }
+  
+  private async readFile(): Promise<void> {
+    let contents: StoreFile = {};
+    try {
+      contents = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Failed to read storage file ${this.filePath}: ${(err as Error).message}`);
+      }
+    }
+    
+    for (const name of STORE_NAMES) {
+      const records = this.stores.get(name)!;
+      records.clear();
+      for (const record of contents[name] ?? []) {
+        records.set(recordKey(name, record), record);
+      }
+    }
+  }
+  
+  private serialize(): string {
+    const contents: StoreFile = {};
+    for (const name of STORE_NAMES) {
+      contents[name] = Array.from(this.stores.get(name)!.values());
+    }
+    return JSON.stringify(contents);
+  }
+  
+  private async writeFile(contents: string): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, contents, 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
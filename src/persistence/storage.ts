@@ -1,5 +1,11 @@
-// Persistence Layer using IndexedDB - Phase 1
-import { Block } from '../core/types.js';
+// Persistence Layer - Phase 1
+// Chain, mempool, checkpoints, profiles and settings as records in a StorageAdapter
+import { Block, Transaction } from '../core/types.js';
+import type { Blockchain } from '../core/blockchain.js';
+import { ChainCheckpoint, DEFAULT_CHECKPOINT_INTERVAL } from '../core/checkpoint.js';
+import { EncryptedSecrets, decryptSecrets, encryptSecrets, keySession } from '../core/keystore.js';
+import { recoverProfile } from '../core/profile.js';
+import { STORE_NAMES, StorageAdapter, getDefaultStorageAdapter, readSetting, writeSetting } from './adapter.js';
 
 // Define Profile interface locally to avoid import issues
 interface Profile {
@@ -10,234 +16,373 @@ interface Profile {
   reputationScore?: number;
 }
 
-const DB_NAME = 'APStatsConsensus';
-const DB_VERSION = 1;
-const BLOCKS_STORE = 'blocks';
-const PROFILES_STORE = 'profiles';
+// What the profiles store holds: public fields plus the passphrase-encrypted secrets
+// Records written before encryption carry a plaintext seedphrase instead
+interface StoredProfile {
+  username: string;
+  pubkey: string;
+  encrypted?: EncryptedSecrets;
+  seedphrase?: string;
+}
+
+// Loaded profiles never carry secrets; unlockProfile decrypts them
+const toPublicProfile = (record: StoredProfile): Profile => ({
+  username: record.username,
+  pubkey: record.pubkey,
+  privkey: '',
+  seedphrase: ''
+});
+
+// Stored blocks carry their height; blockHeights maps each height to its block
+type StoredBlock = Block & { height?: number };  // Absent on records saved before the index
+
+interface BlockHeightRecord {
+  height: number;
+  hash: string;
+}
 
-// IndexedDB wrapper class
+// Write-ahead marker for the stored chain. head is the top block known to be
+// fully written; while pending is set, a write is under way and anything above
+// pending.keepHeight may be half-written, so it is dropped on the next access.
+export interface ChainWriteMarker {
+  head: { height: number; hash: string } | null;
+  pending: { op: 'append' | 'truncate'; keepHeight: number; startedAt: number } | null;
+}
+
+const CHAIN_MARKER_KEY = 'chainWriteMarker';
+const chainWriteQueues = new WeakMap<StorageAdapter, Promise<unknown>>();
+
+// Record store wrapper; IndexedDB in the browser unless given another adapter
 export class Storage {
-  private db: IDBDatabase | null = null;
+  private adapter: StorageAdapter;
   
-  // Initialize IndexedDB
+  constructor(adapter: StorageAdapter = getDefaultStorageAdapter()) {
+    this.adapter = adapter;
+  }
+  
+  // Open the underlying store
   async init(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
-      
-      request.onerror = () => {
-        reject(new Error('Failed to open IndexedDB'));
-      };
-      
-      request.onsuccess = (event) => {
-        this.db = (event.target as IDBOpenDBRequest).result;
-        resolve();
-      };
-      
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        
-        // Create blocks store
-        if (!db.objectStoreNames.contains(BLOCKS_STORE)) {
-          const blocksStore = db.createObjectStore(BLOCKS_STORE, { keyPath: 'hash' });
-          blocksStore.createIndex('timestamp', 'timestamp', { unique: false });
-          blocksStore.createIndex('prevHash', 'prevHash', { unique: false });
-        }
-        
-        // Create profiles store
-        if (!db.objectStoreNames.contains(PROFILES_STORE)) {
-          const profilesStore = db.createObjectStore(PROFILES_STORE, { keyPath: 'pubkey' });
-          profilesStore.createIndex('username', 'username', { unique: true });
-        }
-      };
-    });
+    await this.adapter.open();
   }
   
-  // Save the entire blockchain
+  // Save a blockchain, writing only what differs from the stored chain:
+  // blocks past the longest stored prefix are removed, then the rest appended
   async saveChain(blocks: Block[]): Promise<void> {
-    if (!this.db) {
-      await this.init();
+    return this.queueChainWrite(() => this.writeChain(blocks));
+  }
+  
+  // Append one block on top of the stored chain
+  async appendBlock(block: Block): Promise<void> {
+    return this.queueChainWrite(() => this.writeBlock(block));
+  }
+  
+  // Remove stored blocks above a height (after a reorg); -1 removes them all
+  async removeBlocksAbove(height: number): Promise<void> {
+    return this.queueChainWrite(() => this.removeAbove(height));
+  }
+  
+  private async writeChain(blocks: Block[]): Promise<void> {
+    const marker = await this.recoverChainWrite();
+    
+    let keep = -1;
+    for (let height = Math.min(marker.head?.height ?? -1, blocks.length - 1); height >= 0; height--) {
+      const record = await this.adapter.get<BlockHeightRecord>('blockHeights', height);
+      if (record?.hash === blocks[height].hash) {
+        keep = height;
+        break;
+      }
+    }
+    
+    await this.removeAbove(keep);
+    for (let height = keep + 1; height < blocks.length; height++) {
+      await this.writeBlock(blocks[height]);
+    }
+  }
+  
+  private async writeBlock(block: Block): Promise<void> {
+    const head = (await this.recoverChainWrite()).head;
+    if (head && block.prevHash !== head.hash) {
+      throw new Error(`Block ${block.hash} does not extend the stored chain`);
     }
+    const height = head ? head.height + 1 : 0;
     
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([BLOCKS_STORE], 'readwrite');
-      const store = transaction.objectStore(BLOCKS_STORE);
-      
-      // Clear existing blocks first
-      const clearRequest = store.clear();
-      
-      clearRequest.onsuccess = () => {
-        // Now add all blocks
-        for (const block of blocks) {
-          store.add(block);
-        }
-      };
-      
-      transaction.oncomplete = () => resolve();
-      transaction.onerror = () => reject(new Error('Failed to save blockchain'));
+    // The height record goes first so recovery can always find a half-written block
+    await this.writeChainMarker({ head, pending: { op: 'append', keepHeight: height - 1, startedAt: Date.now() } });
+    await this.adapter.write('blockHeights', { put: [{ height, hash: block.hash }] });
+    await this.adapter.write('blocks', { put: [{ ...block, height }] });
+    await this.writeChainMarker({ head: { height, hash: block.hash }, pending: null });
+  }
+  
+  private async removeAbove(height: number): Promise<void> {
+    const marker = await this.recoverChainWrite();
+    if (!marker.head || marker.head.height <= height) {
+      return;
+    }
+    
+    await this.writeChainMarker({
+      head: marker.head,
+      pending: { op: 'truncate', keepHeight: height, startedAt: Date.now() }
     });
+    await this.truncateBlocks(height);
+    await this.writeChainMarker({ head: await this.headAt(height), pending: null });
   }
   
   // Load the entire blockchain
   async loadChain(): Promise<Block[]> {
-    if (!this.db) {
-      await this.init();
+    return this.queueChainWrite(async () => {
+      await this.recoverChainWrite();
+      const records = await this.adapter.getAll<StoredBlock>('blocks');
+      records.sort((a, b) => a.height! - b.height!);
+      return records.map(({ height, ...block }) => block);
+    });
+  }
+  
+  // Write-ahead marker for the stored chain, or null if nothing was ever stored
+  async loadChainWriteMarker(): Promise<ChainWriteMarker | null> {
+    return await readSetting<ChainWriteMarker>(this.adapter, CHAIN_MARKER_KEY);
+  }
+  
+  // Finish or undo a chain write a crash interrupted: everything above the
+  // pending write's keepHeight is dropped, so the stored chain is a whole prefix
+  private async recoverChainWrite(): Promise<ChainWriteMarker> {
+    const marker = await this.loadChainWriteMarker();
+    if (!marker) {
+      return await this.indexLegacyChain();
+    }
+    if (!marker.pending) {
+      return marker;
     }
     
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([BLOCKS_STORE], 'readonly');
-      const store = transaction.objectStore(BLOCKS_STORE);
-      const index = store.index('timestamp');
-      const request = index.getAll();
-      
-      request.onsuccess = () => {
-        const blocks = request.result as Block[];
-        // Sort by timestamp to ensure correct order
-        blocks.sort((a, b) => a.timestamp - b.timestamp);
-        resolve(blocks);
-      };
-      
-      request.onerror = () => {
-        reject(new Error('Failed to load blockchain'));
-      };
+    const { op, keepHeight } = marker.pending;
+    console.warn(`Recovering from an interrupted chain ${op}; keeping blocks up to height ${keepHeight}`);
+    await this.truncateBlocks(keepHeight);
+    return await this.writeChainMarker({ head: await this.headAt(keepHeight), pending: null });
+  }
+  
+  // Chains saved before the height index hold blocks without heights or a marker;
+  // number them in timestamp order once. The marker goes last, so an interrupted run starts over.
+  private async indexLegacyChain(): Promise<ChainWriteMarker> {
+    const blocks = await this.adapter.getAll<StoredBlock>('blocks');
+    blocks.sort((a, b) => a.timestamp - b.timestamp);
+    
+    await this.adapter.write('blockHeights', {
+      clear: true,
+      put: blocks.map((block, height) => ({ height, hash: block.hash }))
     });
+    await this.adapter.write('blocks', { put: blocks.map((block, height) => ({ ...block, height })) });
+    return await this.writeChainMarker({ head: await this.headAt(blocks.length - 1), pending: null });
   }
   
-  // Save a profile
-  async saveProfile(profile: Profile): Promise<void> {
-    if (!this.db) {
-      throw new Error('Database not initialized');
+  // Delete blocks from the top down; removed heights are always contiguous above the kept chain
+  private async truncateBlocks(keepHeight: number): Promise<void> {
+    let top = keepHeight + 1;
+    while (await this.adapter.get<BlockHeightRecord>('blockHeights', top)) {
+      top++;
     }
     
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([PROFILES_STORE], 'readwrite');
-      const store = transaction.objectStore(PROFILES_STORE);
-      
-      // Store profile without private key for security
-      const safeProfile = {
-        username: profile.username,
-        pubkey: profile.pubkey,
-        seedphrase: profile.seedphrase
-      };
-      
-      const request = store.put(safeProfile);
-      
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(new Error('Failed to save profile'));
-    });
+    for (let height = top - 1; height > keepHeight; height--) {
+      const record = await this.adapter.get<BlockHeightRecord>('blockHeights', height);
+      await this.adapter.write('blocks', { delete: [record!.hash] });
+      await this.adapter.write('blockHeights', { delete: [height] });
+    }
+  }
+  
+  private async headAt(height: number): Promise<ChainWriteMarker['head']> {
+    if (height < 0) {
+      return null;
+    }
+    const record = await this.adapter.get<BlockHeightRecord>('blockHeights', height);
+    return record ? { height, hash: record.hash } : null;
+  }
+  
+  // Chain reads and writes on one adapter run one at a time, whichever Storage makes them
+  private queueChainWrite<T>(write: () => Promise<T>): Promise<T> {
+    const previous = chainWriteQueues.get(this.adapter) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(write);
+    chainWriteQueues.set(this.adapter, next);
+    return next;
+  }
+  
+  private async writeChainMarker(marker: ChainWriteMarker): Promise<ChainWriteMarker> {
+    await writeSetting(this.adapter, CHAIN_MARKER_KEY, marker);
+    return marker;
   }
   
-  // Load a profile by public key
+  // Save the pending transaction pool, replacing what was stored
+  async savePendingTransactions(transactions: Transaction[]): Promise<void> {
+    await this.adapter.write('pending', { clear: true, put: transactions });
+  }
+  
+  // Load the pending transaction pool, oldest first
+  async loadPendingTransactions(): Promise<Transaction[]> {
+    const transactions = await this.adapter.getAll<Transaction>('pending');
+    transactions.sort((a, b) => a.timestamp - b.timestamp);
+    return transactions;
+  }
+  
+  // Save a chain checkpoint, replacing the previous one
+  async saveCheckpoint(checkpoint: ChainCheckpoint): Promise<void> {
+    await this.adapter.write('checkpoints', { clear: true, put: [checkpoint] });
+  }
+  
+  // Load the most recent chain checkpoint
+  async loadCheckpoint(): Promise<ChainCheckpoint | null> {
+    const checkpoints = await this.adapter.getAll<ChainCheckpoint>('checkpoints');
+    checkpoints.sort((a, b) => b.height - a.height);
+    return checkpoints[0] ?? null;
+  }
+  
+  // Save a profile, encrypting its private key and seed phrase under the passphrase
+  async saveProfile(profile: Profile, passphrase: string): Promise<void> {
+    const record = await this.toStoredProfile(profile, passphrase);
+    await this.adapter.write('profiles', { put: [record] });
+  }
+  
+  // Swap a profile for its successor key in one write (key rotation)
+  async replaceProfile(oldPubkey: string, profile: Profile, passphrase: string): Promise<void> {
+    const record = await this.toStoredProfile(profile, passphrase);
+    await this.adapter.write('profiles', { delete: [oldPubkey], put: [record] });
+  }
+  
+  // Load a profile by public key, without its secrets
   async loadProfile(pubkey: string): Promise<Profile | null> {
-    if (!this.db) {
-      throw new Error('Database not initialized');
+    const record = await this.loadProfileRecord(pubkey);
+    return record ? toPublicProfile(record) : null;
+  }
+  
+  // Decrypt a stored profile with its passphrase; throws on a wrong passphrase
+  // Records saved before encryption are re-derived from their seed phrase and re-saved encrypted
+  async unlockProfile(pubkey: string, passphrase: string): Promise<Profile> {
+    const record = await this.loadProfileRecord(pubkey);
+    if (!record) {
+      throw new Error('Profile not found');
     }
     
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([PROFILES_STORE], 'readonly');
-      const store = transaction.objectStore(PROFILES_STORE);
-      const request = store.get(pubkey);
-      
-      request.onsuccess = () => {
-        const result = request.result;
-        if (result) {
-          // Note: privkey needs to be regenerated from seedphrase
-          // For Phase 1, we return a partial profile
-          resolve({
-            username: result.username,
-            pubkey: result.pubkey,
-            privkey: '', // Will be regenerated from seedphrase
-            seedphrase: result.seedphrase
-          } as Profile);
-        } else {
-          resolve(null);
-        }
-      };
-      
-      request.onerror = () => {
-        reject(new Error('Failed to load profile'));
-      };
-    });
+    if (record.encrypted) {
+      const secrets = await decryptSecrets(record.encrypted, passphrase, record.pubkey);
+      return { username: record.username, pubkey: record.pubkey, ...secrets };
+    }
+    
+    if (!record.seedphrase) {
+      throw new Error('Profile has no stored keys; recover it from its seed phrase');
+    }
+    const profile = await recoverProfile(record.username, record.seedphrase);
+    if (profile.pubkey !== record.pubkey) {
+      throw new Error('Seed phrase does not match stored public key');
+    }
+    await this.saveProfile(profile, passphrase);
+    return profile;
+  }
+  
+  private async toStoredProfile(profile: Profile, passphrase: string): Promise<StoredProfile> {
+    if (!profile.privkey || !profile.seedphrase) {
+      throw new Error('Cannot save a profile without its private key and seed phrase');
+    }
+    return {
+      username: profile.username,
+      pubkey: profile.pubkey,
+      encrypted: await encryptSecrets(
+        { privkey: profile.privkey, seedphrase: profile.seedphrase },
+        passphrase,
+        profile.pubkey
+      )
+    };
+  }
+  
+  private async loadProfileRecord(pubkey: string): Promise<StoredProfile | null> {
+    return await this.adapter.get<StoredProfile>('profiles', pubkey);
   }
   
   // Load all profiles
   async loadAllProfiles(): Promise<Profile[]> {
-    if (!this.db) {
-      await this.init();
-    }
-    
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([PROFILES_STORE], 'readonly');
-      const store = transaction.objectStore(PROFILES_STORE);
-      const request = store.getAll();
-      
-      request.onsuccess = () => {
-        const results = request.result;
-        const profiles = results.map((result: any) => ({
-          username: result.username,
-          pubkey: result.pubkey,
-          privkey: '', // Will be regenerated from seedphrase
-          seedphrase: result.seedphrase
-        } as Profile));
-        resolve(profiles);
-      };
-      
-      request.onerror = () => {
-        reject(new Error('Failed to load profiles'));
-      };
-    });
+    const records = await this.adapter.getAll<StoredProfile>('profiles');
+    return records.map(toPublicProfile);
   }
   
   // Check if a profile exists by username
   async profileExistsByUsername(username: string): Promise<boolean> {
-    if (!this.db) {
-      throw new Error('Database not initialized');
-    }
-    
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([PROFILES_STORE], 'readonly');
-      const store = transaction.objectStore(PROFILES_STORE);
-      const index = store.index('username');
-      const request = index.get(username);
-      
-      request.onsuccess = () => {
-        resolve(!!request.result);
-      };
-      
-      request.onerror = () => {
-        reject(new Error('Failed to check profile existence'));
-      };
-    });
+    const records = await this.adapter.getAll<StoredProfile>('profiles');
+    return records.some(record => record.username === username);
   }
   
-  // Clear a store
-  private async clearStore(storeName: string): Promise<void> {
-    if (!this.db) {
-      throw new Error('Database not initialized');
-    }
-    
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([storeName], 'readwrite');
-      const store = transaction.objectStore(storeName);
-      const request = store.clear();
-      
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(new Error(`Failed to clear ${storeName}`));
-    });
+  // Save a setting by key
+  async saveSetting<T>(key: string, value: T): Promise<void> {
+    await writeSetting(this.adapter, key, value);
+  }
+  
+  // Load a setting by key
+  async loadSetting<T>(key: string): Promise<T | null> {
+    return await readSetting<T>(this.adapter, key);
   }
   
   // Clear all data
   async clearAll(): Promise<void> {
-    await this.clearStore(BLOCKS_STORE);
-    await this.clearStore(PROFILES_STORE);
+    for (const store of STORE_NAMES) {
+      await this.adapter.write(store, { clear: true });
+    }
   }
   
-  // Close the database connection
+  // Close the underlying store; later calls reopen it
   close(): void {
-    if (this.db) {
-      this.db.close();
-      this.db = null;
+    this.adapter.close();
+  }
+}
+
+// Rehydrate a blockchain's pending pool and keep it persisted from then on
+// Call after the chain is loaded so already-mined transactions are dropped
+export async function persistMempool(blockchain: Blockchain, storage: Storage): Promise<number> {
+  const saved = await storage.loadPendingTransactions();
+  const restored = await blockchain.restorePendingTransactions(saved);
+  
+  // Rewrite the store so expired or invalid entries do not come back next time
+  await storage.savePendingTransactions(blockchain.getPendingTransactions());
+  
+  blockchain.onMempoolChange(async change => {
+    // Persist the chain before dropping mined transactions so nothing is only in memory
+    if (change.removed.length > 0) {
+      await storage.saveChain(blockchain.getChain());
+    }
+    await storage.savePendingTransactions(blockchain.getPendingTransactions());
+  });
+  
+  return restored;
+}
+
+// Keep the stored chain in step with reorgs: drop the abandoned branch, then append the new one
+export function persistReorgs(blockchain: Blockchain, storage: Storage): () => void {
+  return blockchain.onReorg(async event => {
+    await storage.removeBlocksAbove(event.forkHeight);
+    for (const block of event.addedBlocks) {
+      await storage.appendBlock(block);
     }
+  });
+}
+
+// Load saved blocks into a blockchain, trusting the saved checkpoint only
+// if one of this device's profiles signed it
+export async function loadChainWithCheckpoint(blockchain: Blockchain, storage: Storage, blocks: Block[]): Promise<boolean> {
+  const checkpoint = await storage.loadCheckpoint();
+  const trustedSigners = (await storage.loadAllProfiles()).map(profile => profile.pubkey);
+  return await blockchain.loadChain(blocks, checkpoint, trustedSigners);
+}
+
+// Sign and save a new checkpoint once enough blocks have been mined past the last one
+// Skipped while the signing profile is locked
+export async function saveCheckpointIfDue(
+  blockchain: Blockchain,
+  storage: Storage,
+  signerPubkey: string,
+  interval: number = DEFAULT_CHECKPOINT_INTERVAL
+): Promise<ChainCheckpoint | null> {
+  const height = blockchain.getChain().length - 1;
+  const lastHeight = blockchain.getCheckpoint()?.height ?? 0;
+  if (!keySession.isUnlocked(signerPubkey) || height - lastHeight < interval) {
+    return null;
   }
+  
+  const checkpoint = await blockchain.createCheckpoint(signerPubkey);
+  await storage.saveCheckpoint(checkpoint);
+  return checkpoint;
 }
 
 // Legacy compatibility functions for modules expecting loadState/saveState
@@ -256,10 +401,6 @@ export async function saveState(state: any): Promise<void> {
   if (state.blocks) {
     await storage.saveChain(state.blocks);
   }
-  if (state.profiles) {
-    for (const profile of state.profiles) {
-      await storage.saveProfile(profile);
-    }
-  }
+  // Profiles are not written here: they are only stored encrypted, via saveProfile with a passphrase
   storage.close();
 }
\ No newline at end of file
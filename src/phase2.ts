@@ -2,10 +2,25 @@
 // Emergent Attestation System per ADR-028
 
 import { EnhancedBlockchain } from './core/enhanced-blockchain.js';
-import { Storage } from './persistence/storage.js';
-import { createProfile } from './core/profile.js';
+import { Storage, persistMempool, persistReorgs, loadChainWithCheckpoint, saveCheckpointIfDue } from './persistence/storage.js';
+import { createProfile, toPublicProfile } from './core/profile.js';
+import { keySession } from './core/keystore.js';
+import { beginProfileSession, endProfileSession } from './core/profile-session.js';
 import { Profile } from './core/types.js';
-import { Question, Curriculum } from './questions/types.js';
+import {
+  ConfidenceInterval,
+  isMCQDistribution,
+  isFRQDistribution,
+  isMultiSelectDistribution,
+  isNumericDistribution,
+  isShortAnswerDistribution,
+  leadingSelection,
+  leadingNumericAnswer,
+  leadingShortAnswer
+} from './core/consensus.js';
+import { ReviewAssignment } from './core/peer-review.js';
+import { CollusionReport } from './anti-gaming/pattern-detector.js';
+import { Question, Curriculum, RubricPartScores } from './questions/types.js';
 
 // Global instances
 let blockchain: EnhancedBlockchain;
@@ -13,6 +28,8 @@ let storage: Storage;
 let currentProfile: Profile | null = null;
 let curriculum: Curriculum = [];
 
+const REPUTATION_WEIGHTING_KEY = 'reputationWeighting';
+
 /**
  * Initialize Phase 2 system
  */
@@ -27,21 +44,36 @@ export async function initializePhase2(): Promise<void> {
   // Initialize enhanced blockchain
   blockchain = new EnhancedBlockchain();
   
+  // Choose the consensus mode before distributions are built from the saved chain
+  if (await storage.loadSetting<boolean>(REPUTATION_WEIGHTING_KEY)) {
+    await blockchain.setReputationWeighting(true);
+  }
+  
+  // Load curriculum if available; attestations are checked against its questions
+  try {
+    curriculum = await loadCurriculum();
+    await blockchain.setCurriculum(curriculum);
+    console.log(`Loaded ${curriculum.length} questions from curriculum`);
+  } catch (error) {
+    console.warn('No curriculum loaded:', error);
+  }
+  
   // Try to load existing state
   const savedChain = await storage.loadChain();
   if (savedChain.length > 0) {
-    const loaded = await blockchain.loadChain(savedChain);
+    const loaded = await loadChainWithCheckpoint(blockchain, storage, savedChain);
     if (loaded) {
       console.log(`Loaded blockchain with ${savedChain.length} blocks`);
     }
   }
   
-  // Load curriculum if available
-  try {
-    curriculum = await loadCurriculum();
-    console.log(`Loaded ${curriculum.length} questions from curriculum`);
-  } catch (error) {
-    console.warn('No curriculum loaded:', error);
+  // Store reorgs as they happen instead of rewriting the whole chain
+  persistReorgs(blockchain, storage);
+  
+  // Restore unmined transactions from the last session
+  const restored = await persistMempool(blockchain, storage);
+  if (restored > 0) {
+    console.log(`Restored ${restored} pending transactions`);
   }
   
   console.log('Phase 2 initialization complete');
@@ -72,8 +104,7 @@ export async function attestMCQ(
     const tx = await blockchain.createMCQAttestation(
       questionId,
       choice,
-      currentProfile.pubkey,
-      currentProfile.privkey
+      currentProfile.pubkey
     );
     
     if (!tx) {
@@ -95,6 +126,120 @@ export async function attestMCQ(
   }
 }
 
+/**
+ * Create multi-select attestation
+ */
+export async function attestMultiSelect(
+  questionId: string,
+  choices: string[]
+): Promise<boolean> {
+  if (!currentProfile) {
+    console.error('No current profile set');
+    return false;
+  }
+  
+  try {
+    const tx = await blockchain.createMultiSelectAttestation(
+      questionId,
+      choices,
+      currentProfile.pubkey
+    );
+    
+    if (!tx) {
+      console.error('Failed to create multi-select attestation');
+      return false;
+    }
+    
+    const added = await blockchain.addTransaction(tx);
+    if (!added) {
+      console.error('Failed to add multi-select attestation (possible rate limit)');
+      return false;
+    }
+    
+    console.log(`Multi-select attestation created for question ${questionId}, choices ${choices.join(',')}`);
+    return true;
+  } catch (error) {
+    console.error('Error creating multi-select attestation:', error);
+    return false;
+  }
+}
+
+/**
+ * Create numeric attestation, binned by the question's tolerance
+ */
+export async function attestNumeric(
+  questionId: string,
+  answer: string | number
+): Promise<boolean> {
+  if (!currentProfile) {
+    console.error('No current profile set');
+    return false;
+  }
+  
+  try {
+    const tx = await blockchain.createNumericAttestation(
+      questionId,
+      answer,
+      currentProfile.pubkey
+    );
+    
+    if (!tx) {
+      console.error('Failed to create numeric attestation');
+      return false;
+    }
+    
+    const added = await blockchain.addTransaction(tx);
+    if (!added) {
+      console.error('Failed to add numeric attestation (possible rate limit)');
+      return false;
+    }
+    
+    console.log(`Numeric attestation created for question ${questionId}, answer ${answer}`);
+    return true;
+  } catch (error) {
+    console.error('Error creating numeric attestation:', error);
+    return false;
+  }
+}
+
+/**
+ * Create short-answer attestation
+ */
+export async function attestShortAnswer(
+  questionId: string,
+  answer: string
+): Promise<boolean> {
+  if (!currentProfile) {
+    console.error('No current profile set');
+    return false;
+  }
+  
+  try {
+    const tx = await blockchain.createShortAnswerAttestation(
+      questionId,
+      answer,
+      currentProfile.pubkey
+    );
+    
+    if (!tx) {
+      console.error('Failed to create short-answer attestation');
+      return false;
+    }
+    
+    const added = await blockchain.addTransaction(tx);
+    if (!added) {
+      console.error('Failed to add short-answer attestation (possible rate limit)');
+      return false;
+    }
+    
+    console.log(`Short-answer attestation created for question ${questionId}`);
+    return true;
+  } catch (error) {
+    console.error('Error creating short-answer attestation:', error);
+    return false;
+  }
+}
+
 /**
  * Create FRQ attestation
  */
@@ -115,8 +260,7 @@ export async function attestFRQ(
       answerText,
       score,
       confidence,
-      currentProfile.pubkey,
-      currentProfile.privkey
+      currentProfile.pubkey
     );
     
     if (!tx) {
@@ -138,12 +282,113 @@ export async function attestFRQ(
   }
 }
 
+/**
+ * Create FRQ attestation scored E/P/I per rubric part
+ */
+export async function attestFRQRubric(
+  questionId: string,
+  answerText: string,
+  partScores: RubricPartScores,
+  confidence: number
+): Promise<boolean> {
+  if (!currentProfile) {
+    console.error('No current profile set');
+    return false;
+  }
+  
+  try {
+    const rubric = curriculum.find(q => q.id === questionId)?.solution?.scoring?.rubric;
+    const tx = await blockchain.createRubricFRQAttestation(
+      questionId,
+      answerText,
+      partScores,
+      confidence,
+      currentProfile.pubkey,
+      undefined,
+      rubric
+    );
+    
+    if (!tx) {
+      console.error('Failed to create rubric FRQ attestation');
+      return false;
+    }
+    
+    const added = await blockchain.addTransaction(tx);
+    if (!added) {
+      console.error('Failed to add rubric FRQ attestation (possible rate limit)');
+      return false;
+    }
+    
+    console.log(`Rubric FRQ attestation created for question ${questionId}, parts ${JSON.stringify(partScores)}`);
+    return true;
+  } catch (error) {
+    console.error('Error creating rubric FRQ attestation:', error);
+    return false;
+  }
+}
+
+/**
+ * Get the FRQ responses to a question the current user is asked to score
+ */
+export function getPeerReviewAssignments(questionId: string): ReviewAssignment[] {
+  if (!currentProfile) {
+    console.error('No current profile set');
+    return [];
+  }
+  
+  return blockchain.getPeerReviewAssignments(currentProfile.pubkey, questionId);
+}
+
+/**
+ * Score an assigned FRQ response, 1-5 or E/P/I per rubric part
+ */
+export async function submitPeerReview(
+  assignment: ReviewAssignment,
+  scores: number | RubricPartScores,
+  confidence: number
+): Promise<boolean> {
+  if (!currentProfile) {
+    console.error('No current profile set');
+    return false;
+  }
+  
+  try {
+    const tx = await blockchain.createPeerReview(assignment, scores, confidence, currentProfile.pubkey);
+    if (!tx) {
+      console.error('Failed to create peer review');
+      return false;
+    }
+    
+    const added = await blockchain.addTransaction(tx);
+    if (!added) {
+      console.error('Failed to add peer review');
+      return false;
+    }
+    
+    console.log(`Peer review submitted for ${assignment.anonymousLabel} on question ${assignment.questionId}`);
+    return true;
+  } catch (error) {
+    console.error('Error submitting peer review:', error);
+    return false;
+  }
+}
+
+/**
+ * Keep students the pattern detector linked from reviewing each other's responses
+ */
+export function flagCollusion(report: CollusionReport): void {
+  // Time-based groups are built from user ids attestations may lack; skip the gaps
+  blockchain.setCollusionGroups(report.groups.map(group => group.filter(member => typeof member === 'string')));
+}
+
 /**
  * Get question consensus status
  */
 export function getQuestionConsensus(questionId: string): {
   hasConsensus: boolean;
   convergence: number;
+  weightedConvergence?: number;
+  interval?: ConfidenceInterval;
   attestationCount: number;
   consensusAnswer?: string | number;
 } {
@@ -157,20 +402,32 @@ export function getQuestionConsensus(questionId: string): {
     };
   }
   
+  // In reputation-weighted mode consensus is judged on the weighted figures
+  const convergence = distribution.weightedConvergence ?? distribution.convergence;
   const consensus = {
-    hasConsensus: distribution.convergence >= 0.5 && distribution.totalAttestations >= 3,
+    hasConsensus: convergence >= 0.5 && distribution.totalAttestations >= 3,
     convergence: distribution.convergence,
+    weightedConvergence: distribution.weightedConvergence,
+    // 95% interval: share on the leading MCQ choice, or the mean FRQ score
+    interval: isMCQDistribution(distribution) ? distribution.leadingChoiceInterval
+      : isFRQDistribution(distribution) ? distribution.meanInterval : undefined,
     attestationCount: distribution.totalAttestations,
     consensusAnswer: undefined as string | number | undefined
   };
   
   if (consensus.hasConsensus) {
-    if ('choices' in distribution) {
+    if (isMultiSelectDistribution(distribution)) {
+      consensus.consensusAnswer = leadingSelection(distribution) ?? undefined;
+    } else if (isNumericDistribution(distribution)) {
+      consensus.consensusAnswer = leadingNumericAnswer(distribution) ?? undefined;
+    } else if (isShortAnswerDistribution(distribution)) {
+      consensus.consensusAnswer = leadingShortAnswer(distribution) ?? undefined;
+    } else if ('choices' in distribution) {
       // MCQ - find most popular choice
       let maxChoice = '';
       let maxCount = 0;
       const mcqDist = distribution as any;
-      for (const [choice, count] of Object.entries(mcqDist.choices as Record<string, number>)) {
+      for (const [choice, count] of Object.entries((mcqDist.weightedChoices ?? mcqDist.choices) as Record<string, number>)) {
         if (count > maxCount) {
           maxCount = count;
           maxChoice = choice;
@@ -180,7 +437,7 @@ export function getQuestionConsensus(questionId: string): {
     } else if ('mean' in (distribution as any)) {
       // FRQ - use mean score
       const frqDist = distribution as any;
-      consensus.consensusAnswer = frqDist.mean;
+      consensus.consensusAnswer = frqDist.weightedMean ?? frqDist.mean;
     }
   }
   
@@ -197,6 +454,15 @@ export function getUserReputation(userId?: string): number {
   return blockchain.getUserReputation(id);
 }
 
+/**
+ * Opt in to (or out of) reputation-weighted consensus (class setting)
+ */
+export async function setReputationWeighting(enabled: boolean): Promise<void> {
+  await blockchain.setReputationWeighting(enabled);
+  await storage.saveSetting(REPUTATION_WEIGHTING_KEY, enabled);
+  console.log(`Reputation-weighted consensus ${enabled ? 'enabled' : 'disabled'}`);
+}
+
 /**
  * Get consensus statistics
  */
@@ -217,6 +483,9 @@ export async function minePendingTransactions(): Promise<boolean> {
     
     // Save updated chain
     await storage.saveChain(blockchain.getChain());
+    if (currentProfile) {
+      await saveCheckpointIfDue(blockchain, storage, currentProfile.pubkey);
+    }
     
     console.log(`Mined block ${block.hash} with ${block.transactions.length} transactions`);
     return true;
@@ -227,32 +496,50 @@ export async function minePendingTransactions(): Promise<boolean> {
 }
 
 /**
- * Set current user profile
+ * Set current user profile, unlocking its key with the passphrase
  */
-export async function setCurrentProfile(pubkey: string): Promise<boolean> {
-  const profile = await storage.loadProfile(pubkey);
-  if (!profile) {
-    console.error('Profile not found');
+export async function setCurrentProfile(pubkey: string, passphrase: string): Promise<boolean> {
+  try {
+    const profile = await storage.unlockProfile(pubkey, passphrase);
+    beginProfileSession(profile.pubkey, profile.privkey, blockchain.resolveIdentity(profile.pubkey));
+    
+    currentProfile = toPublicProfile(profile);
+    console.log(`Current profile set to ${profile.username}`);
+    return true;
+  } catch (error) {
+    console.error('Failed to unlock profile:', error);
     return false;
   }
-  
-  currentProfile = profile;
-  console.log(`Current profile set to ${profile.username}`);
-  return true;
+}
+
+/**
+ * Lock the current profile until its passphrase is entered again
+ */
+export function lockProfile(): void {
+  keySession.lock();
+}
+
+/**
+ * Sign the current student out, ending their session on this device
+ */
+export function signOut(): void {
+  endProfileSession();
+  currentProfile = null;
 }
 
 /**
  * Create a new user
  */
-export async function createUser(username: string): Promise<Profile | null> {
+export async function createUser(username: string, passphrase: string): Promise<Profile | null> {
   try {
     const profile = await createProfile(username);
     
-    // Save profile
-    await storage.saveProfile(profile);
+    // Save profile, encrypted under the passphrase
+    await storage.saveProfile(profile, passphrase);
+    beginProfileSession(profile.pubkey, profile.privkey);
     
     console.log(`User created: ${username}`);
-    currentProfile = profile;
+    currentProfile = toPublicProfile(profile);
     return profile;
   } catch (error) {
     console.error('Error creating user:', error);
@@ -261,10 +548,10 @@ export async function createUser(username: string): Promise<Profile | null> {
 }
 
 /**
- * Get all question distributions
+ * Get all question distributions, for the whole chain or one class
  */
-export function getAllDistributions() {
-  const distributions = blockchain.getAllDistributions();
+export function getAllDistributions(classId?: string) {
+  const distributions = blockchain.getAllDistributions(classId);
   const result: any[] = [];
   
   for (const [questionId, dist] of distributions) {
@@ -298,22 +585,17 @@ export async function exportSystemState() {
 
 /**
  * Import Phase 2 system state
+ * Exported profiles carry no keys, so they are not imported; the current
+ * profile is re-selected only if it exists here and the passphrase is given
  */
-export async function importSystemState(state: any): Promise<boolean> {
+export async function importSystemState(state: any, passphrase?: string): Promise<boolean> {
   try {
     // Import blockchain state
     blockchain.importState(state);
     
-    // Import profiles
-    if (state.profiles) {
-      for (const profile of state.profiles) {
-        await storage.saveProfile(profile);
-      }
-    }
-    
     // Set current profile
-    if (state.currentProfile) {
-      await setCurrentProfile(state.currentProfile);
+    if (state.currentProfile && passphrase) {
+      await setCurrentProfile(state.currentProfile, passphrase);
     }
     
     return true;
@@ -328,11 +610,21 @@ export const Phase2API = {
   initialize: initializePhase2,
   createUser,
   setCurrentProfile,
+  lockProfile,
+  signOut,
   attestMCQ,
+  attestMultiSelect,
+  attestNumeric,
+  attestShortAnswer,
   attestFRQ,
+  attestFRQRubric,
+  getPeerReviewAssignments,
+  submitPeerReview,
+  flagCollusion,
   getQuestionConsensus,
   getUserReputation,
   getConsensusStatistics,
+  setReputationWeighting,
   getAllDistributions,
   minePendingTransactions,
   exportSystemState,
@@ -5,6 +5,7 @@
  */
 
 import { EnhancedBlockchain } from '../core/enhanced-blockchain';
+import { isFRQDistribution } from '../core/consensus';
 import { createTransaction } from '../core/blockchain';
 import { hashMCQAnswer } from '../questions/hashing';
 import { renderQuestion as renderQuizQuestion, renderChart } from '../quiz_renderer';
@@ -12,6 +13,13 @@ import { queueMathRendering, renderChoiceMath } from '../renderer/mathRenderer';
 import { observeChart, renderConsensusDotplot } from '../ui/charts';
 import { questionLoader } from '../questions/loader';
 import type { Question, ConsensusData, RenderOptions, RenderCallbacks } from '../types';
+import type { RubricPartScore } from '../questions/types';
+
+const PART_SCORE_LABELS: Record<RubricPartScore, string> = {
+  E: 'Essentially correct',
+  P: 'Partially correct',
+  I: 'Incorrect'
+};
 
 export interface QuestionOptions {
   mode: 'blind' | 'reveal';
@@ -25,6 +33,7 @@ export interface AttestationState {
   questionId: string;
   userAnswer?: string | string[];
   answerHash?: string;
+  attestationHash?: string; // Submitted transaction; amendments and retractions name it
   submitted: boolean;
   consensusData?: ConsensusData;
   revealMode: boolean;
@@ -63,11 +72,13 @@ export class QuestionController {
       return this.renderError('Question not found');
     }
 
-    // Initialize state
+    // Initialize state, keeping a submitted attestation so it can still be amended
+    const previous = this.currentState?.questionId === questionId ? this.currentState : null;
     this.currentState = {
       questionId,
       submitted: false,
-      revealMode: options.mode === 'reveal'
+      revealMode: options.mode === 'reveal',
+      ...(previous?.attestationHash ? { attestationHash: previous.attestationHash } : {})
     };
 
     // Create container
@@ -121,6 +132,7 @@ export class QuestionController {
     options: {
       onReveal?: () => void;
       onNext?: () => void;
+      onChangeAnswer?: () => void;
     }
   ): Promise<HTMLElement> {
     if (!this.currentState || this.currentState.questionId !== questionId) {
@@ -175,11 +187,11 @@ export class QuestionController {
       }
 
       // Create transaction
-      const transaction = createTransaction(
+      // Signed with the key from the unlocked session
+      const transaction = await createTransaction(
         'Attestation',
         attestationData,
-        this.profile.pubkey,
-        this.profile.privkey
+        this.profile.pubkey
       );
 
       // Submit to blockchain
@@ -190,6 +202,7 @@ export class QuestionController {
         if (this.currentState) {
           this.currentState.submitted = true;
           this.currentState.userAnswer = answer;
+          this.currentState.attestationHash = transaction.hash;
           if (isMCQ) {
             this.currentState.answerHash = attestationData.answerHash;
           }
@@ -206,6 +219,92 @@ export class QuestionController {
     }
   }
 
+  /**
+   * Replace the submitted answer while the grace window is open
+   */
+  async amendAttestation(questionId: string, answer: any): Promise<boolean> {
+    try {
+      const attestationHash = this.getRevisableAttestation(questionId);
+      if (!answer || (Array.isArray(answer) && answer.length === 0)) {
+        throw new Error('No answer provided');
+      }
+
+      const question = await this.loadQuestion(questionId);
+      if (!question) {
+        throw new Error('Question not found');
+      }
+
+      const isMCQ = question.type === 'multiple-choice';
+      const amendmentData: any = isMCQ
+        ? { attestationHash, answerHash: hashMCQAnswer(answer) }
+        : { attestationHash, answerText: answer };
+
+      const transaction = await createTransaction('AmendAttestation', amendmentData, this.profile.pubkey);
+      const success = await this.blockchain.addTransaction(transaction);
+
+      if (success && this.currentState) {
+        this.currentState.submitted = true;
+        this.currentState.userAnswer = answer;
+        this.currentState.answerHash = isMCQ ? amendmentData.answerHash : undefined;
+      }
+
+      return success;
+    } catch (error) {
+      console.error('Failed to amend attestation:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Withdraw the submitted answer while the grace window is open;
+   * the question can then be answered again right away
+   */
+  async retractAttestation(questionId: string): Promise<boolean> {
+    try {
+      const attestationHash = this.getRevisableAttestation(questionId);
+      const transaction = await createTransaction(
+        'RetractAttestation',
+        { attestationHash },
+        this.profile.pubkey
+      );
+      const success = await this.blockchain.addTransaction(transaction);
+
+      if (success && this.currentState) {
+        this.currentState.submitted = false;
+        this.currentState.userAnswer = undefined;
+        this.currentState.answerHash = undefined;
+        this.currentState.attestationHash = undefined;
+      }
+
+      return success;
+    } catch (error) {
+      console.error('Failed to retract attestation:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Milliseconds left to amend or retract the submitted answer (0 when closed)
+   */
+  getRevisionTimeRemaining(): number {
+    const attestationHash = this.currentState?.attestationHash;
+    const deadline = attestationHash ? this.blockchain.getRevisionDeadline(attestationHash) : null;
+    return deadline ? Math.max(0, deadline - Date.now()) : 0;
+  }
+
+  /**
+   * Hash of the current question's attestation, if it can still be revised
+   */
+  private getRevisableAttestation(questionId: string): string {
+    if (this.currentState?.questionId !== questionId || !this.currentState.attestationHash) {
+      throw new Error('No submitted attestation for this question');
+    }
+    if (this.getRevisionTimeRemaining() === 0) {
+      throw new Error('The window for changing this answer has closed');
+    }
+    return this.currentState.attestationHash;
+  }
+
   /**
    * Load question data
    */
@@ -357,6 +456,16 @@ export class QuestionController {
       </div>
     `;
 
+    // Offer to change the answer while the grace window is open
+    const minutesLeft = Math.ceil(this.getRevisionTimeRemaining() / 60000);
+    if (minutesLeft > 0 && options.onChangeAnswer) {
+      const changeBtn = document.createElement('button');
+      changeBtn.className = 'btn btn-secondary';
+      changeBtn.textContent = `Change answer (${minutesLeft} min left)`;
+      changeBtn.onclick = options.onChangeAnswer;
+      blindView.appendChild(changeBtn);
+    }
+
     // Add reveal button if consensus reached
     if (this.getConsensusProgress() >= 50) {
       const revealBtn = document.createElement('button');
@@ -418,6 +527,12 @@ export class QuestionController {
     `;
     revealView.appendChild(comparison);
 
+    // FRQ part-by-part consensus (if peers scored the rubric parts)
+    const partConsensus = await this.renderPartConsensus(this.currentState!.questionId);
+    if (partConsensus) {
+      revealView.appendChild(partConsensus);
+    }
+
     // FRQ peer answers (if applicable)
     if (consensusData.type === 'frq' && consensusData.frq?.peerAnswers) {
       const peersSection = document.createElement('div');
@@ -447,6 +562,57 @@ export class QuestionController {
     return revealView;
   }
 
+  /**
+   * Render the E/P/I consensus of each rubric part and the AP composite
+   */
+  private async renderPartConsensus(questionId: string): Promise<HTMLElement | null> {
+    const distribution = this.blockchain.getQuestionDistribution(questionId);
+    if (!distribution || !isFRQDistribution(distribution) || !distribution.parts) return null;
+    const parts = distribution.parts;
+
+    // Rubric order where the question has one, then any other parts peers scored
+    const question = await this.loadQuestion(questionId);
+    const rubricLabels = (question?.solution?.scoring?.rubric || []).map(part => part.part);
+    const labels = [
+      ...rubricLabels.filter(label => label in parts),
+      ...Object.keys(parts).filter(label => !rubricLabels.includes(label)).sort()
+    ];
+
+    const section = document.createElement('div');
+    section.className = 'part-consensus';
+    section.innerHTML = '<h3>Part-by-Part Consensus</h3>';
+
+    labels.forEach(label => {
+      const part = parts[label];
+      const row = document.createElement('div');
+      row.className = 'part-row';
+
+      // Labels come from peers' transactions, so they are set as text
+      const name = document.createElement('span');
+      name.className = 'part-label';
+      name.textContent = `Part (${label})`;
+      const score = document.createElement('span');
+      score.className = `part-score part-score-${part.consensus}`;
+      score.textContent = PART_SCORE_LABELS[part.consensus];
+      const counts = document.createElement('span');
+      counts.className = 'part-counts';
+      counts.textContent = `E ${part.counts.E} · P ${part.counts.P} · I ${part.counts.I} ` +
+        `(${Math.round(part.convergence * 100)}% agree)`;
+
+      row.append(name, score, counts);
+      section.appendChild(row);
+    });
+
+    if (distribution.compositeScore !== undefined) {
+      const composite = document.createElement('div');
+      composite.className = 'part-composite';
+      composite.textContent = `AP Score: ${distribution.compositeScore}/4`;
+      section.appendChild(composite);
+    }
+
+    return section;
+  }
+
   /**
    * Render distribution chart
    */
@@ -773,6 +939,44 @@ export class QuestionController {
         margin-top: 0.5rem;
       }
       
+      .part-consensus {
+        margin: 2rem 0;
+      }
+      
+      .part-row {
+        display: grid;
+        grid-template-columns: 6rem 1fr auto;
+        gap: 1rem;
+        padding: 0.5rem 0;
+        border-bottom: 1px solid #eee;
+      }
+      
+      .part-score-E {
+        color: #4CAF50;
+        font-weight: 600;
+      }
+      
+      .part-score-P {
+        color: #FF9800;
+        font-weight: 600;
+      }
+      
+      .part-score-I {
+        color: #f44336;
+        font-weight: 600;
+      }
+      
+      .part-counts {
+        color: #666;
+        font-size: 0.9rem;
+      }
+      
+      .part-composite {
+        margin-top: 1rem;
+        font-weight: 600;
+        color: #667eea;
+      }
+      
       .peer-answers {
         margin: 2rem 0;
       }
@@ -1,5 +1,6 @@
 // Phase 2: MCQ Answer Hashing
 // ADR-028: SHA-256 hash validation for multiple choice answers
+// Multi-select answers are hashed the same way, as a normalized set of keys
 
 import { createHash } from 'crypto';
 
@@ -58,4 +59,63 @@ export function getChoiceFromHash(hash: string): string | null {
     }
   }
   return null;
+}
+
+const CHOICE_KEYS = ['A', 'B', 'C', 'D', 'E'];
+
+/**
+ * Normalizes a multi-select answer: upper case, duplicates dropped, in key order
+ * @param choices The selected choice keys, in any order
+ * @returns The keys joined by commas, e.g. 'A,C'
+ */
+export function normalizeSelection(choices: string[]): string {
+  const keys = new Set(choices.map(choice => choice.trim().toUpperCase()));
+  if (keys.size === 0) {
+    throw new Error('A multi-select answer must select at least one choice');
+  }
+  for (const key of keys) {
+    if (!CHOICE_KEYS.includes(key)) {
+      throw new Error(`Invalid multi-select choice: ${key}. Must be A, B, C, D, or E`);
+    }
+  }
+  
+  return CHOICE_KEYS.filter(key => keys.has(key)).join(',');
+}
+
+/**
+ * Hashes a multi-select answer using SHA-256
+ * The prefix keeps a single selection from hashing like the MCQ answer
+ * @param choices The selected choice keys
+ * @returns SHA-256 hash of the normalized selection
+ */
+export function hashMultiSelectAnswer(choices: string[]): string {
+  const hash = createHash('sha256');
+  hash.update(`select:${normalizeSelection(choices)}`);
+  return hash.digest('hex');
+}
+
+/**
+ * Pre-computed hashes of every non-empty selection, for reverse lookup
+ */
+export const MULTI_SELECT_HASHES: Record<string, string> = (() => {
+  const hashes: Record<string, string> = {};
+  for (let mask = 1; mask < 1 << CHOICE_KEYS.length; mask++) {
+    const selection = CHOICE_KEYS.filter((_, i) => mask & (1 << i));
+    hashes[selection.join(',')] = hashMultiSelectAnswer(selection);
+  }
+  return hashes;
+})();
+
+/**
+ * Reverse lookup: given a hash, return the normalized selection (if valid)
+ * @param hash The SHA-256 hash to lookup
+ * @returns The selection, e.g. 'A,C', or null if not found
+ */
+export function getSelectionFromHash(hash: string): string | null {
+  for (const [selection, selectionHash] of Object.entries(MULTI_SELECT_HASHES)) {
+    if (hash === selectionHash) {
+      return selection;
+    }
+  }
+  return null;
 }
\ No newline at end of file
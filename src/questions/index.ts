@@ -4,14 +4,27 @@
 // Core types
 export * from './types.js';
 
-// Hashing utilities for MCQ
+// Hashing utilities for MCQ and multi-select
 export { 
   hashMCQAnswer, 
   verifyMCQAnswerHash, 
   MCQ_CHOICE_HASHES, 
-  getChoiceFromHash 
+  getChoiceFromHash,
+  normalizeSelection,
+  hashMultiSelectAnswer,
+  MULTI_SELECT_HASHES,
+  getSelectionFromHash
 } from './hashing.js';
 
+// Normalization for numeric and short-answer questions
+export {
+  DEFAULT_NUMERIC_TOLERANCE,
+  MAX_SHORT_ANSWER_LENGTH,
+  normalizeNumericAnswer,
+  isValidTolerance,
+  normalizeShortAnswer
+} from './normalization.js';
+
 // FRQ scoring utilities
 export {
   scoreFRQResponse,
@@ -19,5 +32,9 @@ export {
   normalizeConfidence,
   confidenceToWeight,
   calculateMeanScore,
-  calculateStandardDeviation
+  calculateStandardDeviation,
+  RUBRIC_PART_SCORES,
+  isValidRubricPartScores,
+  calculateCompositeScore,
+  compositeToFRQScore
 } from './scoring.js';
\ No newline at end of file
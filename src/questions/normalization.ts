@@ -0,0 +1,62 @@
+// Phase 2: Numeric and Short-Answer Normalization
+// Answers are normalized before attestation so that every device counts
+// '0.050', '.05' and ' 0.05 ' (or 'Reject H0.' and 'reject h0') as the same
+
+export const DEFAULT_NUMERIC_TOLERANCE = 0.005;
+export const MAX_SHORT_ANSWER_LENGTH = 80;
+
+// Digits kept by numeric answers; drops floating point noise such as 0.30000000000000004
+const NUMERIC_PRECISION = 10;
+
+/**
+ * Normalizes a numeric answer
+ * Accepts surrounding whitespace, thousands separators and a trailing percent sign
+ * (which divides by 100, so '5%' and '0.05' agree)
+ * @param answer The student's answer as typed, or a number
+ * @returns The answer as a finite number, or null if it is not one
+ */
+export function normalizeNumericAnswer(answer: string | number): number | null {
+  let value: number;
+  if (typeof answer === 'number') {
+    value = answer;
+  } else {
+    const text = answer.trim().replace(/,/g, '');
+    const percent = text.endsWith('%');
+    const digits = percent ? text.slice(0, -1).trim() : text;
+    if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(digits)) return null;
+    value = percent ? Number(digits) / 100 : Number(digits);
+  }
+  
+  if (!Number.isFinite(value)) return null;
+  // Number() of the rounded string also turns -0 into 0
+  return Number(value.toPrecision(NUMERIC_PRECISION)) || 0;
+}
+
+/**
+ * Validates a numeric question's tolerance
+ * @param tolerance How far apart two answers may be and still agree
+ * @returns True if tolerance is a positive finite number
+ */
+export function isValidTolerance(tolerance: unknown): tolerance is number {
+  return typeof tolerance === 'number' && Number.isFinite(tolerance) && tolerance > 0;
+}
+
+/**
+ * Normalizes a short answer: lower case, whitespace collapsed, surrounding
+ * quotes and trailing punctuation dropped
+ * @param answer The student's answer as typed
+ * @returns The normalized answer, or null if it is empty or too long
+ */
+export function normalizeShortAnswer(answer: string): string | null {
+  const normalized = answer
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^["'“‘]+|["'”’]+$/g, '')
+    .replace(/[.!?;:,]+$/, '')
+    .trim();
+  
+  if (normalized.length === 0 || normalized.length > MAX_SHORT_ANSWER_LENGTH) return null;
+  return normalized;
+}
@@ -1,7 +1,7 @@
 // Phase 2: FRQ Scoring System
 // ADR-028: 1-5 scale scoring for free response questions
 
-import { RubricPart, Scoring } from './types.js';
+import { RubricPart, RubricPartScore, RubricPartScores, Scoring } from './types.js';
 
 /**
  * Scores a free response question based on rubric criteria
@@ -97,4 +97,52 @@ export function calculateStandardDeviation(scores: number[]): number {
   const avgSquaredDiff = squaredDiffs.reduce((acc, diff) => acc + diff, 0) / scores.length;
   
   return Math.sqrt(avgSquaredDiff);
+}
+
+export const RUBRIC_PART_SCORES: RubricPartScore[] = ['E', 'P', 'I'];
+
+/**
+ * Validates per-part E/P/I scores, and that they cover exactly the rubric's parts if given
+ * @param partScores Scores keyed by rubric part label
+ * @param rubric The question's rubric parts
+ * @returns True if every part has an E, P or I score
+ */
+export function isValidRubricPartScores(partScores: unknown, rubric?: RubricPart[]): partScores is RubricPartScores {
+  if (typeof partScores !== 'object' || partScores === null || Array.isArray(partScores)) return false;
+  
+  const entries = Object.entries(partScores as Record<string, unknown>);
+  if (entries.length === 0) return false;
+  if (!entries.every(([part, score]) => part.length > 0 && RUBRIC_PART_SCORES.includes(score as RubricPartScore))) {
+    return false;
+  }
+  
+  return !rubric || (
+    rubric.length === entries.length &&
+    rubric.every(rubricPart => rubricPart.part in (partScores as Record<string, unknown>))
+  );
+}
+
+/**
+ * Calculates the AP-style 4-point composite from per-part scores
+ * An E counts one point and a P half a point; the share of possible points is
+ * put on the 0-4 scale and rounded down, so for three parts 3E is 4, 2E 1P is 3,
+ * 2E or 1E 2P is 2, and 1E or 2P is 1
+ * @param partScores One E/P/I score per rubric part
+ * @returns Composite score between 0 and 4
+ */
+export function calculateCompositeScore(partScores: RubricPartScore[]): number {
+  if (partScores.length === 0) return 0;
+  
+  // Counted in half points so the division is exact
+  const halfPoints = partScores.reduce((sum, score) => sum + (score === 'E' ? 2 : score === 'P' ? 1 : 0), 0);
+  return Math.floor((2 * halfPoints) / partScores.length);
+}
+
+/**
+ * Converts a 0-4 composite to the 1-5 FRQ score every attestation carries
+ * @param composite Composite score (0-4)
+ * @returns FRQ score (1-5)
+ */
+export function compositeToFRQScore(composite: number): number {
+  return composite + 1;
 }
\ No newline at end of file
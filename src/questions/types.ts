@@ -3,14 +3,22 @@
 
 // --- Core Question & Curriculum Types ---
 
+export type QuestionType =
+  | 'multiple-choice'
+  | 'free-response'
+  | 'multi-select'  // Any non-empty set of the choices
+  | 'numeric'       // A number, e.g. a p-value or z-score
+  | 'short-answer'; // A word or phrase
+
 export interface Question {
   id: string;
-  type: 'multiple-choice' | 'free-response';
+  type: QuestionType;
   prompt: string;
-  answerKey?: string;
+  answerKey?: string; // Multi-select: keys joined by commas, e.g. 'A,C'
   reasoning?: string;
   attachments?: Attachments;
   solution?: Solution; // For free-response questions
+  tolerance?: number; // For numeric questions: answers within this of each other agree
 }
 
 export type Curriculum = Question[];
@@ -83,6 +91,12 @@ export interface RubricPart {
   scoringNotes?: string;
 }
 
+// AP scoring of one rubric part: essentially correct, partially correct, incorrect
+export type RubricPartScore = 'E' | 'P' | 'I';
+
+// Part scores keyed by RubricPart.part, e.g. { a: 'E', b: 'P', c: 'I' }
+export type RubricPartScores = Record<string, RubricPartScore>;
+
 // --- ADR-028 Attestation Types ---
 
 export interface MCQAttestation {
@@ -91,19 +105,55 @@ export interface MCQAttestation {
   timestamp: number;
   attesterPubkey: string;
   signature: string;
+  classId?: string; // Class namespace the attestation counts toward
 }
 
 export interface FRQAttestation {
   questionId: string;
   answerText: string;
-  score: number; // 1-5 scale per ADR-028
+  score: number; // 1-5 scale per ADR-028; derived from partScores when present
+  partScores?: RubricPartScores; // Per-part E/P/I scores for rubric-scored attestations
   confidence: number; // 1-5 scale per ADR-028
   timestamp: number;
   attesterPubkey: string;
   signature: string;
+  classId?: string; // Class namespace the attestation counts toward
 }
 
-export type QuestionAttestation = MCQAttestation | FRQAttestation;
+export interface MultiSelectAttestation {
+  questionId: string;
+  selectionHash: string; // SHA-256 of the normalized set of choice keys
+  timestamp: number;
+  attesterPubkey: string;
+  signature: string;
+  classId?: string; // Class namespace the attestation counts toward
+}
+
+export interface NumericAttestation {
+  questionId: string;
+  answerValue: number; // Normalized, see normalizeNumericAnswer
+  tolerance: number; // The question's tolerance; the first attestation sets the bins
+  timestamp: number;
+  attesterPubkey: string;
+  signature: string;
+  classId?: string; // Class namespace the attestation counts toward
+}
+
+export interface ShortAnswerAttestation {
+  questionId: string;
+  shortAnswer: string; // Normalized, see normalizeShortAnswer
+  timestamp: number;
+  attesterPubkey: string;
+  signature: string;
+  classId?: string; // Class namespace the attestation counts toward
+}
+
+export type QuestionAttestation =
+  | MCQAttestation
+  | FRQAttestation
+  | MultiSelectAttestation
+  | NumericAttestation
+  | ShortAnswerAttestation;
 
 // Type guards
 export function isMCQAttestation(attestation: QuestionAttestation): attestation is MCQAttestation {
@@ -112,4 +162,27 @@ export function isMCQAttestation(attestation: QuestionAttestation): attestation
 
 export function isFRQAttestation(attestation: QuestionAttestation): attestation is FRQAttestation {
   return 'score' in attestation && 'answerText' in attestation;
+}
+
+export function isMultiSelectAttestation(attestation: QuestionAttestation): attestation is MultiSelectAttestation {
+  return 'selectionHash' in attestation;
+}
+
+export function isNumericAttestation(attestation: QuestionAttestation): attestation is NumericAttestation {
+  return 'answerValue' in attestation;
+}
+
+export function isShortAnswerAttestation(attestation: QuestionAttestation): attestation is ShortAnswerAttestation {
+  return 'shortAnswer' in attestation;
+}
+
+/**
+ * The kind of question an attestation answers
+ */
+export function getAttestationType(attestation: QuestionAttestation): QuestionType {
+  if (isMCQAttestation(attestation)) return 'multiple-choice';
+  if (isMultiSelectAttestation(attestation)) return 'multi-select';
+  if (isNumericAttestation(attestation)) return 'numeric';
+  if (isShortAnswerAttestation(attestation)) return 'short-answer';
+  return 'free-response';
 }
\ No newline at end of file
@@ -20,6 +20,10 @@ import type {
   ConsensusData,
   MCQDistribution,
   FRQDistribution,
+  MultiSelectDistribution,
+  NumericDistribution,
+  ShortAnswerDistribution,
+  ConfidenceInterval,
   MessageOptions,
   MessageType,
   RendererAPI,
@@ -113,11 +117,16 @@ export function renderQuestion(
     html += renderAttachments(question.attachments, question.id, options);
   }
   
-  // Handle choices (MCQ)
+  // Handle choices (MCQ and multi-select)
   if (question.choices || question.attachments?.choices) {
     const choices = question.choices || question.attachments?.choices || [];
     const answerKey = mode === 'reveal' ? question.answerKey : undefined;
-    html += renderChoices(choices, answerKey, callbacks);
+    html += renderChoices(choices, answerKey, callbacks, question.type === 'multi-select');
+  }
+  
+  // Numeric and short-answer questions are answered in a text box
+  if ((question.type === 'numeric' || question.type === 'short-answer') && callbacks?.onSubmitAttestation) {
+    html += renderAnswerInput(question);
   }
   
   // Show answer/reasoning in reveal mode
@@ -309,20 +318,22 @@ export function renderTable(tableData: TableData): string {
 
 /**
  * Render multiple choice options
+ * Multi-select choices toggle and are submitted together; their answer key lists every correct letter
  */
 export function renderChoices(
   choices: Choice[],
   answerKey?: string,
-  callbacks?: RenderCallbacks
+  callbacks?: RenderCallbacks,
+  multiSelect: boolean = false
 ): string {
   if (!choices || !Array.isArray(choices)) return '';
   
-  const normalizedAnswer = (answerKey || '').toString().trim().toUpperCase();
+  const normalizedAnswers = (answerKey || '').toString().split(',').map(key => key.trim().toUpperCase());
   
-  let html = '<div class="choices">';
+  let html = `<div class="choices${multiSelect ? ' multi-select' : ''}">`;
   
   choices.forEach(choice => {
-    const isCorrect = choice.key.toString().trim().toUpperCase() === normalizedAnswer;
+    const isCorrect = normalizedAnswers.includes(choice.key.toString().trim().toUpperCase());
     const classes = ['choice'];
     if (isCorrect) classes.push('correct-choice');
     
@@ -339,6 +350,10 @@ export function renderChoices(
   
   html += '</div>';
   
+  if (multiSelect && callbacks?.onSubmitAttestation) {
+    html += '<button type="button" class="submit-selection">Submit Selection</button>';
+  }
+  
   // Queue math rendering for choices after DOM insertion
   setTimeout(() => {
     const choicesEl = document.querySelector('.choices:last-child');
@@ -350,6 +365,27 @@ export function renderChoices(
   return html;
 }
 
+/**
+ * Render the text box numeric and short-answer questions are answered in
+ */
+function renderAnswerInput(question: Question): string {
+  const numeric = question.type === 'numeric';
+  const hint = numeric && question.tolerance !== undefined
+    ? `<div class="answer-input-hint">Answers within ±${question.tolerance} count as agreeing</div>`
+    : '';
+  
+  return `
+    <div class="answer-input">
+      <input type="text" class="answer-field" 
+             inputmode="${numeric ? 'decimal' : 'text'}" 
+             placeholder="${numeric ? 'Enter a number' : 'Enter a short answer'}" 
+             aria-label="Your answer">
+      <button type="button" class="submit-answer">Submit</button>
+      ${hint}
+    </div>
+  `;
+}
+
 /**
  * Render solution with parts and scoring
  */
@@ -469,36 +505,23 @@ export function renderConsensusDisplay(
   
   // MCQ distribution
   if (consensus.mcqDistribution) {
-    const mcqDist: MCQDistribution = {
-      choices: consensus.mcqDistribution,
-      total: Object.values(consensus.mcqDistribution).reduce((a, b) => a + b, 0),
-      mode: Object.entries(consensus.mcqDistribution).reduce((a, b) => b[1] > a[1] ? b : a)[0],
-      modePercentage: 0
-    };
-    mcqDist.modePercentage = (consensus.mcqDistribution[mcqDist.mode] / mcqDist.total) * 100;
-    html += renderMCQConsensus(mcqDist, questionId);
+    html += renderMCQConsensus(consensus.mcqDistribution, questionId);
   }
   
   // FRQ distribution
   if (consensus.frqDistribution) {
-    const frqDist: FRQDistribution = {
-      scores: consensus.frqDistribution.map(s => ({
-        score: s.score,
-        count: s.count,
-        percentage: 0
-      })),
-      mean: 0,
-      median: 0,
-      stdDev: 0,
-      total: consensus.frqDistribution.reduce((sum, s) => sum + s.count, 0)
-    };
-    // Calculate percentages
-    frqDist.scores.forEach(s => {
-      s.percentage = (s.count / frqDist.total) * 100;
-    });
-    // Simple mean calculation
-    frqDist.mean = frqDist.scores.reduce((sum, s) => sum + s.score * s.count, 0) / frqDist.total;
-    html += renderFRQConsensus(frqDist, questionId);
+    html += renderFRQConsensus(consensus.frqDistribution, questionId);
+  }
+  
+  // Multi-select, numeric and short-answer distributions
+  if (consensus.multiSelectDistribution) {
+    html += renderMultiSelectConsensus(consensus.multiSelectDistribution, questionId);
+  }
+  if (consensus.numericDistribution) {
+    html += renderNumericConsensus(consensus.numericDistribution, questionId);
+  }
+  if (consensus.shortAnswerDistribution) {
+    html += renderShortAnswerConsensus(consensus.shortAnswerDistribution);
   }
   
   // Confidence metrics
@@ -558,6 +581,12 @@ function renderMCQConsensus(dist: MCQDistribution, questionId: string): string {
       <div class="consensus-mode">
         Most Common: ${escapeHtml(dist.mode)} (${dist.modePercentage.toFixed(1)}%)
       </div>
+      ${dist.modeInterval ? renderIntervalBar(
+        dist.modeInterval,
+        dist.modePercentage / 100,
+        { min: 0, max: 1 },
+        value => `${(value * 100).toFixed(0)}%`
+      ) : ''}
     </div>
   `;
 }
@@ -593,6 +622,132 @@ function renderFRQConsensus(dist: FRQDistribution, questionId: string): string {
         <div>Median: ${dist.median.toFixed(2)}</div>
         <div>Std Dev: ${dist.stdDev.toFixed(2)}</div>
       </div>
+      ${dist.meanInterval ? renderIntervalBar(
+        dist.meanInterval,
+        dist.mean,
+        { min: 1, max: 5 },
+        value => value.toFixed(2)
+      ) : ''}
+    </div>
+  `;
+}
+
+/**
+ * Render multi-select consensus: how often each choice was selected, and the most common set
+ */
+function renderMultiSelectConsensus(dist: MultiSelectDistribution, questionId: string): string {
+  const chartData: ChartData = {
+    chartType: 'bar',
+    title: 'Choices Selected',
+    series: [{
+      name: 'Selections',
+      values: Object.values(dist.choices)
+    }],
+    xLabels: Object.keys(dist.choices),
+    chartConfig: {
+      yAxis: {
+        title: 'Number of Attestations',
+        min: 0
+      },
+      xAxis: {
+        title: 'Answer Choice'
+      }
+    }
+  };
+  
+  return `
+    <div class="consensus-multi-select">
+      ${renderChart(chartData, `${questionId}-consensus-multi-select`)}
+      <div class="consensus-mode">
+        Most Common Selection: ${escapeHtml(dist.mode.split(',').join(', '))} (${dist.modePercentage.toFixed(1)}%)
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Render numeric consensus as a histogram of the answer bins
+ */
+function renderNumericConsensus(dist: NumericDistribution, questionId: string): string {
+  const chartData: ChartData = {
+    chartType: 'histogram',
+    title: 'Answer Distribution',
+    series: [{
+      name: 'Answers',
+      values: dist.bins.map(bin => bin.count)
+    }],
+    xLabels: dist.bins.map(bin => `${formatNumber(bin.lower)} – ${formatNumber(bin.upper)}`),
+    chartConfig: {
+      yAxis: {
+        title: 'Number of Attestations',
+        min: 0
+      },
+      xAxis: {
+        title: `Answer (bins of ±${formatNumber(dist.tolerance)})`
+      }
+    }
+  };
+  
+  return `
+    <div class="consensus-numeric">
+      ${renderChart(chartData, `${questionId}-consensus-numeric`)}
+      <div class="consensus-stats">
+        <div>Median: ${formatNumber(dist.median)}</div>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Render short-answer consensus as a ranked list of answers
+ */
+function renderShortAnswerConsensus(dist: ShortAnswerDistribution): string {
+  const rows = dist.answers.slice(0, 10).map(entry => `
+        <li class="consensus-answer">
+          <span class="consensus-answer-text">${escapeHtml(entry.answer)}</span>
+          <span class="consensus-answer-count">${entry.count} (${entry.percentage.toFixed(1)}%)</span>
+        </li>
+  `).join('');
+  
+  return `
+    <div class="consensus-short-answer">
+      <div class="consensus-answers-title">Answers Given</div>
+      <ol class="consensus-answers">${rows}</ol>
+      ${dist.answers.length > 10 ? `<div class="consensus-answers-more">and ${dist.answers.length - 10} more</div>` : ''}
+    </div>
+  `;
+}
+
+// Numbers as students would write them, without floating point noise
+function formatNumber(value: number): string {
+  return String(Number(value.toPrecision(6)));
+}
+
+/**
+ * Render a confidence interval as a bar on the statistic's scale
+ * Few attestations give a wide bar, so students can see how settled consensus is
+ */
+function renderIntervalBar(
+  interval: ConfidenceInterval,
+  estimate: number,
+  scale: { min: number; max: number },
+  format: (value: number) => string
+): string {
+  const position = (value: number) =>
+    ((Math.min(scale.max, Math.max(scale.min, value)) - scale.min) / (scale.max - scale.min)) * 100;
+  const left = position(interval.lower);
+  const width = Math.max(position(interval.upper) - left, 0.5);
+  const level = `${Math.round(interval.level * 100)}%`;
+  
+  return `
+    <div class="consensus-interval" title="${level} confidence interval">
+      <div class="consensus-interval-label">
+        ${level} CI: ${format(interval.lower)} – ${format(interval.upper)}
+      </div>
+      <div class="consensus-interval-track" style="position: relative; height: 8px; background: rgba(128, 128, 128, 0.15);">
+        <span class="consensus-interval-range" style="position: absolute; left: ${left.toFixed(1)}%; width: ${width.toFixed(1)}%; height: 100%; background: currentColor; opacity: 0.35;"></span>
+        <span class="consensus-interval-estimate" style="position: absolute; left: ${position(estimate).toFixed(1)}%; width: 2px; height: 100%; background: currentColor;"></span>
+      </div>
     </div>
   `;
 }
@@ -604,6 +759,7 @@ function renderStats(questions: Curriculum): HTMLElement {
   const totalQuestions = questions.length;
   const mcQuestions = questions.filter(q => q.type === 'multiple-choice').length;
   const frQuestions = questions.filter(q => q.type === 'free-response').length;
+  const otherQuestions = totalQuestions - mcQuestions - frQuestions;
   const hasAnswers = questions.filter(q => q.answerKey).length;
   const hasReasoning = questions.filter(q => q.reasoning).length;
   const hasSolutions = questions.filter(q => q.solution).length;
@@ -614,7 +770,8 @@ function renderStats(questions: Curriculum): HTMLElement {
     <strong>📊 Quiz Statistics:</strong><br>
     Total Questions: ${totalQuestions} | 
     Multiple Choice: ${mcQuestions} | 
-    Free Response: ${frQuestions}<br>
+    Free Response: ${frQuestions}${otherQuestions > 0 ? ` | 
+    Other Types: ${otherQuestions}` : ''}<br>
     With Answer Keys: ${hasAnswers} | 
     With Reasoning: ${hasReasoning} | 
     With Solutions: ${hasSolutions}
@@ -643,6 +800,42 @@ function attachQuestionEventListeners(
   question: Question,
   callbacks: RenderCallbacks
 ): void {
+  // Multi-select choices toggle; the selection is submitted as letters joined by commas
+  if (callbacks.onSubmitAttestation && question.type === 'multi-select') {
+    const choices = element.querySelectorAll('.choice[data-choice-key]');
+    choices.forEach(choice => {
+      choice.addEventListener('click', (e) => {
+        (e.currentTarget as HTMLElement).classList.toggle('selected');
+      });
+    });
+    
+    element.querySelector('.submit-selection')?.addEventListener('click', () => {
+      const selected = Array.from(element.querySelectorAll<HTMLElement>('.choice.selected[data-choice-key]'))
+        .map(choice => choice.dataset.choiceKey!);
+      if (selected.length > 0) {
+        callbacks.onSubmitAttestation!(question.id, selected.join(','), 3);
+      }
+    });
+    return;
+  }
+  
+  // Numeric and short-answer submit handlers
+  if (callbacks.onSubmitAttestation && (question.type === 'numeric' || question.type === 'short-answer')) {
+    const field = element.querySelector<HTMLInputElement>('.answer-field');
+    const submit = () => {
+      const answer = field?.value.trim();
+      if (answer) {
+        callbacks.onSubmitAttestation!(question.id, answer, 3);
+      }
+    };
+    
+    element.querySelector('.submit-answer')?.addEventListener('click', submit);
+    field?.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') submit();
+    });
+    return;
+  }
+  
   // MCQ choice click handlers
   if (callbacks.onSubmitAttestation) {
     const choices = element.querySelectorAll('.choice[data-choice-key]');
@@ -168,10 +168,11 @@ export class ReputationCalculator {
       const distribution = distributions.get(update.questionId);
       
       if (distribution) {
-        if (distribution.type === 'multiple-choice') {
-          mcqScore += update.finalScore;
-        } else if (distribution.type === 'free-response') {
+        // Multi-select, numeric and short-answer questions have answer keys, so count with MCQs
+        if (distribution.type === 'free-response') {
           frqScore += update.finalScore;
+        } else {
+          mcqScore += update.finalScore;
         }
       }
     }
@@ -184,14 +185,35 @@ export class ReputationCalculator {
     };
   }
   
+  /**
+   * Merge per-key scores into one score per identity
+   * Keys linked by RotateKey/RevokeIdentity resolve to the same identity id
+   */
+  consolidateByIdentity(
+    userReputations: Map<string, number>,
+    resolveIdentity: (pubkey: string) => string
+  ): Map<string, number> {
+    const consolidated = new Map<string, number>();
+    for (const [pubkey, score] of userReputations) {
+      const identityId = resolveIdentity(pubkey);
+      consolidated.set(identityId, (consolidated.get(identityId) || 0) + score);
+    }
+    return consolidated;
+  }
+  
   /**
    * Identify top performers based on reputation
+   * Pass resolveIdentity to rank identities rather than individual keys
    */
   getTopPerformers(
     userReputations: Map<string, number>,
-    limit: number = 10
+    limit: number = 10,
+    resolveIdentity?: (pubkey: string) => string
   ): Array<{ userId: string; score: number }> {
-    const sorted = Array.from(userReputations.entries())
+    const scores = resolveIdentity
+      ? this.consolidateByIdentity(userReputations, resolveIdentity)
+      : userReputations;
+    const sorted = Array.from(scores.entries())
       .map(([userId, score]) => ({ userId, score }))
       .sort((a, b) => b.score - a.score);
     
@@ -92,9 +92,9 @@ export class Compressor {
     chunks.sort((a, b) => a.index - b.index);
     const compressed = chunks.map(c => c.data).join('');
 
-    // Verify checksum
+    // Verify checksum (scanned chunks carry the abbreviated form from encodeChunk)
     const actualChecksum = this.calculateChecksum(compressed);
-    if (actualChecksum !== checksum) {
+    if (!actualChecksum.startsWith(checksum)) {
       throw new Error('Checksum verification failed');
     }
 
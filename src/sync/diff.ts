@@ -4,9 +4,10 @@
  */
 
 import { EnhancedBlockchain } from '../core/enhanced-blockchain';
-import { Transaction } from '../core/types';
+import { Transaction, AttestationData, CreateClassData, CreateUserData } from '../core/types';
 import { SyncDiff } from './types';
 import { createHash } from 'crypto';
+import { canonicalStringify } from '../core/canonical';
 
 export class DiffExtractor {
   private blockchain: EnhancedBlockchain;
@@ -17,17 +18,16 @@ export class DiffExtractor {
 
   /**
    * Extract diff since last sync timestamp
+   * With a class id, only that class's transactions are included
    */
-  extractDiff(lastSyncTimestamp: number): SyncDiff {
+  extractDiff(lastSyncTimestamp: number, classId?: string): SyncDiff {
     const currentTimestamp = Date.now();
     
-    // Get all transactions from blockchain
-    const allTransactions = this.getAllTransactions();
-    
-    // Filter transactions since last sync
-    const newTransactions = allTransactions.filter(
-      tx => tx.timestamp > lastSyncTimestamp
-    );
+    // Get transactions since last sync from the chain index, plus unmined ones
+    let newTransactions = this.getTransactionsSince(lastSyncTimestamp);
+    if (classId !== undefined) {
+      newTransactions = newTransactions.filter(tx => this.belongsToClass(tx, classId));
+    }
 
     // Sort by timestamp for deterministic ordering
     newTransactions.sort((a, b) => a.timestamp - b.timestamp);
@@ -40,62 +40,61 @@ export class DiffExtractor {
       toTimestamp: currentTimestamp,
       transactions: this.minimizeTransactions(newTransactions),
       blockHashes,
-      version: '1.0.0'
+      version: '1.0.0',
+      ...(classId !== undefined ? { classId } : {})
     };
   }
 
   /**
-   * Get all transactions from blockchain
+   * Whether a transaction is part of a class: the class itself, its members'
+   * identity transactions, and attestations that count toward it. Difficulty
+   * policies govern mining for every class on the chain, so all classes get them
    */
-  private getAllTransactions(): Transaction[] {
-    const transactions: Transaction[] = [];
-    const chain = (this.blockchain as any).chain || [];
-    
-    for (const block of chain) {
-      if (block.transactions) {
-        transactions.push(...block.transactions);
+  private belongsToClass(tx: Transaction, classId: string): boolean {
+    switch (tx.txType) {
+      case 'CreateClass':
+        return (tx.data as CreateClassData).classId === classId;
+      case 'SetDifficultyPolicy':
+        return true;
+      case 'CreateUser':
+        return (tx.data as CreateUserData).classId === classId;
+      case 'Attestation': {
+        const explicit = (tx.data as AttestationData).classId;
+        return (explicit ?? this.blockchain.getClassOf(tx.attesterPubkey)) === classId;
       }
+      default:
+        return this.blockchain.getClassOf(tx.attesterPubkey) === classId;
     }
+  }
+
+  /**
+   * Get transactions newer than the timestamp, including unmined ones
+   * so attestations still travel before anyone has mined them
+   */
+  private getTransactionsSince(timestamp: number): Transaction[] {
+    const pending = this.blockchain
+      .getPendingTransactions()
+      .filter(tx => tx.timestamp > timestamp);
     
-    return transactions;
+    return [...this.blockchain.getTransactionsSince(timestamp), ...pending];
   }
 
   /**
-   * Remove redundant data from transactions for smaller QR codes
+   * Strip non-protocol fields from transactions for smaller QR codes
+   * The signed payload (data) is passed through untouched: dropping or
+   * rebuilding any of its fields would invalidate the signature.
    */
   private minimizeTransactions(transactions: Transaction[]): Transaction[] {
     return transactions.map(tx => ({
       hash: tx.hash,
-      prevHash: tx.prevHash,
+      txType: tx.txType,
       timestamp: tx.timestamp,
       attesterPubkey: tx.attesterPubkey,
       signature: tx.signature,
-      txType: tx.txType,
-      data: this.minimizeData(tx.data)
+      data: tx.data
     }));
   }
 
-  /**
-   * Minimize transaction data payload
-   */
-  private minimizeData(data: any): any {
-    if (!data) return data;
-    
-    // Keep only essential fields for attestations
-    if (data.questionId) {
-      return {
-        questionId: data.questionId,
-        answerHash: data.answerHash,
-        answerText: data.answerText,
-        score: data.score,
-        confidence: data.confidence,
-        isMatch: data.isMatch
-      };
-    }
-    
-    return data;
-  }
-
   /**
    * Calculate verification hashes for blocks
    */
@@ -116,7 +115,7 @@ export class DiffExtractor {
    * Create hash of transaction chunk
    */
   private hashChunk(transactions: Transaction[]): string {
-    const data = JSON.stringify(transactions.map(tx => tx.hash));
+    const data = canonicalStringify(transactions.map(tx => tx.hash));
     return createHash('sha256').update(data).digest('hex').substring(0, 16);
   }
 
@@ -11,6 +11,8 @@ import { QRScanner } from './qr-scanner';
 import { StateMerger } from './merger';
 import { SyncDiff, MergeResult, SyncMetadata } from './types';
 import { v4 as uuidv4 } from 'uuid';
+import { scopedStorageKey } from '../core/profile-session';
+import { StorageAdapter, getDefaultStorageAdapter, readSetting, writeSetting } from '../persistence/adapter';
 
 // Define Profile interface locally to avoid import issues
 interface Profile {
@@ -30,8 +32,16 @@ export class SyncController {
   private qrScanner: QRScanner;
   private merger: StateMerger;
   private metadata: SyncMetadata;
-
-  constructor(blockchain: EnhancedBlockchain, profile: Profile) {
+  private metadataKey: string;
+  private adapter: StorageAdapter;
+  // Resolves once saved metadata has been loaded
+  ready: Promise<void>;
+
+  constructor(
+    blockchain: EnhancedBlockchain,
+    profile: Profile,
+    adapter: StorageAdapter = getDefaultStorageAdapter()
+  ) {
     this.blockchain = blockchain;
     this.profile = profile;
     this.diffExtractor = new DiffExtractor(blockchain);
@@ -39,19 +49,31 @@ export class SyncController {
     this.qrDisplay = new QRDisplay();
     this.qrScanner = new QRScanner();
     this.merger = new StateMerger(blockchain);
-    this.metadata = this.loadMetadata();
+    this.adapter = adapter;
+    // Bound to the profile active at construction, so a later switch never mixes histories
+    this.metadataKey = scopedStorageKey('syncMetadata');
+    this.metadata = {
+      lastSyncTimestamp: 0,
+      deviceId: uuidv4(),
+      syncHistory: []
+    };
+    this.ready = this.loadMetadata();
   }
 
   /**
    * Share current state via QR codes
+   * With a class id, only that class's transactions are shared
    */
   async shareState(
     container: HTMLElement,
-    onComplete?: () => void
+    onComplete?: () => void,
+    classId?: string
   ): Promise<void> {
     try {
+      await this.ready;
+
       // Extract diff since last sync
-      const diff = this.diffExtractor.extractDiff(this.metadata.lastSyncTimestamp);
+      const diff = this.diffExtractor.extractDiff(this.metadata.lastSyncTimestamp, classId);
       
       // Check if there's anything to sync
       if (diff.transactions.length === 0) {
@@ -98,6 +120,8 @@ export class SyncController {
     onComplete?: (result: MergeResult) => void
   ): Promise<void> {
     try {
+      await this.ready;
+
       // Create scanner UI
       const scannerUI = QRScanner.createScannerUI('qr-scanner');
       container.appendChild(scannerUI);
@@ -119,7 +143,7 @@ export class SyncController {
 
           // Update metadata
           if (result.success) {
-            this.updateMetadata('received', result.addedTransactions);
+            await this.updateMetadata('received', result.addedTransactions);
           }
 
           // Play success sound
@@ -151,25 +175,23 @@ export class SyncController {
   }
 
   /**
-   * Load sync metadata
+   * Load sync metadata, keeping the fresh defaults if none was saved
    */
-  private loadMetadata(): SyncMetadata {
-    const stored = localStorage.getItem('syncMetadata');
-    if (stored) {
-      return JSON.parse(stored);
+  private async loadMetadata(): Promise<void> {
+    try {
+      const stored = await readSetting<SyncMetadata>(this.adapter, this.metadataKey);
+      if (stored) {
+        this.metadata = stored;
+      }
+    } catch (err) {
+      console.error('Failed to load sync metadata:', err);
     }
-    
-    return {
-      lastSyncTimestamp: 0,
-      deviceId: uuidv4(),
-      syncHistory: []
-    };
   }
 
   /**
    * Update and save metadata
    */
-  private updateMetadata(direction: 'sent' | 'received', transactionCount: number): void {
+  private async updateMetadata(direction: 'sent' | 'received', transactionCount: number): Promise<void> {
     this.metadata.lastSyncTimestamp = Date.now();
     this.metadata.syncHistory.push({
       timestamp: Date.now(),
@@ -183,7 +205,11 @@ export class SyncController {
       this.metadata.syncHistory = this.metadata.syncHistory.slice(-10);
     }
 
-    localStorage.setItem('syncMetadata', JSON.stringify(this.metadata));
+    try {
+      await writeSetting(this.adapter, this.metadataKey, this.metadata);
+    } catch (err) {
+      console.error('Failed to save sync metadata:', err);
+    }
   }
 
   /**
@@ -210,6 +236,8 @@ export class SyncController {
     const statsDiv = document.createElement('div');
     statsDiv.className = 'sync-stats';
     
+    const pendingHashes = new Set(this.blockchain.getPendingTransactions().map(tx => tx.hash));
+    const pendingCount = diff.transactions.filter(tx => pendingHashes.has(tx.hash)).length;
     const timeSinceLastSync = Date.now() - this.metadata.lastSyncTimestamp;
     const days = Math.floor(timeSinceLastSync / (1000 * 60 * 60 * 24));
     const hours = Math.floor((timeSinceLastSync % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
@@ -218,6 +246,7 @@ export class SyncController {
       <h3>Sync Statistics</h3>
       <ul>
         <li>Transactions to share: <strong>${diff.transactions.length}</strong></li>
+        ${pendingCount > 0 ? `<li>Not yet mined: <strong>${pendingCount}</strong></li>` : ''}
         <li>Time since last sync: <strong>${days}d ${hours}h</strong></li>
         <li>Estimated QR codes: <strong>${this.diffExtractor.estimateChunkCount(diff)}</strong></li>
       </ul>
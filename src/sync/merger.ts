@@ -6,7 +6,7 @@
 import { EnhancedBlockchain } from '../core/enhanced-blockchain';
 import { Transaction } from '../core/types';
 import { SyncDiff, MergeResult, ConflictReport } from './types';
-import { validateSignature } from '../core/crypto';
+import { validateTransaction } from '../core/blockchain';
 import { ConsensusCalculator } from '../core/consensus';
 import { DistributionTracker } from '../core/distributions';
 import { ReputationCalculator } from '../reputation/calculator';
@@ -82,7 +82,7 @@ export class StateMerger {
     }
 
     // Validate signature
-    if (!this.validateTransaction(tx)) {
+    if (!(await this.validateTransaction(tx))) {
       return {
         type: 'invalid_signature',
         transactionHash: tx.hash,
@@ -130,37 +130,15 @@ export class StateMerger {
    * Check if transaction already exists
    */
   private isDuplicate(tx: Transaction): boolean {
-    const chain = (this.blockchain as any).chain || [];
-    
-    for (const block of chain) {
-      if (block.transactions) {
-        for (const existingTx of block.transactions) {
-          if (existingTx.hash === tx.hash) {
-            return true;
-          }
-        }
-      }
-    }
-    
-    return false;
+    return this.blockchain.isTransactionOnChain(tx.hash);
   }
 
   /**
-   * Validate transaction signature
+   * Validate transaction hash and signature
    */
-  private validateTransaction(tx: Transaction): boolean {
+  private async validateTransaction(tx: Transaction): Promise<boolean> {
     try {
-      // Reconstruct signed data
-      const signedData = {
-        prevHash: tx.prevHash,
-        timestamp: tx.timestamp,
-        attesterPubkey: tx.attesterPubkey,
-        txType: tx.txType,
-        data: tx.data
-      };
-      
-      const message = JSON.stringify(signedData);
-      return validateSignature(message, tx.signature, tx.attesterPubkey);
+      return await validateTransaction(tx);
     } catch (err) {
       console.error('Signature validation failed:', err);
       return false;
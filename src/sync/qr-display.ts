@@ -221,6 +221,17 @@ export class QRDisplay {
     });
   }
 
+  /**
+   * Generate static QR code for a short standalone text (e.g. a printed recovery share)
+   */
+  async generateTextQR(text: string): Promise<string> {
+    return await QRCode.toDataURL(text, {
+      errorCorrectionLevel: this.protocol.errorCorrection,
+      margin: 2,
+      scale: 6
+    });
+  }
+
   /**
    * Add display styles
    */
@@ -24,6 +24,22 @@ export class QRScanner {
     containerId: string,
     onComplete: (diff: SyncDiff) => void,
     onProgress?: (progress: number) => void
+  ): Promise<void> {
+    await this.startScanningPayload(
+      containerId,
+      (payload) => onComplete(this.compressor.decompress(payload)),
+      onProgress
+    );
+  }
+
+  /**
+   * Start scanning QR codes, handing back the reassembled payload as-is
+   * (for transfers that are not sync diffs)
+   */
+  async startScanningPayload(
+    containerId: string,
+    onComplete: (payload: string) => void,
+    onProgress?: (progress: number) => void
   ): Promise<void> {
     this.onProgressCallback = onProgress || null;
     
@@ -58,7 +74,7 @@ export class QRScanner {
   /**
    * Handle scanned QR code
    */
-  private handleQRCode(qrData: string, onComplete: (diff: SyncDiff) => void): void {
+  private handleQRCode(qrData: string, onComplete: (payload: string) => void): void {
     try {
       // Decode chunk
       const chunk = this.compressor.decodeChunk(qrData);
@@ -130,7 +146,7 @@ export class QRScanner {
   /**
    * Complete session and reassemble data
    */
-  private completeSession(onComplete: (diff: SyncDiff) => void): void {
+  private completeSession(onComplete: (payload: string) => void): void {
     if (!this.session) return;
     
     this.session.status = 'processing';
@@ -155,9 +171,6 @@ export class QRScanner {
       // Reassemble compressed data
       const compressed = this.compressor.reassemble(chunks);
       
-      // Decompress to get sync diff
-      const diff = this.compressor.decompress(compressed);
-      
       // Mark complete
       this.session.status = 'complete';
       
@@ -168,7 +181,7 @@ export class QRScanner {
       this.playFeedback('complete');
       
       // Callback with result
-      onComplete(diff);
+      onComplete(compressed);
     } catch (err) {
       console.error('Failed to complete session:', err);
       this.session.status = 'error';
@@ -0,0 +1,122 @@
+/**
+ * Profile Transfer Controller
+ * One-time, PIN-protected profile transfer between devices over the QR sync
+ * channel. The sender cycles encrypted chunks until the session expires;
+ * the receiver scans them, opens the envelope with the PIN and stores the
+ * profile under its own passphrase. Partial scans live only in memory and are
+ * dropped on cancel or expiry.
+ */
+
+import { QRDisplay } from './qr-display';
+import { QRScanner } from './qr-scanner';
+import { Compressor } from './compression';
+import { Storage } from '../persistence/storage';
+import { Profile } from '../core/types';
+import { toPublicProfile } from '../core/profile';
+import {
+  DEFAULT_TRANSFER_TTL_MS,
+  createTransferEnvelope,
+  decodeTransferEnvelope,
+  encodeTransferEnvelope,
+  generateTransferPin,
+  openTransferEnvelope
+} from '../core/profile-transfer';
+
+export class ProfileTransferController {
+  private compressor: Compressor;
+  private qrDisplay: QRDisplay;
+  private qrScanner: QRScanner;
+  private expiryTimer: NodeJS.Timeout | null = null;
+  private container: HTMLElement | null = null;
+
+  constructor() {
+    this.compressor = new Compressor();
+    this.qrDisplay = new QRDisplay();
+    this.qrScanner = new QRScanner();
+  }
+
+  /**
+   * Show an unlocked profile as cycling QR codes; returns the PIN to read out
+   * to the receiving device. The codes are removed when the session expires.
+   */
+  async send(
+    profile: Profile,
+    container: HTMLElement,
+    ttlMs: number = DEFAULT_TRANSFER_TTL_MS
+  ): Promise<string> {
+    await this.cancel();
+
+    const pin = generateTransferPin();
+    const envelope = await createTransferEnvelope(profile, pin, ttlMs);
+    const chunks = this.compressor.chunk(encodeTransferEnvelope(envelope), envelope.sessionId);
+
+    this.container = container;
+    this.expiryTimer = setTimeout(() => this.cancel(), ttlMs);
+    await this.qrDisplay.displayCycle(chunks, container);
+
+    return pin;
+  }
+
+  /**
+   * Scan a transfer and store the profile under a passphrase for this device.
+   * Resolves with the public profile; rejects (storing nothing) on a wrong PIN,
+   * an expired session, or a profile this device already has.
+   */
+  receive(
+    containerId: string,
+    pin: string,
+    passphrase: string,
+    storage: Storage,
+    onProgress?: (progress: number) => void,
+    timeoutMs: number = DEFAULT_TRANSFER_TTL_MS
+  ): Promise<Profile> {
+    return new Promise((resolve, reject) => {
+      // Give up on a transfer that never finishes scanning
+      this.expiryTimer = setTimeout(() => {
+        this.cancel();
+        reject(new Error('Transfer timed out before all codes were scanned'));
+      }, timeoutMs);
+
+      const onPayload = async (payload: string) => {
+        this.clearExpiryTimer();
+        try {
+          const envelope = decodeTransferEnvelope(payload);
+          if (await storage.loadProfile(envelope.pubkey)) {
+            throw new Error('This profile is already on this device');
+          }
+          const profile = await openTransferEnvelope(envelope, pin);
+          await storage.saveProfile(profile, passphrase);
+          console.log(`Profile ${profile.username} transferred to this device`);
+          resolve(toPublicProfile(profile));
+        } catch (err) {
+          reject(err);
+        }
+      };
+
+      this.qrScanner.startScanningPayload(containerId, onPayload, onProgress).catch(err => {
+        this.cancel();
+        reject(err);
+      });
+    });
+  }
+
+  /**
+   * Stop a transfer in either direction and drop anything it held
+   */
+  async cancel(): Promise<void> {
+    this.clearExpiryTimer();
+    this.qrDisplay.stop();
+    await this.qrScanner.stop();
+    if (this.container) {
+      this.container.innerHTML = '';
+      this.container = null;
+    }
+  }
+
+  private clearExpiryTimer(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+}
@@ -11,6 +11,7 @@ export interface SyncDiff {
   transactions: Transaction[];
   blockHashes: string[];
   version: string;
+  classId?: string; // Set when the diff carries only one class's transactions
 }
 
 export interface QRChunk {
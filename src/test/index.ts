@@ -3,16 +3,91 @@
  * Run all Phase 5 tests and demonstrations
  */
 
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { TestRunner } from './test-runner';
 import { LocalSimulator } from './simulator';
 import { InvariantChecker } from '../invariants/checker';
 import { InvariantMonitor } from '../invariants/monitor';
+import { InvariantType } from '../invariants/types';
 import { ErrorHandler } from '../error/error-handler';
-import { EnhancedBlockchain } from '../core/enhanced-blockchain';
+import { EnhancedBlockchain, ConsensusState, Phase2AttestationData } from '../core/enhanced-blockchain';
 import { APRevealManager } from '../ap-reveal/reveal-manager';
 import { EnhancedRateLimiter } from '../anti-gaming/enhanced-limiter';
 import { PatternDetector } from '../anti-gaming/pattern-detector';
+import { createProfile, recoverProfile, recoverProfileFromShares, serializeProfile, validateSeedphrase } from '../core/profile';
+import { combineShares, decodeShare, encodeShare, splitSeedphrase } from '../core/shamir';
+import {
+  createTransferEnvelope,
+  decodeTransferEnvelope,
+  encodeTransferEnvelope,
+  generateTransferPin,
+  openTransferEnvelope
+} from '../core/profile-transfer';
+import { DEFAULT_IDLE_TIMEOUT_MS, decryptSecrets, encryptSecrets, keySession } from '../core/keystore';
+import {
+  beginProfileSession,
+  endProfileSession,
+  getActiveProfileNamespace,
+  onProfileSessionChange,
+  scopedStorageKey
+} from '../core/profile-session';
+import { entropyToMnemonic, mnemonicToEntropy } from '../core/mnemonic';
+import {
+  Blockchain,
+  BLOCK_VERSION,
+  DIFFICULTY_BLOCK_VERSION,
+  calculateBlockHash,
+  createTransaction,
+  getBlockDifficulty,
+  mineBlock,
+  validateBlock,
+  validateTransaction
+} from '../core/blockchain';
+import { computeMerkleRoot, verifyInclusionProof } from '../core/merkle';
+import { calculateHeaderHash } from '../core/miner';
+import {
+  DEFAULT_DIFFICULTY,
+  DifficultyPolicy,
+  calculateRequiredDifficulty,
+  createDifficultyPolicy,
+  meetsDifficulty
+} from '../core/difficulty';
+import { canonicalStringify } from '../core/canonical';
+import { Mempool, compareTransactionPriority } from '../core/mempool';
+import { checkpointMatchesChain, verifyCheckpointSignature } from '../core/checkpoint';
+import { identitySuffix, validateProfileUpdateData } from '../core/display-names';
+import { DiffExtractor } from '../sync/diff';
+import { DistributionTracker } from '../core/distributions';
+import {
+  ConsensusCalculator,
+  FRQDistribution,
+  MCQDistribution,
+  MultiSelectDistribution,
+  NumericDistribution,
+  QuestionDistribution,
+  ShortAnswerDistribution,
+  leadingNumericAnswer,
+  meanScoreInterval,
+  wilsonInterval
+} from '../core/consensus';
+import { ATTESTATION_GRACE_PERIOD_MS, checkRevision, revisionTargetFor } from '../core/amendments';
+import { ReviewableResponse, assignPeerReviews, blindResponseId } from '../core/peer-review';
+import { MemoryStorageAdapter, StorageAdapter, StoreWrite, readSetting } from '../persistence/adapter';
+import { JsonFileStorageAdapter } from '../persistence/file-adapter';
+import { Storage } from '../persistence/storage';
+import { Compressor } from '../sync/compression';
+import { StateMerger } from '../sync/merger';
+import { sha256Hash, validateSignature, signData } from '../core/crypto';
+import { getSelectionFromHash, hashMCQAnswer, hashMultiSelectAnswer, normalizeSelection } from '../questions/hashing';
+import { normalizeNumericAnswer, normalizeShortAnswer } from '../questions/normalization';
+import { QuestionAttestation } from '../questions/types';
+import { calculateCompositeScore, isValidRubricPartScores } from '../questions/scoring';
+import { AttestationData, CreateUserData, ReorgEvent, Transaction } from '../core/types';
+import { ReputationCalculator } from '../reputation/calculator';
 import { UserBehavior } from './types';
+import { FRQAttestation, MCQAttestation, RubricPartScores } from '../questions/types';
 
 // Colors for console output
 const colors = {
@@ -73,7 +148,79 @@ class Phase5TestSuite {
       // 5. Test AP Reveals
       await this.testAPReveals();
 
-      // 6. Run Integration Tests
+      // 6. Test Profile Recovery
+      await this.testProfileRecovery();
+
+      // 7. Test Fork Resolution
+      await this.testForkResolution();
+
+      // 8. Test Merkle Inclusion Proofs
+      await this.testMerkleProofs();
+
+      // 9. Test Sync Round Trip Serialization
+      await this.testSyncRoundTrip();
+
+      // 10. Test Cancellable Mining
+      await this.testMining();
+
+      // 11. Test Proof-of-Work Difficulty
+      await this.testDifficulty();
+
+      // 12. Test Persistent Mempool
+      await this.testMempool();
+
+      // 13. Test Key Rotation and Revocation
+      await this.testKeyRotation();
+
+      // 14. Test Chain Index
+      await this.testChainIndex();
+
+      // 15. Test Checkpoints
+      await this.testCheckpoints();
+
+      // 16. Test Keystore
+      await this.testKeystore();
+
+      // 17. Test Profile Switching
+      await this.testProfileSessions();
+
+      // 18. Test Recovery Shares
+      await this.testRecoveryShares();
+
+      // 19. Test Profile Transfer
+      await this.testProfileTransfer();
+
+      // 20. Test Display Profiles
+      await this.testDisplayProfiles();
+
+      // 21. Test Class Namespaces
+      await this.testClassNamespaces();
+
+      // 22. Test Attestation Amendments
+      await this.testAttestationAmendments();
+
+      // 23. Test Storage Adapters
+      await this.testStorageAdapters();
+
+      // 24. Test Block Persistence
+      await this.testBlockPersistence();
+
+      // 25. Test Reputation-Weighted Consensus
+      await this.testWeightedConsensus();
+
+      // 26. Test Consensus Confidence Intervals
+      await this.testConfidenceIntervals();
+
+      // 27. Test Rubric-Part FRQ Scoring
+      await this.testRubricScoring();
+
+      // 28. Test Peer Review Assignment
+      await this.testPeerReview();
+
+      // 29. Test Multi-Select, Numeric and Short-Answer Questions
+      await this.testQuestionTypes();
+
+      // 30. Run Integration Tests
       await this.runIntegrationTests();
 
       console.log(`\n${colors.green}✓ All Phase 5 tests completed successfully!${colors.reset}`);
@@ -254,6 +401,2151 @@ class Phase5TestSuite {
     console.log(`${colors.green}✓ AP reveal tests completed${colors.reset}`);
   }
 
+  /**
+   * Test seed phrase recovery round trip
+   */
+  async testProfileRecovery(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Profile Recovery...${colors.reset}`);
+
+    // Create a profile and sign something with it
+    const original = await createProfile('recovery_user');
+    const transaction = await createTransaction(
+      'Attestation',
+      { questionId: 'recovery_q1', answerHash: 'abc123' },
+      original.pubkey,
+      original.privkey
+    );
+
+    // Recover from the seed phrase, typed sloppily
+    const sloppySeed = `  ${original.seedphrase.toUpperCase().split(' ').join('   ')} `;
+    const recovered = await recoverProfile('recovery_user', sloppySeed);
+
+    if (recovered.pubkey !== original.pubkey || recovered.privkey !== original.privkey) {
+      throw new Error('Recovered key pair does not match original');
+    }
+    console.log(`  ${colors.green}✓ Recovered key pair matches original${colors.reset}`);
+
+    // Old signatures must still verify against the recovered identity
+    const oldStillValid = await validateTransaction(transaction);
+    if (!oldStillValid || transaction.attesterPubkey !== recovered.pubkey) {
+      throw new Error('Original attestation no longer verifies after recovery');
+    }
+    console.log(`  ${colors.green}✓ Original attestation still verifies${colors.reset}`);
+
+    // New signatures from the recovered key verify against the original pubkey
+    const signature = await signData('post-recovery', recovered.privkey);
+    const newValid = await validateSignature(signature, original.pubkey, 'post-recovery');
+    if (!newValid) {
+      throw new Error('Recovered key produces signatures the original pubkey rejects');
+    }
+    console.log(`  ${colors.green}✓ Recovered key signs for the original identity${colors.reset}`);
+
+    // A different seed must not collide
+    const other = await createProfile('recovery_other');
+    if (other.pubkey === original.pubkey) {
+      throw new Error('Distinct seed phrases produced the same key pair');
+    }
+
+    // BIP39 reference vector: all-zero entropy
+    const zeroMnemonic = await entropyToMnemonic(new Uint8Array(16));
+    if (zeroMnemonic !== `${'abandon '.repeat(11)}about`) {
+      throw new Error(`Unexpected mnemonic for zero entropy: ${zeroMnemonic}`);
+    }
+    const roundTrip = await mnemonicToEntropy(original.seedphrase);
+    if ((await entropyToMnemonic(roundTrip)) !== original.seedphrase) {
+      throw new Error('Mnemonic entropy round trip failed');
+    }
+    console.log(`  ${colors.green}✓ Mnemonic encoding matches BIP39${colors.reset}`);
+
+    // A misspelled word is rejected with a suggestion
+    const words = original.seedphrase.split(' ');
+    const misspelled = [...words];
+    misspelled[2] = `${words[2]}x`;
+    const typoResult = await validateSeedphrase(misspelled.join(' '));
+    if (typoResult.valid || typoResult.invalidWords[0]?.index !== 2 ||
+        !typoResult.invalidWords[0].suggestions.includes(words[2])) {
+      throw new Error('Misspelled word was not rejected with the right suggestion');
+    }
+
+    // A swapped-in valid word fails the checksum
+    const zeroWords = zeroMnemonic.split(' ');
+    zeroWords[11] = 'abandon';
+    const checksumResult = await validateSeedphrase(zeroWords.join(' '));
+    if (checksumResult.valid || checksumResult.checksumValid) {
+      throw new Error('Checksum failure was not detected');
+    }
+
+    let rejected = false;
+    try {
+      await recoverProfile('recovery_user', misspelled.join(' '));
+    } catch {
+      rejected = true;
+    }
+    if (!rejected) {
+      throw new Error('recoverProfile accepted a mistyped seed phrase');
+    }
+    console.log(`  ${colors.green}✓ Mistyped seed phrases are rejected with suggestions${colors.reset}`);
+
+    console.log(`${colors.green}✓ Profile recovery tests completed${colors.reset}`);
+  }
+
+  /**
+   * Test fork detection and longest-valid-chain reorganization
+   */
+  async testForkResolution(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Fork Resolution...${colors.reset}`);
+
+    const student = await createProfile('fork_user');
+    const attest = (questionId: string) => createTransaction(
+      'Attestation',
+      { questionId, answerHash: hashMCQAnswer('B') },
+      student.pubkey,
+      student.privkey
+    );
+
+    // Both devices share the first block
+    const deviceA = new EnhancedBlockchain();
+    const deviceB = new EnhancedBlockchain();
+    await deviceA.addTransaction(await attest('fork_q1'));
+    await deviceA.minePendingTransactions();
+    await deviceB.loadChain(deviceA.getChain());
+
+    // Device A mines one block, device B mines two on the same parent
+    const orphanTx = await attest('fork_q2');
+    await deviceA.addTransaction(orphanTx);
+    await deviceA.minePendingTransactions();
+    await deviceB.addTransaction(await attest('fork_q3'));
+    await deviceB.minePendingTransactions();
+    await deviceB.addTransaction(await attest('fork_q4'));
+    await deviceB.minePendingTransactions();
+
+    if (deviceA.findForkPoint(deviceB.getChain()) !== 1) {
+      throw new Error('Fork point not detected at height 1');
+    }
+
+    const events: ReorgEvent[] = [];
+    deviceA.onReorg(event => { events.push(event); });
+
+    // The shorter branch must not replace the longer one
+    await deviceB.loadChain(deviceA.getChain());
+    if (deviceB.getChain().length !== 4) {
+      throw new Error('Lighter branch replaced the heavier chain');
+    }
+
+    // The heavier branch wins and the orphaned attestation returns to the pool
+    await deviceA.loadChain(deviceB.getChain());
+    if (deviceA.getLatestBlock().hash !== deviceB.getLatestBlock().hash) {
+      throw new Error('Device A did not adopt the heavier chain');
+    }
+    if (events.length !== 1 || events[0].removedBlocks.length !== 1 || events[0].addedBlocks.length !== 2) {
+      throw new Error('Reorg event missing or malformed');
+    }
+    if (!deviceA.getPendingTransactions().some(tx => tx.hash === orphanTx.hash)) {
+      throw new Error('Orphaned transaction was not returned to the pending pool');
+    }
+    console.log(`  ${colors.green}✓ Heavier branch adopted, orphaned transaction returned${colors.reset}`);
+
+    // Distributions were rebuilt from the new chain plus the pending pool
+    for (const questionId of ['fork_q1', 'fork_q2', 'fork_q3', 'fork_q4']) {
+      if (deviceA.getQuestionDistribution(questionId)?.totalAttestations !== 1) {
+        throw new Error(`Distribution for ${questionId} not re-applied after reorg`);
+      }
+    }
+    console.log(`  ${colors.green}✓ Distributions re-applied after reorg${colors.reset}`);
+
+    // Single blocks from a peer extend the chain through addBlock
+    await deviceB.addTransaction(await attest('fork_q5'));
+    const nextBlock = await deviceB.minePendingTransactions();
+    if (!nextBlock || !(await deviceA.addBlock(nextBlock)) || deviceA.getLatestBlock().hash !== nextBlock.hash) {
+      throw new Error('Peer block was not appended');
+    }
+    console.log(`  ${colors.green}✓ Peer block appended via addBlock${colors.reset}`);
+
+    // Transactions mined by another client that cannot be replayed are skipped and reported
+    const lenient = new Blockchain();
+    const mined: Transaction[] = [];
+    for (const data of [
+      { questionId: 'fork_q6', answerValue: 2 },
+      { questionId: 'fork_q6', answerHash: hashMCQAnswer('B') },
+      { questionId: 'fork_q7', answerHash: hashMCQAnswer('B') },
+      { questionId: 'fork_q8', answerHash: hashMCQAnswer('B') }
+    ]) {
+      const tx = await createTransaction('Attestation', data, student.pubkey, student.privkey);
+      await lenient.addTransaction(tx);
+      mined.push(tx);
+    }
+    await lenient.minePendingTransactions();
+    const reloaded = new EnhancedBlockchain();
+    const tracker = (reloaded as any).distributionTracker;
+    const addToHistory = tracker.addAttestationToHistory.bind(tracker);
+    tracker.addAttestationToHistory = (attestation: QuestionAttestation) => {
+      if (attestation.questionId === 'fork_q7') throw new Error('Simulated replay failure');
+      addToHistory(attestation);
+    };
+    const monitor = InvariantMonitor.getInstance();
+    monitor.clearViolationHistory();
+    const loaded = await reloaded.loadChain(lenient.getChain());
+    if (!loaded || reloaded.getChain().length !== 2 ||
+        reloaded.getQuestionDistribution('fork_q6')?.totalAttestations !== 1 ||
+        reloaded.getQuestionDistribution('fork_q8')?.totalAttestations !== 1) {
+      throw new Error('Chain with unreplayable transactions not loaded');
+    }
+    if (!monitor.getViolationHistory().some(v => v.context.transaction === mined[2].hash)) {
+      throw new Error('Replay failure not reported to the invariant monitor');
+    }
+    console.log(`  ${colors.green}✓ Unreplayable transactions are skipped and reported${colors.reset}`);
+
+    console.log(`${colors.green}✓ Fork resolution tests completed${colors.reset}`);
+  }
+
+  /**
+   * Test Merkle roots, inclusion proofs and legacy block migration
+   */
+  async testMerkleProofs(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Merkle Inclusion Proofs...${colors.reset}`);
+
+    const student = await createProfile('merkle_user');
+    const chain = new Blockchain();
+    const transactions: Transaction[] = [];
+    for (let i = 0; i < 5; i++) {
+      const tx = await createTransaction(
+        'Attestation',
+        { questionId: `merkle_q${i}`, answerHash: hashMCQAnswer('A') },
+        student.pubkey,
+        student.privkey
+      );
+      transactions.push(tx);
+      await chain.addTransaction(tx);
+    }
+    const block = await chain.minePendingTransactions();
+    if (!block || block.version !== BLOCK_VERSION || block.merkleRoot !== await computeMerkleRoot(transactions)) {
+      throw new Error('Mined block does not carry the expected Merkle root');
+    }
+
+    // Every transaction (odd count) has a verifiable proof
+    for (const tx of transactions) {
+      const proof = await chain.getInclusionProof(tx.hash);
+      if (!proof || !(await chain.verifyInclusionProof(proof))) {
+        throw new Error(`Inclusion proof failed for ${tx.hash}`);
+      }
+    }
+    console.log(`  ${colors.green}✓ Inclusion proofs verify for all transactions${colors.reset}`);
+
+    // Tampering with the proof or the block is detected
+    const proof = (await chain.getInclusionProof(transactions[2].hash))!;
+    const forged = { ...proof, txHash: transactions[3].hash };
+    if (await verifyInclusionProof(forged)) {
+      throw new Error('Forged proof verified');
+    }
+    // An inner node posing as a transaction (second preimage), or a padded path
+    const [sibling, ...upperPath] = (await chain.getInclusionProof(transactions[0].hash))!.path;
+    const innerNode = await sha256Hash(`\x01${await sha256Hash(`\x00${transactions[0].hash}`)}${sibling.hash}`);
+    const secondPreimage = { ...proof, txHash: innerNode, path: upperPath };
+    const padded = { ...proof, path: [...proof.path, proof.path[0]] };
+    if (await verifyInclusionProof(secondPreimage) || await chain.verifyInclusionProof(secondPreimage) ||
+        await chain.verifyInclusionProof(padded)) {
+      throw new Error('Inner node or padded path accepted as a proof');
+    }
+    const tampered = { ...block, transactions: transactions.slice(0, 4) };
+    if (await validateBlock(tampered, chain.getChain()[0])) {
+      throw new Error('Block with altered transactions passed validation');
+    }
+    console.log(`  ${colors.green}✓ Forged proofs and altered blocks rejected${colors.reset}`);
+
+    // Legacy v1 blocks stay valid and can be followed by v2 blocks
+    const mineLegacyBlock = async (prevHash: string, timestamp: number, txs: Transaction[]) => {
+      let nonce = 0;
+      let hash = '';
+      while (!hash.startsWith('00')) {
+        hash = await calculateBlockHash(prevHash, timestamp, txs, nonce++);
+      }
+      return { hash, prevHash, timestamp, nonce: nonce - 1, transactions: txs };
+    };
+    const genesis = chain.getChain()[0];
+    const legacyBlock = await mineLegacyBlock(genesis.hash, Date.now() - 1000, [transactions[0]]);
+    const { block: upgraded } = await mineBlock(legacyBlock.hash, [transactions[1]]);
+    const migrated = new Blockchain();
+    if (!(await migrated.loadChain([genesis, legacyBlock, upgraded]))) {
+      throw new Error('Mixed legacy/v2 chain failed to load');
+    }
+    const legacyProof = await migrated.getInclusionProof(transactions[0].hash);
+    if (!legacyProof || !(await migrated.verifyInclusionProof(legacyProof))) {
+      throw new Error('Inclusion proof failed for legacy block');
+    }
+    const downgraded = await mineLegacyBlock(upgraded.hash, upgraded.timestamp + 1, [transactions[2]]);
+    if (await validateBlock(downgraded, upgraded)) {
+      throw new Error('Block version downgrade was accepted');
+    }
+
+    // v3 blocks keep their Merkle roots from before domain separation
+    const timestamp = legacyBlock.timestamp + 1;
+    const merkleRoot = await computeMerkleRoot(transactions.slice(1, 3), false);
+    let nonce = 0;
+    let hash = '';
+    while (!meetsDifficulty(hash, 8)) {
+      hash = await calculateHeaderHash(DIFFICULTY_BLOCK_VERSION, legacyBlock.hash, timestamp, merkleRoot, nonce++, 8);
+    }
+    const v3Block = {
+      hash,
+      prevHash: legacyBlock.hash,
+      timestamp,
+      nonce: nonce - 1,
+      transactions: transactions.slice(1, 3),
+      version: DIFFICULTY_BLOCK_VERSION,
+      merkleRoot,
+      difficulty: 8
+    };
+    const { block: v4Block } = await mineBlock(v3Block.hash, [transactions[3]], {}, 8, timestamp + 1);
+    const v3Chain = new Blockchain();
+    const v3Proof = await v3Chain.loadChain([genesis, legacyBlock, v3Block, v4Block]) &&
+      await v3Chain.getInclusionProof(transactions[2].hash);
+    if (!v3Proof || !(await v3Chain.verifyInclusionProof(v3Proof))) {
+      throw new Error('v3 block or its inclusion proof no longer verifies');
+    }
+    console.log(`  ${colors.green}✓ Legacy blocks validate and migrate forward${colors.reset}`);
+
+    console.log(`${colors.green}✓ Merkle proof tests completed${colors.reset}`);
+  }
+
+  /**
+   * Test that signed transactions survive diff -> compress -> chunk -> reassemble -> merge
+   */
+  async testSyncRoundTrip(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Sync Round Trip Serialization...${colors.reset}`);
+
+    // Canonical form is independent of key order, undefined fields and -0
+    const canonicalA = canonicalStringify({ b: 1, a: { y: [1, undefined], x: -0 }, c: undefined });
+    const canonicalB = canonicalStringify({ a: { x: 0, y: [1, null] }, b: 1.0 });
+    if (canonicalA !== canonicalB || canonicalA !== '{"a":{"x":0,"y":[1,null]},"b":1}') {
+      throw new Error(`Canonical serialization mismatch: ${canonicalA} vs ${canonicalB}`);
+    }
+
+    const student = await createProfile('roundtrip_user');
+    const sign = (txType: 'CreateUser' | 'Attestation', data: any) =>
+      createTransaction(txType, data, student.pubkey, student.privkey);
+
+    const matrix: Array<{ name: string; tx: Transaction }> = [
+      { name: 'CreateUser', tx: await sign('CreateUser', { username: 'roundtrip_user', pubkey: student.pubkey }) },
+      { name: 'MCQ attestation', tx: await sign('Attestation', { questionId: 'rt_mcq', answerHash: hashMCQAnswer('C') }) },
+      { name: 'FRQ attestation', tx: await sign('Attestation', { confidence: 4, score: 3.0, answerText: 'p < 0.05', questionId: 'rt_frq' }) },
+      { name: 'Undefined fields', tx: await sign('Attestation', { questionId: 'rt_undef', answerHash: hashMCQAnswer('A'), answerText: undefined }) }
+    ];
+
+    // Rebuilding the payload in a different key order must not break the signature
+    for (const { name, tx } of matrix) {
+      const reordered: Transaction = {
+        data: Object.fromEntries(Object.entries(tx.data).reverse()) as any,
+        signature: tx.signature,
+        attesterPubkey: tx.attesterPubkey,
+        timestamp: tx.timestamp,
+        txType: tx.txType,
+        hash: tx.hash
+      };
+      (reordered.data as any).isMatch = undefined;
+      if (!(await validateTransaction(reordered))) {
+        throw new Error(`${name}: signature broke after key reordering`);
+      }
+    }
+    console.log(`  ${colors.green}✓ Signatures survive key reordering${colors.reset}`);
+
+    // Full pipeline through the sync modules
+    const sender = new EnhancedBlockchain();
+    for (const { tx } of matrix) {
+      await sender.addTransaction(tx);
+    }
+    await sender.minePendingTransactions();
+
+    const compressor = new Compressor();
+    const diff = new DiffExtractor(sender).extractDiff(0);
+    const chunks = compressor.chunk(compressor.compress(diff))
+      .map(chunk => compressor.decodeChunk(compressor.encodeChunk(chunk)))
+      .reverse();
+    const received = compressor.decompress(compressor.reassemble(chunks));
+
+    for (const tx of received.transactions) {
+      const name = matrix.find(entry => entry.tx.hash === tx.hash)?.name || tx.hash;
+      if (!(await validateTransaction(tx))) {
+        throw new Error(`${name}: signature broke after sync round trip`);
+      }
+    }
+
+    const receiver = new EnhancedBlockchain();
+    const result = await new StateMerger(receiver).merge(received);
+    if (result.addedTransactions !== matrix.length || result.conflicts.length > 0) {
+      throw new Error(`Merge accepted ${result.addedTransactions}/${matrix.length} transactions with ${result.conflicts.length} conflicts`);
+    }
+    console.log(`  ${colors.green}✓ ${matrix.length} transaction shapes survive diff → compress → chunk → reassemble → merge${colors.reset}`);
+
+    console.log(`${colors.green}✓ Sync round trip tests completed${colors.reset}`);
+  }
+
+  /**
+   * Test mining results, cancellation and restart on new transactions
+   */
+  async testMining(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Cancellable Mining...${colors.reset}`);
+
+    const student = await createProfile('mining_user');
+    const attest = (questionId: string) => createTransaction(
+      'Attestation',
+      { questionId, answerHash: hashMCQAnswer('D') },
+      student.pubkey,
+      student.privkey
+    );
+
+    // Node has no Web Worker, so this exercises the in-thread fallback
+    const tx1 = await attest('mining_q1');
+    const result = await mineBlock('00genesis', [tx1]);
+    if (result.hashes < 1 || result.hashrate < 0 || !(await validateBlock(result.block, new Blockchain().getLatestBlock()))) {
+      throw new Error('Mining result missing hash statistics or invalid');
+    }
+    console.log(`  ${colors.green}✓ Mined in ${result.hashes} hashes (${result.hashrate.toFixed(0)} H/s)${colors.reset}`);
+
+    // An aborted signal cancels mining and leaves the pool intact
+    const chain = new Blockchain();
+    await chain.addTransaction(tx1);
+    const controller = new AbortController();
+    controller.abort();
+    if ((await chain.minePendingTransactions({ signal: controller.signal })) !== null ||
+        chain.getPendingTransactions().length !== 1) {
+      throw new Error('Cancelled mining did not return null with the pool intact');
+    }
+    console.log(`  ${colors.green}✓ Cancellation leaves pending transactions in place${colors.reset}`);
+
+    // A transaction arriving mid-mining is either included or left pending, never lost
+    const tx2 = await attest('mining_q2');
+    const mining = chain.minePendingTransactions();
+    await chain.addTransaction(tx2);
+    const block = await mining;
+    const mined = new Set((block?.transactions || []).map(tx => tx.hash));
+    const pending = new Set(chain.getPendingTransactions().map(tx => tx.hash));
+    if (!mined.has(tx1.hash) || (mined.has(tx2.hash) === pending.has(tx2.hash))) {
+      throw new Error('Transaction lost or duplicated while mining restarted');
+    }
+    console.log(`  ${colors.green}✓ Mid-mining transaction ${mined.has(tx2.hash) ? 'included after restart' : 'kept pending'}${colors.reset}`);
+
+    console.log(`${colors.green}✓ Mining tests completed${colors.reset}`);
+  }
+
+  /**
+   * Test difficulty encoding, class policy enforcement, retargeting and work-based fork choice
+   */
+  async testDifficulty(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Proof-of-Work Difficulty...${colors.reset}`);
+
+    // Difficulty counts leading zero bits, not hex characters
+    const bitCases: Array<[string, number, boolean]> = [
+      ['00ff', 8, true], ['00ff', 9, false], ['07ff', 5, true], ['08ff', 5, false], ['0fff', 4, true], ['ffff', 0, true]
+    ];
+    for (const [hash, bits, expected] of bitCases) {
+      if (meetsDifficulty(hash, bits) !== expected) {
+        throw new Error(`meetsDifficulty(${hash}, ${bits}) should be ${expected}`);
+      }
+    }
+    console.log(`  ${colors.green}✓ Leading zero bits counted correctly${colors.reset}`);
+
+    const student = await createProfile('difficulty_user');
+    const attest = (questionId: string) => createTransaction(
+      'Attestation',
+      { questionId, answerHash: hashMCQAnswer('B') },
+      student.pubkey,
+      student.privkey
+    );
+
+    // A teacher's signed policy raises the bar from the block after the one recording it
+    const teacher = await createProfile('difficulty_teacher');
+    const setPolicy = (signer: { pubkey: string; privkey: string }, policy: Partial<DifficultyPolicy>) => createTransaction(
+      'SetDifficultyPolicy',
+      { classId: 'difficulty-class', policy: createDifficultyPolicy(policy) },
+      signer.pubkey,
+      signer.privkey
+    );
+    const chain = new Blockchain();
+    await chain.addTransaction(await createTransaction(
+      'CreateClass',
+      { classId: 'difficulty-class', name: 'Difficulty' },
+      teacher.pubkey,
+      teacher.privkey
+    ));
+    await chain.minePendingTransactions();
+    if (await chain.addTransaction(await setPolicy(student, { difficulty: 10 }))) {
+      throw new Error('Policy signed by someone other than the class creator was accepted');
+    }
+    if (await chain.addTransaction(await setPolicy(teacher, { difficulty: 30, maxDifficulty: 30 }))) {
+      throw new Error('Policy above the on-chain ceiling was accepted');
+    }
+    if (!(await chain.addTransaction(await setPolicy(teacher, { difficulty: 10 })))) {
+      throw new Error('Class creator could not set the difficulty policy');
+    }
+    const policyBlock = await chain.minePendingTransactions();
+    if (!policyBlock || policyBlock.difficulty !== DEFAULT_DIFFICULTY || chain.getNextDifficulty() !== 10) {
+      throw new Error('Policy should apply from the block after the one recording it');
+    }
+    await chain.addTransaction(await attest('difficulty_q1'));
+    const block = await chain.minePendingTransactions();
+    if (!block || block.difficulty !== 10 || !meetsDifficulty(block.hash, 10)) {
+      throw new Error('Mined block does not meet the policy difficulty');
+    }
+    if (await validateBlock({ ...block, difficulty: 12 }, chain.getChain()[0])) {
+      throw new Error('Block claiming a higher difficulty than it was mined at passed validation');
+    }
+    // Even stamped as early as the chain allows, an easy block is below the policy
+    const { block: easyBlock } = await mineBlock(block.hash, [await attest('difficulty_q2')], {}, 8, block.timestamp + 1);
+    if (await chain.addBlock(easyBlock)) {
+      throw new Error('Block below the class difficulty was accepted');
+    }
+    // Another device derives the same policy from the chain alone
+    const peer = new Blockchain();
+    if (!(await peer.loadChain(chain.getChain())) || peer.getNextDifficulty() !== 10 ||
+        peer.getDifficultyPolicy().difficulty !== 10) {
+      throw new Error('Peer did not derive the class policy from the chain');
+    }
+    let rejected = false;
+    try {
+      createDifficultyPolicy({ difficulty: 30, maxDifficulty: 20 });
+    } catch {
+      rejected = true;
+    }
+    if (!rejected) {
+      throw new Error('Out-of-range policy was accepted');
+    }
+    console.log(`  ${colors.green}✓ Class policy carried on chain, enforced and committed in the header${colors.reset}`);
+
+    // Adaptive retargeting follows the spacing of blocks mined under the policy
+    const policy = createDifficultyPolicy({ mode: 'adaptive', difficulty: 10, targetBlockTimeMs: 30000, retargetWindow: 4 });
+    const policyTx: Transaction = {
+      hash: 'policy',
+      txType: 'SetDifficultyPolicy',
+      timestamp: 0,
+      attesterPubkey: teacher.pubkey,
+      signature: '',
+      data: { classId: 'difficulty-class', policy }
+    };
+    const spaced = (spacingMs: number) => [0, 1, 2, 3, 4, 5].map(i => ({
+      hash: `h${i}`,
+      prevHash: i === 0 ? '0' : `h${i - 1}`,
+      timestamp: i === 0 ? 0 : 1000000 + i * spacingMs,
+      nonce: 0,
+      transactions: i === 1 ? [policyTx] : [],
+      version: BLOCK_VERSION,
+      difficulty: 10
+    }));
+    const fast = calculateRequiredDifficulty(spaced(1000));
+    const slow = calculateRequiredDifficulty(spaced(120000));
+    const steady = calculateRequiredDifficulty(spaced(30000));
+    if (fast !== 11 || slow !== 9 || steady !== 10) {
+      throw new Error(`Unexpected retarget results: fast=${fast} slow=${slow} steady=${steady}`);
+    }
+    if (calculateRequiredDifficulty(spaced(1000).slice(0, 3)) !== 10) {
+      throw new Error('Retarget counted blocks mined before the policy');
+    }
+    console.log(`  ${colors.green}✓ Adaptive retarget: fast→${fast}, steady→${steady}, slow→${slow} bits${colors.reset}`);
+
+    // Fork choice follows cumulative work: one 10-bit block outweighs two 8-bit blocks
+    const forked = new Blockchain();
+    await forked.addTransaction(await attest('difficulty_q3'));
+    await forked.minePendingTransactions();
+    await forked.addTransaction(await attest('difficulty_q4'));
+    await forked.minePendingTransactions();
+    const { block: heavy } = await mineBlock('00genesis', [await attest('difficulty_q5')], {}, 10);
+    await forked.addBlock(heavy);
+    const tip = forked.getLatestBlock();
+    if (tip.hash !== heavy.hash || getBlockDifficulty(tip) !== 10 || forked.getChainWork() !== 1024) {
+      throw new Error('Heavier single block did not win over the longer chain');
+    }
+    console.log(`  ${colors.green}✓ Heavier chain wins over longer chain (work ${forked.getChainWork()})${colors.reset}`);
+
+    console.log(`${colors.green}✓ Difficulty tests completed${colors.reset}`);
+  }
+
+  /**
+   * Test mempool dedupe, priority, expiry, rehydration and inclusion in sync diffs
+   */
+  async testMempool(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Persistent Mempool...${colors.reset}`);
+
+    const student = await createProfile('mempool_user');
+    const attest = (questionId: string) => createTransaction(
+      'Attestation',
+      { questionId, answerHash: hashMCQAnswer('C') },
+      student.pubkey,
+      student.privkey
+    );
+
+    // Simulate storage: the listener keeps a persisted copy of the pool
+    const chain = new EnhancedBlockchain();
+    let persisted: Transaction[] = [];
+    chain.onMempoolChange(() => {
+      persisted = chain.getPendingTransactions();
+    });
+    const persistedCount = () => persisted.length;
+
+    const tx1 = await attest('mempool_q1');
+    await chain.addTransaction(tx1);
+    if (await chain.addTransaction(tx1)) {
+      throw new Error('Duplicate pending transaction accepted');
+    }
+    const createUser = await createTransaction(
+      'CreateUser',
+      { username: student.username, pubkey: student.pubkey },
+      student.pubkey,
+      student.privkey
+    );
+    await chain.addTransaction(createUser);
+    if (chain.getPendingTransactions()[0].hash !== createUser.hash || persistedCount() !== 2) {
+      throw new Error('CreateUser not prioritized or pool not persisted');
+    }
+    console.log(`  ${colors.green}✓ Deduped by hash, CreateUser mined first, changes persisted${colors.reset}`);
+
+    // Unmined attestations travel in the sync diff
+    const diff = new DiffExtractor(chain).extractDiff(0);
+    if (!diff.transactions.some(tx => tx.hash === tx1.hash)) {
+      throw new Error('Pending transaction missing from sync diff');
+    }
+    console.log(`  ${colors.green}✓ Pending transactions included in sync diff${colors.reset}`);
+
+    // A fresh session rehydrates the pool, dropping anything mined meanwhile
+    await chain.minePendingTransactions();
+    const tx2 = await attest('mempool_q2');
+    await chain.addTransaction(tx2);
+    const stale = [tx1, tx2];
+    const reopened = new EnhancedBlockchain();
+    await reopened.loadChain(chain.getChain());
+    const restored = await reopened.restorePendingTransactions(stale);
+    if (restored !== 1 || reopened.getPendingTransactions()[0].hash !== tx2.hash || persistedCount() !== 1) {
+      throw new Error(`Rehydration restored ${restored} transactions; expected only the unmined one`);
+    }
+    console.log(`  ${colors.green}✓ Rehydration restores only unmined transactions${colors.reset}`);
+
+    // Expiry and size limits
+    const expired = await reopened.pruneExpiredTransactions(Date.now() + 8 * 24 * 60 * 60 * 1000);
+    if (expired.length !== 1 || reopened.getPendingTransactions().length !== 0) {
+      throw new Error('Expired transaction not pruned');
+    }
+    const shortLived = new Blockchain({ maxAgeMs: -1 });
+    if (await shortLived.addTransaction(await attest('mempool_q3'))) {
+      throw new Error('Expired transaction accepted');
+    }
+    const small = new Mempool({ maxSize: 2 });
+    const [a, b, c] = [await attest('mempool_q4'), await attest('mempool_q5'), await attest('mempool_q6')];
+    small.add(a);
+    small.add(b);
+    small.add(c);
+    const lowestPriority = [a, b, c].sort(compareTransactionPriority)[2];
+    if (small.size !== 2 || small.has(lowestPriority.hash)) {
+      throw new Error('Full pool did not evict its lowest-priority transaction');
+    }
+    console.log(`  ${colors.green}✓ Expired transactions pruned and pool size capped${colors.reset}`);
+
+    console.log(`${colors.green}✓ Mempool tests completed${colors.reset}`);
+  }
+
+  /**
+   * Test RotateKey/RevokeIdentity: one continuous identity across keys, retired keys rejected
+   */
+  async testKeyRotation(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Key Rotation...${colors.reset}`);
+
+    const oldKey = await createProfile('rotation_user');
+    const newKey = await createProfile('rotation_user');
+    const attest = (profile: typeof oldKey, questionId: string) => createTransaction(
+      'Attestation',
+      { questionId, answerHash: hashMCQAnswer('A') },
+      profile.pubkey,
+      profile.privkey
+    );
+
+    const chain = new EnhancedBlockchain();
+    await chain.addTransaction(await createTransaction(
+      'CreateUser',
+      { username: oldKey.username, pubkey: oldKey.pubkey },
+      oldKey.pubkey,
+      oldKey.privkey
+    ));
+    const earlyAttestation = await attest(oldKey, 'rotation_q1');
+    await chain.addTransaction(earlyAttestation);
+    await chain.minePendingTransactions();
+
+    // Rotation is signed by the old key and names the new one
+    const rotation = await createTransaction('RotateKey', { newPubkey: newKey.pubkey }, oldKey.pubkey, oldKey.privkey);
+    if (!(await chain.addTransaction(rotation)) || !(await chain.minePendingTransactions())) {
+      throw new Error('RotateKey transaction rejected');
+    }
+    if (!chain.hasUserWithPubkey(oldKey.pubkey) || !chain.hasUserWithPubkey(newKey.pubkey) ||
+        chain.resolveIdentity(newKey.pubkey) !== oldKey.pubkey ||
+        chain.getIdentity(oldKey.pubkey)?.currentPubkey !== newKey.pubkey) {
+      throw new Error('Old and new keys do not resolve to one identity');
+    }
+    console.log(`  ${colors.green}✓ Old and new keys resolve to one identity${colors.reset}`);
+
+    // The retired key can no longer sign; the new key inherits its rate limits
+    if (await chain.addTransaction(await attest(oldKey, 'rotation_q2'))) {
+      throw new Error('Retired key was able to attest');
+    }
+    if (await chain.addTransaction(await attest(newKey, 'rotation_q1'))) {
+      throw new Error('Key rotation reset the rate limit');
+    }
+    if (!(await chain.addTransaction(await attest(newKey, 'rotation_q3')))) {
+      throw new Error('New key could not attest');
+    }
+    console.log(`  ${colors.green}✓ Retired key rejected; rate limits follow the identity${colors.reset}`);
+
+    // Key changes from unregistered keys or onto taken keys are rejected
+    const stranger = await createProfile('rotation_stranger');
+    if (await chain.addTransaction(await createTransaction('RotateKey', { newPubkey: newKey.pubkey + 'x' }, stranger.pubkey, stranger.privkey)) ||
+        await chain.addTransaction(await createTransaction('RotateKey', { newPubkey: oldKey.pubkey }, newKey.pubkey, newKey.privkey))) {
+      throw new Error('Invalid key change accepted');
+    }
+    console.log(`  ${colors.green}✓ Key changes from unknown keys or onto used keys rejected${colors.reset}`);
+
+    // A block smuggling in a retired-key transaction fails chain validation
+    await chain.minePendingTransactions();
+    const tip = chain.getLatestBlock();
+    const { block: smuggled } = await mineBlock(tip.hash, [await attest(oldKey, 'rotation_q4')]);
+    if (await chain.addBlock(smuggled)) {
+      throw new Error('Block with a retired-key transaction accepted');
+    }
+    const replayed = new Blockchain();
+    if (!(await replayed.loadChain(chain.getChain())) || replayed.resolveIdentity(newKey.pubkey) !== oldKey.pubkey) {
+      throw new Error('Identity not rebuilt when loading the chain');
+    }
+    console.log(`  ${colors.green}✓ Blocks validated against identity history${colors.reset}`);
+
+    // Invariant and reputation views treat both keys as one student
+    const transactions = chain.getChain().flatMap(block => block.transactions);
+    const checker = InvariantChecker.getInstance();
+    const clean = checker.checkIdentityInvariant(transactions, [{ ...newKey }]);
+    const forged = checker.checkIdentityInvariant([...transactions, await attest(oldKey, 'rotation_q5')], [{ ...newKey }]);
+    if (!clean.passed || forged.passed) {
+      throw new Error('Identity invariant does not follow key rotation');
+    }
+    const merged = new ReputationCalculator().consolidateByIdentity(
+      new Map([[oldKey.pubkey, 2], [newKey.pubkey, 1.5]]),
+      pubkey => chain.resolveIdentity(pubkey)
+    );
+    if (merged.size !== 1 || merged.get(oldKey.pubkey) !== 3.5) {
+      throw new Error('Reputation not consolidated across keys');
+    }
+    console.log(`  ${colors.green}✓ Invariant checker and reputation follow the identity${colors.reset}`);
+
+    // Revocation without a successor ends the identity
+    const revoked = new Blockchain();
+    const solo = await createProfile('revoked_user');
+    await revoked.addTransaction(await createTransaction('CreateUser', { username: solo.username, pubkey: solo.pubkey }, solo.pubkey, solo.privkey));
+    await revoked.addTransaction(await createTransaction('RevokeIdentity', { reason: 'seed phrase leaked' }, solo.pubkey, solo.privkey));
+    if (revoked.getIdentity(solo.pubkey)?.currentPubkey !== null || await revoked.addTransaction(await attest(solo, 'rotation_q6'))) {
+      throw new Error('Revoked key still usable');
+    }
+    console.log(`  ${colors.green}✓ Revoked identity cannot sign further transactions${colors.reset}`);
+
+    console.log(`${colors.green}✓ Key rotation tests completed${colors.reset}`);
+  }
+
+  /**
+   * Test the incrementally maintained chain index
+   */
+  async testChainIndex(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Chain Index...${colors.reset}`);
+
+    const alice = await createProfile('index_alice');
+    const bob = await createProfile('index_bob');
+    const attest = (profile: typeof alice, questionId: string) => createTransaction(
+      'Attestation',
+      { questionId, answerHash: hashMCQAnswer('C') },
+      profile.pubkey,
+      profile.privkey
+    );
+    const register = (profile: typeof alice) => createTransaction(
+      'CreateUser',
+      { username: profile.username, pubkey: profile.pubkey },
+      profile.pubkey,
+      profile.privkey
+    );
+
+    const deviceA = new Blockchain();
+    await deviceA.addTransaction(await register(alice));
+    await deviceA.addTransaction(await register(bob));
+    await deviceA.addTransaction(await attest(alice, 'index_q1'));
+    await deviceA.addTransaction(await attest(bob, 'index_q1'));
+    const firstBlock = await deviceA.minePendingTransactions();
+    const cutoff = firstBlock!.transactions.reduce((max, tx) => Math.max(max, tx.timestamp), 0);
+    await deviceA.addTransaction(await attest(alice, 'index_q2'));
+    await deviceA.minePendingTransactions();
+
+    // Queries answer from the index rather than scanning blocks
+    if (deviceA.getAttestationsByQuestion('index_q1').length !== 2 ||
+        deviceA.getAttestationsByUser(alice.pubkey).length !== 2 ||
+        deviceA.getTransactionsSince(cutoff).some(tx => tx.timestamp <= cutoff) ||
+        deviceA.getTransactionsSince(0).length !== 5) {
+      throw new Error('Index queries returned wrong transactions');
+    }
+    if (deviceA.getUserByUsername('INDEX_ALICE')?.id !== alice.pubkey ||
+        deviceA.getUserByUsername('nobody') !== null ||
+        deviceA.getBlockByHash(firstBlock!.hash)?.hash !== firstBlock!.hash) {
+      throw new Error('Username or block lookup failed');
+    }
+    console.log(`  ${colors.green}✓ Attestation, timeline, username and block lookups${colors.reset}`);
+
+    // A reorg drops the orphaned block from the index and adds the new branch
+    const deviceB = new Blockchain();
+    await deviceB.loadChain(deviceA.getChain().slice(0, 2));
+    await deviceB.addTransaction(await attest(bob, 'index_q3'));
+    await deviceB.minePendingTransactions();
+    await deviceB.addTransaction(await attest(bob, 'index_q4'));
+    await deviceB.minePendingTransactions();
+    if (!(await deviceA.loadChain(deviceB.getChain()))) {
+      throw new Error('Heavier branch not adopted');
+    }
+    const minedOnA = deviceA.getChain().flatMap(block => block.transactions);
+    if (deviceA.getAttestationsByQuestion('index_q2').length !== 0 ||
+        deviceA.getAttestationsByQuestion('index_q3').length !== 1 ||
+        deviceA.getAttestationsByUser(bob.pubkey).length !== 3 ||
+        deviceA.getTransactionsSince(0).length !== minedOnA.length ||
+        !deviceA.getPendingTransactions().some(tx => (tx.data as AttestationData).questionId === 'index_q2')) {
+      throw new Error('Index not updated on reorg');
+    }
+    console.log(`  ${colors.green}✓ Index follows chain reorganizations${colors.reset}`);
+
+    // The pattern detector reads per-user history from the index
+    const detector = new PatternDetector(deviceA.getChainIndex());
+    const fromIndex = detector.detectGamingStrategies(bob.pubkey);
+    const fromHistory = detector.detectGamingStrategies(bob.pubkey, minedOnA);
+    if (fromIndex.riskScore !== fromHistory.riskScore) {
+      throw new Error('Pattern detector disagrees between index and history');
+    }
+    console.log(`  ${colors.green}✓ Pattern detector reads from the index${colors.reset}`);
+
+    console.log(`${colors.green}✓ Chain index tests completed${colors.reset}`);
+  }
+
+  /**
+   * Test signed checkpoints and snapshot-based loading
+   */
+  async testCheckpoints(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Checkpoints...${colors.reset}`);
+
+    const alice = await createProfile('checkpoint_alice');
+    const bob = await createProfile('checkpoint_bob');
+    const attest = (profile: typeof alice, questionId: string, choice: string) => createTransaction(
+      'Attestation',
+      { questionId, answerHash: hashMCQAnswer(choice) },
+      profile.pubkey,
+      profile.privkey
+    );
+
+    const device = new EnhancedBlockchain();
+    await device.addTransaction(await attest(alice, 'checkpoint_q1', 'A'));
+    await device.minePendingTransactions();
+    await device.addTransaction(await attest(bob, 'checkpoint_q1', 'A'));
+    await device.minePendingTransactions();
+    await device.addTransaction(await attest(alice, 'checkpoint_q2', 'B'));
+    const pending = await attest(bob, 'checkpoint_q3', 'C');
+    await device.addTransaction(pending);
+
+    // The snapshot covers mined blocks only, even with attestations pending
+    const checkpoint = await device.createCheckpoint(alice.pubkey, alice.privkey);
+    const snapshot = checkpoint.state as ConsensusState;
+    if (checkpoint.height !== 2 || checkpoint.tipHash !== device.getLatestBlock().hash ||
+        snapshot.distributions.distributions.some(([questionId]) => questionId !== 'checkpoint_q1') ||
+        device.getQuestionDistribution('checkpoint_q3')?.totalAttestations !== 1) {
+      throw new Error('Checkpoint captured the wrong state');
+    }
+    console.log(`  ${colors.green}✓ Checkpoint captures state of mined blocks only${colors.reset}`);
+
+    await device.minePendingTransactions();
+    const blocks = device.getChain();
+
+    // A trusted checkpoint is adopted and blocks after it are replayed on top of its state
+    const restarted = new EnhancedBlockchain();
+    if (!(await restarted.loadChain(blocks, checkpoint, [alice.pubkey])) ||
+        restarted.getCheckpoint()?.tipHash !== checkpoint.tipHash) {
+      throw new Error('Trusted checkpoint not used on load');
+    }
+    for (const [questionId, count] of [['checkpoint_q1', 2], ['checkpoint_q2', 1], ['checkpoint_q3', 1]] as const) {
+      if (restarted.getQuestionDistribution(questionId)?.totalAttestations !== count) {
+        throw new Error(`Distribution for ${questionId} not restored from checkpoint`);
+      }
+    }
+    console.log(`  ${colors.green}✓ Startup restores the snapshot and replays later blocks${colors.reset}`);
+
+    // Checkpoints from unknown signers, with edited state or for another chain are ignored
+    const forged = { ...checkpoint, state: { ...snapshot, reputations: [[alice.pubkey, 100]] } };
+    const untrusted = new EnhancedBlockchain();
+    const edited = new EnhancedBlockchain();
+    if (!(await untrusted.loadChain(blocks, checkpoint, [bob.pubkey])) || untrusted.getCheckpoint() !== null ||
+        !(await edited.loadChain(blocks, forged, [alice.pubkey])) || edited.getCheckpoint() !== null) {
+      throw new Error('Untrusted checkpoint was adopted');
+    }
+    const mismatched = { ...checkpoint, tipHash: blocks[1].hash };
+    if (await verifyCheckpointSignature(mismatched) || checkpointMatchesChain(mismatched, blocks)) {
+      throw new Error('Checkpoint for a different tip accepted');
+    }
+    console.log(`  ${colors.green}✓ Unknown signers and edited snapshots are ignored${colors.reset}`);
+
+    // Blocks below the checkpoint are trusted on load; full re-verify catches tampering
+    const tampered = blocks.map(block => ({ ...block, transactions: [...block.transactions] }));
+    tampered[1].transactions[0] = { ...tampered[1].transactions[0], timestamp: tampered[1].transactions[0].timestamp + 1 };
+    if (await new Blockchain().loadChain(tampered)) {
+      throw new Error('Tampered chain passed full validation');
+    }
+    const trusting = new EnhancedBlockchain();
+    if (!(await trusting.loadChain(tampered, checkpoint, [alice.pubkey]))) {
+      throw new Error('Checkpoint load re-verified blocks below the checkpoint');
+    }
+    const monitor = InvariantMonitor.getInstance();
+    monitor.startMonitoring(trusting, { alertOnViolation: false, checkInterval: 60 * 60 * 1000 });
+    monitor.clearViolationHistory();
+    const reverified = await monitor.runFullReverify();
+    monitor.stopMonitoring();
+    if (reverified || !monitor.getViolationHistory().some(v => v.type === InvariantType.PERSISTENCE_INTEGRITY)) {
+      throw new Error('Full re-verify missed tampering below the checkpoint');
+    }
+    if (!(await restarted.verifyFullChain()) || restarted.getCheckpoint() !== null ||
+        restarted.getQuestionDistribution('checkpoint_q1')?.totalAttestations !== 2) {
+      throw new Error('Full re-verify did not rebuild state from genesis');
+    }
+    console.log(`  ${colors.green}✓ Full re-verify from the invariant monitor catches tampering${colors.reset}`);
+
+    console.log(`${colors.green}✓ Checkpoint tests completed${colors.reset}`);
+  }
+
+  /**
+   * Test passphrase-encrypted keys and the unlock session
+   */
+  async testKeystore(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Keystore...${colors.reset}`);
+
+    const profile = await createProfile('keystore_user');
+    const secrets = { privkey: profile.privkey, seedphrase: profile.seedphrase };
+    const iterations = 1000; // Keep the test fast; production uses the default
+
+    // Secrets round-trip under the right passphrase and pubkey only
+    const encrypted = await encryptSecrets(secrets, 'correct horse', profile.pubkey, iterations);
+    const stored = JSON.stringify(encrypted);
+    if (stored.includes(profile.privkey) || stored.includes(profile.seedphrase.split(' ')[0] + ' ')) {
+      throw new Error('Encrypted record leaks plaintext secrets');
+    }
+    const decrypted = await decryptSecrets(encrypted, 'correct horse', profile.pubkey);
+    if (decrypted.privkey !== profile.privkey || decrypted.seedphrase !== profile.seedphrase) {
+      throw new Error('Secrets did not round-trip');
+    }
+    const rejects = async (attempt: () => Promise<unknown>): Promise<boolean> => {
+      try {
+        await attempt();
+        return false;
+      } catch {
+        return true;
+      }
+    };
+    if (!(await rejects(() => decryptSecrets(encrypted, 'wrong horse', profile.pubkey))) ||
+        !(await rejects(() => decryptSecrets(encrypted, 'correct horse', profile.pubkey + 'x'))) ||
+        !(await rejects(() => encryptSecrets(secrets, 'short', profile.pubkey, iterations)))) {
+      throw new Error('Wrong passphrase, swapped profile or short passphrase accepted');
+    }
+    if (serializeProfile(profile).includes(profile.privkey) || serializeProfile(profile).includes(profile.seedphrase)) {
+      throw new Error('serializeProfile emits secrets');
+    }
+    console.log(`  ${colors.green}✓ Private key and seed encrypted under the passphrase${colors.reset}`);
+
+    // Signing takes the key from the unlocked session
+    const data = { questionId: 'keystore_q1', answerHash: hashMCQAnswer('A') };
+    keySession.unlock(profile.pubkey, decrypted.privkey);
+    const signed = await createTransaction('Attestation', data, profile.pubkey);
+    if (!(await validateTransaction(signed))) {
+      throw new Error('Transaction signed from the session is invalid');
+    }
+    const locks: string[][] = [];
+    const unsubscribe = keySession.onLock(pubkeys => { locks.push(pubkeys); });
+    const lockCount = () => locks.length;
+    keySession.lock(profile.pubkey);
+    if (!(await rejects(() => createTransaction('Attestation', data, profile.pubkey))) || lockCount() !== 1) {
+      throw new Error('Locked profile could still sign');
+    }
+    console.log(`  ${colors.green}✓ createTransaction signs only while the profile is unlocked${colors.reset}`);
+
+    // Sessions lock themselves after the idle timeout; use restarts the countdown
+    keySession.setIdleTimeout(200);
+    keySession.unlock(profile.pubkey, decrypted.privkey);
+    await new Promise(resolve => setTimeout(resolve, 120));
+    keySession.requireKey(profile.pubkey);
+    await new Promise(resolve => setTimeout(resolve, 120));
+    const stillUnlocked = keySession.isUnlocked(profile.pubkey);
+    await new Promise(resolve => setTimeout(resolve, 150));
+    const lockedAfterIdle = !keySession.isUnlocked(profile.pubkey);
+    keySession.setIdleTimeout(DEFAULT_IDLE_TIMEOUT_MS);
+    unsubscribe();
+    if (!stillUnlocked || !lockedAfterIdle || lockCount() !== 2) {
+      throw new Error('Idle timeout did not lock the session');
+    }
+    console.log(`  ${colors.green}✓ Session locks after the idle timeout${colors.reset}`);
+
+    console.log(`${colors.green}✓ Keystore tests completed${colors.reset}`);
+  }
+
+  /**
+   * Test switching between profiles on one device
+   */
+  async testProfileSessions(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Profile Switching...${colors.reset}`);
+
+    const alice = await createProfile('switch_alice');
+    const bob = await createProfile('switch_bob');
+    const changes: Array<[string | null, string | null]> = [];
+    const unsubscribe = onProfileSessionChange((next, previous) => { changes.push([next, previous]); });
+    const limiter = new EnhancedRateLimiter();
+
+    // Per-profile stores get distinct keys; nobody signed in means the guest namespace
+    endProfileSession();
+    if (scopedStorageKey('quizProgress', alice.pubkey) === scopedStorageKey('quizProgress', bob.pubkey) ||
+        scopedStorageKey('quizProgress') === scopedStorageKey('quizProgress', alice.pubkey)) {
+      throw new Error('Profiles share a storage key');
+    }
+    console.log(`  ${colors.green}✓ Local stores are namespaced per profile${colors.reset}`);
+
+    // Switching locks the previous key and moves every store to the new namespace
+    beginProfileSession(alice.pubkey, alice.privkey);
+    limiter.recordAttestation(alice.pubkey, 'switch_q1');
+    beginProfileSession(bob.pubkey, bob.privkey);
+    const data = { questionId: 'switch_q1', answerHash: hashMCQAnswer('B') };
+    const signsAsAlice = await createTransaction('Attestation', data, alice.pubkey).then(() => true, () => false);
+    if (signsAsAlice || !keySession.isUnlocked(bob.pubkey) || getActiveProfileNamespace() !== bob.pubkey) {
+      throw new Error('Previous profile still active after switching');
+    }
+    const last = changes[changes.length - 1];
+    if (last[0] !== bob.pubkey || last[1] !== alice.pubkey) {
+      throw new Error('Session listeners did not see the switch');
+    }
+    if (limiter.getStatistics().totalEntries !== 0) {
+      throw new Error('Rate limits from the previous profile are visible after switching');
+    }
+    console.log(`  ${colors.green}✓ Switching tears down the previous session${colors.reset}`);
+
+    // Signing out leaves no key unlocked and no profile namespace active
+    endProfileSession();
+    if (keySession.isUnlocked(bob.pubkey) || getActiveProfileNamespace() !== null) {
+      throw new Error('Sign-out left a session behind');
+    }
+    console.log(`  ${colors.green}✓ Sign-out locks keys and clears the namespace${colors.reset}`);
+
+    limiter.destroy();
+    unsubscribe();
+    console.log(`${colors.green}✓ Profile switching tests completed${colors.reset}`);
+  }
+
+  /**
+   * Test k-of-n seed phrase recovery shares
+   */
+  async testRecoveryShares(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Recovery Shares...${colors.reset}`);
+
+    const profile = await createProfile('shares_user');
+    const shares = await splitSeedphrase(profile.seedphrase, 3, 5);
+    const rejects = (fn: () => Promise<unknown>) => fn().then(() => false, () => true);
+
+    // Every 3-share subset rebuilds the seed
+    for (let a = 0; a < 5; a++) {
+      for (let b = a + 1; b < 5; b++) {
+        for (let c = b + 1; c < 5; c++) {
+          if (await combineShares([shares[c], shares[a], shares[b]]) !== profile.seedphrase) {
+            throw new Error(`Shares ${a + 1},${b + 1},${c + 1} did not rebuild the seed`);
+          }
+        }
+      }
+    }
+    console.log(`  ${colors.green}✓ Any 3 of 5 shares rebuild the seed phrase${colors.reset}`);
+
+    // Too few, duplicated, mixed or damaged shares are refused
+    const otherSet = await splitSeedphrase(profile.seedphrase, 3, 5);
+    const damaged = { ...shares[2], data: (shares[2].data[0] === '0' ? '1' : '0') + shares[2].data.slice(1) };
+    if (!(await rejects(() => combineShares(shares.slice(0, 2)))) ||
+        !(await rejects(() => combineShares([shares[0], shares[0], shares[1]]))) ||
+        !(await rejects(() => combineShares([shares[0], shares[1], otherSet[2]]))) ||
+        !(await rejects(() => combineShares([shares[0], shares[1], damaged]))) ||
+        !(await rejects(() => splitSeedphrase(profile.seedphrase, 1, 3)))) {
+      throw new Error('Invalid share combination accepted');
+    }
+    console.log(`  ${colors.green}✓ Too few, mixed and damaged shares are rejected${colors.reset}`);
+
+    // QR text round-trips and feeds profile recovery
+    const codes = shares.map(encodeShare);
+    const recovered = await recoverProfileFromShares('shares_user', [codes[4], codes[1], codes[3]].map(decodeShare));
+    if (recovered.pubkey !== profile.pubkey || recovered.privkey !== profile.privkey) {
+      throw new Error('Profile recovered from shares has different keys');
+    }
+    console.log(`  ${colors.green}✓ Scanned shares recover the original profile${colors.reset}`);
+
+    console.log(`${colors.green}✓ Recovery share tests completed${colors.reset}`);
+  }
+
+  /**
+   * Test PIN-protected profile transfer envelopes
+   */
+  async testProfileTransfer(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Profile Transfer...${colors.reset}`);
+
+    const profile = await createProfile('transfer_user');
+    const pin = generateTransferPin();
+    const now = Date.now();
+    const envelope = await createTransferEnvelope(profile, pin, 60000, now);
+    const rejects = (fn: () => Promise<unknown>) => fn().then(() => false, () => true);
+
+    // The envelope survives QR chunking and opens with the PIN
+    const compressor = new Compressor();
+    const scanned = compressor
+      .chunk(encodeTransferEnvelope(envelope), envelope.sessionId)
+      .map(chunk => compressor.decodeChunk(compressor.encodeChunk(chunk)));
+    const received = decodeTransferEnvelope(compressor.reassemble(scanned));
+    const opened = await openTransferEnvelope(received, pin, now + 1000);
+    if (opened.pubkey !== profile.pubkey || opened.privkey !== profile.privkey || opened.seedphrase !== profile.seedphrase) {
+      throw new Error('Transferred profile differs from the original');
+    }
+    if (encodeTransferEnvelope(envelope).includes(profile.seedphrase) || encodeTransferEnvelope(envelope).includes(profile.privkey)) {
+      throw new Error('Transfer envelope leaks secrets');
+    }
+    console.log(`  ${colors.green}✓ Profile opens on the receiving side with the PIN${colors.reset}`);
+
+    // Wrong PIN, expired session, extended expiry and weak PIN are all refused
+    const wrongPin = pin === '000000' ? '111111' : '000000';
+    if (!(await rejects(() => openTransferEnvelope(received, wrongPin, now + 1000))) ||
+        !(await rejects(() => openTransferEnvelope(received, pin, now + 60000))) ||
+        !(await rejects(() => openTransferEnvelope({ ...received, expiresAt: now + 3600000 }, pin, now + 120000))) ||
+        !(await rejects(() => createTransferEnvelope(profile, '123', 60000, now)))) {
+      throw new Error('Invalid transfer accepted');
+    }
+    console.log(`  ${colors.green}✓ Wrong PIN, expired or altered sessions are rejected${colors.reset}`);
+
+    console.log(`${colors.green}✓ Profile transfer tests completed${colors.reset}`);
+  }
+
+  /**
+   * Test ProfileUpdate: validation, chain-ordered name conflicts, key rotation
+   */
+  async testDisplayProfiles(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Display Profiles...${colors.reset}`);
+
+    const alice = await createProfile('dp_alice');
+    const bob = await createProfile('dp_bob');
+    const register = (profile: typeof alice) => createTransaction(
+      'CreateUser',
+      { username: profile.username, pubkey: profile.pubkey },
+      profile.pubkey,
+      profile.privkey
+    );
+    const update = (profile: typeof alice, data: object) =>
+      createTransaction('ProfileUpdate', data, profile.pubkey, profile.privkey);
+
+    // Payloads are checked before they reach the chain
+    const invalid = [{}, { displayName: '  ' }, { displayName: 'Sam #1' }, { avatar: 'ab' }, { tags: ['period 3!'] }];
+    for (const data of invalid) {
+      if (validateProfileUpdateData(await update(alice, data)) === null) {
+        throw new Error(`Invalid ProfileUpdate accepted: ${JSON.stringify(data)}`);
+      }
+    }
+    if (validateProfileUpdateData(await update(alice, { displayName: 'Sam', avatar: '🦊', tags: ['Period 3'] })) !== null) {
+      throw new Error('Valid ProfileUpdate rejected');
+    }
+    console.log(`  ${colors.green}✓ Empty updates, reserved characters and non-emoji avatars rejected${colors.reset}`);
+
+    // The earlier claim keeps a name whichever order a device learns about them in
+    const chain = new Blockchain();
+    const mine = async (tx: Transaction) => {
+      if (!(await chain.addTransaction(tx)) || !(await chain.minePendingTransactions())) {
+        throw new Error(`${tx.txType} transaction rejected`);
+      }
+    };
+    await mine(await register(alice));
+    await mine(await register(bob));
+    await mine(await update(alice, { displayName: 'Sam', avatar: '🦊' }));
+    await mine(await update(bob, { displayName: ' sam ' }));
+    if (chain.getDisplayName(alice.pubkey) !== 'Sam' ||
+        chain.getDisplayName(bob.pubkey) !== `sam #${identitySuffix(bob.pubkey)}` ||
+        chain.getDisplayProfile(alice.pubkey)?.avatar !== '🦊') {
+      throw new Error('Name conflict not resolved in chain order');
+    }
+    const replayed = new Blockchain();
+    if (!(await replayed.loadChain(chain.getChain())) ||
+        replayed.getDisplayName(bob.pubkey) !== chain.getDisplayName(bob.pubkey)) {
+      throw new Error('Display names differ after replaying the chain');
+    }
+    console.log(`  ${colors.green}✓ Later claimant of a taken name gets a stable suffix${colors.reset}`);
+
+    // Renaming releases the name to the next claimant
+    await mine(await update(alice, { displayName: 'Samantha' }));
+    if (chain.getDisplayName(alice.pubkey) !== 'Samantha' || chain.getDisplayName(bob.pubkey) !== 'sam') {
+      throw new Error('Rename did not release the old name');
+    }
+    console.log(`  ${colors.green}✓ Renaming releases the old name${colors.reset}`);
+
+    // Updates signed after a key rotation apply to the same profile
+    const rotated = await createProfile('dp_alice');
+    await mine(await createTransaction('RotateKey', { newPubkey: rotated.pubkey }, alice.pubkey, alice.privkey));
+    await mine(await update(rotated, { tags: ['Period 3'] }));
+    const profile = chain.getDisplayProfile(rotated.pubkey);
+    if (profile?.identityId !== alice.pubkey || profile.displayName !== 'Samantha' || profile.tags[0] !== 'Period 3') {
+      throw new Error('ProfileUpdate from a rotated key did not reach the identity');
+    }
+    if (await chain.addTransaction(await update(alice, { displayName: 'Hijack' }))) {
+      throw new Error('Retired key was able to update the profile');
+    }
+    const stranger = await createProfile('dp_stranger');
+    if (await chain.addTransaction(await update(stranger, { displayName: 'Ghost' }))) {
+      throw new Error('Unregistered key was able to update a profile');
+    }
+    console.log(`  ${colors.green}✓ Profile follows the identity across key rotation${colors.reset}`);
+
+    // A pending key rotation does not show until it is mined
+    const next = await createProfile('dp_alice');
+    await chain.addTransaction(await createTransaction('RotateKey', { newPubkey: next.pubkey }, rotated.pubkey, rotated.privkey));
+    if (chain.getDisplayProfile(next.pubkey) !== null || chain.getDisplayName(rotated.pubkey) !== 'Samantha') {
+      throw new Error('Pending identity change shown before it was mined');
+    }
+    await chain.minePendingTransactions();
+    if (chain.getDisplayProfile(next.pubkey)?.identityId !== alice.pubkey) {
+      throw new Error('Mined key rotation not shown');
+    }
+    console.log(`  ${colors.green}✓ Only mined identity changes are shown${colors.reset}`);
+
+    console.log(`${colors.green}✓ Display profile tests completed${colors.reset}`);
+  }
+
+  /**
+   * Test CreateClass namespaces: per-class consensus and sync on one chain
+   */
+  async testClassNamespaces(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Class Namespaces...${colors.reset}`);
+
+    const chain = new EnhancedBlockchain();
+    const teacher = await createProfile('class_teacher');
+    const createClass = (classId: string, name: string) =>
+      createTransaction('CreateClass', { classId, name }, teacher.pubkey, teacher.privkey);
+    const join = async (username: string, classId?: string) => {
+      const profile = await createProfile(username);
+      const data = { username, pubkey: profile.pubkey, ...(classId ? { classId } : {}) };
+      const added = await chain.addTransaction(await createTransaction('CreateUser', data, profile.pubkey, profile.privkey));
+      return { profile, added };
+    };
+
+    // Class ids are unique and well-formed; students can only join existing classes
+    if (!(await chain.addTransaction(await createClass('period-1', 'AP Stats P1'))) ||
+        !(await chain.addTransaction(await createClass('period-2', 'AP Stats P2')))) {
+      throw new Error('CreateClass rejected');
+    }
+    if (await chain.addTransaction(await createClass('period-1', 'Duplicate')) ||
+        await chain.addTransaction(await createClass('Period 3', 'Bad id')) ||
+        (await join('class_lost', 'period-9')).added) {
+      throw new Error('Invalid class transaction accepted');
+    }
+    console.log(`  ${colors.green}✓ Duplicate, malformed and unknown class ids rejected${colors.reset}`);
+
+    // Each section answers differently; one attestation names its class explicitly
+    const attest = (profile: typeof teacher, choice: string, classId?: string) => createTransaction(
+      'Attestation',
+      { questionId: 'class_q1', answerHash: hashMCQAnswer(choice), ...(classId ? { classId } : {}) },
+      profile.pubkey,
+      profile.privkey
+    );
+    const period1 = await Promise.all(['class_a1', 'class_a2', 'class_a3'].map(name => join(name, 'period-1')));
+    const period2 = await Promise.all(['class_b1', 'class_b2', 'class_b3'].map(name => join(name, 'period-2')));
+    for (const { profile } of period1) {
+      await chain.addTransaction(await attest(profile, 'A'));
+    }
+    for (const [i, { profile }] of period2.entries()) {
+      await chain.addTransaction(await attest(profile, 'B', i === 0 ? 'period-2' : undefined));
+    }
+    if (await chain.addTransaction(await attest(period1[0].profile, 'B', 'period-2'))) {
+      throw new Error('Student attested into another class');
+    }
+
+    const p1 = chain.getQuestionDistribution('class_q1', 'period-1') as MCQDistribution;
+    const p2 = chain.getQuestionDistribution('class_q1', 'period-2') as MCQDistribution;
+    const all = chain.getQuestionDistribution('class_q1') as MCQDistribution;
+    if (p1?.choices.A !== 3 || p1.choices.B !== 0 || p1.convergence !== 1 ||
+        p2?.choices.B !== 3 || p2.choices.A !== 0 || all?.totalAttestations !== 6) {
+      throw new Error('Class distributions are mixed');
+    }
+    if (chain.getConsensusStats('period-1').totalAttestations !== 3) {
+      throw new Error('Class statistics include other classes');
+    }
+    console.log(`  ${colors.green}✓ Each class has its own consensus on the shared chain${colors.reset}`);
+
+    // A class-scoped diff carries only that class's transactions
+    const diff = new DiffExtractor(chain).extractDiff(0, 'period-2');
+    const period2Keys = new Set(period2.map(({ profile }) => profile.pubkey));
+    const foreign = diff.transactions.filter(tx =>
+      tx.txType === 'CreateClass'
+        ? (tx.data as { classId: string }).classId !== 'period-2'
+        : tx.txType === 'CreateUser'
+          ? (tx.data as CreateUserData).classId !== 'period-2'
+          : !period2Keys.has(tx.attesterPubkey));
+    if (diff.classId !== 'period-2' || diff.transactions.length !== 7 || foreign.length > 0) {
+      throw new Error('Class diff includes transactions from other classes');
+    }
+    console.log(`  ${colors.green}✓ Class-scoped sync diff excludes other classes${colors.reset}`);
+
+    // Class views survive export/import and a rebuild from the chain
+    const tracker = new DistributionTracker();
+    tracker.import(JSON.parse(JSON.stringify(chain.exportState().distributions)));
+    await chain.minePendingTransactions();
+    const replayed = new EnhancedBlockchain();
+    await replayed.loadChain(chain.getChain());
+    const rebuilt = replayed.getQuestionDistribution('class_q1', 'period-1') as MCQDistribution;
+    if ((tracker.getDistribution('class_q1', 'period-2') as MCQDistribution)?.choices.B !== 3 ||
+        rebuilt?.choices.A !== 3 || replayed.getClassOf(period2[1].profile.pubkey) !== 'period-2') {
+      throw new Error('Class distributions lost on export or replay');
+    }
+    console.log(`  ${colors.green}✓ Class views restored from exports and rebuilt from the chain${colors.reset}`);
+
+    console.log(`${colors.green}✓ Class namespace tests completed${colors.reset}`);
+  }
+
+  /**
+   * Test AmendAttestation/RetractAttestation within the grace window
+   */
+  async testAttestationAmendments(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Attestation Amendments...${colors.reset}`);
+
+    const chain = new EnhancedBlockchain();
+    const students = await Promise.all(['amend_u1', 'amend_u2', 'amend_u3'].map(name => createProfile(name)));
+    for (const student of students) {
+      await chain.addTransaction(await createTransaction(
+        'CreateUser',
+        { username: student.username, pubkey: student.pubkey },
+        student.pubkey,
+        student.privkey
+      ));
+    }
+    const [u1, u2, u3] = students;
+    const attest = async (student: typeof u1, choice: string) => {
+      const tx = (await chain.createMCQAttestation('amend_q1', choice, student.pubkey, student.privkey))!;
+      if (!(await chain.addTransaction(tx))) throw new Error(`Attestation by ${student.username} rejected`);
+      return tx;
+    };
+    const revise = async (student: typeof u1, txType: 'AmendAttestation' | 'RetractAttestation', data: object) =>
+      chain.addTransaction(await createTransaction(txType, data, student.pubkey, student.privkey));
+    const choices = () => (chain.getQuestionDistribution('amend_q1') as MCQDistribution).choices;
+
+    await attest(u1, 'A');
+    const second = await attest(u2, 'A');
+    const misclick = await attest(u3, 'B');
+
+    // An amendment moves the vote instead of adding one
+    if (!(await revise(u3, 'AmendAttestation', { attestationHash: misclick.hash, answerHash: hashMCQAnswer('A') }))) {
+      throw new Error('Amendment rejected');
+    }
+    const amended = chain.getQuestionDistribution('amend_q1') as MCQDistribution;
+    if (amended.choices.A !== 3 || amended.choices.B !== 0 || amended.totalAttestations !== 3 ||
+        amended.convergence !== 1) {
+      throw new Error('Amendment did not replace the earlier answer');
+    }
+    console.log(`  ${colors.green}✓ Amendment replaces the earlier answer in the distribution${colors.reset}`);
+
+    // A retraction withdraws the vote and frees the rate limit
+    if (!(await revise(u2, 'RetractAttestation', { attestationHash: second.hash }))) {
+      throw new Error('Retraction rejected');
+    }
+    if (choices().A !== 2 || chain.getRevisionDeadline(second.hash) !== null) {
+      throw new Error('Retraction did not remove the answer');
+    }
+    await attest(u2, 'C');
+    if (choices().C !== 1) {
+      throw new Error('Re-attestation after retraction not counted');
+    }
+    console.log(`  ${colors.green}✓ Retraction withdraws the answer and frees the rate limit${colors.reset}`);
+
+    // Only the original attester, once, and only within the window
+    if (await revise(u1, 'RetractAttestation', { attestationHash: misclick.hash }) ||
+        await revise(u2, 'AmendAttestation', { attestationHash: second.hash, answerHash: hashMCQAnswer('B') }) ||
+        await revise(u3, 'AmendAttestation', { attestationHash: misclick.hash, answerText: 'not an MCQ answer' }) ||
+        await revise(u3, 'RetractAttestation', { attestationHash: 'missing' })) {
+      throw new Error('Invalid revision accepted');
+    }
+    const target = revisionTargetFor(misclick, u3.pubkey);
+    const late = { ...misclick, txType: 'RetractAttestation' as const, timestamp: misclick.timestamp + ATTESTATION_GRACE_PERIOD_MS + 1 };
+    if (checkRevision(late, target, u3.pubkey) === null) {
+      throw new Error('Revision after the grace window accepted');
+    }
+    console.log(`  ${colors.green}✓ Revisions by others, repeated or late revisions rejected${colors.reset}`);
+
+    // FRQ amendments move the score; replaying the chain gives the same result
+    const frq = (await chain.createFRQAttestation('amend_q2', 'mean is 4', 4, 3, u1.pubkey, u1.privkey))!;
+    await chain.addTransaction(frq);
+    await revise(u1, 'AmendAttestation', { attestationHash: frq.hash, answerText: 'mean is 2', score: 2, confidence: 4 });
+    if ((chain.getQuestionDistribution('amend_q2') as FRQDistribution).scores.join() !== '2') {
+      throw new Error('FRQ amendment did not replace the score');
+    }
+    await chain.minePendingTransactions();
+    const replayed = new EnhancedBlockchain();
+    await replayed.loadChain(chain.getChain());
+    const replayedChoices = (replayed.getQuestionDistribution('amend_q1') as MCQDistribution).choices;
+    if (replayedChoices.A !== 2 || replayedChoices.B !== 0 || replayedChoices.C !== 1) {
+      throw new Error('Replayed distribution differs after revisions');
+    }
+    console.log(`  ${colors.green}✓ FRQ scores amended and revisions replayed from the chain${colors.reset}`);
+
+    // The rate-limit invariant accepts re-attesting after a retraction, but not without one
+    const transactions = chain.getChain().flatMap(block => block.transactions);
+    const checker = InvariantChecker.getInstance();
+    const withoutRetraction = transactions.filter(tx => tx.txType !== 'RetractAttestation');
+    if (!checker.checkRateLimiting(transactions).passed || checker.checkRateLimiting(withoutRetraction).passed) {
+      throw new Error('Rate-limit invariant does not follow retractions');
+    }
+    console.log(`  ${colors.green}✓ Rate-limit invariant understands amendments and retractions${colors.reset}`);
+
+    console.log(`${colors.green}✓ Attestation amendment tests completed${colors.reset}`);
+  }
+
+  /**
+   * Test the storage adapters behind Storage, rate limits and sync metadata
+   */
+  async testStorageAdapters(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Storage Adapters...${colors.reset}`);
+
+    const user = await createProfile('storage_user');
+    const chain = new EnhancedBlockchain();
+    await chain.addTransaction(await createTransaction(
+      'CreateUser',
+      { username: user.username, pubkey: user.pubkey },
+      user.pubkey,
+      user.privkey
+    ));
+    await chain.minePendingTransactions();
+    const pending = await chain.createMCQAttestation('storage_q1', 'B', user.pubkey, user.privkey);
+
+    // Everything Storage persists survives a round trip through an adapter
+    const roundTrip = async (adapter: StorageAdapter, reopen: () => StorageAdapter, label: string) => {
+      const storage = new Storage(adapter);
+      await storage.init();
+      await storage.saveChain(chain.getChain());
+      await storage.savePendingTransactions(pending ? [pending] : []);
+      await storage.saveProfile(user, 'correct horse');
+      await storage.saveSetting('difficultyPolicy', { target: 2 });
+      storage.close();
+
+      const reloaded = new Storage(reopen());
+      const blocks = await reloaded.loadChain();
+      const unlocked = await reloaded.unlockProfile(user.pubkey, 'correct horse');
+      if (blocks.length !== chain.getChain().length || blocks[blocks.length - 1].hash !== chain.getLatestBlock().hash ||
+          (await reloaded.loadPendingTransactions()).length !== 1 ||
+          unlocked.privkey !== user.privkey || !(await reloaded.profileExistsByUsername(user.username)) ||
+          (await reloaded.loadSetting<{ target: number }>('difficultyPolicy'))?.target !== 2) {
+        throw new Error(`${label} adapter lost data in a round trip`);
+      }
+
+      await reloaded.clearAll();
+      if ((await reloaded.loadChain()).length !== 0 || (await reloaded.loadAllProfiles()).length !== 0) {
+        throw new Error(`${label} adapter kept data after clearAll`);
+      }
+    };
+
+    const memory = new MemoryStorageAdapter();
+    await roundTrip(memory, () => memory, 'Memory');
+    console.log(`  ${colors.green}✓ In-memory adapter round-trips chain, mempool, profiles and settings${colors.reset}`);
+
+    // The file adapter reads back what another instance wrote to the same file
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+    const file = path.join(dir, 'state.json');
+    try {
+      await roundTrip(new JsonFileStorageAdapter(file), () => new JsonFileStorageAdapter(file), 'JSON file');
+      await fs.access(`${file}.tmp`).then(() => {
+        throw new Error('JSON file adapter left its temp file behind');
+      }, () => undefined);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+    console.log(`  ${colors.green}✓ JSON file adapter persists across instances${colors.reset}`);
+
+    // Writes are atomic: a record without its key changes nothing
+    await memory.write('blocks', { put: [{ hash: 'kept' }] });
+    const failed = await memory.write('blocks', { clear: true, put: [{ timestamp: 1 }] }).then(() => false, () => true);
+    if (!failed || (await memory.get('blocks', 'kept')) === null) {
+      throw new Error('Failed write changed the store');
+    }
+    console.log(`  ${colors.green}✓ A rejected write leaves the store unchanged${colors.reset}`);
+
+    // Rate limits are saved and loaded through the adapter, per profile
+    beginProfileSession(user.pubkey, user.privkey);
+    const limits = new MemoryStorageAdapter();
+    const limiter = new EnhancedRateLimiter(limits);
+    await limiter.ready;
+    limiter.recordAttestation(user.pubkey, 'storage_q1');
+    await limiter.saveLimits();
+    limiter.destroy();
+    const restored = new EnhancedRateLimiter(limits);
+    await restored.ready;
+    const saved = await readSetting<{ entries: unknown[] }>(limits, scopedStorageKey('rateLimits'));
+    if (restored.getStatistics().totalEntries !== 1 || saved?.entries.length !== 1) {
+      throw new Error('Rate limits not restored through the adapter');
+    }
+    restored.destroy();
+    endProfileSession();
+    console.log(`  ${colors.green}✓ Rate limits persist through the adapter${colors.reset}`);
+
+    console.log(`${colors.green}✓ Storage adapter tests completed${colors.reset}`);
+  }
+
+  /**
+   * Test append-only block persistence and its write-ahead marker
+   */
+  async testBlockPersistence(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Block Persistence...${colors.reset}`);
+
+    const chain = new EnhancedBlockchain();
+    const mine = async (name: string) => {
+      const student = await createProfile(name);
+      await chain.addTransaction(await createTransaction(
+        'CreateUser',
+        { username: student.username, pubkey: student.pubkey },
+        student.pubkey,
+        student.privkey
+      ));
+      return (await chain.minePendingTransactions())!;
+    };
+    for (const name of ['persist_u1', 'persist_u2', 'persist_u3']) {
+      await mine(name);
+    }
+
+    // Count block writes, and fail the next block put on request
+    const writes: StoreWrite[] = [];
+    let failNextBlockPut = false;
+    const adapter = new MemoryStorageAdapter();
+    const write = adapter.write.bind(adapter);
+    adapter.write = async (store, change) => {
+      if (store === 'blocks') {
+        writes.push(change);
+        if (failNextBlockPut && change.put) {
+          failNextBlockPut = false;
+          throw new Error('simulated crash');
+        }
+      }
+      return write(store, change);
+    };
+    const storage = new Storage(adapter);
+    const storedHashes = async () => (await storage.loadChain()).map(block => block.hash).join();
+    const chainHashes = (length = chain.getChain().length) =>
+      chain.getChain().slice(0, length).map(block => block.hash).join();
+
+    await storage.saveChain(chain.getChain());
+    const marker = await storage.loadChainWriteMarker();
+    if (await storedHashes() !== chainHashes() || marker?.head?.height !== chain.getChain().length - 1 ||
+        marker.pending !== null) {
+      throw new Error('Saved chain or marker does not match the chain');
+    }
+    console.log(`  ${colors.green}✓ Chain saved with a height index and a committed head${colors.reset}`);
+
+    // Saving after a new block writes only that block, never clearing the store
+    await mine('persist_u4');
+    writes.length = 0;
+    await storage.saveChain(chain.getChain());
+    if (writes.length !== 1 || writes[0].clear || await storedHashes() !== chainHashes()) {
+      throw new Error('Saving one new block rewrote the stored chain');
+    }
+    console.log(`  ${colors.green}✓ Saving appends only the new block${colors.reset}`);
+
+    // Reorgs truncate above the fork; appends must extend the stored head
+    await storage.removeBlocksAbove(1);
+    if (await storedHashes() !== chainHashes(2) || (await storage.loadChainWriteMarker())?.head?.height !== 1) {
+      throw new Error('removeBlocksAbove left blocks above the fork');
+    }
+    const strayAppend = await storage.appendBlock(chain.getLatestBlock()).then(() => true, () => false);
+    await storage.appendBlock(chain.getChain()[2]);
+    if (strayAppend || await storedHashes() !== chainHashes(3)) {
+      throw new Error('Append did not follow the stored head');
+    }
+    console.log(`  ${colors.green}✓ Blocks removed above a height and appended on top${colors.reset}`);
+
+    // A crash mid-append leaves the marker pending; loading rolls the half-written block back
+    const checker = InvariantChecker.getInstance();
+    failNextBlockPut = true;
+    await storage.appendBlock(chain.getChain()[3]).catch(() => undefined);
+    const interrupted = await storage.loadChainWriteMarker();
+    if (interrupted?.pending?.op !== 'append' || checker.checkPersistenceIntegrity(interrupted).passed) {
+      throw new Error('Interrupted append not visible in the marker');
+    }
+    const recovered = await storedHashes();
+    const afterRecovery = await storage.loadChainWriteMarker();
+    const offChain = { head: { height: 2, hash: 'not-on-chain' }, pending: null };
+    if (recovered !== chainHashes(3) || afterRecovery?.pending !== null ||
+        !checker.checkPersistenceIntegrity(afterRecovery, chain).passed ||
+        checker.checkPersistenceIntegrity(offChain, chain).passed ||
+        (await adapter.get('blockHeights', 3)) !== null) {
+      throw new Error('Interrupted append not rolled back');
+    }
+    await storage.saveChain(chain.getChain());
+    if (await storedHashes() !== chainHashes()) {
+      throw new Error('Chain not saved after recovery');
+    }
+    console.log(`  ${colors.green}✓ Interrupted writes are caught by the invariant and rolled back${colors.reset}`);
+
+    // The invariant monitor reads the marker from storage on every check
+    const monitor = InvariantMonitor.getInstance();
+    const persistenceViolations = async () => (await monitor.forceCheck())!.violations
+      .filter(violation => violation.type === InvariantType.PERSISTENCE_INTEGRITY);
+    monitor.startMonitoring(chain, { alertOnViolation: false, checkInterval: 60 * 60 * 1000 }, storage);
+    const beforeCrash = await persistenceViolations();
+    await mine('persist_u5');
+    failNextBlockPut = true;
+    await storage.appendBlock(chain.getLatestBlock()).catch(() => undefined);
+    const afterCrash = await persistenceViolations();
+    await storage.saveChain(chain.getChain());
+    const afterSave = await persistenceViolations();
+    monitor.stopMonitoring();
+    if (beforeCrash.length !== 0 || afterCrash.length !== 1 || afterSave.length !== 0) {
+      throw new Error('Invariant monitor did not check the stored chain marker');
+    }
+    console.log(`  ${colors.green}✓ The invariant monitor checks the stored chain marker${colors.reset}`);
+
+    // Chains saved before the height index are numbered by timestamp on first load
+    const legacy = new MemoryStorageAdapter();
+    await legacy.write('blocks', { put: [...chain.getChain()].reverse() });
+    const legacyStorage = new Storage(legacy);
+    if ((await legacyStorage.loadChain()).map(block => block.hash).join() !== chainHashes() ||
+        (await legacyStorage.loadChainWriteMarker())?.head?.hash !== chain.getLatestBlock().hash) {
+      throw new Error('Legacy chain not indexed');
+    }
+    console.log(`  ${colors.green}✓ Legacy chains are indexed on first load${colors.reset}`);
+
+    console.log(`${colors.green}✓ Block persistence tests completed${colors.reset}`);
+  }
+
+  /**
+   * Test opt-in reputation-weighted consensus
+   */
+  async testWeightedConsensus(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Reputation-Weighted Consensus...${colors.reset}`);
+
+    // Three accurate veterans against five brand-new accounts
+    const reputations = new Map<string, number>();
+    const attesters = ['vet1', 'vet2', 'vet3', 'new1', 'new2', 'new3', 'new4', 'new5'];
+    attesters.forEach(name => reputations.set(name, name.startsWith('vet') ? 4 : 0));
+    const mcq = (name: string, choice: string): MCQAttestation => ({
+      questionId: 'weighted_q1',
+      answerHash: hashMCQAnswer(choice),
+      timestamp: Date.now(),
+      attesterPubkey: name,
+      signature: `sig_mcq_${name}`
+    });
+    const frq = (name: string, score: number): FRQAttestation => ({
+      questionId: 'weighted_q2',
+      answerText: `answer by ${name}`,
+      score,
+      confidence: 5,
+      timestamp: Date.now(),
+      attesterPubkey: name,
+      signature: `sig_frq_${name}`
+    });
+    const attest = (calculator: ConsensusCalculator) => {
+      const distributions = new Map<string, QuestionDistribution>();
+      calculator.updateDistributions(attesters.map(name => mcq(name, name.startsWith('vet') ? 'A' : 'B')), distributions);
+      calculator.updateDistributions(attesters.map(name => frq(name, name.startsWith('vet') ? 4 : 1)), distributions);
+      return distributions;
+    };
+
+    // Unweighted mode is unchanged: the newcomers outvote the veterans
+    const raw = new ConsensusCalculator();
+    const rawDistributions = attest(raw);
+    const rawMCQ = rawDistributions.get('weighted_q1') as MCQDistribution;
+    if (raw.getMCQConsensusAnswer(rawMCQ) !== 'B' || rawMCQ.weightedConvergence !== undefined ||
+        rawMCQ.weightedChoices !== undefined) {
+      throw new Error('Unweighted mode changed');
+    }
+    console.log(`  ${colors.green}✓ Unweighted mode counts every attestation once${colors.reset}`);
+
+    // Weighted mode: reputation outweighs numbers; raw figures are kept alongside
+    const calculator = new ConsensusCalculator();
+    calculator.setReputationWeighting(pubkey => reputations.get(pubkey) || 0);
+    const distributions = attest(calculator);
+    const weightedMCQ = distributions.get('weighted_q1') as MCQDistribution;
+    const weightedFRQ = distributions.get('weighted_q2') as FRQDistribution;
+    if (Math.abs(weightedMCQ.convergence - 5 / 8) > 1e-9 || Math.abs(weightedMCQ.weightedConvergence! - 0.75) > 1e-9 ||
+        weightedMCQ.totalWeight !== 20 || calculator.getMCQConsensusAnswer(weightedMCQ) !== 'A') {
+      throw new Error('MCQ weighting wrong');
+    }
+    if (Math.abs(weightedFRQ.mean - 17 / 8) > 1e-9 || Math.abs(weightedFRQ.weightedMean! - 3.25) > 1e-9 ||
+        !(weightedFRQ.weightedConvergence! > weightedFRQ.convergence)) {
+      throw new Error('FRQ weighting wrong');
+    }
+    if (calculator.getProgressiveQuorum(calculator.getConvergence(weightedMCQ)) !== 4 ||
+        raw.getProgressiveQuorum(rawMCQ.convergence) !== 4 || !calculator.hasReachedConsensus(weightedMCQ)) {
+      throw new Error('Progressive quorum ignores weighted convergence');
+    }
+    console.log(`  ${colors.green}✓ Weighted and raw convergence both reported; reputation decides${colors.reset}`);
+
+    // Retractions take back exactly the weight the attestation added
+    calculator.updateDistributions([], distributions, [mcq('vet1', 'A'), frq('vet1', 4)]);
+    const retractedMCQ = distributions.get('weighted_q1') as MCQDistribution;
+    if (retractedMCQ.totalWeight !== 15 || retractedMCQ.weightedChoices!.A !== 10 ||
+        'sig_mcq_vet1' in retractedMCQ.attestationWeights! ||
+        weightedFRQ.scoreWeights!.length !== weightedFRQ.scores.length || weightedFRQ.scores.length !== 7) {
+      throw new Error('Retraction did not reverse the weighted contribution');
+    }
+    console.log(`  ${colors.green}✓ Retractions reverse weighted contributions${colors.reset}`);
+
+    // The invariant recomputes weighted convergence and catches tampering
+    const checker = InvariantChecker.getInstance();
+    const tampered = new Map<string, QuestionDistribution>([
+      ['weighted_q1', { ...weightedMCQ, weightedConvergence: 0.2 } as MCQDistribution]
+    ]);
+    if (!checker.checkWeightedConvergence(distributions).passed || checker.checkWeightedConvergence(tampered).passed ||
+        checker.checkWeightedConvergence(rawDistributions).metadata.weightedQuestions !== 0) {
+      throw new Error('Weighted convergence invariant wrong');
+    }
+    console.log(`  ${colors.green}✓ Weighted convergence invariant holds and catches tampering${colors.reset}`);
+
+    // The blockchain opts in and rebuilds its distributions
+    const chain = new EnhancedBlockchain();
+    const student = await createProfile('weighted_student');
+    await chain.addTransaction(await createTransaction(
+      'CreateUser',
+      { username: student.username, pubkey: student.pubkey },
+      student.pubkey,
+      student.privkey
+    ));
+    await chain.addTransaction((await chain.createMCQAttestation('weighted_q3', 'C', student.pubkey, student.privkey))!);
+    await chain.setReputationWeighting(true);
+    const rebuilt = chain.getQuestionDistribution('weighted_q3') as MCQDistribution;
+    if (!chain.isReputationWeighted() || rebuilt.totalWeight !== 1 || rebuilt.weightedConvergence !== 1) {
+      throw new Error('Blockchain did not rebuild distributions in weighted mode');
+    }
+    console.log(`  ${colors.green}✓ Blockchain rebuilds distributions when weighting is enabled${colors.reset}`);
+
+    // The invariant monitor checks the chain's weighted distributions
+    const monitor = InvariantMonitor.getInstance();
+    const weightedViolations = async () => (await monitor.forceCheck())!.violations
+      .filter(violation => violation.message.startsWith('Weighted'));
+    monitor.startMonitoring(chain, { alertOnViolation: false, checkInterval: 60 * 60 * 1000 });
+    const consistent = await weightedViolations();
+    rebuilt.weightedConvergence = 0.2;
+    const corrupted = await weightedViolations();
+    monitor.stopMonitoring();
+    if (consistent.length !== 0 || corrupted.length !== 1 || corrupted[0].context.questionId !== 'weighted_q3') {
+      throw new Error('Invariant monitor did not check weighted convergence');
+    }
+    console.log(`  ${colors.green}✓ The invariant monitor checks weighted convergence on the chain${colors.reset}`);
+
+    console.log(`${colors.green}✓ Weighted consensus tests completed${colors.reset}`);
+  }
+
+  /**
+   * Test confidence intervals on consensus distributions
+   */
+  async testConfidenceIntervals(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Consensus Confidence Intervals...${colors.reset}`);
+
+    // Wilson interval against a worked value, and its edge cases
+    const eightOfTen = wilsonInterval(8, 10)!;
+    if (Math.abs(eightOfTen.lower - 0.4902) > 1e-4 || Math.abs(eightOfTen.upper - 0.9433) > 1e-4 ||
+        eightOfTen.level !== 0.95 || wilsonInterval(0, 0) !== undefined) {
+      throw new Error('Wilson interval wrong');
+    }
+    const unanimous = wilsonInterval(3, 3)!;
+    const wider = wilsonInterval(4, 5)!;
+    const narrower = wilsonInterval(40, 50)!;
+    if (unanimous.upper !== 1 || !(unanimous.lower > 0.4 && unanimous.lower < 0.5) ||
+        !(narrower.upper - narrower.lower < wider.upper - wider.lower)) {
+      throw new Error('Wilson interval does not reflect sample size');
+    }
+    console.log(`  ${colors.green}✓ Wilson interval matches worked values and narrows with more attestations${colors.reset}`);
+
+    // t-interval for the mean, clipped to the 1-5 scale
+    const threeScores = meanScoreInterval([3, 4, 5])!;
+    if (Math.abs(threeScores.lower - (4 - 4.303 / Math.sqrt(3))) > 1e-9 || threeScores.upper !== 5 ||
+        meanScoreInterval([4]) !== undefined) {
+      throw new Error('Mean score interval wrong');
+    }
+    console.log(`  ${colors.green}✓ t-interval for the mean matches worked values${colors.reset}`);
+
+    // The calculator keeps intervals current as attestations come and go
+    const mcq = (name: string, choice: string): MCQAttestation => ({
+      questionId: 'interval_q1',
+      answerHash: hashMCQAnswer(choice),
+      timestamp: Date.now(),
+      attesterPubkey: name,
+      signature: `sig_mcq_${name}`
+    });
+    const frq = (name: string, score: number): FRQAttestation => ({
+      questionId: 'interval_q2',
+      answerText: `answer by ${name}`,
+      score,
+      confidence: 3,
+      timestamp: Date.now(),
+      attesterPubkey: name,
+      signature: `sig_frq_${name}`
+    });
+    const calculator = new ConsensusCalculator();
+    const distributions = new Map<string, QuestionDistribution>();
+    calculator.updateDistributions([mcq('a', 'B'), mcq('b', 'B'), mcq('c', 'B'), mcq('d', 'C'), frq('a', 4)], distributions);
+    const mcqDist = distributions.get('interval_q1') as MCQDistribution;
+    const frqDist = distributions.get('interval_q2') as FRQDistribution;
+    if (JSON.stringify(mcqDist.leadingChoiceInterval) !== JSON.stringify(wilsonInterval(3, 4)) ||
+        frqDist.meanInterval !== undefined) {
+      throw new Error('Calculator intervals wrong');
+    }
+    calculator.updateDistributions([frq('b', 5), frq('c', 3)], distributions);
+    calculator.updateDistributions([], distributions, [mcq('d', 'C')]);
+    if (JSON.stringify(frqDist.meanInterval) !== JSON.stringify(threeScores) ||
+        JSON.stringify(mcqDist.leadingChoiceInterval) !== JSON.stringify(wilsonInterval(3, 3))) {
+      throw new Error('Intervals not updated with the distribution');
+    }
+    console.log(`  ${colors.green}✓ Calculator updates intervals on new and retracted attestations${colors.reset}`);
+
+    console.log(`${colors.green}✓ Confidence interval tests completed${colors.reset}`);
+  }
+
+  /**
+   * Test per-rubric-part FRQ scoring
+   */
+  async testRubricScoring(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Rubric-Part FRQ Scoring...${colors.reset}`);
+
+    // AP composite for a three-part question
+    const composites: Array<[string, number]> = [
+      ['EEE', 4], ['EEP', 3], ['EEI', 2], ['EPP', 2], ['EPI', 2], ['EII', 1], ['PPI', 1], ['PII', 0], ['III', 0]
+    ];
+    for (const [parts, expected] of composites) {
+      const composite = calculateCompositeScore(parts.split('') as Array<'E' | 'P' | 'I'>);
+      if (composite !== expected) {
+        throw new Error(`Composite for ${parts} is ${composite}, expected ${expected}`);
+      }
+    }
+    const rubric = ['a', 'b', 'c'].map(part => ({ part, maxPoints: 1, criteria: [] }));
+    if (!isValidRubricPartScores({ a: 'E', b: 'P', c: 'I' }, rubric) ||
+        isValidRubricPartScores({ a: 'E', b: 'P' }, rubric) ||
+        isValidRubricPartScores({ a: 'E', b: 'X' }) || isValidRubricPartScores({})) {
+      throw new Error('Rubric part score validation wrong');
+    }
+    console.log(`  ${colors.green}✓ AP composite and part score validation${colors.reset}`);
+
+    // Per-part distributions, convergence and composite
+    const frq = (name: string, partScores: RubricPartScores): FRQAttestation => ({
+      questionId: 'rubric_q1',
+      answerText: `answer by ${name}`,
+      score: calculateCompositeScore(Object.values(partScores)) + 1,
+      partScores,
+      confidence: 3,
+      timestamp: Date.now(),
+      attesterPubkey: name,
+      signature: `sig_rubric_${name}`
+    });
+    const calculator = new ConsensusCalculator();
+    const distributions = new Map<string, QuestionDistribution>();
+    calculator.updateDistributions([
+      frq('s1', { a: 'E', b: 'E', c: 'P' }),
+      frq('s2', { a: 'E', b: 'P', c: 'P' }),
+      frq('s3', { a: 'E', b: 'P', c: 'I' }),
+      frq('s4', { a: 'P', b: 'E', c: 'I' })
+    ], distributions);
+    const dist = distributions.get('rubric_q1') as FRQDistribution;
+    const parts = dist.parts!;
+    if (parts.a.consensus !== 'E' || parts.a.convergence !== 0.75 || parts.a.total !== 4 ||
+        parts.b.consensus !== 'P' || parts.b.convergence !== 0.5 ||
+        parts.c.consensus !== 'I' || dist.compositeScore !== 2 || dist.scores.length !== 4) {
+      throw new Error('Per-part distributions wrong');
+    }
+    console.log(`  ${colors.green}✓ Part distributions settle ties on the lower credit and feed the composite${colors.reset}`);
+
+    calculator.updateDistributions([], distributions, [frq('s4', { a: 'P', b: 'E', c: 'I' })]);
+    const retracted = (distributions.get('rubric_q1') as FRQDistribution).parts!;
+    if (retracted.a.convergence !== 1 || retracted.b.consensus !== 'P' || retracted.c.consensus !== 'P' ||
+        dist.compositeScore !== 2 || retracted.a.counts.P !== 0) {
+      throw new Error('Retraction did not reverse part scores');
+    }
+    console.log(`  ${colors.green}✓ Retractions reverse part scores${colors.reset}`);
+
+    // On chain: the score must match the parts
+    const chain = new EnhancedBlockchain();
+    const student = await createProfile('rubric_student');
+    await chain.addTransaction(await createTransaction(
+      'CreateUser',
+      { username: student.username, pubkey: student.pubkey },
+      student.pubkey,
+      student.privkey
+    ));
+    const tx = await chain.createRubricFRQAttestation(
+      'rubric_q2', 'My answer', { a: 'E', b: 'E', c: 'P' }, 4, student.pubkey, student.privkey, rubric
+    );
+    if (!tx || (tx.data as any).score !== 4 ||
+        await chain.createRubricFRQAttestation('rubric_q2', 'x', { a: 'E' }, 4, student.pubkey, student.privkey, rubric) !== null) {
+      throw new Error('Rubric attestation not created from its parts');
+    }
+    await chain.addTransaction(tx);
+    const forgedData: Phase2AttestationData = {
+      questionId: 'rubric_q3',
+      answerText: 'Forged',
+      score: 5,
+      partScores: { a: 'I', b: 'I', c: 'I' },
+      confidence: 3
+    };
+    const forged = await createTransaction('Attestation', forgedData, student.pubkey, student.privkey);
+    await chain.addTransaction(forged);
+    const onChain = chain.getQuestionDistribution('rubric_q2') as FRQDistribution;
+    if (onChain.compositeScore !== 3 || onChain.parts!.c.consensus !== 'P' ||
+        chain.getQuestionDistribution('rubric_q3') !== undefined) {
+      throw new Error('Chain did not track rubric scores or accepted a mismatched score');
+    }
+    console.log(`  ${colors.green}✓ Blockchain counts rubric attestations and ignores mismatched scores${colors.reset}`);
+
+    console.log(`${colors.green}✓ Rubric scoring tests completed${colors.reset}`);
+  }
+
+  /**
+   * Test peer review assignment of FRQ responses
+   */
+  async testPeerReview(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Peer Review Assignment...${colors.reset}`);
+
+    // Six answers, each author reviews three; s1 and s2 were flagged together
+    const responses: ReviewableResponse[] = [1, 2, 3, 4, 5, 6].map(n => ({
+      responseId: `response_${n}`,
+      questionId: 'review_q0',
+      authorId: `s${n}`,
+      answerText: `answer ${n}`,
+      reviewerIds: []
+    }));
+    const assignments = assignPeerReviews(responses, 3, [['s1', 's2']]);
+    const load = new Map<string, number>();
+    for (const [reviewerId, assigned] of assignments) {
+      if (assigned.length !== 3 || assigned.some(a => a.responseId === `response_${reviewerId.substring(1)}`)) {
+        throw new Error(`Reviewer ${reviewerId} got the wrong number of responses or their own`);
+      }
+      if (assigned.some(a => a.anonymousLabel.includes(reviewerId) || a.completed)) {
+        throw new Error('Assignments leak identities or are marked complete');
+      }
+      assigned.forEach(a => load.set(a.responseId, (load.get(a.responseId) || 0) + 1));
+    }
+    if (assignments.get('s1')!.some(a => a.responseId === 'response_2') ||
+        assignments.get('s2')!.some(a => a.responseId === 'response_1')) {
+      throw new Error('Flagged colluders were assigned each other');
+    }
+    if (Math.max(...load.values()) - Math.min(...load.values()) > 1) {
+      throw new Error('Reviews are not spread evenly across responses');
+    }
+    const reordered = assignPeerReviews([...responses].reverse(), 3, [['s1', 's2']]);
+    if (JSON.stringify(Array.from(reordered).sort()) !== JSON.stringify(Array.from(assignments).sort())) {
+      throw new Error('Assignments depend on input order');
+    }
+    console.log(`  ${colors.green}✓ Assignments are balanced, deterministic and avoid self-review and colluders${colors.reset}`);
+
+    // On chain: answers are opened to review and reviews complete assignments
+    const chain = new EnhancedBlockchain();
+    const students = await Promise.all([1, 2, 3, 4].map(n => createProfile(`review_student${n}`)));
+    const answers: Transaction[] = [];
+    for (const student of students) {
+      await chain.addTransaction(await createTransaction(
+        'CreateUser',
+        { username: student.username, pubkey: student.pubkey },
+        student.pubkey,
+        student.privkey
+      ));
+      const answer = (await chain.createFRQAttestation(
+        'review_q1', `Answer by ${student.username}`, 3, 3, student.pubkey, student.privkey
+      ))!;
+      await chain.addTransaction(answer);
+      answers.push(answer);
+    }
+    await chain.addTransaction((await chain.createMCQAttestation('review_q2', 'A', students[0].pubkey, students[0].privkey))!);
+
+    const [reviewer, author] = students;
+    const ownResponseId = await blindResponseId(answers[0].hash);
+    const assigned = chain.getPeerReviewAssignments(reviewer.pubkey, 'review_q1', 2);
+    if (assigned.length !== 2 || assigned.some(a => a.responseId === ownResponseId)) {
+      throw new Error('Chain assignments wrong');
+    }
+    if (assigned.some(a => answers.some(answer => answer.hash === a.responseId))) {
+      throw new Error('Assignments reveal the attestation hash of the response');
+    }
+    const needing = chain.getQuestionsNeedingAttestations(3);
+    if (needing[0] !== 'review_q1' || !needing.includes('review_q2')) {
+      throw new Error('Under-reviewed responses not prioritized');
+    }
+    console.log(`  ${colors.green}✓ FRQ answers are assigned to peers and under-reviewed questions come first${colors.reset}`);
+
+    const review = await chain.createPeerReview(assigned[0], { a: 'E', b: 'P' }, 4, reviewer.pubkey, reviewer.privkey);
+    if (!review || !(await chain.addTransaction(review))) {
+      throw new Error('Peer review rejected');
+    }
+    const distribution = chain.getQuestionDistribution('review_q1') as FRQDistribution;
+    if (distribution.totalAttestations !== 5 || distribution.parts?.a.counts.E !== 1 ||
+        !chain.getPeerReviewAssignments(reviewer.pubkey, 'review_q1', 2).find(a => a.responseId === assigned[0].responseId)?.completed) {
+      throw new Error('Peer review not counted or not marked complete');
+    }
+    const again = await chain.createPeerReview(assigned[0], 2, 3, reviewer.pubkey, reviewer.privkey);
+    const own = await chain.createPeerReview({ ...assigned[0], responseId: ownResponseId }, 2, 3, reviewer.pubkey, reviewer.privkey);
+    if (await chain.addTransaction(again!) || await chain.addTransaction(own!) ||
+        chain.getPendingTransactions().some(tx => tx.hash === again!.hash || tx.hash === own!.hash)) {
+      throw new Error('Duplicate or self review accepted or left pending');
+    }
+    console.log(`  ${colors.green}✓ Reviews count toward consensus once per response and never for one's own answer${colors.reset}`);
+
+    // Flagged pairs are kept apart; completion survives a rebuild from the chain
+    chain.setCollusionGroups([[reviewer.pubkey, author.pubkey]]);
+    await chain.setReputationWeighting(true);
+    const afterRebuild = chain.getPeerReviewAssignments(author.pubkey, 'review_q1', 3);
+    if (afterRebuild.some(a => a.responseId === ownResponseId) ||
+        !chain.getPeerReviewAssignments(reviewer.pubkey, 'review_q1', 2).some(a => a.completed)) {
+      throw new Error('Collusion groups ignored or completion lost on rebuild');
+    }
+    console.log(`  ${colors.green}✓ Collusion groups respected and completion rebuilt from the chain${colors.reset}`);
+
+    console.log(`${colors.green}✓ Peer review tests completed${colors.reset}`);
+  }
+
+  /**
+   * Test multi-select, numeric and short-answer questions
+   */
+  async testQuestionTypes(): Promise<void> {
+    console.log(`\n${colors.cyan}Testing Multi-Select, Numeric and Short-Answer Questions...${colors.reset}`);
+
+    // Answers are normalized so equivalent ones count alike
+    if (normalizeSelection(['c', 'A', 'a']) !== 'A,C' ||
+        getSelectionFromHash(hashMultiSelectAnswer(['C', 'A'])) !== 'A,C' ||
+        hashMultiSelectAnswer(['A']) === hashMCQAnswer('A')) {
+      throw new Error('Multi-select answers not normalized or hashed apart from MCQ answers');
+    }
+    let rejected = false;
+    try {
+      hashMultiSelectAnswer(['A', 'F']);
+    } catch {
+      rejected = true;
+    }
+    if (!rejected) {
+      throw new Error('Selection outside A-E accepted');
+    }
+    if (normalizeNumericAnswer(' .05 ') !== 0.05 || normalizeNumericAnswer('5%') !== 0.05 ||
+        normalizeNumericAnswer('1,234.5') !== 1234.5 || normalizeNumericAnswer(0.1 + 0.2) !== 0.3 ||
+        normalizeNumericAnswer('about 3') !== null || normalizeNumericAnswer('') !== null) {
+      throw new Error('Numeric answers not normalized');
+    }
+    if (normalizeShortAnswer('  "Reject  H0." ') !== 'reject h0' || normalizeShortAnswer(' ?! ') !== null) {
+      throw new Error('Short answers not normalized');
+    }
+    console.log(`  ${colors.green}✓ Selections, numbers and short answers are normalized${colors.reset}`);
+
+    // Each type gets its own distribution and convergence
+    const calculator = new ConsensusCalculator();
+    const distributions = new Map<string, QuestionDistribution>();
+    let signature = 0;
+    const attestation = (questionId: string, answer: object) => ({
+      questionId,
+      ...answer,
+      timestamp: Date.now(),
+      attesterPubkey: `types_pubkey_${signature}`,
+      signature: `types_sig_${signature++}`
+    }) as QuestionAttestation;
+    const selections = [['A', 'C'], ['C', 'A'], ['A']].map(choices =>
+      attestation('types_ms', { selectionHash: hashMultiSelectAnswer(choices) }));
+    const values = [0.049, 0.05, 0.052, 0.3].map(answerValue =>
+      attestation('types_num', { answerValue, tolerance: 0.005 }));
+    const answers = ['reject h0', 'reject h0', 'fail to reject h0'].map(shortAnswer =>
+      attestation('types_sa', { shortAnswer }));
+    calculator.updateDistributions([...selections, ...values, ...answers], distributions);
+    // An answer of another kind is skipped rather than pooled
+    calculator.updateDistributions([attestation('types_num', { answerHash: hashMCQAnswer('A') })], distributions);
+
+    const multiSelect = distributions.get('types_ms') as MultiSelectDistribution;
+    const numeric = distributions.get('types_num') as NumericDistribution;
+    const shortAnswer = distributions.get('types_sa') as ShortAnswerDistribution;
+    // Pairs: {A,C} with itself scores 1, each with {A} scores 1/2
+    if (multiSelect.type !== 'multi-select' || multiSelect.selections['A,C'] !== 2 || multiSelect.choiceCounts.A !== 3 ||
+        Math.abs(multiSelect.convergence - 2 / 3) > 1e-9) {
+      throw new Error(`Multi-select distribution wrong: ${JSON.stringify(multiSelect)}`);
+    }
+    if (numeric.type !== 'numeric' || numeric.totalAttestations !== 4 || numeric.bins['5'] !== 3 || numeric.bins['30'] !== 1 ||
+        numeric.convergence !== 0.75 || leadingNumericAnswer(numeric) !== 0.05) {
+      throw new Error(`Numeric distribution wrong: ${JSON.stringify(numeric)}`);
+    }
+    if (shortAnswer.type !== 'short-answer' || shortAnswer.answers['reject h0'] !== 2 ||
+        Math.abs(shortAnswer.convergence - 2 / 3) > 1e-9) {
+      throw new Error(`Short-answer distribution wrong: ${JSON.stringify(shortAnswer)}`);
+    }
+    if (calculator.getMultiSelectConsensusAnswer(multiSelect) !== null) {
+      throw new Error('Consensus answer given before quorum');
+    }
+    calculator.updateDistributions([], distributions, [selections[2], values[3]]);
+    const reversedSelections = distributions.get('types_ms') as MultiSelectDistribution;
+    const reversedValues = distributions.get('types_num') as NumericDistribution;
+    if (reversedSelections.convergence !== 1 || reversedSelections.choiceCounts.A !== 2 ||
+        reversedValues.convergence !== 1 || reversedValues.bins['30'] !== undefined) {
+      throw new Error('Reversed attestations still counted');
+    }
+    console.log(`  ${colors.green}✓ Sets score by overlap, numbers by bin and short answers by exact match${colors.reset}`);
+
+    // On chain, including amendments, which keep the answer's kind
+    const chain = new EnhancedBlockchain();
+    const students = await Promise.all([1, 2, 3].map(n => createProfile(`types_student${n}`)));
+    for (const student of students) {
+      await chain.addTransaction(await createTransaction(
+        'CreateUser',
+        { username: student.username, pubkey: student.pubkey },
+        student.pubkey,
+        student.privkey
+      ));
+    }
+    const [s1, s2, s3] = students;
+    await chain.setCurriculum([
+      { id: 'types_q1', type: 'multi-select', prompt: 'Which are unbiased?' },
+      { id: 'types_q2', type: 'numeric', prompt: 'Critical value z*', tolerance: 0.01 }
+    ]);
+    const accepted = [
+      await chain.createMultiSelectAttestation('types_q1', ['B', 'D'], s1.pubkey, s1.privkey),
+      await chain.createMultiSelectAttestation('types_q1', ['D', 'B'], s2.pubkey, s2.privkey),
+      await chain.createNumericAttestation('types_q2', '1.96', s1.pubkey, s1.privkey),
+      await chain.createNumericAttestation('types_q2', '1.95', s2.pubkey, s2.privkey),
+      await chain.createShortAnswerAttestation('types_q3', 'Skewed right', s1.pubkey, s1.privkey)
+    ];
+    for (const tx of accepted) {
+      if (!tx || !(await chain.addTransaction(tx))) {
+        throw new Error('Attestation of a new question type rejected');
+      }
+    }
+    const forged = [
+      { questionId: 'types_q3', shortAnswer: 'Skewed Right' },
+      { questionId: 'types_q2', answerValue: 1 / 3 },
+      { questionId: 'types_q1', selectionHash: hashMCQAnswer('B') },
+      { questionId: 'types_q4', answerHash: 'not a hash' },
+      // Answers of another kind, against the curriculum and against earlier answers
+      { questionId: 'types_q2', answerHash: hashMCQAnswer('B') },
+      { questionId: 'types_q1', shortAnswer: 'b and d' },
+      { questionId: 'types_q3', answerValue: 3 }
+    ];
+    for (const data of forged) {
+      const tx = await createTransaction('Attestation', data, s3.pubkey, s3.privkey);
+      if (await chain.addTransaction(tx) || chain.getPendingTransactions().some(pending => pending.hash === tx.hash)) {
+        throw new Error(`Malformed attestation accepted or left pending: ${JSON.stringify(data)}`);
+      }
+    }
+    const q1 = chain.getQuestionDistribution('types_q1') as MultiSelectDistribution;
+    const q2 = chain.getQuestionDistribution('types_q2') as NumericDistribution;
+    if (q1.selections['B,D'] !== 2 || q1.convergence !== 1 || q2.convergence !== 1 || q2.tolerance !== 0.01) {
+      throw new Error('Chain distributions wrong');
+    }
+    console.log(`  ${colors.green}✓ Attestations are accepted only with normalized answers of the question's kind${colors.reset}`);
+
+    const revise = async (data: object) =>
+      chain.addTransaction(await createTransaction('AmendAttestation', data, s2.pubkey, s2.privkey));
+    if (await revise({ attestationHash: accepted[3]!.hash, shortAnswer: '1.96' })) {
+      throw new Error('Amendment changed the kind of answer');
+    }
+    if (!(await revise({ attestationHash: accepted[3]!.hash, answerValue: 2.5 }))) {
+      throw new Error('Numeric amendment rejected');
+    }
+    const amended = chain.getQuestionDistribution('types_q2') as NumericDistribution;
+    if (amended.values.includes(1.95) || !amended.values.includes(2.5) || amended.convergence !== 0.5 ||
+        amended.tolerance !== 0.01) {
+      throw new Error('Numeric amendment not applied');
+    }
+    console.log(`  ${colors.green}✓ Amendments replace answers of the same kind${colors.reset}`);
+
+    // Answers that do not fit a question added to the curriculum later are dropped
+    await chain.setCurriculum([{ id: 'types_q3', type: 'numeric', prompt: 'Median' }]);
+    const rebuilt = chain.getQuestionDistribution('types_q2') as NumericDistribution;
+    if (chain.getQuestionDistribution('types_q3') || rebuilt.tolerance !== 0.005) {
+      throw new Error('Distributions not rebuilt against the new curriculum');
+    }
+    console.log(`  ${colors.green}✓ Distributions are rebuilt against the curriculum${colors.reset}`);
+
+    console.log(`${colors.green}✓ Question type tests completed${colors.reset}`);
+  }
+
   /**
    * Run integration tests
    */
@@ -390,8 +2682,80 @@ async function main() {
     case 'ap-reveal':
       await suite.testAPReveals();
       break;
+    case 'recovery':
+      await suite.testProfileRecovery();
+      break;
+    case 'forks':
+      await suite.testForkResolution();
+      break;
+    case 'merkle':
+      await suite.testMerkleProofs();
+      break;
+    case 'sync':
+      await suite.testSyncRoundTrip();
+      break;
+    case 'mining':
+      await suite.testMining();
+      break;
+    case 'difficulty':
+      await suite.testDifficulty();
+      break;
+    case 'mempool':
+      await suite.testMempool();
+      break;
+    case 'rotation':
+      await suite.testKeyRotation();
+      break;
+    case 'index':
+      await suite.testChainIndex();
+      break;
+    case 'checkpoints':
+      await suite.testCheckpoints();
+      break;
+    case 'keystore':
+      await suite.testKeystore();
+      break;
+    case 'profiles':
+      await suite.testProfileSessions();
+      break;
+    case 'shares':
+      await suite.testRecoveryShares();
+      break;
+    case 'transfer':
+      await suite.testProfileTransfer();
+      break;
+    case 'display-names':
+      await suite.testDisplayProfiles();
+      break;
+    case 'classes':
+      await suite.testClassNamespaces();
+      break;
+    case 'amendments':
+      await suite.testAttestationAmendments();
+      break;
+    case 'storage-adapters':
+      await suite.testStorageAdapters();
+      break;
+    case 'block-persistence':
+      await suite.testBlockPersistence();
+      break;
+    case 'weighted-consensus':
+      await suite.testWeightedConsensus();
+      break;
+    case 'confidence-intervals':
+      await suite.testConfidenceIntervals();
+      break;
+    case 'rubric-scoring':
+      await suite.testRubricScoring();
+      break;
+    case 'peer-review':
+      await suite.testPeerReview();
+      break;
+    case 'question-types':
+      await suite.testQuestionTypes();
+      break;
     default:
-      console.log('Usage: npm run test:phase5 [all|demo|error|invariants|simulation|anti-gaming|ap-reveal]');
+      console.log('Usage: npm run test:phase5 [all|demo|error|invariants|simulation|anti-gaming|ap-reveal|recovery|forks|merkle|sync|mining|difficulty|mempool|rotation|index|checkpoints|keystore|profiles|shares|transfer|display-names|classes|amendments|storage-adapters|block-persistence|weighted-consensus|confidence-intervals|rubric-scoring|peer-review|question-types]');
       process.exit(1);
   }
 }
@@ -21,6 +21,15 @@ export interface Attestation {
   /** FRQ score (1-5 scale per ADR-028) */
   score?: number;
   
+  /** SHA-256 hash of a multi-select answer */
+  selectionHash?: string;
+  
+  /** Numeric answer */
+  answerValue?: number;
+  
+  /** Normalized short answer */
+  shortAnswer?: string;
+  
   /** Attester's public key (B atom) */
   attesterPubkey: string;
   
@@ -39,6 +48,18 @@ export interface Attestation {
 
 // ============= Distribution Types =============
 
+/** Range a consensus statistic plausibly lies in */
+export interface ConfidenceInterval {
+  /** Lower bound */
+  lower: number;
+  
+  /** Upper bound */
+  upper: number;
+  
+  /** Confidence level (e.g. 0.95) */
+  level: number;
+}
+
 /** MCQ answer distribution */
 export interface MCQDistribution {
   /** Map of choice letter to count */
@@ -52,6 +73,9 @@ export interface MCQDistribution {
   
   /** Percentage selecting mode */
   modePercentage: number;
+  
+  /** 95% Wilson interval for the share selecting mode (0-1) */
+  modeInterval?: ConfidenceInterval;
 }
 
 /** FRQ score distribution */
@@ -68,6 +92,60 @@ export interface FRQDistribution {
   median: number;
   stdDev: number;
   
+  /** 95% t-interval for the mean score */
+  meanInterval?: ConfidenceInterval;
+  
+  /** Total attestations */
+  total: number;
+}
+
+/** Multi-select distribution */
+export interface MultiSelectDistribution {
+  /** Map of choice letter to how many selected it */
+  choices: Record<string, number>;
+  
+  /** Map of selection (letters joined by commas) to count */
+  selections: Record<string, number>;
+  
+  /** Total number of attestations */
+  total: number;
+  
+  /** Most common selection, e.g. 'A,C' */
+  mode: string;
+  
+  /** Percentage giving mode */
+  modePercentage: number;
+}
+
+/** Numeric answer distribution, binned into ranges */
+export interface NumericDistribution {
+  /** Bins with at least one answer, in increasing order */
+  bins: Array<{
+    lower: number;
+    upper: number;
+    count: number;
+    percentage: number;
+  }>;
+  
+  /** Median answer */
+  median: number;
+  
+  /** Half the width of a bin */
+  tolerance: number;
+  
+  /** Total attestations */
+  total: number;
+}
+
+/** Short-answer distribution */
+export interface ShortAnswerDistribution {
+  /** Normalized answers, most common first */
+  answers: Array<{
+    answer: string;
+    count: number;
+    percentage: number;
+  }>;
+  
   /** Total attestations */
   total: number;
 }
@@ -85,6 +163,15 @@ export interface ConsensusData {
   /** FRQ score distribution */
   frqDistribution?: FRQDistribution;
   
+  /** Multi-select distribution */
+  multiSelectDistribution?: MultiSelectDistribution;
+  
+  /** Numeric answer distribution */
+  numericDistribution?: NumericDistribution;
+  
+  /** Short-answer distribution */
+  shortAnswerDistribution?: ShortAnswerDistribution;
+  
   /** Convergence metric (0-1, higher is better) */
   convergence: number;
   
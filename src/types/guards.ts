@@ -11,9 +11,12 @@ import {
   ConsensusData,
   Attestation,
   MCQDistribution,
-  FRQDistribution
+  FRQDistribution,
+  QuestionType
 } from './index';
 
+const QUESTION_TYPES: QuestionType[] = ['multiple-choice', 'free-response', 'multi-select', 'numeric', 'short-answer'];
+
 /**
  * Check if a value is a valid Question object
  */
@@ -25,12 +28,13 @@ export function isQuestion(value: unknown): value is Question {
   // Required fields
   if (typeof q.id !== 'string' || !q.id) return false;
   if (typeof q.prompt !== 'string' || !q.prompt) return false;
-  if (q.type !== 'multiple-choice' && q.type !== 'free-response') return false;
+  if (!QUESTION_TYPES.includes(q.type)) return false;
   
   // Optional fields with type checking
   if (q.answerKey !== undefined && typeof q.answerKey !== 'string') return false;
   if (q.answerHash !== undefined && typeof q.answerHash !== 'string') return false;
   if (q.reasoning !== undefined && typeof q.reasoning !== 'string') return false;
+  if (q.tolerance !== undefined && (typeof q.tolerance !== 'number' || !(q.tolerance > 0))) return false;
   
   // Validate attachments if present
   if (q.attachments !== undefined) {
@@ -196,14 +200,17 @@ export function isAttestation(value: unknown): value is Attestation {
   if (typeof a.confidence !== 'number' || a.confidence < 1 || a.confidence > 5) return false;
   if (typeof a.timestamp !== 'number' || a.timestamp < 0) return false;
   
-  // Must have either answerHash (MCQ) or answerText + score (FRQ)
+  // Must have either answerHash (MCQ), answerText + score (FRQ) or one of the newer answers
   const hasMCQ = typeof a.answerHash === 'string';
   const hasFRQ = typeof a.answerText === 'string' && 
                  typeof a.score === 'number' && 
                  a.score >= 1 && 
                  a.score <= 5;
+  const hasOther = typeof a.selectionHash === 'string' ||
+                   (typeof a.answerValue === 'number' && Number.isFinite(a.answerValue)) ||
+                   typeof a.shortAnswer === 'string';
   
-  if (!hasMCQ && !hasFRQ) return false;
+  if (!hasMCQ && !hasFRQ && !hasOther) return false;
   
   return true;
 }
@@ -225,6 +232,7 @@ export function sanitizeQuestion(data: unknown): Question | null {
   if (data.answerKey) clean.answerKey = data.answerKey;
   if (data.answerHash) clean.answerHash = data.answerHash;
   if (data.reasoning) clean.reasoning = data.reasoning;
+  if (data.tolerance !== undefined) clean.tolerance = data.tolerance;
   if (data.attachments) clean.attachments = data.attachments;
   if (data.solution) clean.solution = data.solution;
   if (data.rubric) clean.rubric = data.rubric;
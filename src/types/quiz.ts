@@ -13,14 +13,17 @@ export interface Question {
   id: string;
   
   /** Question type classification */
-  type: 'multiple-choice' | 'free-response';
+  type: QuestionType;
   
   /** The question prompt text (supports LaTeX via MathJax) */
   prompt: string;
   
-  /** Answer key for MCQ (letter choice) */
+  /** Answer key: MCQ letter, multi-select letters joined by commas ('A,C'), number or short answer */
   answerKey?: string;
   
+  /** Numeric questions: answers within this of each other agree */
+  tolerance?: number;
+  
   /** SHA-256 hash of correct answer for MCQ validation (B atom) */
   answerHash?: string;
   
@@ -40,6 +43,14 @@ export interface Question {
   rubric?: ScoringRubric;
 }
 
+/** Kinds of question and the answer each expects */
+export type QuestionType =
+  | 'multiple-choice'
+  | 'free-response'
+  | 'multi-select'
+  | 'numeric'
+  | 'short-answer';
+
 /** The entire curriculum is an array of questions */
 export type Curriculum = Question[];
 
@@ -213,7 +213,7 @@ class ChartManager {
     // Generate jittered points for each response
     if (consensusData.mcqDistribution) {
       // For MCQ, create points for each choice
-      Object.entries(consensusData.mcqDistribution.distribution).forEach(([choice, count]) => {
+      Object.entries(consensusData.mcqDistribution.choices).forEach(([choice, count]) => {
         const choiceValue = choice.charCodeAt(0) - 65; // A=0, B=1, etc.
         for (let i = 0; i < (count as number); i++) {
           points.push({
@@ -238,6 +238,8 @@ class ChartManager {
       });
     }
 
+    const intervalText = this.describeConsensusInterval(consensusData);
+
     // Create scatter chart configuration
     const config = {
       type: 'scatter',
@@ -266,6 +268,11 @@ class ChartManager {
               weight: 'bold'
             }
           },
+          subtitle: {
+            display: intervalText !== '',
+            text: intervalText,
+            color: themeManager.getTextColor()
+          },
           legend: {
             display: false
           },
@@ -349,9 +356,53 @@ class ChartManager {
       tension: 0
     } as any);
 
+    // FRQ mean interval as an error bar above the dots; the MCQ interval is a
+    // share of responses, which has no place on the choice axis, so it only
+    // appears in the subtitle
+    const meanInterval = consensusData.frqDistribution?.meanInterval;
+    if (meanInterval) {
+      config.data.datasets.push({
+        type: 'line',
+        label: `${Math.round(meanInterval.level * 100)}% CI for mean`,
+        data: [
+          { x: meanInterval.lower, y: 0.42 },
+          { x: meanInterval.upper, y: 0.42 }
+        ],
+        borderColor: themeManager.getTextColor(),
+        borderWidth: 2,
+        pointStyle: 'line',
+        pointRotation: 90,
+        pointRadius: 6,
+        pointBorderColor: themeManager.getTextColor(),
+        fill: false,
+        tension: 0
+      } as any);
+    }
+
     return new (window as any).Chart(ctx, config);
   }
 
+  /**
+   * Describe the consensus confidence interval for the chart subtitle
+   */
+  private describeConsensusInterval(consensusData: ConsensusData): string {
+    const mcq = consensusData.mcqDistribution;
+    if (mcq?.modeInterval) {
+      const level = Math.round(mcq.modeInterval.level * 100);
+      const lower = (mcq.modeInterval.lower * 100).toFixed(0);
+      const upper = (mcq.modeInterval.upper * 100).toFixed(0);
+      return `Choice ${mcq.mode}: ${mcq.modePercentage.toFixed(0)}% (${level}% CI ${lower}–${upper}%)`;
+    }
+
+    const frq = consensusData.frqDistribution;
+    if (frq?.meanInterval) {
+      const level = Math.round(frq.meanInterval.level * 100);
+      return `Mean ${frq.mean.toFixed(2)} (${level}% CI ${frq.meanInterval.lower.toFixed(2)}–${frq.meanInterval.upper.toFixed(2)})`;
+    }
+
+    return '';
+  }
+
   /**
    * Get jittered Y position for dotplot
    */
@@ -5,6 +5,7 @@
  */
 
 import { EnhancedBlockchain } from '../core/enhanced-blockchain';
+import { escapeHtml } from '../utils/quizUtils';
 
 // Import allUnitsData.js
 declare const ALL_UNITS_DATA: any[];
@@ -77,9 +78,9 @@ function calculateUnitProgress(unit: any, blockchain: EnhancedBlockchain): UnitP
     
     totalQuestions += topic.quizzes.length;
     
-    // Check blockchain for attestations
+    // Check blockchain for attestations (indexed lookup, no chain scan)
     topic.quizzes.forEach((quiz: any) => {
-      const attestations = blockchain.getAttestationsForQuestion(quiz.quizId);
+      const attestations = blockchain.getAttestationsByQuestion(quiz.quizId);
       if (attestations.length > 0) {
         attestedQuestions++;
         const consensus = blockchain.getConsensusForQuestion(quiz.quizId);
@@ -327,8 +328,17 @@ function createStatsSection(profile: Profile, blockchain: EnhancedBlockchain): H
   const section = document.createElement('div');
   section.className = 'dashboard-section stats-section';
   
+  // Names and tags come from other students' transactions, so escape them
+  const display = blockchain.getDisplayProfile(profile.pubkey);
+  const name = escapeHtml(display?.displayName ?? profile.username);
+  const avatar = display?.avatar ? `${escapeHtml(display.avatar)} ` : '';
+  const tags = display?.tags.length
+    ? `<div class="profile-tags">${display.tags.map(escapeHtml).join(' · ')}</div>`
+    : '';
+  
   section.innerHTML = `
-    <h2 class="section-title">Your Stats</h2>
+    <h2 class="section-title">${avatar}${name}</h2>
+    ${tags}
     <div class="stats-grid">
       <div class="stat-card">
         <div class="stat-value">${profile.reputationScore}</div>
@@ -503,7 +513,7 @@ function createRecentActivity(blockchain: EnhancedBlockchain): HTMLElement {
     item.className = 'activity-item';
     
     const time = new Date(tx.timestamp).toLocaleString();
-    const text = formatActivityText(tx);
+    const text = `${escapeHtml(blockchain.getDisplayName(tx.attesterPubkey))}: ${formatActivityText(tx)}`;
     
     item.innerHTML = `
       <div class="activity-time">${time}</div>
@@ -582,6 +592,8 @@ function formatActivityText(tx: any): string {
       return `AP revealed answer for ${tx.data.questionId}`;
     case 'CreateUser':
       return `New user joined`;
+    case 'ProfileUpdate':
+      return `Updated their profile`;
     default:
       return `Transaction: ${tx.txType}`;
   }
@@ -5,6 +5,7 @@
 
 export interface HeaderOptions {
   username: string;
+  avatar?: string;
   reputationScore: number;
   currentUnit?: string;
   examDate: Date;
@@ -12,6 +13,7 @@ export interface HeaderOptions {
   onThemeToggle?: () => void;
   onAudioToggle?: () => void;
   onSyncClick?: () => void;
+  onProfileClick?: () => void;
   lastSyncTime?: Date;
 }
 
@@ -196,7 +198,16 @@ function createLeftSection(options: HeaderOptions): HTMLElement {
   
   const username = document.createElement('div');
   username.className = 'username';
-  username.textContent = options.username || 'Anonymous';
+  username.textContent = options.avatar
+    ? `${options.avatar} ${options.username || 'Anonymous'}`
+    : options.username || 'Anonymous';
+  
+  // Clicking the name opens the profile picker for switching students
+  if (options.onProfileClick) {
+    username.title = 'Switch profile';
+    username.style.cursor = 'pointer';
+    username.onclick = () => options.onProfileClick!();
+  }
   
   const reputation = document.createElement('div');
   reputation.className = 'reputation';
@@ -0,0 +1,159 @@
+/**
+ * Profile Picker Component
+ * Lists the profiles stored on this device so students sharing it can switch;
+ * opening a profile asks for its passphrase
+ */
+
+export interface PickerProfile {
+  username: string;
+  pubkey: string;
+}
+
+export interface ProfilePickerOptions {
+  profiles: PickerProfile[];
+  activePubkey?: string;
+  onSelect: (pubkey: string, passphrase: string) => Promise<boolean>;
+  onSignOut?: () => void;
+}
+
+/**
+ * Render the profile picker
+ */
+export function renderProfilePicker(options: ProfilePickerOptions): HTMLElement {
+  const picker = document.createElement('div');
+  picker.className = 'profile-picker';
+
+  const title = document.createElement('h2');
+  title.textContent = 'Who is studying?';
+  picker.appendChild(title);
+
+  if (options.profiles.length === 0) {
+    const empty = document.createElement('p');
+    empty.className = 'profile-empty';
+    empty.textContent = 'No profiles on this device yet.';
+    picker.appendChild(empty);
+  }
+
+  const list = document.createElement('div');
+  list.className = 'profile-list';
+  for (const profile of options.profiles) {
+    list.appendChild(createProfileRow(profile, options));
+  }
+  picker.appendChild(list);
+
+  if (options.activePubkey && options.onSignOut) {
+    const signOutBtn = document.createElement('button');
+    signOutBtn.className = 'profile-signout';
+    signOutBtn.textContent = 'Sign out';
+    signOutBtn.onclick = () => options.onSignOut!();
+    picker.appendChild(signOutBtn);
+  }
+
+  const style = document.createElement('style');
+  style.textContent = `
+    .profile-picker {
+      max-width: 420px;
+      margin: 2rem auto;
+      display: flex;
+      flex-direction: column;
+      gap: 1rem;
+    }
+
+    .profile-list {
+      display: flex;
+      flex-direction: column;
+      gap: 0.5rem;
+    }
+
+    .profile-row {
+      padding: 0.75rem 1rem;
+      border-radius: 8px;
+      background: var(--card-bg, #f5f5f5);
+    }
+
+    .profile-row.active {
+      outline: 2px solid #667eea;
+    }
+
+    .profile-name {
+      width: 100%;
+      text-align: left;
+      font-size: 1.1rem;
+      background: none;
+      border: none;
+      cursor: pointer;
+    }
+
+    .profile-unlock {
+      display: none;
+      gap: 0.5rem;
+      margin-top: 0.5rem;
+    }
+
+    .profile-row.open .profile-unlock {
+      display: flex;
+    }
+
+    .profile-error {
+      color: #ff6b6b;
+      font-size: 0.9rem;
+    }
+  `;
+  picker.appendChild(style);
+
+  return picker;
+}
+
+/**
+ * Create one profile row with its passphrase form
+ */
+function createProfileRow(profile: PickerProfile, options: ProfilePickerOptions): HTMLElement {
+  const row = document.createElement('div');
+  row.className = profile.pubkey === options.activePubkey ? 'profile-row active' : 'profile-row';
+
+  const name = document.createElement('button');
+  name.className = 'profile-name';
+  name.textContent = profile.username;
+  row.appendChild(name);
+
+  const form = document.createElement('form');
+  form.className = 'profile-unlock';
+
+  const passphrase = document.createElement('input');
+  passphrase.type = 'password';
+  passphrase.placeholder = 'Passphrase';
+  passphrase.autocomplete = 'current-password';
+  form.appendChild(passphrase);
+
+  const submit = document.createElement('button');
+  submit.type = 'submit';
+  submit.textContent = 'Open';
+  form.appendChild(submit);
+
+  const error = document.createElement('div');
+  error.className = 'profile-error';
+
+  row.appendChild(form);
+  row.appendChild(error);
+
+  name.onclick = () => {
+    row.parentElement?.querySelectorAll('.profile-row.open').forEach(other => {
+      if (other !== row) other.classList.remove('open');
+    });
+    row.classList.toggle('open');
+    passphrase.focus();
+  };
+
+  form.onsubmit = async (e) => {
+    e.preventDefault();
+    error.textContent = '';
+    const opened = await options.onSelect(profile.pubkey, passphrase.value);
+    // Never leave a passphrase sitting in the DOM
+    passphrase.value = '';
+    if (!opened) {
+      error.textContent = 'Wrong passphrase';
+    }
+  };
+
+  return row;
+}
@@ -0,0 +1,104 @@
+/**
+ * Recovery Shares Component
+ * Printable cards, one QR code per recovery share, for a student to hand
+ * to classmates or the teacher
+ */
+
+import { decodeShare } from '../core/shamir';
+import { QRDisplay } from '../sync/qr-display';
+
+export interface RecoverySharesOptions {
+  username: string;
+  shareCodes: string[];
+  onPrint?: () => void;
+}
+
+/**
+ * Render the share cards with a print button
+ */
+export async function renderRecoveryShares(options: RecoverySharesOptions): Promise<HTMLElement> {
+  const sheet = document.createElement('div');
+  sheet.className = 'recovery-shares';
+
+  const first = decodeShare(options.shareCodes[0]);
+  const intro = document.createElement('p');
+  intro.className = 'recovery-intro no-print';
+  intro.textContent = `Give each card to a different person. Any ${first.threshold} of these ` +
+    `${first.total} cards restore ${options.username}'s profile; fewer reveal nothing.`;
+  sheet.appendChild(intro);
+
+  const printBtn = document.createElement('button');
+  printBtn.className = 'recovery-print no-print';
+  printBtn.textContent = 'Print cards';
+  printBtn.onclick = () => {
+    if (options.onPrint) {
+      options.onPrint();
+    }
+    window.print();
+  };
+  sheet.appendChild(printBtn);
+
+  const qrDisplay = new QRDisplay();
+  const cards = document.createElement('div');
+  cards.className = 'recovery-cards';
+  for (const code of options.shareCodes) {
+    cards.appendChild(await createShareCard(options.username, code, qrDisplay));
+  }
+  sheet.appendChild(cards);
+
+  const style = document.createElement('style');
+  style.textContent = `
+    .recovery-cards {
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(220px, 1fr));
+      gap: 1rem;
+    }
+
+    .recovery-card {
+      border: 1px dashed #999;
+      border-radius: 8px;
+      padding: 1rem;
+      text-align: center;
+      break-inside: avoid;
+    }
+
+    .recovery-card img {
+      width: 180px;
+      height: 180px;
+    }
+
+    @media print {
+      .no-print {
+        display: none;
+      }
+    }
+  `;
+  sheet.appendChild(style);
+
+  return sheet;
+}
+
+/**
+ * Create one card: QR code plus enough text to know what it is
+ */
+async function createShareCard(username: string, code: string, qrDisplay: QRDisplay): Promise<HTMLElement> {
+  const share = decodeShare(code);
+
+  const card = document.createElement('div');
+  card.className = 'recovery-card';
+
+  const title = document.createElement('h4');
+  title.textContent = `${username} · share ${share.index} of ${share.total}`;
+  card.appendChild(title);
+
+  const qr = document.createElement('img');
+  qr.src = await qrDisplay.generateTextQR(code);
+  qr.alt = `Recovery share ${share.index}`;
+  card.appendChild(qr);
+
+  const note = document.createElement('p');
+  note.textContent = `${share.threshold} cards needed · set ${share.setId}`;
+  card.appendChild(note);
+
+  return card;
+}
@@ -5,17 +5,22 @@
  */
 
 import { EnhancedBlockchain } from '../core/enhanced-blockchain';
-import { loadState, saveState } from '../persistence/storage';
+import { Storage, loadState, saveState } from '../persistence/storage';
+import { toPublicProfile } from '../core/profile';
+import { keySession } from '../core/keystore';
+import { beginProfileSession, endProfileSession } from '../core/profile-session';
 import { renderHeader } from './header';
 import { renderDashboard } from './dashboard';
+import { renderProfilePicker } from './profile-picker';
 import { QuestionController } from '../question/question';
 import { Theme, initTheme, toggleTheme } from './theme';
 import { initAudio, playSound } from './audio';
 import { SyncModal } from './sync-modal';
 import { SyncController } from '../sync';
 import { USBExporter } from '../persistence/export';
+import { ProfileTransferController } from '../sync/transfer-controller';
 
-export type ViewMode = 'dashboard' | 'question' | 'attestation' | 'results' | 'sync';
+export type ViewMode = 'dashboard' | 'question' | 'attestation' | 'results' | 'sync' | 'profiles';
 
 // Define Profile interface locally to avoid import issues
 interface Profile {
@@ -38,6 +43,11 @@ export interface UIState {
   examDate: Date;
 }
 
+// Placeholder profile while nobody is signed in
+function emptyProfile(): Profile {
+  return { username: '', pubkey: '', privkey: '', seedphrase: '', reputationScore: 0 };
+}
+
 class UIController {
   private state: UIState;
   private container: HTMLElement;
@@ -46,12 +56,14 @@ class UIController {
   private questionController: QuestionController | null = null;
   private syncModal: SyncModal | null = null;
   private syncController: SyncController | null = null;
+  private storage: Storage = new Storage();
+  private transferController: ProfileTransferController = new ProfileTransferController();
 
   constructor() {
     // Initialize with default state - will load persisted state in init()
     this.state = {
       currentView: 'dashboard',
-      profile: { username: '', pubkey: '', privkey: '', seedphrase: '', reputationScore: 0 },
+      profile: emptyProfile(),
       blockchain: new EnhancedBlockchain(),
       theme: { name: 'light', colors: {} },
       audioEnabled: true,
@@ -59,8 +71,7 @@ class UIController {
     };
     
     // Initialize sync components
-    this.syncModal = new SyncModal(this.state.blockchain, this.state.profile);
-    this.syncController = new SyncController(this.state.blockchain, this.state.profile);
+    this.createProfileComponents();
 
     // Initialize container
     this.container = document.getElementById('app') || document.body;
@@ -83,6 +94,14 @@ class UIController {
     } catch (error) {
       console.log('No saved state found or error loading:', error);
     }
+    await this.storage.init();
+
+    // An idle lock sends the student back to the picker to re-enter their passphrase
+    keySession.onLock(() => {
+      if (this.state.profile.pubkey) {
+        this.switchView('profiles');
+      }
+    });
 
     // Clear container
     this.container.innerHTML = '';
@@ -98,8 +117,8 @@ class UIController {
     // Create main layout
     this.createLayout();
 
-    // Render initial view
-    await this.switchView('dashboard');
+    // Render initial view; nobody is signed in yet, so start at the picker
+    await this.switchView('profiles');
 
     // Set up auto-save
     this.setupAutoSave();
@@ -134,8 +153,14 @@ class UIController {
   private updateHeader(): void {
     if (!this.headerEl) return;
 
+    // Show the latest display name from the chain rather than the fixed username
+    const display = this.state.profile.pubkey
+      ? this.state.blockchain.getDisplayProfile(this.state.profile.pubkey)
+      : null;
+
     const headerContent = renderHeader({
-      username: this.state.profile.username,
+      username: display?.displayName ?? this.state.profile.username,
+      avatar: display?.avatar,
       reputationScore: this.state.profile.reputationScore,
       currentUnit: this.state.currentUnit,
       examDate: this.state.examDate,
@@ -143,6 +168,7 @@ class UIController {
       onThemeToggle: () => this.handleThemeToggle(),
       onAudioToggle: () => this.handleAudioToggle(),
       onSyncClick: () => this.handleSyncClick(),
+      onProfileClick: () => this.switchView('profiles'),
       lastSyncTime: this.syncController?.getLastSyncTime() || undefined
     });
 
@@ -156,6 +182,11 @@ class UIController {
   async switchView(view: ViewMode, params?: any): Promise<void> {
     if (!this.contentEl) return;
 
+    // Answering signs attestations, so it needs a signed-in student
+    if ((view === 'question' || view === 'attestation') && !this.state.profile.pubkey) {
+      view = 'profiles';
+    }
+
     // Update state
     this.state.currentView = view;
 
@@ -177,6 +208,9 @@ class UIController {
       case 'results':
         await this.renderResultsView(params);
         break;
+      case 'profiles':
+        await this.renderProfilesView();
+        break;
     }
 
     // Play transition sound
@@ -242,7 +276,8 @@ class UIController {
       params?.mode || 'blind',
       {
         onReveal: () => this.handleAttestationReveal(),
-        onNext: () => this.handleNextQuestion()
+        onNext: () => this.handleNextQuestion(),
+        onChangeAnswer: () => this.handleChangeAnswer()
       }
     );
 
@@ -262,6 +297,113 @@ class UIController {
     this.contentEl.appendChild(resultsEl);
   }
 
+  /**
+   * Render the profile picker
+   */
+  private async renderProfilesView(): Promise<void> {
+    if (!this.contentEl) return;
+
+    const profiles = await this.storage.loadAllProfiles();
+    const picker = renderProfilePicker({
+      profiles,
+      activePubkey: this.state.profile.pubkey || undefined,
+      onSelect: (pubkey, passphrase) => this.switchProfile(pubkey, passphrase),
+      onSignOut: () => this.signOut()
+    });
+
+    this.contentEl.appendChild(picker);
+  }
+
+  /**
+   * Switch to another student's profile
+   * The passphrase is checked before the current session is torn down, so a typo changes nothing
+   */
+  public async switchProfile(pubkey: string, passphrase: string): Promise<boolean> {
+    let profile;
+    try {
+      profile = await this.storage.unlockProfile(pubkey, passphrase);
+    } catch (error) {
+      console.error('Failed to unlock profile:', error);
+      return false;
+    }
+
+    await this.teardownSession();
+    beginProfileSession(profile.pubkey, profile.privkey, this.state.blockchain.resolveIdentity(profile.pubkey));
+    this.state.profile = toPublicProfile(profile);
+    this.createProfileComponents();
+
+    await this.switchView('dashboard');
+    return true;
+  }
+
+  /**
+   * Sign the current student out and return to the picker
+   */
+  public async signOut(): Promise<void> {
+    await this.teardownSession();
+    this.createProfileComponents();
+    await this.switchView('profiles');
+  }
+
+  /**
+   * Drop everything tied to the current student: open sync sessions,
+   * the question controller, navigation state, unlocked keys and the storage namespace
+   */
+  private async teardownSession(): Promise<void> {
+    // Clear the profile first so the lock listener does not re-enter switchView
+    this.state.profile = emptyProfile();
+    this.state.currentTopic = undefined;
+    this.state.currentQuestion = undefined;
+
+    this.syncModal?.close();
+    await this.syncController?.stop();
+    await this.transferController.cancel();
+    this.syncModal = null;
+    this.syncController = null;
+    this.questionController = null;
+
+    endProfileSession();
+  }
+
+  /**
+   * Show the current profile as transfer QR codes for another device
+   * Returns the PIN to type on the receiving device, or null if the passphrase is wrong
+   */
+  public async sendProfileTransfer(passphrase: string, container: HTMLElement): Promise<string | null> {
+    if (!this.state.profile.pubkey) return null;
+
+    try {
+      const profile = await this.storage.unlockProfile(this.state.profile.pubkey, passphrase);
+      return await this.transferController.send(profile, container);
+    } catch (error) {
+      console.error('Failed to start profile transfer:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Receive a profile shown on another device and add it to the picker
+   */
+  public async receiveProfileTransfer(containerId: string, pin: string, passphrase: string): Promise<boolean> {
+    try {
+      await this.transferController.receive(containerId, pin, passphrase, this.storage);
+      await this.switchView('profiles');
+      return true;
+    } catch (error) {
+      console.error('Profile transfer failed:', error);
+      await this.transferController.cancel();
+      return false;
+    }
+  }
+
+  /**
+   * Create the components that act on behalf of the current profile
+   */
+  private createProfileComponents(): void {
+    this.syncModal = new SyncModal(this.state.blockchain, this.state.profile);
+    this.syncController = new SyncController(this.state.blockchain, this.state.profile);
+  }
+
   /**
    * Handle unit change from header
    */
@@ -307,11 +449,10 @@ class UIController {
   private async handleAnswerSubmit(answer: any): Promise<void> {
     if (!this.questionController) return;
 
-    // Create attestation transaction
-    const success = await this.questionController.submitAttestation(
-      this.state.currentQuestion!,
-      answer
-    );
+    // Create attestation transaction, or amend the one still in its grace window
+    const success = this.questionController.getRevisionTimeRemaining() > 0
+      ? await this.questionController.amendAttestation(this.state.currentQuestion!, answer)
+      : await this.questionController.submitAttestation(this.state.currentQuestion!, answer);
 
     if (success) {
       // Switch to attestation view
@@ -327,6 +468,13 @@ class UIController {
     }
   }
 
+  /**
+   * Go back to the question to amend a just-submitted answer
+   */
+  private async handleChangeAnswer(): Promise<void> {
+    await this.switchView('question', { questionId: this.state.currentQuestion });
+  }
+
   /**
    * Handle question skip
    */
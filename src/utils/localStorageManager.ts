@@ -10,6 +10,7 @@ import type {
   Theme,
   RateLimitInfo 
 } from '../types';
+import { scopedStorageKey } from '../core/profile-session';
 
 /**
  * Storage keys structure
@@ -25,6 +26,18 @@ interface StorageKeys {
   consensusCache: string;
 }
 
+/**
+ * Keys holding one student's data; these are namespaced by the active profile.
+ * Theme, audio and volume are device preferences and stay shared.
+ */
+const PROFILE_SCOPED_KEYS: Array<keyof StorageKeys> = [
+  'attestations',
+  'rateLimits',
+  'userProfile',
+  'quizProgress',
+  'consensusCache'
+];
+
 /**
  * User profile data
  */
@@ -91,6 +104,13 @@ export class LocalStorageManager {
     return LocalStorageManager.instance;
   }
   
+  /**
+   * Resolve a logical key to its storage key for the active profile
+   */
+  private storageKey(key: keyof StorageKeys): string {
+    return PROFILE_SCOPED_KEYS.includes(key) ? scopedStorageKey(this.keys[key]) : this.keys[key];
+  }
+  
   /**
    * Check if localStorage is available
    */
@@ -155,7 +175,7 @@ export class LocalStorageManager {
    * Get user profile
    */
   getUserProfile(): UserProfile | null {
-    return this.getItem<UserProfile>(this.keys.userProfile);
+    return this.getItem<UserProfile>(this.storageKey('userProfile'));
   }
   
   /**
@@ -170,7 +190,7 @@ export class LocalStorageManager {
       createdAt: existing?.createdAt || Date.now()
     };
     
-    return this.setItem(this.keys.userProfile, updated);
+    return this.setItem(this.storageKey('userProfile'), updated);
   }
   
   // ============= Quiz Progress =============
@@ -179,7 +199,7 @@ export class LocalStorageManager {
    * Get quiz progress
    */
   getQuizProgress(): QuizProgress | null {
-    return this.getItem<QuizProgress>(this.keys.quizProgress);
+    return this.getItem<QuizProgress>(this.storageKey('quizProgress'));
   }
   
   /**
@@ -196,7 +216,7 @@ export class LocalStorageManager {
       startedAt: existing?.startedAt || Date.now()
     };
     
-    return this.setItem(this.keys.quizProgress, updated);
+    return this.setItem(this.storageKey('quizProgress'), updated);
   }
   
   /**
@@ -224,7 +244,7 @@ export class LocalStorageManager {
    * Get all attestations
    */
   getAttestations(): AttestationRecord[] {
-    return this.getItem<AttestationRecord[]>(this.keys.attestations) || [];
+    return this.getItem<AttestationRecord[]>(this.storageKey('attestations')) || [];
   }
   
   /**
@@ -245,7 +265,7 @@ export class LocalStorageManager {
     progress.attestedQuestions[attestation.questionId] = attestation;
     this.saveQuizProgress(progress);
     
-    return this.setItem(this.keys.attestations, attestations);
+    return this.setItem(this.storageKey('attestations'), attestations);
   }
   
   /**
@@ -269,7 +289,7 @@ export class LocalStorageManager {
    * Get rate limit info
    */
   getRateLimits(): Record<string, number> {
-    return this.getItem<Record<string, number>>(this.keys.rateLimits) || {};
+    return this.getItem<Record<string, number>>(this.storageKey('rateLimits')) || {};
   }
   
   /**
@@ -312,7 +332,7 @@ export class LocalStorageManager {
     const key = `${userPubkey}:${questionId}`;
     limits[key] = Date.now();
     
-    return this.setItem(this.keys.rateLimits, limits);
+    return this.setItem(this.storageKey('rateLimits'), limits);
   }
   
   // ============= Consensus Cache =============
@@ -321,7 +341,7 @@ export class LocalStorageManager {
    * Get cached consensus data
    */
   getConsensusCache(): Record<string, any> {
-    return this.getItem<Record<string, any>>(this.keys.consensusCache) || {};
+    return this.getItem<Record<string, any>>(this.storageKey('consensusCache')) || {};
   }
   
   /**
@@ -343,7 +363,7 @@ export class LocalStorageManager {
       }
     }
     
-    return this.setItem(this.keys.consensusCache, cache);
+    return this.setItem(this.storageKey('consensusCache'), cache);
   }
   
   /**
@@ -358,7 +378,7 @@ export class LocalStorageManager {
     // Check if expired
     if (entry.expires < Date.now()) {
       delete cache[questionId];
-      this.setItem(this.keys.consensusCache, cache);
+      this.setItem(this.storageKey('consensusCache'), cache);
       return null;
     }
     
@@ -413,7 +433,7 @@ export class LocalStorageManager {
   // ============= Data Management =============
   
   /**
-   * Export all data
+   * Export the active profile's data and the device preferences
    */
   exportData(): Record<string, any> {
     if (!this.isAvailable()) return {};
@@ -421,7 +441,7 @@ export class LocalStorageManager {
     const data: Record<string, any> = {};
     
     for (const key in this.keys) {
-      const storageKey = (this.keys as any)[key];
+      const storageKey = this.storageKey(key as keyof StorageKeys);
       const value = this.getItem(storageKey);
       if (value !== null) {
         data[key] = value;
@@ -440,7 +460,7 @@ export class LocalStorageManager {
     try {
       for (const key in data) {
         if (key in this.keys) {
-          const storageKey = (this.keys as any)[key];
+          const storageKey = this.storageKey(key as keyof StorageKeys);
           this.setItem(storageKey, data[key]);
         }
       }
@@ -451,14 +471,14 @@ export class LocalStorageManager {
   }
   
   /**
-   * Clear all data
+   * Clear the active profile's data and the device preferences
    */
   clearAll(): boolean {
     if (!this.isAvailable()) return false;
     
     try {
       for (const key in this.keys) {
-        const storageKey = (this.keys as any)[key];
+        const storageKey = this.storageKey(key as keyof StorageKeys);
         this.removeItem(storageKey);
       }
       return true;
@@ -475,7 +495,7 @@ export class LocalStorageManager {
     
     let size = 0;
     for (const key in this.keys) {
-      const storageKey = (this.keys as any)[key];
+      const storageKey = this.storageKey(key as keyof StorageKeys);
       const item = localStorage.getItem(storageKey);
       if (item) {
         size += item.length;